@@ -0,0 +1,306 @@
+/**
+ * Command-line tool for checking, explaining, listing and linting policies
+ *
+ * Answers "why can't user X do Y" without writing a script. Hierarchies are
+ * loaded from a module exporting them (the default export, or the one named by
+ * `--export`) or from a JSON policy. State files hold a state set, or an array
+ * of state sets, as JSON values (see `encodeStateSet`). Requests are given as
+ * JSON text, or read from a file with `@path`.
+ *
+ * Commands:
+ * - `check <hierarchy> <states> <key> <request>`: validates a request
+ * - `explain <hierarchy> <states> <key> <request>`: validates a request and
+ *   prints the decision trace
+ * - `keys <hierarchy>`: lists the permission keys with their schemas and rules
+ * - `lint <hierarchy> [states]`: reports the findings of `lintHierarchy` and
+ *   the issues of the state file
+ *
+ * Output is colored text, or JSON with `--json`. Exit codes: 0 when the request
+ * is granted (or no error is found), 1 when it is denied (or errors are found),
+ * 2 for invalid arguments and files that cannot be loaded.
+ *
+ * ## Example Usage
+ *
+ * ```sh
+ * deno run --allow-read cli/cli.ts check ./policy.ts ./states.json \
+ *   files.read '{"from":"user:alice","target":"doc-1"}'
+ *
+ * deno run --allow-read cli/cli.ts explain ./policy.json ./states.json \
+ *   files.read @request.json --json
+ * ```
+ *
+ * ```typescript
+ * import { runCli } from "@diister/quick-permission/cli";
+ *
+ * const code = await runCli(["keys", "./policy.json", "--json"]);
+ * ```
+ *
+ * @module cli
+ */
+import {
+  decodeStateSet,
+  formatIssuePath,
+  validateStateSet,
+} from "../core/codec.ts";
+import { lintHierarchy } from "../core/lint.ts";
+import { validateAsync } from "../core/validation.ts";
+import {
+  policyFromJson,
+  policyFromModule,
+  reviveRequest,
+} from "../http/pdp.ts";
+import type {
+  PermissionHierarchy,
+  PermissionStateSet,
+} from "../types/common.ts";
+import {
+  type CliFinding,
+  describeRule,
+  formatFindings,
+  formatKeys,
+  formatTrace,
+  formatValidationResult,
+  type KeyDescription,
+} from "./format.ts";
+
+/**
+ * Where the command-line tool writes its output
+ */
+export type CliOutput = {
+  /** Writes the output of a command */
+  log(text: string): void;
+  /** Writes usage and loading errors */
+  error(text: string): void;
+};
+
+const USAGE = `Usage:
+  cli.ts check <hierarchy> <states.json> <key> <request JSON | @file> [--json]
+  cli.ts explain <hierarchy> <states.json> <key> <request JSON | @file> [--json]
+  cli.ts keys <hierarchy> [--json]
+  cli.ts lint <hierarchy> [states.json] [--json]
+
+Options:
+  --export <name>  Export of the hierarchy module (default: "default")
+  --json           Print JSON instead of colored text`;
+
+/**
+ * Runs the command-line tool
+ *
+ * @param args Command-line arguments, without the script name
+ * @param output Where to write the output, the console by default
+ * @returns The exit code: 0 when granted or without errors, 1 when denied or
+ * with errors, 2 for invalid arguments and files that cannot be loaded
+ */
+export async function runCli(
+  args: string[],
+  output: CliOutput = console,
+): Promise<number> {
+  let parsed;
+  try {
+    parsed = parseArgs(args);
+  } catch (error) {
+    output.error(`${(error as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+  const { command, positionals, json, exportName } = parsed;
+  const arity: Record<string, [number, number]> = {
+    check: [4, 4],
+    explain: [4, 4],
+    keys: [1, 1],
+    lint: [1, 2],
+  };
+  if (command === undefined || !(command in arity)) {
+    output.error(
+      command === undefined
+        ? USAGE
+        : `Unknown command "${command}"\n\n${USAGE}`,
+    );
+    return 2;
+  }
+  const [min, max] = arity[command];
+  if (positionals.length < min || positionals.length > max) {
+    output.error(`Wrong number of arguments for "${command}"\n\n${USAGE}`);
+    return 2;
+  }
+
+  let hierarchy: PermissionHierarchy<any>;
+  try {
+    hierarchy = await loadPolicy(positionals[0], exportName);
+  } catch (error) {
+    output.error(`Cannot load ${positionals[0]}: ${(error as Error).message}`);
+    return 2;
+  }
+
+  switch (command) {
+    case "keys": {
+      const keys = describeKeys(hierarchy);
+      output.log(json ? JSON.stringify(keys, null, 2) : formatKeys(keys));
+      return 0;
+    }
+    case "lint": {
+      const findings: CliFinding[] = lintHierarchy(hierarchy);
+      if (positionals[1] !== undefined) {
+        try {
+          findings.push(
+            ...lintStates(hierarchy, await Deno.readTextFile(positionals[1])),
+          );
+        } catch (error) {
+          output.error(
+            `Cannot load ${positionals[1]}: ${(error as Error).message}`,
+          );
+          return 2;
+        }
+      }
+      output.log(
+        json ? JSON.stringify(findings, null, 2) : formatFindings(findings),
+      );
+      return findings.some((finding) => finding.severity === "error") ? 1 : 0;
+    }
+    default: {
+      const [, statesPath, key, requestArg] = positionals;
+      let states: PermissionStateSet<any>[];
+      let request: Record<string, unknown>;
+      try {
+        if (!Object.hasOwn(hierarchy.flat, key)) {
+          throw new Error(`Unknown permission key "${key}"`);
+        }
+        states = await loadStates(hierarchy, statesPath);
+        request = await loadRequest(requestArg);
+      } catch (error) {
+        output.error((error as Error).message);
+        return 2;
+      }
+
+      let result;
+      try {
+        result = await validateAsync(
+          hierarchy,
+          states,
+          key as never,
+          request as never,
+          { explain: command === "explain" },
+        );
+      } catch (error) {
+        output.error(`Validation failed: ${(error as Error).message}`);
+        return 2;
+      }
+      if (json) {
+        output.log(JSON.stringify(result, null, 2));
+      } else {
+        output.log(formatValidationResult(result));
+        if (result.trace) output.log(formatTrace(result.trace));
+      }
+      return result.valid ? 0 : 1;
+    }
+  }
+}
+
+/**
+ * Splits the arguments into the command, positional arguments and options
+ *
+ * @throws Error for unknown options and options missing their value
+ */
+function parseArgs(args: string[]) {
+  const positionals: string[] = [];
+  let json = false;
+  let exportName = "default";
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--json") {
+      json = true;
+    } else if (arg === "--export") {
+      if (args[i + 1] === undefined) {
+        throw new Error("Option --export expects an export name");
+      }
+      exportName = args[++i];
+    } else if (arg.startsWith("--")) {
+      throw new Error(`Unknown option "${arg}"`);
+    } else {
+      positionals.push(arg);
+    }
+  }
+  const [command, ...rest] = positionals;
+  return { command, positionals: rest, json, exportName };
+}
+
+/**
+ * Loads a hierarchy from a JSON policy or from a module export
+ */
+function loadPolicy(
+  path: string,
+  exportName: string,
+): Promise<PermissionHierarchy<any>> {
+  return path.endsWith(".json")
+    ? policyFromJson(path)()
+    : policyFromModule(path, exportName)();
+}
+
+/**
+ * Reads and decodes a state file holding a state set or an array of them
+ */
+async function loadStates(
+  hierarchy: PermissionHierarchy<any>,
+  path: string,
+): Promise<PermissionStateSet<any>[]> {
+  const encoded = JSON.parse(await Deno.readTextFile(path));
+  return (Array.isArray(encoded) ? encoded : [encoded]).map((stateSet) =>
+    decodeStateSet(hierarchy, stateSet)
+  );
+}
+
+/**
+ * Parses a request given as JSON text or as `@path` of a JSON file
+ */
+async function loadRequest(arg: string): Promise<Record<string, unknown>> {
+  const request = JSON.parse(
+    arg.startsWith("@") ? await Deno.readTextFile(arg.slice(1)) : arg,
+  );
+  if (typeof request !== "object" || request === null) {
+    throw new Error("The request must be a JSON object");
+  }
+  return reviveRequest(request);
+}
+
+/**
+ * Describes the keys of a hierarchy, in the order of `hierarchy.keys`
+ */
+function describeKeys(hierarchy: PermissionHierarchy<any>): KeyDescription[] {
+  return (hierarchy.keys as string[]).map((key) => {
+    const permission = hierarchy.flat[key];
+    return {
+      key,
+      schemas: permission.schemas.map((schema: { name: string }) =>
+        schema.name
+      ),
+      rules: permission.rules.map(describeRule),
+      inherit: permission.inherit,
+      ...(typeof permission.combining === "string" &&
+        { combining: permission.combining }),
+    };
+  });
+}
+
+/**
+ * Reports the issues of the state sets of a state file
+ */
+function lintStates(
+  hierarchy: PermissionHierarchy<any>,
+  text: string,
+): CliFinding[] {
+  const encoded = JSON.parse(text);
+  const stateSets = Array.isArray(encoded) ? encoded : [encoded];
+  return stateSets.flatMap((stateSet, index) =>
+    validateStateSet(hierarchy, stateSet, { encoded: true }).issues.map(
+      (issue): CliFinding => ({
+        severity: "error",
+        message: `${stateSets.length > 1 ? `State set #${index}: ` : ""}${
+          formatIssuePath(issue)
+        }: ${issue.message}`,
+      }),
+    )
+  );
+}
+
+if (import.meta.main) {
+  Deno.exit(await runCli(Deno.args));
+}
@@ -0,0 +1,267 @@
+/**
+ * Human-readable output of the command-line tool
+ *
+ * Formats validation results, decision traces, the keys of a hierarchy and
+ * lint findings as colored text. Colors are left out when the `NO_COLOR`
+ * environment variable is set.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { formatValidationResult } from "@diister/quick-permission/cli/format";
+ *
+ * const result = validate(files, states, "files.read", request);
+ * console.log(formatValidationResult(result));
+ * ```
+ *
+ * @module format
+ */
+import {
+  bgGreen,
+  bgRed,
+  bgYellow,
+  blue,
+  bold,
+  cyan,
+  gray,
+  green,
+  red,
+  white,
+  yellow,
+} from "@std/fmt/colors";
+import type { ValidationResult } from "../types/common.ts";
+import type { RuleDefinition } from "../types/policy.ts";
+import type { AnyRule } from "../types/rule.ts";
+import type { RuleTrace, ValidationTrace } from "../types/trace.ts";
+
+/**
+ * Description of a permission key, as listed by the `keys` command
+ */
+export type KeyDescription = {
+  /** The permission key */
+  key: string;
+  /** Names of the schemas of the permission */
+  schemas: string[];
+  /** Rules of the permission, operators written as `and(a, b)` */
+  rules: string[];
+  /** Whether grants on ancestors satisfy the permission */
+  inherit: boolean;
+  /** Name of the combining algorithm of the rules, when one is set */
+  combining?: string;
+};
+
+/**
+ * Problem found by the `lint` command
+ */
+export type CliFinding = {
+  /** Errors make the command fail, warnings do not */
+  severity: "error" | "warning";
+  /** Permission key, or key of the state set, the finding is about */
+  key?: string;
+  /** Name of the lint rule reporting the finding, absent for state issues */
+  rule?: string;
+  /** Path of the rule holding the problem, such as `rules[0].operands[1]` */
+  rulePath?: string;
+  /** Human-readable description of the problem */
+  message: string;
+};
+
+/**
+ * Formats a validation result: its status and the reasons of a denial
+ *
+ * @param result The validation result
+ * @returns The colored text
+ */
+export function formatValidationResult(result: ValidationResult): string {
+  const lines = [bold("\n======= Validation Results =======")];
+
+  // Show validation result
+  const validationStatus = result.valid === true
+    ? bgGreen(white(" VALID "))
+    : bgRed(white(" INVALID "));
+  lines.push(`Validation status: ${validationStatus}`);
+
+  // Display reasons if any
+  if (result.reasons.length > 0) {
+    lines.push(bold(red("\nValidation reasons:")));
+    result.reasons.forEach((reason, index) => {
+      lines.push(`\n${bgRed(white(` Reason #${index + 1} `))}:`);
+      lines.push(`- ${bold("Type")}: ${cyan(reason.type)}`);
+      lines.push(`- ${bold("Name")}: ${blue(reason.name)}`);
+      lines.push(`- ${bold("Message")}: ${red(reason.message)}`);
+      if (reason.stateIndex !== undefined) {
+        lines.push(
+          `- ${bold("State index")}: ${yellow(reason.stateIndex.toString())}`,
+        );
+      }
+    });
+  } else if (result.valid) {
+    lines.push(`\n${bgGreen(white(" No validation issues "))} ✓`);
+  } else {
+    lines.push(`\n${yellow("No rule granted the permission")}`);
+  }
+
+  lines.push(bold("==================================\n"));
+  return lines.join("\n");
+}
+
+/**
+ * Formats a decision trace as a tree: state sources, chain keys, state
+ * entries, schema checks and rules with their operands
+ *
+ * @param trace The trace of a validation made with the `explain` option
+ * @returns The colored text
+ */
+export function formatTrace(trace: ValidationTrace): string {
+  const lines = [
+    `${bold("Trace of")} ${cyan(trace.key)}: ${formatOutcome(trace.result)} ${
+      gray(`(${formatDuration(trace.durationMs)})`)
+    }`,
+  ];
+  for (const source of trace.sources) {
+    lines.push(
+      `  ${bold(`State #${source.stateIndex}`)}: ${
+        formatOutcome(source.result)
+      }`,
+    );
+    for (const chain of source.chain) {
+      lines.push(
+        `    ${cyan(chain.key)}${chain.defaulted ? gray(" (default)") : ""}: ${
+          formatOutcome(chain.result)
+        }`,
+      );
+      for (const entry of chain.entries) {
+        lines.push(
+          `      ${bold(`Entry #${entry.entryIndex}`)}: ${
+            formatOutcome(entry.result)
+          } ${gray(JSON.stringify(entry.state) ?? "undefined")}`,
+        );
+        for (const schema of entry.schemas) {
+          lines.push(
+            `        schema ${blue(schema.name)} ${
+              schema.valid ? green("✓") : red("✗")
+            }`,
+          );
+        }
+        for (const rule of entry.rules) formatRuleTrace(rule, 8, lines);
+        for (const error of entry.errors) {
+          lines.push(`        ${red(`${error.name}: ${error.message}`)}`);
+        }
+      }
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Formats the keys of a hierarchy with their schemas and rules
+ *
+ * @param keys Descriptions of the keys
+ * @returns The colored text
+ */
+export function formatKeys(keys: KeyDescription[]): string {
+  return keys.map((key) => {
+    const lines = [
+      bold(cyan(key.key)) +
+      (key.inherit ? "" : gray(" (not inherited)")) +
+      (key.combining ? gray(` (${key.combining})`) : ""),
+    ];
+    if (key.schemas.length > 0) {
+      lines.push(`  ${bold("Schemas")}: ${key.schemas.map(blue).join(", ")}`);
+    }
+    lines.push(
+      `  ${bold("Rules")}: ${
+        key.rules.length > 0 ? key.rules.map(yellow).join(", ") : gray("none")
+      }`,
+    );
+    return lines.join("\n");
+  }).join("\n");
+}
+
+/**
+ * Formats lint findings, followed by a summary line
+ *
+ * @param findings The findings
+ * @returns The colored text
+ */
+export function formatFindings(findings: CliFinding[]): string {
+  const errors = findings.filter((finding) => finding.severity === "error");
+  const lines = findings.map((finding) => {
+    const severity = finding.severity === "error"
+      ? bgRed(white(" ERROR "))
+      : bgYellow(white(" WARN "));
+    const location = [finding.key && cyan(finding.key), finding.rulePath]
+      .filter(Boolean).join(" ");
+    return `${severity} ${location ? `${location}: ` : ""}${finding.message}${
+      finding.rule ? gray(` (${finding.rule})`) : ""
+    }`;
+  });
+  lines.push(
+    findings.length === 0 ? `${bgGreen(white(" No issues "))} ✓` : bold(
+      `${errors.length} error(s), ${
+        findings.length - errors.length
+      } warning(s)`,
+    ),
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Describes a rule: the registry name of its definition, operators listing
+ * their operands, or the rule name when it has no definition
+ *
+ * @param rule The rule
+ * @returns The description, such as `and(allowTarget, denySelf)`
+ */
+export function describeRule(rule: AnyRule): string {
+  return rule.definition ? describeDefinition(rule.definition) : rule.name;
+}
+
+/**
+ * Describes a rule definition
+ */
+function describeDefinition(definition: RuleDefinition): string {
+  return "operator" in definition
+    ? `${definition.operator}(${
+      definition.rules.map(describeDefinition).join(", ")
+    })`
+    : definition.rule;
+}
+
+/**
+ * Formats a rule trace and the traces of its operands
+ */
+function formatRuleTrace(rule: RuleTrace, indent: number, lines: string[]) {
+  lines.push(
+    `${" ".repeat(indent)}rule ${yellow(rule.name)} → ${
+      rule.error !== undefined
+        ? red(`threw: ${rule.error}`)
+        : formatOutcome(rule.result)
+    } ${gray(`(${formatDuration(rule.durationMs)})`)}`,
+  );
+  for (const child of rule.children ?? []) {
+    formatRuleTrace(child, indent + 2, lines);
+  }
+}
+
+/**
+ * Colors a result type
+ */
+function formatOutcome(result: string | undefined): string {
+  switch (result) {
+    case "granted":
+      return green(result);
+    case "rejected":
+    case "blocked":
+      return red(result);
+    default:
+      return gray(result ?? "neutral");
+  }
+}
+
+/**
+ * Formats a duration in milliseconds
+ */
+function formatDuration(durationMs: number): string {
+  return `${durationMs.toFixed(2)} ms`;
+}
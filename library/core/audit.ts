@@ -0,0 +1,203 @@
+/**
+ * Decision log for the permission system
+ *
+ * `decisionLogger` turns the `decision` events of validations into records of
+ * who requested what and how it was decided: the permission key, the request,
+ * the result type, the reasons and the time spent. Requests are redacted
+ * before reaching the sink, with redactions declared per schema and per
+ * request field, so that secrets sent with a request never reach the log.
+ * Rules may quote request values in their reasons (as `allowAttributes` does),
+ * so the values of the redacted fields are masked in the reason messages too.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { decisionLogger, validate } from "@diister/quick-permission";
+ * import { createNdjsonFileSink } from "@diister/quick-permission/sinks";
+ *
+ * const sink = createNdjsonFileSink("./decisions.ndjson");
+ * const events = decisionLogger(sink, {
+ *   redact: { attributes: { "subject.ssn": "omit" } },
+ * });
+ *
+ * validate(files, states, "files.read", request, { events });
+ * await sink.flush(); // before exiting
+ * ```
+ *
+ * @module audit
+ */
+import type {
+  DecisionSink,
+  Redaction,
+  RedactionRules,
+  ValidationEvents,
+} from "../types/audit.ts";
+import { VALIDATION_RESULT, type ValidationError } from "../types/common.ts";
+
+/**
+ * Options of a decision logger
+ */
+export type DecisionLoggerOptions = {
+  /** Redactions applied to the logged requests, by schema and field */
+  redact?: RedactionRules;
+  /** Current time, `new Date()` by default */
+  now?: () => Date;
+};
+
+/**
+ * Creates validation event listeners writing every decision to a sink
+ *
+ * @param sink Destination of the decision records
+ * @param options Redactions and clock of the logger
+ * @returns Listeners to pass as the `events` option of the validations
+ */
+export function decisionLogger(
+  sink: DecisionSink,
+  options: DecisionLoggerOptions = {},
+): ValidationEvents {
+  const now = options.now ?? (() => new Date());
+  return {
+    decision({ key, request, schemas, result, durationMs }) {
+      const rules = options.redact ?? {};
+      sink.write({
+        time: now().toISOString(),
+        key,
+        request: redactRequest(request, schemas, rules),
+        valid: result.valid,
+        result: result.resultType ??
+          (result.valid
+            ? VALIDATION_RESULT.GRANTED
+            : VALIDATION_RESULT.REJECTED),
+        reasons: redactReasons(result.reasons, request, schemas, rules),
+        durationMs,
+      });
+    },
+  };
+}
+
+/**
+ * Applies the redactions of some schemas to a request
+ *
+ * The request is not modified: the objects along the redacted fields are
+ * copied, the other values are shared with the result.
+ *
+ * @param request The request to redact
+ * @param schemas Names of the schemas whose redactions apply
+ * @param rules Redactions by schema and field
+ * @returns The redacted request
+ */
+export function redactRequest(
+  request: unknown,
+  schemas: string[],
+  rules: RedactionRules,
+): unknown {
+  let redacted = request;
+  for (const schema of schemas) {
+    for (const [field, redaction] of Object.entries(rules[schema] ?? {})) {
+      redacted = redactField(redacted, field.split("."), redaction);
+    }
+  }
+  return redacted;
+}
+
+/**
+ * Masks the values of the redacted request fields in reason messages
+ *
+ * Values are looked for as written by rules: strings quoted or not, numbers,
+ * dates as ISO strings and objects as JSON, along with the values they hold.
+ * The reasons are not modified, those mentioning a value are copied.
+ *
+ * @param reasons Reasons of a decision
+ * @param request The request, before redaction
+ * @param schemas Names of the schemas whose redactions apply
+ * @param rules Redactions by schema and field
+ * @returns The reasons, with the redacted values replaced by `[REDACTED]`
+ */
+export function redactReasons(
+  reasons: ValidationError[],
+  request: unknown,
+  schemas: string[],
+  rules: RedactionRules,
+): ValidationError[] {
+  const secrets = new Set<string>();
+  for (const schema of schemas) {
+    for (const field of Object.keys(rules[schema] ?? {})) {
+      collectSecrets(fieldValue(request, field.split(".")), secrets);
+    }
+  }
+  if (secrets.size === 0) return reasons;
+
+  // Longest first, so that quoted values are masked with their quotes
+  const masked = [...secrets].sort((a, b) => b.length - a.length);
+  return reasons.map((reason) => {
+    const message = masked.reduce(
+      (text, secret) => text.split(secret).join("[REDACTED]"),
+      reason.message,
+    );
+    return message === reason.message ? reason : { ...reason, message };
+  });
+}
+
+/**
+ * Reads the value at a path of a value, undefined when missing
+ */
+function fieldValue(value: unknown, path: string[]): unknown {
+  for (const field of path) {
+    if (typeof value !== "object" || value === null) return undefined;
+    value = (value as Record<string, unknown>)[field];
+  }
+  return value;
+}
+
+/**
+ * Collects the texts a value may be written as in messages
+ */
+function collectSecrets(value: unknown, secrets: Set<string>): void {
+  if (typeof value === "string") {
+    if (value === "") return;
+    secrets.add(value);
+    secrets.add(JSON.stringify(value));
+  } else if (typeof value === "number" || typeof value === "bigint") {
+    secrets.add(String(value));
+  } else if (value instanceof Date) {
+    if (!isNaN(value.getTime())) secrets.add(value.toISOString());
+  } else if (typeof value === "object" && value !== null) {
+    try {
+      secrets.add(JSON.stringify(value));
+    } catch {
+      // Values that cannot be written as JSON are looked for field by field
+    }
+    for (const nested of Object.values(value)) collectSecrets(nested, secrets);
+  }
+}
+
+/**
+ * Redacts the field at a path of a value
+ *
+ * @param value Value holding the field
+ * @param path Remaining path of the field
+ * @param redaction How the field is redacted
+ * @returns A copy of the value with the field redacted, or the value itself
+ * when it has no such field
+ */
+function redactField(
+  value: unknown,
+  [field, ...path]: string[],
+  redaction: Redaction,
+): unknown {
+  if (typeof value !== "object" || value === null || !(field in value)) {
+    return value;
+  }
+
+  const copy: Record<string, unknown> = Array.isArray(value)
+    ? [...value] as unknown as Record<string, unknown>
+    : { ...value };
+  if (path.length > 0) {
+    copy[field] = redactField(copy[field], path, redaction);
+  } else if (redaction === "omit") {
+    delete copy[field];
+  } else {
+    copy[field] = redaction === "mask" ? "[REDACTED]" : redaction(copy[field]);
+  }
+  return copy;
+}
@@ -0,0 +1,473 @@
+/**
+ * Decision cache for the permission system
+ *
+ * Hot endpoints validate the same subject, key and request over and over. A
+ * decision cache keeps the results of `validate`, keyed by the identity of the
+ * hierarchy, the subjects and version of the state sets, the permission key,
+ * the request (as canonical JSON) and the options. It is bounded in size (least
+ * recently used decisions go first) and in time, and evicts precisely: the
+ * decisions of one subject when its grants change, or those a permission took
+ * part in when its rules change.
+ *
+ * Decisions depending on more than the states and the request are handled by
+ * the `volatility` of their rules: decisions of `"timeWindow"` rules
+ * (`ensureTime`) expire at the next `dateStart` or `dateEnd` of the state
+ * entries, those of `"volatile"` rules (`now()` in expressions, relationship
+ * tuples...) are never cached, nor are explained validations.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { createDecisionCache } from "@diister/quick-permission";
+ *
+ * const cache = createDecisionCache({ maxSize: 10_000, ttl: 30_000 });
+ *
+ * const subjects = ["user:alice", "group:eng"];
+ * const states = await store.loadStateSets(subjects);
+ * cache.validate(files, { subjects }, states, "files.read", {
+ *   from: "user:alice",
+ *   target: "doc-1",
+ * });
+ *
+ * // After granting or revoking entries of alice
+ * cache.invalidateSubject("user:alice");
+ * ```
+ *
+ * @module cache
+ */
+import type {
+  InheritanceMode,
+  PermissionHierarchy,
+  PermissionKey,
+  PermissionRequests,
+  PermissionStateSet,
+  ValidationResult,
+} from "../types/common.ts";
+import { canonicalJson } from "./codec.ts";
+import {
+  createValidationPlan,
+  emitDecision,
+  resolveStateEntries,
+  type ValidateAsyncOptions,
+  type ValidateOptions,
+  validatePlan,
+  validatePlanAsync,
+  type ValidationPlan,
+} from "./validation.ts";
+
+/**
+ * Options of `createDecisionCache`
+ */
+export type DecisionCacheOptions = {
+  /**
+   * Maximum number of decisions kept, the least recently used being evicted
+   * @default 1000
+   */
+  maxSize?: number;
+  /**
+   * Time in milliseconds a decision is kept
+   * @default 60000
+   */
+  ttl?: number;
+  /** Current time in milliseconds, `Date.now` by default */
+  now?: () => number;
+};
+
+/**
+ * Identifies the state sets given to a cached validation
+ */
+export type DecisionScope = {
+  /** Subjects the state sets belong to, in order */
+  subjects: string[];
+  /**
+   * Version of the state sets, such as a revision number of their store, when
+   * changes are not reported with `invalidateSubject`
+   */
+  version?: string | number;
+};
+
+/**
+ * Counters of a decision cache
+ */
+export type DecisionCacheStats = {
+  /** Decisions served from the cache */
+  hits: number;
+  /** Decisions computed then cached */
+  misses: number;
+  /** Decisions computed without being cached (volatile rules, explain...) */
+  bypasses: number;
+  /** Decisions evicted by the size limit or an invalidation */
+  evictions: number;
+  /** Decisions currently cached */
+  size: number;
+};
+
+/**
+ * A cache of validation results
+ *
+ * Cached results are shared between callers and must not be modified.
+ */
+export type DecisionCache = {
+  /**
+   * Validates a permission request like `validate`, reusing the result of an
+   * identical validation
+   */
+  validate<
+    H extends PermissionHierarchy<any>,
+    S extends PermissionStateSet<H>[],
+    K extends PermissionKey<H>,
+    R extends PermissionRequests<H, K>,
+  >(
+    hierarchy: H,
+    scope: DecisionScope,
+    states: S,
+    key: K,
+    request: R,
+    options?: ValidateOptions,
+  ): ValidationResult;
+  /**
+   * Validates a permission request like `validateAsync`, reusing the result of
+   * an identical validation
+   */
+  validateAsync<
+    H extends PermissionHierarchy<any>,
+    S extends PermissionStateSet<H>[],
+    K extends PermissionKey<H>,
+    R extends PermissionRequests<H, K>,
+  >(
+    hierarchy: H,
+    scope: DecisionScope,
+    states: S,
+    key: K,
+    request: R,
+    options?: ValidateAsyncOptions,
+  ): Promise<ValidationResult>;
+  /**
+   * Evicts the decisions taken with the state set of a subject
+   * @returns The number of evicted decisions
+   */
+  invalidateSubject(subject: string): number;
+  /**
+   * Evicts the decisions a permission took part in, as the validated key or
+   * one of its ancestors
+   * @returns The number of evicted decisions
+   */
+  invalidatePermission(
+    hierarchy: PermissionHierarchy<any>,
+    key: string,
+  ): number;
+  /** Evicts every decision */
+  clear(): void;
+  /** Returns the counters of the cache */
+  stats(): DecisionCacheStats;
+};
+
+/**
+ * Creates a decision cache
+ *
+ * @param options Size limit, time to live and clock of the cache
+ * @returns An empty decision cache
+ */
+export function createDecisionCache(
+  options: DecisionCacheOptions = {},
+): DecisionCache {
+  const maxSize = options.maxSize ?? 1000;
+  const ttl = options.ttl ?? 60_000;
+  const now = options.now ?? Date.now;
+
+  type CachedDecision = {
+    result: ValidationResult;
+    expiresAt: number;
+    subjects: string[];
+    permissions: string[];
+  };
+
+  // Decisions in least recently used order
+  const decisions = new Map<string, CachedDecision>();
+  // Keys of the decisions by subject and by `hierarchyId:permissionKey`
+  const bySubject = new Map<string, Set<string>>();
+  const byPermission = new Map<string, Set<string>>();
+  const counters = { hits: 0, misses: 0, bypasses: 0, evictions: 0 };
+
+  const hierarchyIds = new WeakMap<object, number>();
+  let nextHierarchyId = 0;
+  const hierarchyId = (hierarchy: PermissionHierarchy<any>) => {
+    let id = hierarchyIds.get(hierarchy);
+    if (id === undefined) {
+      id = nextHierarchyId++;
+      hierarchyIds.set(hierarchy, id);
+    }
+    return id;
+  };
+
+  const plans = new WeakMap<object, Map<string, ValidationPlan>>();
+  const getPlan = (
+    hierarchy: PermissionHierarchy<any>,
+    key: string,
+    inheritance: InheritanceMode = "leaf",
+  ) => {
+    let hierarchyPlans = plans.get(hierarchy);
+    if (!hierarchyPlans) {
+      hierarchyPlans = new Map();
+      plans.set(hierarchy, hierarchyPlans);
+    }
+    let plan = hierarchyPlans.get(`${inheritance}:${key}`);
+    if (!plan) {
+      plan = createValidationPlan(hierarchy, key as PermissionKey<any>, {
+        inheritance,
+      });
+      hierarchyPlans.set(`${inheritance}:${key}`, plan);
+    }
+    return plan;
+  };
+
+  const index = (
+    map: Map<string, Set<string>>,
+    name: string,
+    cacheKey: string,
+  ) => {
+    let keys = map.get(name);
+    if (!keys) {
+      keys = new Set();
+      map.set(name, keys);
+    }
+    keys.add(cacheKey);
+  };
+  const unindex = (
+    map: Map<string, Set<string>>,
+    name: string,
+    cacheKey: string,
+  ) => {
+    const keys = map.get(name);
+    keys?.delete(cacheKey);
+    if (keys?.size === 0) map.delete(name);
+  };
+
+  const evict = (cacheKey: string) => {
+    const decision = decisions.get(cacheKey);
+    if (!decision) return false;
+    decisions.delete(cacheKey);
+    for (const subject of decision.subjects) {
+      unindex(bySubject, subject, cacheKey);
+    }
+    for (const permission of decision.permissions) {
+      unindex(byPermission, permission, cacheKey);
+    }
+    return true;
+  };
+
+  const lookup = (cacheKey: string): ValidationResult | undefined => {
+    const decision = decisions.get(cacheKey);
+    if (!decision) return undefined;
+    if (decision.expiresAt <= now()) {
+      evict(cacheKey);
+      return undefined;
+    }
+    // Most recently used decisions move to the end
+    decisions.delete(cacheKey);
+    decisions.set(cacheKey, decision);
+    return decision.result;
+  };
+
+  const store = (
+    cacheKey: string,
+    decision: CachedDecision,
+  ) => {
+    decisions.set(cacheKey, decision);
+    for (const subject of decision.subjects) {
+      index(bySubject, subject, cacheKey);
+    }
+    for (const permission of decision.permissions) {
+      index(byPermission, permission, cacheKey);
+    }
+    while (decisions.size > maxSize) {
+      evict(decisions.keys().next().value!);
+      counters.evictions++;
+    }
+  };
+
+  // Cached decisions are reported to the listeners as computed ones are
+  const replay = (
+    plan: ValidationPlan,
+    states: Record<string, unknown>[],
+    request: unknown,
+    options: ValidateOptions,
+    result: ValidationResult,
+    start: number,
+  ) => {
+    options.events?.beforeValidate?.({
+      key: plan.key,
+      request,
+      sources: states.length,
+    });
+    emitDecision(options.events, plan, request, result, start);
+  };
+
+  /**
+   * Computes the cache key and the expiration of a validation, or nothing
+   * when its decision must not be cached
+   */
+  const prepare = (
+    hierarchy: PermissionHierarchy<any>,
+    plan: ValidationPlan,
+    scope: DecisionScope,
+    states: Record<string, unknown>[],
+    request: unknown,
+    options: ValidateOptions,
+  ) => {
+    if (
+      options.explain ||
+      plan.rules.some((rule) => rule.volatility === "volatile") ||
+      Object.values(options.combining ?? {}).some((combining) =>
+        typeof combining === "function"
+      )
+    ) {
+      return undefined;
+    }
+
+    const id = hierarchyId(hierarchy);
+    const cacheKey = canonicalJson([
+      id,
+      scope.subjects,
+      scope.version ?? null,
+      plan.key,
+      request,
+      options.inheritance ?? null,
+      options.combining ?? null,
+    ]);
+
+    const start = now();
+    let expiresAt = start + ttl;
+    const dated = (request as { date?: unknown })?.date instanceof Date;
+    if (!dated && plan.rules.some((rule) => rule.volatility === "timeWindow")) {
+      expiresAt = Math.min(expiresAt, nextBoundary(plan, states, start));
+    }
+
+    return {
+      cacheKey,
+      decision: {
+        expiresAt,
+        subjects: scope.subjects,
+        permissions: plan.chain.map(({ permKey }) => `${id}:${permKey}`),
+      },
+    };
+  };
+
+  return {
+    validate(hierarchy, scope, states, key, request, options = {}) {
+      const start = performance.now();
+      const plan = getPlan(hierarchy, key, options.inheritance);
+      const prepared = prepare(
+        hierarchy,
+        plan,
+        scope,
+        states,
+        request,
+        options,
+      );
+      if (!prepared) {
+        counters.bypasses++;
+        return validatePlan(plan, states, request, options, start);
+      }
+
+      const cached = lookup(prepared.cacheKey);
+      if (cached) {
+        counters.hits++;
+        replay(plan, states, request, options, cached, start);
+        return cached;
+      }
+      counters.misses++;
+      const result = validatePlan(plan, states, request, options, start);
+      store(prepared.cacheKey, { ...prepared.decision, result });
+      return result;
+    },
+    async validateAsync(hierarchy, scope, states, key, request, options = {}) {
+      const start = performance.now();
+      const plan = getPlan(hierarchy, key, options.inheritance);
+      const prepared = prepare(
+        hierarchy,
+        plan,
+        scope,
+        states,
+        request,
+        options,
+      );
+      if (!prepared) {
+        counters.bypasses++;
+        return await validatePlanAsync(plan, states, request, options, start);
+      }
+
+      const cached = lookup(prepared.cacheKey);
+      if (cached) {
+        counters.hits++;
+        replay(plan, states, request, options, cached, start);
+        return cached;
+      }
+      counters.misses++;
+      const result = await validatePlanAsync(
+        plan,
+        states,
+        request,
+        options,
+        start,
+      );
+      store(prepared.cacheKey, { ...prepared.decision, result });
+      return result;
+    },
+    invalidateSubject(subject) {
+      const keys = [...bySubject.get(subject) ?? []];
+      for (const cacheKey of keys) evict(cacheKey);
+      counters.evictions += keys.length;
+      return keys.length;
+    },
+    invalidatePermission(hierarchy, key) {
+      // Plans hold the rules of the permission
+      plans.delete(hierarchy);
+      const id = hierarchyIds.get(hierarchy);
+      if (id === undefined) return 0;
+      const keys = [...byPermission.get(`${id}:${key}`) ?? []];
+      for (const cacheKey of keys) evict(cacheKey);
+      counters.evictions += keys.length;
+      return keys.length;
+    },
+    clear() {
+      counters.evictions += decisions.size;
+      decisions.clear();
+      bySubject.clear();
+      byPermission.clear();
+    },
+    stats() {
+      return { ...counters, size: decisions.size };
+    },
+  };
+}
+
+/**
+ * Finds the next date at which a time window of the state entries opens or
+ * closes, the decisions of `"timeWindow"` rules changing only then
+ *
+ * @param plan Validation plan of the decision
+ * @param states State sets of the decision
+ * @param start Current time in milliseconds
+ * @returns The next `dateStart` or `dateEnd` after `start`, or `Infinity`
+ */
+function nextBoundary(
+  plan: ValidationPlan,
+  states: Record<string, unknown>[],
+  start: number,
+): number {
+  let boundary = Infinity;
+  for (const chain of resolveStateEntries(plan, states)) {
+    for (const { entries } of chain) {
+      for (const entry of entries) {
+        for (const field of ["dateStart", "dateEnd"]) {
+          const date = (entry as Record<string, unknown> | undefined)?.[field];
+          if (date instanceof Date && date.getTime() > start) {
+            boundary = Math.min(boundary, date.getTime());
+          }
+        }
+      }
+    }
+  }
+  return boundary;
+}
@@ -0,0 +1,496 @@
+/**
+ * State set codec for the permission system
+ *
+ * State sets are usually stored as JSON, but some states hold values JSON does
+ * not round-trip: the time schema uses `Date` objects, which come back as
+ * strings and are then rejected by its guard. Schemas declare codecs for such
+ * fields, and this module encodes state sets to JSON values and decodes them
+ * back, checking every entry against the schemas of its permission so that bad
+ * data is reported with its key and path instead of failing inside `validate`.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { decodeStateSet, encodeStateSet } from "@diister/quick-permission";
+ *
+ * const stored = JSON.stringify(encodeStateSet(files, {
+ *   "files.read": { dateEnd: new Date("2025-12-31T23:59:59Z") },
+ * }));
+ *
+ * const states = decodeStateSet(files, stored);
+ * // { "files.read": { dateEnd: Date(2025-12-31T23:59:59.000Z) } }
+ *
+ * // Reject bad grants when they are written, with the path of the problem
+ * validateStateSet(files, { "files.raed": { target: "doc-1" } });
+ * // { valid: false, issues: [{ key: "files.raed", message: "unknown permission key" }] }
+ * ```
+ *
+ * @module codec
+ */
+import type {
+  FlatPermissionStateArray,
+  PermissionHierarchy,
+  PermissionStateSet,
+} from "../types/common.ts";
+import type {
+  FieldCodec,
+  StateSetIssue,
+  StateSetReport,
+  StateSetValidationOptions,
+} from "../types/codec.ts";
+import type { Schema } from "../types/schema.ts";
+import { isKeyPattern, matchesKeyPattern } from "./hierarchy.ts";
+
+/**
+ * Codec of `Date` fields, stored as ISO 8601 strings
+ */
+export const dateCodec: FieldCodec<Date> = {
+  encode(value) {
+    if (!(value instanceof Date) || isNaN(value.getTime())) {
+      throw new Error("expected a valid date");
+    }
+    return value.toISOString();
+  },
+  decode(value) {
+    if (value instanceof Date && !isNaN(value.getTime())) return value;
+    if (typeof value === "string") {
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) return date;
+    }
+    throw new Error("expected an ISO date string");
+  },
+};
+
+/**
+ * Converts a state set to JSON values, ready for `JSON.stringify`
+ *
+ * @param hierarchy The permission hierarchy
+ * @param stateSet The state set
+ * @returns A copy of the state set whose fields are JSON values
+ * @throws Error if a field cannot be encoded by the codec of its schema
+ */
+export function encodeStateSet<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  stateSet: PermissionStateSet<H>,
+): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(stateSet).map(([key, entries]) => {
+      const codecs = fieldCodecs(hierarchy, key);
+      const encode = (entry: unknown, entryIndex?: number) =>
+        encodeEntry(entry, codecs, key, entryIndex);
+      return [
+        key,
+        Array.isArray(entries) ? entries.map(encode) : encode(entries),
+      ];
+    }),
+  );
+}
+
+/**
+ * Converts JSON values back to a state set, checking every entry
+ *
+ * @param hierarchy The permission hierarchy
+ * @param encoded The encoded state set, as an object or as JSON text
+ * @returns The decoded state set
+ * @throws Error listing every issue found: unknown keys, entries that are not
+ * objects, invalid effects, fields rejected by their codec and entries
+ * rejected by the state guards of their schemas
+ */
+export function decodeStateSet<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  encoded: Record<string, unknown> | string,
+): PermissionStateSet<H> {
+  const stateSet = typeof encoded === "string" ? JSON.parse(encoded) : encoded;
+  if (typeof stateSet !== "object" || stateSet === null) {
+    throw new Error("Invalid state set: expected an object");
+  }
+
+  const issues: StateSetIssue[] = [];
+  const decoded: Record<string, unknown> = {};
+  for (const [key, entries] of Object.entries(stateSet)) {
+    const decode = (entry: unknown, entryIndex?: number) =>
+      checkStateEntry(hierarchy, key, entry, entryIndex, issues, DECODE);
+    decoded[key] = Array.isArray(entries)
+      ? entries.map(decode)
+      : decode(entries);
+  }
+  throwIssues(issues);
+  return decoded as PermissionStateSet<H>;
+}
+
+/**
+ * Converts a flat state array to JSON values, ready for `JSON.stringify`
+ *
+ * @param hierarchy The permission hierarchy
+ * @param flatStates The flat state array
+ * @returns A copy of the array whose fields are JSON values
+ * @throws Error if a field cannot be encoded by the codec of its schema
+ */
+export function encodeFlatStateArray<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  flatStates: FlatPermissionStateArray<H>,
+): [string, unknown][] {
+  return flatStates.map(([key, entry], entryIndex) => [
+    key,
+    encodeEntry(entry, fieldCodecs(hierarchy, key), key, entryIndex),
+  ]);
+}
+
+/**
+ * Converts JSON values back to a flat state array, checking every entry
+ *
+ * Entry indexes of the issues are indexes in the array.
+ *
+ * @param hierarchy The permission hierarchy
+ * @param encoded The encoded flat state array, as an array or as JSON text
+ * @returns The decoded flat state array
+ * @throws Error listing every issue found, as `decodeStateSet`
+ */
+export function decodeFlatStateArray<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  encoded: unknown[] | string,
+): FlatPermissionStateArray<H> {
+  const flatStates = typeof encoded === "string"
+    ? JSON.parse(encoded)
+    : encoded;
+  if (!Array.isArray(flatStates)) {
+    throw new Error("Invalid flat state array: expected an array");
+  }
+
+  const issues: StateSetIssue[] = [];
+  const decoded = flatStates.map((tuple: unknown, entryIndex) => {
+    if (
+      !Array.isArray(tuple) || tuple.length !== 2 ||
+      typeof tuple[0] !== "string"
+    ) {
+      issues.push({
+        key: "",
+        entryIndex,
+        message: "expected a [key, state] tuple",
+      });
+      return tuple;
+    }
+    const [key, entry] = tuple;
+    return [
+      key,
+      checkStateEntry(hierarchy, key, entry, entryIndex, issues, DECODE),
+    ];
+  });
+  throwIssues(issues);
+  return decoded as FlatPermissionStateArray<H>;
+}
+
+/**
+ * Checks every entry of a state set against the schemas of its permission,
+ * without throwing
+ *
+ * Reports the same issues as `decodeStateSet`, plus the fields holding
+ * values a codec cannot encode (such as dates left as strings) unless the
+ * state set is `encoded`. Entries rejected by a state guard are reported with
+ * the fields whose default value (or removal) satisfies the guard, guards
+ * throwing on malformed entries with their error message. Asynchronous guards
+ * are not run.
+ *
+ * @param hierarchy The permission hierarchy
+ * @param stateSet The state set
+ * @param options Whether the state set holds JSON values
+ * @returns The report listing every issue found
+ */
+export function validateStateSet<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  stateSet: Record<string, unknown>,
+  options: StateSetValidationOptions = {},
+): StateSetReport {
+  if (typeof stateSet !== "object" || stateSet === null) {
+    return report([{ key: "", message: "expected an object" }]);
+  }
+
+  const issues: StateSetIssue[] = [];
+  const mode = options.encoded ? DECODE_AND_BLAME : BLAME;
+  for (const [key, entries] of Object.entries(stateSet)) {
+    const check = (entry: unknown, entryIndex?: number) =>
+      checkStateEntry(hierarchy, key, entry, entryIndex, issues, mode);
+    if (Array.isArray(entries)) entries.forEach(check);
+    else check(entries);
+  }
+  return report(issues);
+}
+
+/**
+ * Checks every entry of a flat state array against the schemas of its
+ * permission, without throwing
+ *
+ * Entry indexes of the issues are indexes in the array.
+ *
+ * @param hierarchy The permission hierarchy
+ * @param flatStates The flat state array
+ * @param options Whether the array holds JSON values
+ * @returns The report listing every issue found, as `validateStateSet`
+ */
+export function validateFlatStateArray<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  flatStates: unknown[],
+  options: StateSetValidationOptions = {},
+): StateSetReport {
+  if (!Array.isArray(flatStates)) {
+    return report([{ key: "", message: "expected an array" }]);
+  }
+
+  const issues: StateSetIssue[] = [];
+  const mode = options.encoded ? DECODE_AND_BLAME : BLAME;
+  flatStates.forEach((tuple, entryIndex) => {
+    if (
+      !Array.isArray(tuple) || tuple.length !== 2 ||
+      typeof tuple[0] !== "string"
+    ) {
+      issues.push({
+        key: "",
+        entryIndex,
+        message: "expected a [key, state] tuple",
+      });
+      return;
+    }
+    checkStateEntry(hierarchy, tuple[0], tuple[1], entryIndex, issues, mode);
+  });
+  return report(issues);
+}
+
+/**
+ * Formats the location of an issue, such as `"files.read"[1].dateEnd`
+ *
+ * @param issue The issue
+ * @returns The key, entry index and field of the issue
+ */
+export function formatIssuePath(issue: StateSetIssue): string {
+  return `"${issue.key}"` +
+    (issue.entryIndex === undefined ? "" : `[${issue.entryIndex}]`) +
+    (issue.field === undefined ? "" : `.${issue.field}`);
+}
+
+/**
+ * Serializes a value as JSON with sorted object keys, so that values equal by
+ * content give the same text (dates become ISO strings)
+ *
+ * @param value The value
+ * @returns The canonical JSON text
+ */
+export function canonicalJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, value) =>
+      typeof value === "object" && value !== null && !Array.isArray(value)
+        ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0),
+        )
+        : value,
+  );
+}
+
+/**
+ * Finds the schemas of the permissions a state set key applies to
+ *
+ * @param hierarchy The permission hierarchy
+ * @param key Key, or key pattern, of the state set
+ * @returns The schemas, without duplicates, or undefined for unknown keys
+ */
+function keySchemas(
+  hierarchy: PermissionHierarchy<any>,
+  key: string,
+): Schema<any, any>[] | undefined {
+  const keys = isKeyPattern(key)
+    ? (hierarchy.keys as string[]).filter((permKey) =>
+      matchesKeyPattern(key, permKey)
+    )
+    : (hierarchy.keys as string[]).filter((permKey) => permKey === key);
+  if (keys.length === 0) return undefined;
+
+  const schemas = new Map<string, Schema<any, any>>();
+  for (const permKey of keys) {
+    for (const schema of hierarchy.flat[permKey].schemas) {
+      if (!schemas.has(schema.name)) schemas.set(schema.name, schema);
+    }
+  }
+  return [...schemas.values()];
+}
+
+/**
+ * Gathers the field codecs of the schemas a state set key applies to
+ */
+function fieldCodecs(
+  hierarchy: PermissionHierarchy<any>,
+  key: string,
+): Record<string, FieldCodec<any>> {
+  return Object.assign(
+    {},
+    ...(keySchemas(hierarchy, key) ?? []).map((schema) => schema.codecs ?? {}),
+  );
+}
+
+/**
+ * Encodes the fields of an entry that have a codec
+ *
+ * @throws Error naming the path of the field if its codec rejects it
+ */
+function encodeEntry(
+  entry: unknown,
+  codecs: Record<string, FieldCodec<any>>,
+  key: string,
+  entryIndex?: number,
+): unknown {
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    return entry;
+  }
+  const encoded: Record<string, unknown> = { ...entry };
+  for (const [field, codec] of Object.entries(codecs)) {
+    if (encoded[field] === undefined) continue;
+    try {
+      encoded[field] = codec.encode(encoded[field]);
+    } catch (error) {
+      throw new Error(
+        `Cannot encode ${
+          formatIssuePath({ key, entryIndex, field, message: "" })
+        }: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+  return encoded;
+}
+
+/**
+ * How entries are checked
+ */
+type CheckMode = {
+  /** Decode the fields having a codec, instead of checking they encode */
+  decode: boolean;
+  /** Name the fields of entries rejected by a state guard */
+  blame: boolean;
+};
+
+const DECODE: CheckMode = { decode: true, blame: false };
+const BLAME: CheckMode = { decode: false, blame: true };
+const DECODE_AND_BLAME: CheckMode = { decode: true, blame: true };
+
+/**
+ * Checks an entry against the schemas of its key, decoding it if asked to
+ *
+ * @returns The decoded entry, or the entry as is when it is not an object
+ */
+function checkStateEntry(
+  hierarchy: PermissionHierarchy<any>,
+  key: string,
+  entry: unknown,
+  entryIndex: number | undefined,
+  issues: StateSetIssue[],
+  mode: CheckMode,
+): unknown {
+  const schemas = keySchemas(hierarchy, key);
+  if (!schemas) {
+    issues.push({ key, entryIndex, message: "unknown permission key" });
+    return entry;
+  }
+  if (typeof entry !== "object" || entry === null || Array.isArray(entry)) {
+    issues.push({ key, entryIndex, message: "expected an object" });
+    return entry;
+  }
+
+  const { effect, ...state } = entry as Record<string, unknown>;
+  if (
+    effect !== undefined && effect !== "allow" && effect !== "deny" &&
+    effect !== "block"
+  ) {
+    issues.push({
+      key,
+      entryIndex,
+      field: "effect",
+      message: 'expected "allow", "deny" or "block"',
+    });
+  }
+
+  let valid = true;
+  for (const schema of schemas) {
+    const codecs: Record<string, FieldCodec<any> | undefined> = schema.codecs ??
+      {};
+    for (const [field, codec] of Object.entries(codecs)) {
+      if (!codec || state[field] === undefined) continue;
+      try {
+        if (mode.decode) state[field] = codec.decode(state[field]);
+        else codec.encode(state[field]);
+      } catch (error) {
+        valid = false;
+        issues.push({
+          key,
+          entryIndex,
+          schema: schema.name,
+          field,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  // Fields rejected by a codec would also fail the guards
+  if (valid) {
+    for (const schema of schemas) {
+      if (!schema.state) continue;
+      let message = `invalid state for schema ${schema.name}`;
+      try {
+        if (schema.state(state)) continue;
+      } catch (error) {
+        // Guards may throw on malformed states, as validate reports them
+        message = error instanceof Error ? error.message : String(error);
+      }
+      const fields = mode.blame ? blameFields(schema, state) : [];
+      if (fields.length === 0) {
+        issues.push({ key, entryIndex, schema: schema.name, message });
+      }
+      for (const field of fields) {
+        issues.push({ key, entryIndex, schema: schema.name, field, message });
+      }
+    }
+  }
+
+  return effect === undefined ? state : { ...state, effect };
+}
+
+/**
+ * Finds the fields of a state rejected by the state guard of a schema: those
+ * whose replacement by their default value, or removal, satisfies the guard
+ * (a throwing guard being unsatisfied)
+ */
+function blameFields(
+  schema: Schema<any, any>,
+  state: Record<string, unknown>,
+): string[] {
+  const defaults: Record<string, unknown> = schema.defaultState?.() ?? {};
+  const fields = new Set([...Object.keys(state), ...Object.keys(defaults)]);
+  return [...fields].filter((field) => {
+    const candidate = { ...state };
+    if (field in defaults) candidate[field] = defaults[field];
+    else delete candidate[field];
+    try {
+      return schema.state!(candidate);
+    } catch {
+      return false;
+    }
+  });
+}
+
+/**
+ * Builds the report of a state set from its issues
+ */
+function report(issues: StateSetIssue[]): StateSetReport {
+  return { valid: issues.length === 0, issues };
+}
+
+/**
+ * Throws an error listing the issues, if any
+ */
+function throwIssues(issues: StateSetIssue[]): void {
+  if (issues.length === 0) return;
+  throw new Error(
+    `Invalid state set:\n${
+      issues.map((issue) => `- ${formatIssuePath(issue)}: ${issue.message}`)
+        .join("\n")
+    }`,
+  );
+}
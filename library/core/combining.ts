@@ -0,0 +1,158 @@
+/**
+ * Combining algorithms for the permission system
+ *
+ * A combining algorithm reduces several results into a single one. A permission
+ * can declare one for its rules, and `validate` accepts one for each merging
+ * stage: the entries of a key, the keys of the `satisfiedBy` chain and the state
+ * sources. Without an algorithm the historical behavior is kept: rules stop at
+ * the first "rejected" or "blocked" result and the stages are merged with OR
+ * logic.
+ *
+ * Whatever the algorithm, "blocked" keeps its meaning of a high-priority denial
+ * and overrides every other result.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { hierarchy, permission, validate } from "@diister/quick-permission";
+ *
+ * const files = hierarchy({
+ *   files: permission({
+ *     rules: [allowTarget(), ensureTime()],
+ *     combining: "deny-overrides",
+ *   }),
+ * });
+ *
+ * // Any explicit rejection, in any entry, key or state source, wins
+ * validate(files, states, "files", request, {
+ *   combining: {
+ *     entries: "deny-overrides",
+ *     chain: "deny-overrides",
+ *     sources: "deny-overrides",
+ *   },
+ * });
+ * ```
+ *
+ * @module combining
+ */
+import {
+  type Combining,
+  type CombiningAlgorithm,
+  VALIDATION_RESULT,
+  type ValidationResultType,
+} from "../types/common.ts";
+
+/**
+ * Names of the built-in combining algorithms
+ */
+export const COMBINING_ALGORITHMS: readonly CombiningAlgorithm[] = [
+  "deny-overrides",
+  "permit-overrides",
+  "first-applicable",
+  "only-one-applicable",
+  "deny-unless-permit",
+  "permit-unless-deny",
+];
+
+/**
+ * Checks whether a value is a built-in algorithm name or a custom combiner
+ *
+ * @param value The value to check
+ * @returns True if the value can be used as a combining algorithm
+ */
+export function isCombining(value: unknown): value is Combining {
+  return typeof value === "function" ||
+    COMBINING_ALGORITHMS.includes(value as CombiningAlgorithm);
+}
+
+/**
+ * Combines results with a combining algorithm
+ *
+ * - `deny-overrides`: "rejected" if any result is, else "granted" if any
+ *   result is, else "neutral"
+ * - `permit-overrides`: "granted" if any result is, else "rejected" if any
+ *   result is, else "neutral"
+ * - `first-applicable`: the first result that is not "neutral"
+ * - `only-one-applicable`: the only result that is not "neutral", "rejected"
+ *   when several results apply
+ * - `deny-unless-permit`: "granted" if any result is, else "rejected"
+ * - `permit-unless-deny`: "rejected" if any result is, else "granted"
+ *
+ * A "blocked" result always wins, custom combiners are only called when no
+ * result is blocked.
+ *
+ * @param combining Algorithm name or custom combiner
+ * @param results Results to combine, in evaluation order
+ * @returns The combined result
+ * @throws Error if the algorithm is unknown
+ */
+export function combineResults(
+  combining: Combining,
+  results: ValidationResultType[],
+): ValidationResultType {
+  if (results.includes(VALIDATION_RESULT.BLOCKED)) {
+    return VALIDATION_RESULT.BLOCKED;
+  }
+
+  if (typeof combining === "function") {
+    return combining(results);
+  }
+
+  const granted = results.includes(VALIDATION_RESULT.GRANTED);
+  const rejected = results.includes(VALIDATION_RESULT.REJECTED);
+
+  switch (combining) {
+    case "deny-overrides":
+      if (rejected) return VALIDATION_RESULT.REJECTED;
+      return granted ? VALIDATION_RESULT.GRANTED : VALIDATION_RESULT.NEUTRAL;
+    case "permit-overrides":
+      if (granted) return VALIDATION_RESULT.GRANTED;
+      return rejected ? VALIDATION_RESULT.REJECTED : VALIDATION_RESULT.NEUTRAL;
+    case "first-applicable":
+      return results.find((result) => result !== VALIDATION_RESULT.NEUTRAL) ??
+        VALIDATION_RESULT.NEUTRAL;
+    case "only-one-applicable": {
+      const applicable = results.filter((result) =>
+        result !== VALIDATION_RESULT.NEUTRAL
+      );
+      if (applicable.length > 1) return VALIDATION_RESULT.REJECTED;
+      return applicable[0] ?? VALIDATION_RESULT.NEUTRAL;
+    }
+    case "deny-unless-permit":
+      return granted ? VALIDATION_RESULT.GRANTED : VALIDATION_RESULT.REJECTED;
+    case "permit-unless-deny":
+      return rejected ? VALIDATION_RESULT.REJECTED : VALIDATION_RESULT.GRANTED;
+    default:
+      throw new Error(`Unknown combining algorithm "${combining}"`);
+  }
+}
+
+/**
+ * Tells which results contributed to a combined result
+ *
+ * Only the results equal to the combined one contribute, and with
+ * `first-applicable` only the first of them. A "neutral" outcome has no
+ * contributor.
+ *
+ * @param combining Algorithm that combined the results, if any
+ * @param results Results that were combined, in evaluation order
+ * @param combined The combined result
+ * @returns For each result, whether it contributed
+ * @internal
+ */
+export function contributors(
+  combining: Combining | undefined,
+  results: (ValidationResultType | undefined)[],
+  combined: ValidationResultType | undefined,
+): boolean[] {
+  if (combined === undefined || combined === VALIDATION_RESULT.NEUTRAL) {
+    return results.map(() => false);
+  }
+  const first = combining === "first-applicable" &&
+      combined !== VALIDATION_RESULT.BLOCKED
+    ? results.indexOf(combined)
+    : -1;
+  return results.map((result, index) =>
+    result === combined && (first < 0 || index === first)
+  );
+}
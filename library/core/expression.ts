@@ -0,0 +1,903 @@
+/**
+ * Expression language for the permission system
+ *
+ * Conditions such as `request.amount <= state.limit && request.region in
+ * state.regions` can be written as text, for instance in an administration
+ * screen, and evaluated without shipping code. Expressions are parsed into a
+ * syntax tree and compiled into plain functions: there is no `eval`, no access
+ * to globals, and only own properties of the request and the state can be read.
+ *
+ * The language supports:
+ * - literals: numbers, strings (`'a'` or `"a"`), `true`, `false`, `null`, arrays
+ * - the `request` and `state` variables, with member access (`a.b`, `a["b"]`,
+ *   `a[0]`), missing members reading as `null`
+ * - comparison (`==`, `!=`, `<`, `<=`, `>`, `>=`), membership (`in`), boolean
+ *   logic (`&&`, `||`, `!`) and arithmetic (`+`, `-`, `*`, `/`, `%`)
+ * - string functions: `lower`, `upper`, `trim`, `length`, `startsWith`,
+ *   `endsWith`, `contains`, `matches` (whose pattern must be a string literal)
+ * - date functions: `now`, `date`, `year`, `month`, `day`, `hour`, `weekday`,
+ *   `addDays`, `daysBetween` (dates are read in UTC)
+ *
+ * Parsed expressions are cached by source, so compiling the same expression
+ * again is cheap. Syntax trees deeper than 256 levels are reported as syntax
+ * errors, so that untrusted sources cannot exhaust the call stack.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { compileExpression, parseExpression } from "@diister/quick-permission";
+ *
+ * const limit = compileExpression(
+ *   "request.amount <= state.limit && request.region in state.regions",
+ * );
+ * limit.evaluate({
+ *   request: { amount: 50, region: "eu" },
+ *   state: { limit: 100, regions: ["eu", "us"] },
+ * }); // true
+ *
+ * parseExpression("request.amount <= ");
+ * // { valid: false, error: { message: "Unexpected end of expression at 1:19",
+ * //   position: 18, line: 1, column: 19 } }
+ * ```
+ *
+ * @module expression
+ */
+import type {
+  BinaryOperator,
+  CompiledExpression,
+  ExpressionNode,
+  ExpressionParseResult,
+  ExpressionScope,
+  ExpressionSyntaxError,
+} from "../types/expression.ts";
+
+/**
+ * Parses and compiles an expression, reporting syntax errors with their
+ * position
+ *
+ * @param source The expression
+ * @returns The compiled expression, or the first syntax error
+ */
+export function parseExpression(source: string): ExpressionParseResult {
+  let result = parsed.get(source);
+  if (!result) {
+    try {
+      result = { valid: true, expression: compile(source, parse(source)) };
+    } catch (error) {
+      if (!(error instanceof Error && "syntax" in error)) throw error;
+      result = { valid: false, error: (error as SyntaxFailure).syntax };
+    }
+    if (parsed.size >= MAX_CACHED_EXPRESSIONS) parsed.clear();
+    parsed.set(source, result);
+  }
+  return result;
+}
+
+/**
+ * Parses and compiles an expression
+ *
+ * @param source The expression
+ * @returns The compiled expression
+ * @throws Error if the expression has a syntax error
+ */
+export function compileExpression(source: string): CompiledExpression {
+  const result = parseExpression(source);
+  if (!result.valid) {
+    throw new Error(`Invalid expression "${source}": ${result.error.message}`);
+  }
+  return result.expression;
+}
+
+/**
+ * Maximum depth of the syntax tree, keeping parsing, compiling and evaluating
+ * within the call stack
+ */
+const MAX_EXPRESSION_DEPTH = 256;
+
+/**
+ * Maximum number of parsed expressions kept before the cache is reset
+ */
+const MAX_CACHED_EXPRESSIONS = 1024;
+
+/**
+ * Parsed expressions by source
+ */
+const parsed = new Map<string, ExpressionParseResult>();
+
+/**
+ * Compiled form of a node
+ */
+type Evaluator = (scope: ExpressionScope) => unknown;
+
+/**
+ * A built-in function: its number of arguments and its implementation, which
+ * receives the location of the call for its error messages
+ */
+type Builtin = {
+  arity: number;
+  call: (args: unknown[], scope: ExpressionScope, at: string) => unknown;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Functions available to expressions
+ */
+const BUILTINS: Record<string, Builtin> = {
+  lower: {
+    arity: 1,
+    call: ([value], _, at) => text(value, "lower", at).toLowerCase(),
+  },
+  upper: {
+    arity: 1,
+    call: ([value], _, at) => text(value, "upper", at).toUpperCase(),
+  },
+  trim: {
+    arity: 1,
+    call: ([value], _, at) => text(value, "trim", at).trim(),
+  },
+  length: {
+    arity: 1,
+    call: ([value], _, at) => {
+      if (typeof value === "string" || Array.isArray(value)) {
+        return value.length;
+      }
+      throw failure(
+        `length() expects a string or an array, got ${typeOf(value)}`,
+        at,
+      );
+    },
+  },
+  startsWith: {
+    arity: 2,
+    call: ([value, prefix], _, at) =>
+      text(value, "startsWith", at).startsWith(text(prefix, "startsWith", at)),
+  },
+  endsWith: {
+    arity: 2,
+    call: ([value, suffix], _, at) =>
+      text(value, "endsWith", at).endsWith(text(suffix, "endsWith", at)),
+  },
+  contains: {
+    arity: 2,
+    call: ([value, item], _, at) => contains(value, item, "contains()", at),
+  },
+  matches: {
+    arity: 2,
+    call: ([value, pattern], _, at) =>
+      regex(text(pattern, "matches", at), at).test(text(value, "matches", at)),
+  },
+  now: {
+    arity: 0,
+    call: (_, scope) => scope.now ?? new Date(),
+  },
+  date: {
+    arity: 1,
+    call: ([value], _, at) => {
+      const date = value instanceof Date
+        ? new Date(value.getTime())
+        : typeof value === "string" || typeof value === "number"
+        ? new Date(value)
+        : undefined;
+      if (!date || Number.isNaN(date.getTime())) {
+        throw failure(`date() cannot read ${format(value)} as a date`, at);
+      }
+      return date;
+    },
+  },
+  year: {
+    arity: 1,
+    call: ([value], _, at) => day(value, "year", at).getUTCFullYear(),
+  },
+  month: {
+    arity: 1,
+    call: ([value], _, at) => day(value, "month", at).getUTCMonth() + 1,
+  },
+  day: {
+    arity: 1,
+    call: ([value], _, at) => day(value, "day", at).getUTCDate(),
+  },
+  hour: {
+    arity: 1,
+    call: ([value], _, at) => day(value, "hour", at).getUTCHours(),
+  },
+  weekday: {
+    arity: 1,
+    call: ([value], _, at) => day(value, "weekday", at).getUTCDay(),
+  },
+  addDays: {
+    arity: 2,
+    call: ([value, days], _, at) =>
+      new Date(
+        day(value, "addDays", at).getTime() + number(days, "addDays", at) * DAY,
+      ),
+  },
+  daysBetween: {
+    arity: 2,
+    call: ([from, to], _, at) =>
+      (day(to, "daysBetween", at).getTime() -
+        day(from, "daysBetween", at).getTime()) / DAY,
+  },
+};
+
+/**
+ * Error thrown while parsing, holding the reported syntax error
+ */
+type SyntaxFailure = Error & { syntax: ExpressionSyntaxError };
+
+type Token = {
+  type: "number" | "string" | "identifier" | "operator" | "end";
+  value: string;
+  literal?: string | number;
+  position: number;
+};
+
+const OPERATORS = [
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "<",
+  ">",
+  "!",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  ".",
+  ",",
+  "(",
+  ")",
+  "[",
+  "]",
+];
+
+const COMPARISONS = ["==", "!=", "<", "<=", ">", ">="];
+
+const TOO_DEEP = "Expression nested too deeply";
+
+const ESCAPES: Record<string, string> = {
+  "\\": "\\",
+  "'": "'",
+  '"': '"',
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Parses an expression with a recursive descent, from the lowest precedence
+ * (`||`) to the highest (member access)
+ *
+ * @throws SyntaxFailure on the first syntax error, and when the syntax tree is
+ * deeper than `MAX_EXPRESSION_DEPTH`
+ */
+function parse(source: string): ExpressionNode {
+  const tokens = tokenize(source);
+  let index = 0;
+  // Nested expressions (parentheses, brackets, calls, unary operators) all
+  // recurse through parseUnary
+  let nesting = 0;
+
+  const peek = () => tokens[index];
+
+  const next = () => {
+    const token = tokens[index];
+    if (token.type !== "end") index++;
+    return token;
+  };
+
+  const accept = (operator: string): BinaryOperator | undefined => {
+    const token = peek();
+    if (token.type !== "operator" || token.value !== operator) return undefined;
+    index++;
+    return operator as BinaryOperator;
+  };
+
+  const fail = (message: string, token: Token): never => {
+    throw syntaxFailure(source, message, token.position);
+  };
+
+  const unexpected = (token: Token): never =>
+    fail(
+      token.type === "end"
+        ? "Unexpected end of expression"
+        : `Unexpected token "${token.value}"`,
+      token,
+    );
+
+  const expect = (operator: string) => {
+    if (!accept(operator)) unexpected(peek());
+  };
+
+  const comparisonOperator = (): BinaryOperator | undefined => {
+    const token = peek();
+    if (token.type === "identifier" && token.value === "in") return "in";
+    if (token.type === "operator" && COMPARISONS.includes(token.value)) {
+      return token.value as BinaryOperator;
+    }
+    return undefined;
+  };
+
+  const parseOr = (): ExpressionNode => {
+    let node = parseAnd();
+    while (accept("||")) node = binary("||", node, parseAnd());
+    return node;
+  };
+
+  const parseAnd = (): ExpressionNode => {
+    let node = parseComparison();
+    while (accept("&&")) node = binary("&&", node, parseComparison());
+    return node;
+  };
+
+  const parseComparison = (): ExpressionNode => {
+    const node = parseAdditive();
+    const operator = comparisonOperator();
+    if (!operator) return node;
+    index++;
+    const comparison = binary(operator, node, parseAdditive());
+    if (comparisonOperator()) {
+      fail(`Comparisons cannot be chained, use "&&"`, peek());
+    }
+    return comparison;
+  };
+
+  const parseAdditive = (): ExpressionNode => {
+    let node = parseMultiplicative();
+    for (;;) {
+      const operator = accept("+") ?? accept("-");
+      if (!operator) return node;
+      node = binary(operator, node, parseMultiplicative());
+    }
+  };
+
+  const parseMultiplicative = (): ExpressionNode => {
+    let node = parseUnary();
+    for (;;) {
+      const operator = accept("*") ?? accept("/") ?? accept("%");
+      if (!operator) return node;
+      node = binary(operator, node, parseUnary());
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (nesting >= MAX_EXPRESSION_DEPTH) fail(TOO_DEEP, peek());
+    nesting++;
+    try {
+      const { position } = peek();
+      const operator = accept("!") ?? accept("-");
+      if (!operator) return parsePostfix();
+      return {
+        type: "unary",
+        operator: operator as "!" | "-",
+        operand: parseUnary(),
+        position,
+      };
+    } finally {
+      nesting--;
+    }
+  };
+
+  const parsePostfix = (): ExpressionNode => {
+    let node = parsePrimary();
+    for (;;) {
+      const { position } = node;
+      if (accept(".")) {
+        const name = next();
+        if (name.type !== "identifier") unexpected(name);
+        const property: ExpressionNode = {
+          type: "literal",
+          value: name.value,
+          position: name.position,
+        };
+        node = { type: "member", object: node, property, position };
+      } else if (accept("[")) {
+        const property = parseOr();
+        expect("]");
+        node = { type: "member", object: node, property, position };
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+    const position = token.position;
+    if (token.type === "number" || token.type === "string") {
+      return { type: "literal", value: token.literal!, position };
+    }
+    if (token.type === "identifier") return parseIdentifier(token);
+    if (token.value === "(") {
+      const node = parseOr();
+      expect(")");
+      return node;
+    }
+    if (token.value === "[") {
+      return { type: "array", elements: parseList("]"), position };
+    }
+    return unexpected(token);
+  };
+
+  const parseIdentifier = (token: Token): ExpressionNode => {
+    const position = token.position;
+    switch (token.value) {
+      case "true":
+      case "false":
+        return { type: "literal", value: token.value === "true", position };
+      case "null":
+        return { type: "literal", value: null, position };
+      case "request":
+      case "state":
+        return { type: "variable", name: token.value, position };
+    }
+    if (peek().value !== "(") {
+      return fail(`Unknown identifier "${token.value}"`, token);
+    }
+    if (!Object.hasOwn(BUILTINS, token.value)) {
+      return fail(`Unknown function "${token.value}"`, token);
+    }
+    index++;
+    const args = parseList(")");
+    const arity = BUILTINS[token.value].arity;
+    if (args.length !== arity) {
+      fail(
+        `${token.value}() expects ${arity} argument${
+          arity === 1 ? "" : "s"
+        }, got ${args.length}`,
+        token,
+      );
+    }
+    // Patterns taken from the request or the state could take exponential time
+    // to match, so they are written in the expression and compiled once
+    if (token.value === "matches") {
+      const pattern = args[1];
+      if (pattern.type !== "literal" || typeof pattern.value !== "string") {
+        throw syntaxFailure(
+          source,
+          "The pattern of matches() must be a string literal",
+          pattern.position,
+        );
+      }
+      try {
+        regex(pattern.value, "");
+      } catch {
+        throw syntaxFailure(
+          source,
+          `Invalid pattern ${format(pattern.value)}`,
+          pattern.position,
+        );
+      }
+    }
+    return { type: "call", name: token.value, args, position };
+  };
+
+  const parseList = (close: string): ExpressionNode[] => {
+    const elements: ExpressionNode[] = [];
+    if (accept(close)) return elements;
+    do {
+      elements.push(parseOr());
+    } while (accept(","));
+    expect(close);
+    return elements;
+  };
+
+  const node = parseOr();
+  if (peek().type !== "end") unexpected(peek());
+  checkDepth(source, node);
+  return node;
+}
+
+/**
+ * Checks the depth of a syntax tree without recursing, as long chains of
+ * operators (`a + a + ...`) are deep without being nested
+ *
+ * @throws SyntaxFailure at the first node deeper than `MAX_EXPRESSION_DEPTH`
+ */
+function checkDepth(source: string, root: ExpressionNode): void {
+  const stack: [ExpressionNode, number][] = [[root, 1]];
+  while (stack.length > 0) {
+    const [node, depth] = stack.pop()!;
+    if (depth > MAX_EXPRESSION_DEPTH) {
+      throw syntaxFailure(source, TOO_DEEP, node.position);
+    }
+    const children = node.type === "binary"
+      ? [node.left, node.right]
+      : node.type === "unary"
+      ? [node.operand]
+      : node.type === "member"
+      ? [node.object, node.property]
+      : node.type === "call"
+      ? node.args
+      : node.type === "array"
+      ? node.elements
+      : [];
+    // Reversed, so that the leftmost node too deep is reported
+    for (const child of children.toReversed()) stack.push([child, depth + 1]);
+  }
+}
+
+/**
+ * Splits an expression into tokens
+ *
+ * @throws SyntaxFailure on unknown characters and unterminated strings
+ */
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    const position = index;
+
+    if (/\s/.test(char)) {
+      index++;
+    } else if (/[0-9]/.test(char)) {
+      const value = /^[0-9]+(\.[0-9]+)?/.exec(source.slice(index))![0];
+      index += value.length;
+      tokens.push({ type: "number", value, literal: Number(value), position });
+    } else if (/[A-Za-z_]/.test(char)) {
+      const value = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))![0];
+      index += value.length;
+      tokens.push({ type: "identifier", value, position });
+    } else if (char === "'" || char === '"') {
+      let literal = "";
+      index++;
+      while (source[index] !== char) {
+        if (index >= source.length) {
+          throw syntaxFailure(source, "Unterminated string", position);
+        }
+        if (source[index] === "\\") {
+          const escaped = ESCAPES[source[index + 1]];
+          if (escaped === undefined) {
+            throw syntaxFailure(source, "Invalid escape sequence", index);
+          }
+          literal += escaped;
+          index += 2;
+        } else {
+          literal += source[index++];
+        }
+      }
+      index++;
+      tokens.push({
+        type: "string",
+        value: source.slice(position, index),
+        literal,
+        position,
+      });
+    } else {
+      const operator = OPERATORS.find((operator) =>
+        source.startsWith(operator, index)
+      );
+      if (!operator) {
+        throw syntaxFailure(source, `Unexpected character "${char}"`, position);
+      }
+      index += operator.length;
+      tokens.push({ type: "operator", value: operator, position });
+    }
+  }
+
+  tokens.push({ type: "end", value: "", position: source.length });
+  return tokens;
+}
+
+/**
+ * Builds a binary node, positioned at its left operand
+ */
+function binary(
+  operator: BinaryOperator,
+  left: ExpressionNode,
+  right: ExpressionNode,
+): ExpressionNode {
+  return { type: "binary", operator, left, right, position: left.position };
+}
+
+/**
+ * Builds the error thrown for a syntax error at an offset of the source
+ */
+function syntaxFailure(
+  source: string,
+  message: string,
+  position: number,
+): SyntaxFailure {
+  const { line, column } = locate(source, position);
+  const syntax = {
+    message: `${message} at ${line}:${column}`,
+    position,
+    line,
+    column,
+  };
+  return Object.assign(new Error(syntax.message), { syntax });
+}
+
+/**
+ * Finds the line and column of an offset, both starting at 1
+ */
+function locate(source: string, position: number) {
+  const lines = source.slice(0, position).split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * Compiles a syntax tree into an expression
+ */
+function compile(source: string, ast: ExpressionNode): CompiledExpression {
+  const evaluate = compileNode(source, ast);
+  const fields = new Set<string>();
+  let timeDependent = false;
+
+  const visit = (node: ExpressionNode, accessed = false) => {
+    switch (node.type) {
+      case "variable":
+        if (node.name === "request" && !accessed) fields.add("*");
+        return;
+      case "member":
+        if (node.object.type === "variable" && node.object.name === "request") {
+          fields.add(
+            node.property.type === "literal"
+              ? String(node.property.value)
+              : "*",
+          );
+        }
+        visit(node.object, true);
+        visit(node.property);
+        return;
+      case "call":
+        if (node.name === "now") timeDependent = true;
+        node.args.forEach((arg) => visit(arg));
+        return;
+      case "array":
+        node.elements.forEach((element) => visit(element));
+        return;
+      case "unary":
+        visit(node.operand);
+        return;
+      case "binary":
+        visit(node.left);
+        visit(node.right);
+        return;
+    }
+  };
+  visit(ast);
+
+  return {
+    source,
+    ast,
+    requestFields: [...fields],
+    timeDependent,
+    evaluate,
+  };
+}
+
+/**
+ * Compiles a node into a function evaluating it
+ */
+function compileNode(source: string, node: ExpressionNode): Evaluator {
+  const { line, column } = locate(source, node.position);
+  const at = `at ${line}:${column}`;
+
+  switch (node.type) {
+    case "literal": {
+      const value = node.value;
+      return () => value;
+    }
+    case "variable":
+      return node.name === "request"
+        ? (scope) => scope.request
+        : (scope) => scope.state;
+    case "member": {
+      const object = compileNode(source, node.object);
+      const property = compileNode(source, node.property);
+      return (scope) => member(object(scope), property(scope), at);
+    }
+    case "call": {
+      const builtin = BUILTINS[node.name];
+      const args = node.args.map((arg) => compileNode(source, arg));
+      return (scope) => builtin.call(args.map((arg) => arg(scope)), scope, at);
+    }
+    case "array": {
+      const elements = node.elements.map((element) =>
+        compileNode(source, element)
+      );
+      return (scope) => elements.map((element) => element(scope));
+    }
+    case "unary": {
+      const operand = compileNode(source, node.operand);
+      return node.operator === "!"
+        ? (scope) => !boolean(operand(scope), at)
+        : (scope) => -number(operand(scope), "-", at);
+    }
+    case "binary": {
+      const left = compileNode(source, node.left);
+      const right = compileNode(source, node.right);
+      return compileBinary(node.operator, left, right, at);
+    }
+  }
+}
+
+/**
+ * Compiles a binary operator applied to compiled operands
+ */
+function compileBinary(
+  operator: BinaryOperator,
+  left: Evaluator,
+  right: Evaluator,
+  at: string,
+): Evaluator {
+  switch (operator) {
+    case "&&":
+      return (scope) => boolean(left(scope), at) && boolean(right(scope), at);
+    case "||":
+      return (scope) => boolean(left(scope), at) || boolean(right(scope), at);
+    case "==":
+      return (scope) => same(left(scope), right(scope));
+    case "!=":
+      return (scope) => !same(left(scope), right(scope));
+    case "<":
+      return (scope) => order(left(scope), right(scope), at) < 0;
+    case "<=":
+      return (scope) => order(left(scope), right(scope), at) <= 0;
+    case ">":
+      return (scope) => order(left(scope), right(scope), at) > 0;
+    case ">=":
+      return (scope) => order(left(scope), right(scope), at) >= 0;
+    case "in":
+      return (scope) => contains(right(scope), left(scope), '"in"', at);
+    case "+":
+      return (scope) => {
+        const a = left(scope);
+        const b = right(scope);
+        if (typeof a === "string" && typeof b === "string") return a + b;
+        return number(a, "+", at) + number(b, "+", at);
+      };
+    case "-":
+      return (scope) =>
+        number(left(scope), "-", at) - number(right(scope), "-", at);
+    case "*":
+      return (scope) =>
+        number(left(scope), "*", at) * number(right(scope), "*", at);
+    case "/":
+      return (scope) =>
+        number(left(scope), "/", at) / number(right(scope), "/", at);
+    case "%":
+      return (scope) =>
+        number(left(scope), "%", at) % number(right(scope), "%", at);
+  }
+}
+
+/**
+ * Reads an own property of an object or an element of an array
+ *
+ * Members of missing values and missing members read as null.
+ */
+function member(value: unknown, property: unknown, at: string): unknown {
+  if (typeof property !== "string" && typeof property !== "number") {
+    throw failure(`Cannot read a member named by ${typeOf(property)}`, at);
+  }
+  if (typeof value !== "object" || value === null) return null;
+  const key = String(property);
+  return Object.hasOwn(value, key)
+    ? (value as Record<string, unknown>)[key] ?? null
+    : null;
+}
+
+/**
+ * Checks whether an array holds an item, or a string includes another one
+ */
+function contains(
+  value: unknown,
+  item: unknown,
+  operator: string,
+  at: string,
+): boolean {
+  if (Array.isArray(value)) return value.some((element) => same(element, item));
+  if (typeof value === "string" && typeof item === "string") {
+    return value.includes(item);
+  }
+  throw failure(
+    `${operator} expects an array, or strings, got ${typeOf(value)} and ${
+      typeOf(item)
+    }`,
+    at,
+  );
+}
+
+/**
+ * Checks whether two values are equal, dates being compared by time
+ */
+function same(left: unknown, right: unknown): boolean {
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() === right.getTime();
+  }
+  return left === right;
+}
+
+/**
+ * Orders two numbers, strings or dates
+ *
+ * @returns A negative number, zero or a positive number
+ */
+function order(left: unknown, right: unknown, at: string): number {
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() - right.getTime();
+  }
+  if (typeof left === "number" && typeof right === "number") {
+    return left - right;
+  }
+  if (typeof left === "string" && typeof right === "string") {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  throw failure(`Cannot compare ${typeOf(left)} and ${typeOf(right)}`, at);
+}
+
+function boolean(value: unknown, at: string): boolean {
+  if (typeof value === "boolean") return value;
+  throw failure(`Expected a boolean, got ${typeOf(value)}`, at);
+}
+
+function number(value: unknown, operator: string, at: string): number {
+  if (typeof value === "number") return value;
+  throw failure(`${operator} expects numbers, got ${typeOf(value)}`, at);
+}
+
+function text(value: unknown, name: string, at: string): string {
+  if (typeof value === "string") return value;
+  throw failure(`${name}() expects strings, got ${typeOf(value)}`, at);
+}
+
+function day(value: unknown, name: string, at: string): Date {
+  if (value instanceof Date) return value;
+  throw failure(`${name}() expects dates, got ${typeOf(value)}`, at);
+}
+
+/**
+ * Maximum number of patterns of `matches` kept before the cache is reset
+ */
+const MAX_CACHED_PATTERNS = 1024;
+
+/**
+ * Regular expressions of `matches` by pattern
+ */
+const patterns = new Map<string, RegExp>();
+
+function regex(pattern: string, at: string): RegExp {
+  let compiled = patterns.get(pattern);
+  if (!compiled) {
+    try {
+      compiled = new RegExp(pattern);
+    } catch {
+      throw failure(`Invalid pattern ${format(pattern)}`, at);
+    }
+    if (patterns.size >= MAX_CACHED_PATTERNS) patterns.clear();
+    patterns.set(pattern, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Names the type of a value for error messages
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (value instanceof Date) return "date";
+  return typeof value;
+}
+
+/**
+ * Formats a value for error messages
+ */
+function format(value: unknown): string {
+  return typeof value === "string" ? JSON.stringify(value) : typeOf(value);
+}
+
+/**
+ * Builds the error reported when an expression cannot be evaluated
+ */
+function failure(message: string, at: string): Error {
+  return new Error(`${message} ${at}`);
+}
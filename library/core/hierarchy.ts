@@ -49,6 +49,8 @@ export function flatHierarchy<H extends Hierarchy>(
         schemas: element.schemas ?? [],
         rules: element.rules ?? [],
         defaultState: element.defaultState,
+        inherit: element.inherit ?? true,
+        combining: element.combining,
       };
 
       if (element.children) {
@@ -105,6 +107,10 @@ export function hierarchy<const H extends Hierarchy>(
 
 /**
  * Finds all permissions that are satisfied by a given key in the hierarchy
+ *
+ * The chain goes from the root to the key itself. It stops at the closest
+ * permission declared with `inherit: false`, whose ancestors cannot satisfy it.
+ *
  * @param hierarchy The permission hierarchy
  * @param key The permission key to check
  * @returns An array of permission keys that are satisfied by the given key
@@ -131,6 +137,9 @@ export function satisfiedBy<
     if (!(traverseKey in hierarchy.flat)) break;
     matching.unshift(traverseKey);
 
+    // Ancestors cannot satisfy a permission that opted out of inheritance
+    if (hierarchy.flat[traverseKey].inherit === false) break;
+
     seperatorIndex = traverseKey.lastIndexOf(".");
     traverseKey = traverseKey.substring(0, seperatorIndex) as K;
   }
@@ -138,6 +147,48 @@ export function satisfiedBy<
   return matching;
 }
 
+/**
+ * Checks whether a state set key is a key pattern
+ *
+ * @param key Key of a state set
+ * @returns True if one of its segments is `*` or `**`
+ */
+export function isKeyPattern(key: string): boolean {
+  return key.split(".").some((segment) => segment === "*" || segment === "**");
+}
+
+/**
+ * Checks whether a permission key matches a key pattern
+ *
+ * In a pattern, `*` stands for exactly one segment and `**` for one or more
+ * segments: `admin.*` matches `admin.users` but not `admin.users.delete`,
+ * `admin.**` matches both, and neither matches `admin` itself.
+ *
+ * @param pattern The key pattern
+ * @param key The permission key
+ * @returns True if the key matches the pattern
+ */
+export function matchesKeyPattern(pattern: string, key: string): boolean {
+  const patternSegments = pattern.split(".");
+  const keySegments = key.split(".");
+
+  const match = (p: number, k: number): boolean => {
+    if (p === patternSegments.length) return k === keySegments.length;
+    if (k === keySegments.length) return false;
+    const segment = patternSegments[p];
+    if (segment === "**") {
+      for (let end = k + 1; end <= keySegments.length; end++) {
+        if (match(p + 1, end)) return true;
+      }
+      return false;
+    }
+    return (segment === "*" || segment === keySegments[k]) &&
+      match(p + 1, k + 1);
+  };
+
+  return match(0, 0);
+}
+
 /**
  * Creates a state set with default values for all permissions in a hierarchy
  *
@@ -0,0 +1,312 @@
+/**
+ * Static linter for permission hierarchies
+ *
+ * Mistakes in hierarchies usually only surface at runtime, when a request is
+ * unexpectedly denied. `lintHierarchy` walks the permissions of `flatHierarchy`
+ * and the operator trees of their rules, looking for such mistakes without
+ * validating anything. Reasoning about results relies on the `outcomes` of the
+ * rules: the results declared by the built-in rules, and those derived by the
+ * operators from their operands.
+ *
+ * Built-in lint rules (see `LINT_RULES`):
+ * - `no-empty-permission` (warning): a permission without rules nor children,
+ *   which can never be granted
+ * - `no-neutral-not` (error): `not()` around a rule that only returns
+ *   "neutral", the inversion being "neutral" too
+ * - `no-ineffective-deny` (error): a denying rule, such as `denySelf`, whose
+ *   denial never changes the result, because the rules before it already
+ *   decided or because its operator ignores denials (as `or` does)
+ * - `no-conflicting-schemas` (error): two schemas with the same name but
+ *   different guards, only one of them being checked after deduplication
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { lintHierarchy } from "@diister/quick-permission";
+ *
+ * const findings = lintHierarchy(files, {
+ *   rules: { "no-empty-permission": "off", "no-ineffective-deny": "warning" },
+ *   customRules: {
+ *     "explicit-inherit": {
+ *       description: "Sensitive permissions must not be inherited",
+ *       severity: "error",
+ *       check({ key, permission, report }) {
+ *         if (key.endsWith(".delete") && permission.inherit) {
+ *           report("Set inherit: false on delete permissions");
+ *         }
+ *       },
+ *     },
+ *   },
+ * });
+ * // [{ rule: "no-ineffective-deny", severity: "warning", key: "files.write",
+ * //    rulePath: "rules[0].operands[1]", message: "..." }]
+ * ```
+ *
+ * @module lint
+ */
+import { reduceOperands, resultCombinations } from "../operators/operations.ts";
+import {
+  type CombiningAlgorithm,
+  type PermissionHierarchy,
+  VALIDATION_RESULT,
+  type ValidationResultType,
+} from "../types/common.ts";
+import type {
+  LintFinding,
+  LintOptions,
+  LintPermission,
+  LintRule,
+  LintRuleSetting,
+} from "../types/lint.ts";
+import type { AnyRule } from "../types/rule.ts";
+import type { Schema } from "../types/schema.ts";
+import { combineResults } from "./combining.ts";
+
+/**
+ * Built-in lint rules, by name
+ */
+export const LINT_RULES: Readonly<Record<string, LintRule>> = {
+  "no-empty-permission": {
+    description: "Permissions without rules nor children are never granted",
+    severity: "warning",
+    check({ key, permission, keys, report }) {
+      if (permission.rules.length > 0) return;
+      // Rule-less groups are common, their children hold the rules
+      if (keys.some((other) => other.startsWith(`${key}.`))) return;
+      report("Permission has no rules, it can never be granted");
+    },
+  },
+  "no-neutral-not": {
+    description: 'not() around a rule only returning "neutral" never decides',
+    severity: "error",
+    check({ permission, report }) {
+      walkRules(permission.rules, (rule, path) => {
+        if (!isOperator(rule, "not")) return;
+        const [operand] = rule.operands!;
+        if (
+          operand.outcomes?.length === 1 &&
+          operand.outcomes[0] === VALIDATION_RESULT.NEUTRAL
+        ) {
+          report(
+            `not() inverts "${operand.name}", which only returns "neutral": the result is always "neutral"`,
+            path,
+          );
+        }
+      });
+    },
+  },
+  "no-ineffective-deny": {
+    description: "Denying rules must be able to change the result",
+    severity: "error",
+    check({ permission, report }) {
+      const { rules, combining } = permission;
+      if (typeof combining !== "function") {
+        reportIneffectiveDenials(
+          rules,
+          (results) => permissionResult(combining, results),
+          "the permission",
+          (index) => `rules[${index}]`,
+          report,
+        );
+      }
+      walkRules(rules, (rule, path) => {
+        // Rules may list operands without being built by an operator
+        if (!rule.operands || !reduceOperands(rule, [])) return;
+        reportIneffectiveDenials(
+          rule.operands,
+          (results) => reduceOperands(rule, results),
+          `"${rule.name}"`,
+          (index) => `${path}.operands[${index}]`,
+          report,
+        );
+      });
+    },
+  },
+  "no-conflicting-schemas": {
+    description: "Schemas sharing a name must have the same guards",
+    severity: "error",
+    check({ permission, report }) {
+      const kept = new Map(
+        permission.schemas.map((schema) => [schema.name, schema]),
+      );
+      const reported = new Set<Schema<any, any>>();
+      walkRules(permission.rules, (rule, path) => {
+        for (const schema of rule.schemas as Schema<any, any>[]) {
+          const keptSchema = kept.get(schema.name);
+          if (
+            !keptSchema || keptSchema === schema || reported.has(schema) ||
+            sameGuards(keptSchema, schema)
+          ) continue;
+          reported.add(schema);
+          report(
+            `Schema "${schema.name}" of "${rule.name}" has other guards than the schema of the same name checked by the permission, its guards are ignored`,
+            path,
+          );
+        }
+      });
+    },
+  },
+};
+
+/**
+ * Lints a hierarchy
+ *
+ * Every enabled lint rule checks every permission of the hierarchy. Findings
+ * are listed by key, in the order of `hierarchy.keys`, then by lint rule.
+ *
+ * @param hierarchy The permission hierarchy
+ * @param options Settings of the lint rules and custom lint rules
+ * @returns The findings, empty when no problem is found
+ * @throws Error if a setting names an unknown lint rule or has an invalid value
+ */
+export function lintHierarchy(
+  hierarchy: PermissionHierarchy<any>,
+  options: LintOptions = {},
+): LintFinding[] {
+  const available = { ...LINT_RULES, ...options.customRules };
+  for (const [name, setting] of Object.entries(options.rules ?? {})) {
+    if (!(name in available)) {
+      throw new Error(`Unknown lint rule "${name}"`);
+    }
+    if (!["error", "warning", "off"].includes(setting)) {
+      throw new Error(
+        `Invalid setting "${setting}" of lint rule "${name}", expected "error", "warning" or "off"`,
+      );
+    }
+  }
+
+  const enabled = Object.entries(available).flatMap(([name, lintRule]) => {
+    const setting: LintRuleSetting = options.rules?.[name] ??
+      lintRule.severity;
+    return setting === "off" ? [] : [{ name, lintRule, severity: setting }];
+  });
+
+  const keys = hierarchy.keys as string[];
+  const findings: LintFinding[] = [];
+  for (const key of keys) {
+    const permission = hierarchy.flat[key] as LintPermission;
+    for (const { name, lintRule, severity } of enabled) {
+      lintRule.check({
+        key,
+        permission,
+        keys,
+        report(message, rulePath) {
+          findings.push({
+            rule: name,
+            severity,
+            key,
+            ...(rulePath !== undefined && { rulePath }),
+            message,
+          });
+        },
+      });
+    }
+  }
+  return findings;
+}
+
+/**
+ * Visits rules and the operands of operators, depth first
+ *
+ * @param rules Rules of a permission
+ * @param visit Called with each rule and its path, such as `rules[0].operands[1]`
+ */
+export function walkRules(
+  rules: AnyRule<any>[],
+  visit: (rule: AnyRule<any>, path: string) => void,
+): void {
+  const walk = (rule: AnyRule<any>, path: string) => {
+    visit(rule, path);
+    rule.operands?.forEach((operand, index) =>
+      walk(operand, `${path}.operands[${index}]`)
+    );
+  };
+  rules.forEach((rule, index) => walk(rule, `rules[${index}]`));
+}
+
+/**
+ * Checks whether a rule was built by an operator
+ */
+function isOperator(rule: AnyRule<any>, name: string): boolean {
+  return rule.operands !== undefined && rule.name === name;
+}
+
+/**
+ * Reports the denying rules of a sequence whose denial never changes the
+ * result of the sequence
+ *
+ * A rule is denying when it may only return "rejected", "blocked" or
+ * "neutral". Its denial is ineffective when, whatever the results of the other
+ * rules, the sequence gives the same result with the rule returning "neutral".
+ *
+ * @param rules Rules of the sequence, in evaluation order
+ * @param evaluate Result of the sequence from the results of its rules
+ * @param owner Description of the sequence, used in messages
+ * @param pathOf Path of a rule of the sequence
+ * @param report Reports a finding
+ */
+function reportIneffectiveDenials(
+  rules: AnyRule<any>[],
+  evaluate: (
+    results: ValidationResultType[],
+  ) => ValidationResultType | undefined,
+  owner: string,
+  pathOf: (index: number) => string,
+  report: (message: string, rulePath?: string) => void,
+): void {
+  rules.forEach((rule, index) => {
+    const denials = rule.outcomes?.filter((outcome) =>
+      outcome === VALIDATION_RESULT.REJECTED ||
+      outcome === VALIDATION_RESULT.BLOCKED
+    );
+    if (
+      !denials?.length ||
+      rule.outcomes!.includes(VALIDATION_RESULT.GRANTED)
+    ) return;
+
+    const combinations = resultCombinations(
+      rules.filter((_, other) => other !== index),
+    );
+    if (!combinations) return;
+    const effective = combinations.some((results) => {
+      const withResult = (result: ValidationResultType) =>
+        evaluate([...results.slice(0, index), result, ...results.slice(index)]);
+      const neutral = withResult(VALIDATION_RESULT.NEUTRAL);
+      return denials.some((denial) => withResult(denial) !== neutral);
+    });
+    if (!effective) {
+      report(
+        `Denying rule "${rule.name}" can never change the result of ${owner}: the rules before it always decide, or its denial is ignored`,
+        pathOf(index),
+      );
+    }
+  });
+}
+
+/**
+ * Result of the rules of a permission, as `validate` computes it
+ */
+function permissionResult(
+  combining: CombiningAlgorithm | undefined,
+  results: ValidationResultType[],
+): ValidationResultType {
+  if (combining) return combineResults(combining, results);
+  for (const result of results) {
+    if (
+      result === VALIDATION_RESULT.REJECTED ||
+      result === VALIDATION_RESULT.BLOCKED
+    ) return result;
+  }
+  return results.includes(VALIDATION_RESULT.GRANTED)
+    ? VALIDATION_RESULT.GRANTED
+    : VALIDATION_RESULT.NEUTRAL;
+}
+
+/**
+ * Checks whether two schemas have the same guards, by source
+ */
+function sameGuards(a: Schema<any, any>, b: Schema<any, any>): boolean {
+  return (["state", "request", "stateAsync", "requestAsync"] as const).every(
+    (guard) => String(a[guard]) === String(b[guard]),
+  );
+}
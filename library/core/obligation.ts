@@ -0,0 +1,176 @@
+/**
+ * Obligations and advice for the permission system
+ *
+ * Rules attach instructions to their results by returning a decision instead of
+ * a bare result. The instructions follow the results through operators and the
+ * merging of entries, chain keys and state sources, and only reach
+ * `ValidationResult` when the result they are attached to contributed to the
+ * final outcome.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { fulfill, validate } from "@diister/quick-permission";
+ * import { rule } from "@diister/quick-permission/core/rule";
+ * import { target } from "@diister/quick-permission/schemas/target";
+ *
+ * const auditedTarget = rule("auditedTarget", [target()], (state, request) => {
+ *   if (!state.target.includes(request.target)) return "neutral";
+ *   return {
+ *     result: "granted",
+ *     obligations: [{ id: "log-access", attributes: { target: request.target } }],
+ *     advice: [{ id: "watermark" }],
+ *   };
+ * });
+ *
+ * const result = await fulfill(validate(files, states, "files.read", request), {
+ *   "log-access": (attributes) => logger.info("access", attributes),
+ * });
+ * ```
+ *
+ * @module obligation
+ */
+import {
+  VALIDATION_RESULT,
+  type ValidationError,
+  type ValidationResult,
+  type ValidationResultType,
+} from "../types/common.ts";
+import type {
+  Advice,
+  Obligation,
+  ObligationHandlers,
+  RuleDecision,
+} from "../types/obligation.ts";
+
+/**
+ * Obligations and advice gathered from several results
+ *
+ * @internal
+ */
+export type Directives = {
+  obligations?: Obligation[];
+  advice?: Advice[];
+};
+
+/**
+ * Gathers the obligations and advice of several results, without duplicates
+ *
+ * @param sources Results carrying obligations and advice
+ * @returns The instructions, fields being omitted when empty
+ * @internal
+ */
+export function gatherDirectives(sources: Directives[]): Directives {
+  const obligations = unique(sources.flatMap((s) => s.obligations ?? []));
+  const advice = unique(sources.flatMap((s) => s.advice ?? []));
+  const directives: Directives = {};
+  if (obligations.length > 0) directives.obligations = obligations;
+  if (advice.length > 0) directives.advice = advice;
+  return directives;
+}
+
+/**
+ * Checks whether a result or decision carries obligations or advice
+ *
+ * Callers use it to skip gathering instructions when there is none.
+ *
+ * @param source Result or decision to inspect
+ * @returns True when the source has at least one instruction
+ * @internal
+ */
+export function hasDirectives(source: Directives): boolean {
+  return (source.obligations?.length ?? 0) > 0 ||
+    (source.advice?.length ?? 0) > 0;
+}
+
+/**
+ * Attaches the instructions and reasons of contributing decisions to a result
+ *
+ * @param result The combined result
+ * @param decisions Decisions that contributed to the result
+ * @returns The bare result when there is no instruction nor reason, a decision
+ * otherwise
+ * @internal
+ */
+export function decide(
+  result: ValidationResultType,
+  decisions: RuleDecision[],
+): ValidationResultType | RuleDecision {
+  const directives = gatherDirectives(decisions);
+  const reasons = decisions.flatMap((decision) => decision.reasons ?? []);
+  if (!directives.obligations && !directives.advice && reasons.length === 0) {
+    return result;
+  }
+  return reasons.length > 0
+    ? { result, ...directives, reasons }
+    : { result, ...directives };
+}
+
+/**
+ * Fulfills the obligations and advice of a validation result
+ *
+ * Handlers are called one after the other, in the order of the instructions.
+ * When an obligation has no handler or its handler throws, the result is turned
+ * into a denial reporting the failure. Advice without handler is ignored, as are
+ * failing advice handlers.
+ *
+ * @param result The validation result
+ * @param handlers Handlers by instruction identifier
+ * @returns The result, denied if an obligation could not be fulfilled
+ */
+export async function fulfill(
+  result: ValidationResult,
+  handlers: ObligationHandlers,
+): Promise<ValidationResult> {
+  const errors: ValidationError[] = [];
+
+  for (const obligation of result.obligations ?? []) {
+    const handler = handlers[obligation.id];
+    if (!handler) {
+      errors.push({
+        type: "obligation",
+        name: obligation.id,
+        message: `No handler for obligation ${obligation.id}`,
+      });
+      continue;
+    }
+    try {
+      await handler(obligation.attributes ?? {});
+    } catch (error) {
+      errors.push({
+        type: "obligation",
+        name: obligation.id,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  for (const advice of result.advice ?? []) {
+    try {
+      await handlers[advice.id]?.(advice.attributes ?? {});
+    } catch {
+      // Advice may be ignored
+    }
+  }
+
+  if (errors.length === 0) return result;
+  return {
+    ...result,
+    valid: false,
+    reasons: [...result.reasons, ...errors],
+    resultType: result.valid ? VALIDATION_RESULT.REJECTED : result.resultType,
+  };
+}
+
+/**
+ * Removes structurally identical instructions, keeping the first occurrence
+ */
+function unique<T extends Obligation>(directives: T[]): T[] {
+  const seen = new Set<string>();
+  return directives.filter((directive) => {
+    const key = JSON.stringify([directive.id, directive.attributes]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
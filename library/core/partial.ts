@@ -0,0 +1,415 @@
+/**
+ * Partial evaluation for the permission system
+ *
+ * `validate` needs every request field to decide. List endpoints usually know
+ * the subject but not the rows: `partialEvaluate` takes a request where some
+ * fields are unknown (`target`, `owner`, ...) and returns the condition those
+ * fields must satisfy for the request to be granted. The condition can then be
+ * translated into a SQL `WHERE` fragment or a predicate (see `toSql` and
+ * `toPredicate`).
+ *
+ * Rules take part through their `partial` check. The built-in rules and the
+ * operators provide one; other rules are evaluated concretely, which requires
+ * their schemas to accept the known request fields.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { partialEvaluate, toSql } from "@diister/quick-permission";
+ *
+ * const condition = partialEvaluate(files, states, "files.read", {
+ *   from: "user:123",
+ * }, { unknowns: ["target"] });
+ *
+ * const { sql, params } = toSql(condition, { columns: { target: "path" } });
+ * // SELECT * FROM files WHERE ${sql}
+ * ```
+ *
+ * @module partial
+ */
+import {
+  type Combining,
+  type PermissionHierarchy,
+  type PermissionKey,
+  type PermissionRequests,
+  type PermissionStateSet,
+  VALIDATION_RESULT,
+  type ValidationResultType,
+} from "../types/common.ts";
+import type { RuleDecision } from "../types/obligation.ts";
+import type { Condition, ResidualDecision } from "../types/residual.ts";
+import type { AnyRule } from "../types/rule.ts";
+import {
+  and,
+  equals,
+  FALSE,
+  fieldEquals,
+  literal,
+  not,
+  or,
+} from "./residual.ts";
+import { evaluateRule, isAsyncRule } from "./rule.ts";
+import {
+  createValidationPlan,
+  resolveStateEntries,
+  splitEffect,
+  type ValidateOptions,
+} from "./validation.ts";
+
+/**
+ * Options accepted by `partialEvaluate`
+ */
+export type PartialEvaluateOptions = Omit<ValidateOptions, "explain"> & {
+  /** Names of the request fields left unknown */
+  unknowns: readonly string[];
+};
+
+/**
+ * Computes the condition under which a request with unknown fields is granted
+ *
+ * The evaluation follows `validate`: state entries, keys of the `satisfiedBy`
+ * chain and state sources are merged the same way, with the same combining
+ * algorithms. Request schema guards cannot be checked while fields are unknown
+ * and are skipped; state schema guards still apply.
+ *
+ * @param hierarchy Permission hierarchy
+ * @param states Array of permission state sets
+ * @param key Permission key to evaluate
+ * @param request Known request fields
+ * @param options Unknown fields, inheritance mode and combining algorithms
+ * @returns Condition on the unknown fields under which the request is granted
+ * @throws Error if the key does not exist in the hierarchy, or if a rule cannot
+ * be partially evaluated
+ */
+export function partialEvaluate<
+  H extends PermissionHierarchy<any>,
+  K extends PermissionKey<H>,
+>(
+  hierarchy: H,
+  states: PermissionStateSet<H>[],
+  key: K,
+  request: Partial<PermissionRequests<H, K>>,
+  options: PartialEvaluateOptions,
+): Condition {
+  const unknowns = new Set(options.unknowns);
+  const known: Record<string, unknown> = {};
+  for (const [field, value] of Object.entries(request)) {
+    if (!unknowns.has(field)) known[field] = value;
+  }
+  const combining = options.combining ?? {};
+
+  const plan = createValidationPlan(hierarchy, key, {
+    inheritance: options.inheritance,
+  });
+  const sources = resolveStateEntries(plan, states).map((chain) =>
+    combineStage(
+      chain.map(({ schemas, rules, combining: ruleCombining, entries }) =>
+        combineStage(
+          entries.map((entry) => {
+            const { effect, state } = splitEffect(entry);
+            const outcome = evaluateEntry(
+              schemas,
+              rules,
+              ruleCombining,
+              state,
+              known,
+              unknowns,
+            );
+            // Grants of "deny" and "block" entries become denials, entries
+            // failing their schemas applying as if they matched
+            if (effect === "deny" || effect === "block") {
+              if (!outcome) {
+                return residualFromResult(
+                  effect === "deny"
+                    ? VALIDATION_RESULT.REJECTED
+                    : VALIDATION_RESULT.BLOCKED,
+                );
+              }
+              return {
+                granted: FALSE,
+                rejected: effect === "deny" ? outcome.granted : FALSE,
+                blocked: effect === "block" ? outcome.granted : FALSE,
+              };
+            }
+            return outcome ??
+              residualFromResult(VALIDATION_RESULT.REJECTED);
+          }),
+          combining.entries,
+        )
+      ),
+      combining.chain,
+    )
+  );
+  return combineStage(sources, combining.sources)?.granted ?? FALSE;
+}
+
+/**
+ * Evaluates a rule with unknown request fields
+ *
+ * The `partial` check of the rule is used when it has one. Otherwise the rule
+ * is evaluated concretely, provided its schemas accept the known request
+ * fields, a throwing rule being "rejected" as in `validate`.
+ *
+ * @param rule The rule to evaluate
+ * @param state State handed to the rule
+ * @param request Known request fields
+ * @param unknowns Names of the unknown request fields
+ * @returns The outcome of the rule as conditions on the unknown fields
+ * @throws Error if the rule is asynchronous, or needs unknown fields and has
+ * no partial check
+ */
+export function residualOf(
+  rule: AnyRule<any>,
+  state: unknown,
+  request: Record<string, unknown>,
+  unknowns: ReadonlySet<string>,
+): ResidualDecision {
+  if (rule.partial) return rule.partial(state, request, unknowns);
+  if (isAsyncRule(rule)) {
+    throw new Error(
+      `Rule ${rule.name} is asynchronous and cannot be partially evaluated`,
+    );
+  }
+  if (
+    unknowns.size > 0 &&
+    rule.schemas.some((schema: any) =>
+      schema.request && !schema.request(request)
+    )
+  ) {
+    throw new Error(
+      `Rule ${rule.name} cannot be partially evaluated without ${
+        [...unknowns].join(", ")
+      }`,
+    );
+  }
+
+  try {
+    return residualFromResult(evaluateRule(rule, state, request));
+  } catch {
+    return residualFromResult(VALIDATION_RESULT.REJECTED);
+  }
+}
+
+/**
+ * Converts a concrete rule outcome into literal conditions
+ *
+ * Partial checks use it for the cases where every field they need is known.
+ *
+ * @param outcome Result or decision of the rule, legacy values included
+ * @returns The outcome as literal conditions
+ */
+export function residualFromResult(
+  outcome: ValidationResultType | RuleDecision | boolean | undefined,
+): ResidualDecision {
+  const result = typeof outcome === "object" && outcome !== null
+    ? outcome.result
+    : outcome;
+  return {
+    granted: literal(result === VALIDATION_RESULT.GRANTED || result === true),
+    rejected: literal(
+      result === VALIDATION_RESULT.REJECTED || result === false,
+    ),
+    blocked: literal(result === VALIDATION_RESULT.BLOCKED),
+  };
+}
+
+/**
+ * Builds the condition of two request fields being equal
+ *
+ * @param request Known request fields
+ * @param unknowns Names of the unknown request fields
+ * @param field Name of the first field
+ * @param other Name of the second field
+ * @returns A literal when both fields are known, a condition otherwise
+ */
+export function sameFields(
+  request: Record<string, unknown>,
+  unknowns: ReadonlySet<string>,
+  field: string,
+  other: string,
+): Condition {
+  if (unknowns.has(field) && unknowns.has(other)) {
+    return fieldEquals(field, other);
+  }
+  if (unknowns.has(field)) return equals(field, request[other]);
+  if (unknowns.has(other)) return equals(other, request[field]);
+  return literal(request[field] === request[other]);
+}
+
+/**
+ * Combines residual outcomes evaluated one after the other, the first
+ * "rejected" or "blocked" outcome ending the evaluation
+ *
+ * With `"any"` the result is "granted" when one outcome is, with `"all"` when
+ * every outcome is. This mirrors the rules of a permission without combining
+ * algorithm and the `merge` and `and` operators.
+ *
+ * @param outcomes Outcomes in evaluation order
+ * @param grant How "granted" outcomes are required
+ * @returns The combined outcome
+ * @internal
+ */
+export function sequenceResiduals(
+  outcomes: ResidualDecision[],
+  grant: "any" | "all",
+): ResidualDecision {
+  const rejected: Condition[] = [];
+  const blocked: Condition[] = [];
+  // Conditions under which no previous outcome ended the evaluation
+  let proceed: Condition = literal(true);
+  for (const outcome of outcomes) {
+    rejected.push(and(proceed, outcome.rejected));
+    blocked.push(and(proceed, outcome.blocked));
+    proceed = and(proceed, not(or(outcome.rejected, outcome.blocked)));
+  }
+  const granted = outcomes.map((outcome) => outcome.granted);
+  return {
+    granted: and(proceed, grant === "any" ? or(...granted) : and(...granted)),
+    rejected: or(...rejected),
+    blocked: or(...blocked),
+  };
+}
+
+/**
+ * Combines residual outcomes with a combining algorithm, following
+ * `combineResults`
+ *
+ * @param combining Name of the combining algorithm
+ * @param outcomes Outcomes in evaluation order
+ * @returns The combined outcome
+ * @throws Error for custom combiners, which cannot be partially evaluated
+ * @internal
+ */
+export function combineResiduals(
+  combining: Combining,
+  outcomes: ResidualDecision[],
+): ResidualDecision {
+  if (typeof combining === "function") {
+    throw new Error("Custom combiners cannot be partially evaluated");
+  }
+
+  const blocked = or(...outcomes.map((outcome) => outcome.blocked));
+  const unblocked = not(blocked);
+  const anyGranted = or(...outcomes.map((outcome) => outcome.granted));
+  const anyRejected = or(...outcomes.map((outcome) => outcome.rejected));
+  const decide = (granted: Condition, rejected: Condition) => ({
+    granted: and(unblocked, granted),
+    rejected: and(unblocked, rejected),
+    blocked,
+  });
+
+  switch (combining) {
+    case "deny-overrides":
+      return decide(and(not(anyRejected), anyGranted), anyRejected);
+    case "permit-overrides":
+      return decide(anyGranted, and(not(anyGranted), anyRejected));
+    case "first-applicable": {
+      const granted: Condition[] = [];
+      const rejected: Condition[] = [];
+      // Conditions under which every previous outcome is neutral
+      let neutral: Condition = literal(true);
+      for (const outcome of outcomes) {
+        granted.push(and(neutral, outcome.granted));
+        rejected.push(and(neutral, outcome.rejected));
+        neutral = and(neutral, not(or(outcome.granted, outcome.rejected)));
+      }
+      return decide(or(...granted), or(...rejected));
+    }
+    case "only-one-applicable": {
+      const applicable = outcomes.map((outcome) =>
+        or(outcome.granted, outcome.rejected)
+      );
+      const alone = (index: number) =>
+        and(
+          ...applicable.filter((_, other) => other !== index).map(not),
+        );
+      const several: Condition[] = [];
+      applicable.forEach((condition, index) => {
+        for (const other of applicable.slice(index + 1)) {
+          several.push(and(condition, other));
+        }
+      });
+      return decide(
+        or(
+          ...outcomes.map((outcome, index) =>
+            and(outcome.granted, alone(index))
+          ),
+        ),
+        or(
+          ...outcomes.map((outcome, index) =>
+            and(outcome.rejected, alone(index))
+          ),
+          ...several,
+        ),
+      );
+    }
+    case "deny-unless-permit":
+      return decide(anyGranted, not(anyGranted));
+    case "permit-unless-deny":
+      return decide(not(anyRejected), anyRejected);
+    default:
+      throw new Error(`Unknown combining algorithm "${combining}"`);
+  }
+}
+
+/**
+ * Evaluates one state entry with unknown request fields, following `allow`
+ *
+ * @returns The conditions of the entry, undefined when its schemas fail
+ */
+function evaluateEntry(
+  schemas: any[],
+  rules: AnyRule<any>[],
+  combining: Combining | undefined,
+  state: unknown,
+  request: Record<string, unknown>,
+  unknowns: ReadonlySet<string>,
+): ResidualDecision | undefined {
+  for (const schema of schemas) {
+    try {
+      if (
+        schema.stateAsync || schema.requestAsync ||
+        (schema.state && !schema.state(state)) ||
+        (unknowns.size === 0 && schema.request && !schema.request(request))
+      ) {
+        return undefined;
+      }
+    } catch {
+      return undefined;
+    }
+  }
+
+  const outcomes = rules.map((rule) =>
+    residualOf(rule, state, request, unknowns)
+  );
+  return combining
+    ? combineResiduals(combining, outcomes)
+    : sequenceResiduals(outcomes, "any");
+}
+
+/**
+ * Merges the outcomes of a stage with its combining algorithm, or with the OR
+ * logic of `validate` when the stage has none
+ *
+ * @returns The merged outcome, undefined when the stage is empty
+ */
+function combineStage(
+  outcomes: (ResidualDecision | undefined)[],
+  combining?: Combining,
+): ResidualDecision | undefined {
+  const defined = outcomes.filter((outcome) => outcome !== undefined);
+  if (defined.length === 0) return undefined;
+  if (combining) return combineResiduals(combining, defined);
+
+  // "blocked" wins, then "granted", otherwise the last outcome is kept
+  const blocked = or(...defined.map((outcome) => outcome.blocked));
+  const granted = and(
+    not(blocked),
+    or(...defined.map((outcome) => outcome.granted)),
+  );
+  return {
+    granted,
+    rejected: and(not(or(blocked, granted)), defined.at(-1)!.rejected),
+    blocked,
+  };
+}
@@ -3,13 +3,15 @@
  * @module permission
  */
 import type {
+  Combining,
   ExtractSchemasFromRules,
   Hierarchy,
   Permission,
   PermissionSchemas,
 } from "../types/common.ts";
-import type { Rule } from "../types/rule.ts";
+import type { AnyRule } from "../types/rule.ts";
 import type { Schema } from "../types/schema.ts";
+import { isCombining } from "./combining.ts";
 
 /**
  * Creates a permission object with schemas, rules, optional children and default state
@@ -19,14 +21,29 @@ import type { Schema } from "../types/schema.ts";
  */
 export function permission<
   const S extends Schema<any, any>[] | undefined = undefined,
-  const R extends Rule<any>[] | undefined = undefined,
+  const R extends AnyRule<any>[] | undefined = undefined,
   const C extends Hierarchy | undefined = undefined,
 >(content: {
   schemas?: S;
   rules?: R;
   children?: C;
   defaultState?: object;
+  /**
+   * Whether grants on ancestor permissions may satisfy this permission
+   * (defaults to true). Set it to false for sensitive permissions that must be
+   * granted explicitly, inheritance then also stops here for their children.
+   */
+  inherit?: boolean;
+  /**
+   * Algorithm combining the results of the rules. Without one, the first
+   * "rejected" or "blocked" rule denies and any "granted" rule grants.
+   */
+  combining?: Combining;
 }): Permission<S, R, C> {
+  if (content.combining !== undefined && !isCombining(content.combining)) {
+    throw new Error(`Unknown combining algorithm "${content.combining}"`);
+  }
+
   // Extract rules and explicit schemas
   const rules = (content.rules ?? []) as R;
   const explicitSchemas = content.schemas ?? [];
@@ -73,9 +90,11 @@ export function permission<
     rules: rules,
     children: content.children as C,
     defaultState,
+    inherit: content.inherit ?? true,
+    combining: content.combining,
   } as Permission<S, R, C>;
 }
 
 // Re-export hierarchy and validate from their respective modules
 export { hierarchy } from "./hierarchy.ts";
-export { validate } from "./validation.ts";
+export { validate, validateAsync } from "./validation.ts";
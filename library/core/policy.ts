@@ -0,0 +1,347 @@
+/**
+ * JSON policies for the permission system
+ *
+ * A hierarchy built from `permission()` calls holds functions, so it cannot be
+ * stored or sent as is. A policy describes the same tree as plain JSON: rules
+ * are referenced by registry name with their options, operators combine them,
+ * and schemas declared besides those of the rules are referenced by name.
+ * `loadHierarchy` turns a policy back into a hierarchy with a registry of rule
+ * factories, `dumpHierarchy` describes a hierarchy as a policy.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import {
+ *   createRegistry,
+ *   dumpHierarchy,
+ *   loadHierarchy,
+ * } from "@diister/quick-permission";
+ *
+ * const files = loadHierarchy({
+ *   files: {
+ *     read: {
+ *       type: "permission",
+ *       rules: [
+ *         {
+ *           operator: "or",
+ *           rules: [
+ *             { rule: "allowOwner" },
+ *             { rule: "allowTarget", options: { wildcards: true } },
+ *           ],
+ *         },
+ *       ],
+ *     },
+ *   },
+ * });
+ *
+ * JSON.stringify(dumpHierarchy(files)); // the policy above
+ * ```
+ *
+ * @module policy
+ */
+import type {
+  Hierarchy,
+  Permission,
+  PermissionHierarchy,
+} from "../types/common.ts";
+import type {
+  HierarchyDefinition,
+  PermissionDefinition,
+  PolicyRegistry,
+  RuleDefinition,
+} from "../types/policy.ts";
+import type { AnyRule } from "../types/rule.ts";
+import type { Schema } from "../types/schema.ts";
+import { and, merge, not, or } from "../operators/operations.ts";
+import { allowAttributes } from "../rules/allowAttributes/allowAttributes.ts";
+import { allowOwner } from "../rules/allowOwner/allowOwner.ts";
+import { allowSelf } from "../rules/allowSelf/allowSelf.ts";
+import { allowTarget } from "../rules/allowTarget/allowTarget.ts";
+import { denySelf } from "../rules/denySelf/denySelf.ts";
+import { ensureTime } from "../rules/ensureTime/ensureTime.ts";
+import { expr } from "../rules/expr/expr.ts";
+import { attributes } from "../schemas/attributes/attributes.ts";
+import { owner } from "../schemas/owner/owner.ts";
+import { relation } from "../schemas/relation/relation.ts";
+import { target } from "../schemas/target/target.ts";
+import { time } from "../schemas/time/time.ts";
+import { hierarchy } from "./hierarchy.ts";
+import { permission } from "./permission.ts";
+
+/**
+ * Creates a registry holding the built-in rules and schemas, extended with
+ * custom ones
+ *
+ * `allowRelation` is not built in, as it needs a tuple store: register it with
+ * `allowRelation: ({ relation }) => allowRelation(relation, { model, store })`.
+ *
+ * @param extensions Custom rule factories and schemas, overriding the built-in
+ * ones of the same name
+ * @returns The registry
+ */
+export function createRegistry(
+  extensions: Partial<PolicyRegistry> = {},
+): PolicyRegistry {
+  return {
+    rules: {
+      allowAttributes: (options) => {
+        if (!Array.isArray(options?.comparisons)) {
+          throw new Error('"comparisons" must be an array');
+        }
+        return allowAttributes(options.comparisons);
+      },
+      allowOwner: () => allowOwner(),
+      allowSelf: () => allowSelf(),
+      allowTarget: (options) => allowTarget(options),
+      denySelf: () => denySelf(),
+      ensureTime: () => ensureTime(),
+      expr: (options) => {
+        if (typeof options?.source !== "string") {
+          throw new Error('"source" must be a string');
+        }
+        const { source, ...exprOptions } = options;
+        return expr(source, exprOptions);
+      },
+      ...extensions.rules,
+    },
+    schemas: {
+      attributes,
+      owner,
+      relation,
+      target,
+      time,
+      ...extensions.schemas,
+    },
+  };
+}
+
+/**
+ * Builds a hierarchy from a policy
+ *
+ * The shape of the hierarchy is only known at runtime: give the type of the
+ * hierarchy the policy describes (`H`) to validate with typed keys and
+ * requests.
+ *
+ * @param policy The policy, as an object or as JSON text
+ * @param registry Rule factories and schemas referenced by the policy
+ * @returns The hierarchy
+ * @throws Error if the policy references an unknown rule, operator or schema,
+ * if rule options are rejected by their factory, or if the policy is malformed
+ */
+export function loadHierarchy<H extends Hierarchy = Hierarchy>(
+  policy: HierarchyDefinition | string,
+  registry: PolicyRegistry = createRegistry(),
+): PermissionHierarchy<H> {
+  const definition = typeof policy === "string" ? JSON.parse(policy) : policy;
+  return hierarchy(loadGroup(definition, "", registry)) as PermissionHierarchy<
+    H
+  >;
+}
+
+/**
+ * Describes a hierarchy as a policy
+ *
+ * The policy is canonical: empty rule lists, inherited defaults and the parts
+ * of the default state provided by the schemas are omitted.
+ *
+ * @param source The hierarchy
+ * @returns The policy, ready for `JSON.stringify`
+ * @throws Error if a rule has no definition (custom rules not loaded from a
+ * policy) or if a permission uses a custom combining algorithm
+ */
+export function dumpHierarchy(
+  source: PermissionHierarchy<any>,
+): HierarchyDefinition {
+  return dumpGroup(source.hierarchy, "");
+}
+
+/**
+ * Loads a group of permissions
+ */
+function loadGroup(
+  group: unknown,
+  path: string,
+  registry: PolicyRegistry,
+): Hierarchy {
+  if (!isObject(group)) {
+    throw new Error(`Invalid policy node at "${path}"`);
+  }
+  const loaded: Hierarchy = {};
+  for (const [key, node] of Object.entries(group)) {
+    const nodePath = path ? `${path}.${key}` : key;
+    loaded[key] = isObject(node) && node.type === "permission"
+      ? loadPermission(node as PermissionDefinition, nodePath, registry)
+      : loadGroup(node, nodePath, registry);
+  }
+  return loaded;
+}
+
+/**
+ * Loads a permission and its children
+ */
+function loadPermission(
+  definition: PermissionDefinition,
+  path: string,
+  registry: PolicyRegistry,
+): Permission<any, any, any> {
+  const schemas = (definition.schemas ?? []).map((name) => {
+    if (!Object.hasOwn(registry.schemas, name)) {
+      throw new Error(`Unknown schema "${name}" in permission "${path}"`);
+    }
+    return registry.schemas[name]();
+  });
+
+  return permission({
+    schemas,
+    rules: (definition.rules ?? []).map((rule) =>
+      loadRule(rule, path, registry)
+    ),
+    children: definition.children &&
+      loadGroup(definition.children, path, registry),
+    defaultState: definition.defaultState,
+    inherit: definition.inherit,
+    combining: definition.combining,
+  });
+}
+
+/**
+ * Loads a rule, or an operator and its operands
+ */
+function loadRule(
+  definition: RuleDefinition,
+  path: string,
+  registry: PolicyRegistry,
+): AnyRule<any> {
+  if (!isObject(definition)) {
+    throw new Error(`Invalid rule definition in permission "${path}"`);
+  }
+
+  if ("operator" in definition) {
+    const { operator } = definition;
+    if (!Array.isArray(definition.rules)) {
+      throw new Error(
+        `Operator "${operator}" in permission "${path}" must list its rules`,
+      );
+    }
+    const rules = definition.rules.map((rule) =>
+      loadRule(rule, path, registry)
+    );
+    switch (operator) {
+      case "and":
+        return and(rules);
+      case "or":
+        return or(rules);
+      case "merge":
+        return merge(rules);
+      case "not":
+        if (rules.length !== 1) {
+          throw new Error(
+            `Operator "not" in permission "${path}" takes exactly one rule`,
+          );
+        }
+        return not(rules[0]);
+      default:
+        throw new Error(
+          `Unknown operator "${operator}" in permission "${path}"`,
+        );
+    }
+  }
+
+  const { rule: name, options } = definition;
+  if (typeof name !== "string" || !Object.hasOwn(registry.rules, name)) {
+    throw new Error(`Unknown rule "${name}" in permission "${path}"`);
+  }
+  let loaded: AnyRule<any>;
+  try {
+    loaded = registry.rules[name](options);
+  } catch (error) {
+    throw new Error(
+      `Invalid options for rule "${name}" in permission "${path}": ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    );
+  }
+  // Describe the rule exactly as the policy does, to dump it back unchanged
+  loaded.definition = options === undefined
+    ? { rule: name }
+    : { rule: name, options };
+  return loaded;
+}
+
+/**
+ * Dumps a group of permissions
+ */
+function dumpGroup(group: Hierarchy, path: string): HierarchyDefinition {
+  const dumped: HierarchyDefinition = {};
+  for (const [key, node] of Object.entries(group)) {
+    if (node === undefined) continue;
+    const nodePath = path ? `${path}.${key}` : key;
+    dumped[key] = node.type === "permission"
+      ? dumpPermission(node as Permission<any, any, any>, nodePath)
+      : dumpGroup(node as Hierarchy, nodePath);
+  }
+  return dumped;
+}
+
+/**
+ * Dumps a permission and its children
+ */
+function dumpPermission(
+  node: Permission<any, any, any>,
+  path: string,
+): PermissionDefinition {
+  const rules: AnyRule<any>[] = node.rules ?? [];
+  const schemas: Schema<any, any>[] = node.schemas ?? [];
+  const dumped: PermissionDefinition = { type: "permission" };
+
+  if (rules.length > 0) {
+    dumped.rules = rules.map((rule) => {
+      if (!rule.definition) {
+        throw new Error(
+          `Rule "${rule.name}" in permission "${path}" has no definition and cannot be dumped`,
+        );
+      }
+      return rule.definition;
+    });
+  }
+
+  // Schemas of the rules are restored with them
+  const ruleSchemas = new Set(
+    rules.flatMap((rule) =>
+      rule.schemas.map((schema: Schema<any, any>) => schema.name)
+    ),
+  );
+  const declared = schemas
+    .filter((schema) => !ruleSchemas.has(schema.name))
+    .map((schema) => schema.name);
+  if (declared.length > 0) dumped.schemas = declared;
+
+  if (node.children) dumped.children = dumpGroup(node.children, path);
+
+  // Only the part of the default state not provided by the schemas is dumped
+  const schemaDefaults: Record<string, unknown> = Object.assign(
+    {},
+    ...schemas.map((schema) => schema.defaultState?.() ?? {}),
+  );
+  const defaultState = Object.fromEntries(
+    Object.entries(node.defaultState ?? {}).filter(([key, value]) =>
+      JSON.stringify(value) !== JSON.stringify(schemaDefaults[key])
+    ),
+  );
+  if (Object.keys(defaultState).length > 0) dumped.defaultState = defaultState;
+
+  if (node.inherit === false) dumped.inherit = false;
+
+  if (typeof node.combining === "function") {
+    throw new Error(
+      `Permission "${path}" uses a custom combining algorithm and cannot be dumped`,
+    );
+  }
+  if (node.combining !== undefined) dumped.combining = node.combining;
+
+  return dumped;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
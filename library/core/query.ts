@@ -0,0 +1,263 @@
+/**
+ * Reverse queries for the permission system
+ *
+ * `validate` answers whether a single request is granted. The functions of this
+ * module answer the reverse question: which targets can a subject access under a
+ * permission key. Every target listed in the states of the `satisfiedBy` chain,
+ * default states included, is validated with the base request, so denials from
+ * other rules and from other state sources are taken into account. Granted
+ * patterns overlapping denied targets or patterns are reported as restricted,
+ * with the denied ones as their exceptions.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { accessibleTargets } from "@diister/quick-permission";
+ *
+ * const { targets, patterns, restricted, shadowed } = accessibleTargets(
+ *   files,
+ *   states,
+ *   "files.read",
+ *   { from: "user:123" },
+ * );
+ * // targets: ["file:report.pdf"], patterns: ["file:public/*"],
+ * // restricted: [{ pattern: "file:docs/*", except: ["file:docs/secret/*"] }]
+ * ```
+ *
+ * @module query
+ */
+import {
+  type PermissionHierarchy,
+  type PermissionKey,
+  type PermissionRequests,
+  type PermissionStateSet,
+  VALIDATION_RESULT,
+  type ValidationError,
+  type ValidationResult,
+} from "../types/common.ts";
+import {
+  type AllowTargetRule,
+  matchWildcard,
+} from "../rules/allowTarget/allowTarget.ts";
+import type { AnyRule } from "../types/rule.ts";
+import {
+  createValidationPlan,
+  resolveStateEntries,
+  type ValidateAsyncOptions,
+  type ValidateOptions,
+  validatePlan,
+  validatePlanAsync,
+  type ValidationPlan,
+} from "./validation.ts";
+
+/**
+ * A target or pattern present in the states but denied
+ */
+export type ShadowedTarget = {
+  /** The target or pattern */
+  target: string;
+  /** Whether it is a wildcard pattern */
+  pattern: boolean;
+  /** The denying result */
+  resultType: "rejected" | "blocked";
+  /** Errors explaining the denial */
+  reasons: ValidationError[];
+};
+
+/**
+ * A granted pattern overlapping denied targets or patterns
+ */
+export type RestrictedPattern = {
+  /** The granted pattern */
+  pattern: string;
+  /** The shadowed targets and patterns it overlaps, which stay denied */
+  except: string[];
+};
+
+/**
+ * Targets accessible under a permission key
+ */
+export type AccessibleTargets = {
+  /** Exact targets granted */
+  targets: string[];
+  /** Wildcard patterns granted without exceptions */
+  patterns: string[];
+  /** Wildcard patterns granted except for some shadowed targets or patterns */
+  restricted: RestrictedPattern[];
+  /** Targets and patterns listed in the states but rejected or blocked */
+  shadowed: ShadowedTarget[];
+};
+
+/**
+ * Request of a reverse query, the target being the unknown
+ *
+ * @template H The permission hierarchy
+ * @template K The permission key
+ */
+export type BaseRequest<
+  H extends PermissionHierarchy<any>,
+  K extends PermissionKey<H>,
+> = Omit<PermissionRequests<H, K>, "target">;
+
+/**
+ * Lists the targets a request can access under a permission key
+ *
+ * Candidates are the `target` entries of the states of every key of the
+ * `satisfiedBy` chain, default states included. Each candidate is validated as
+ * the request target: granted candidates are reported as exact targets, or as
+ * patterns when they contain the wildcard character of an `allowTarget` rule
+ * with wildcards enabled; rejected or blocked candidates are reported as
+ * shadowed. Granted patterns matching shadowed candidates, such as `docs/*`
+ * granted and `docs/secret/*` blocked, are reported as restricted instead of
+ * patterns.
+ *
+ * @param hierarchy Permission hierarchy
+ * @param states Array of permission state sets
+ * @param key Permission key to query
+ * @param baseRequest Request without its target
+ * @param options Validation options used for every candidate
+ * @returns The accessible targets and patterns, and the shadowed ones
+ * @throws Error if the key does not exist in the hierarchy
+ */
+export function accessibleTargets<
+  H extends PermissionHierarchy<any>,
+  K extends PermissionKey<H>,
+>(
+  hierarchy: H,
+  states: PermissionStateSet<H>[],
+  key: K,
+  baseRequest: BaseRequest<H, K>,
+  options: Omit<ValidateOptions, "explain"> = {},
+): AccessibleTargets {
+  const plan = createValidationPlan(hierarchy, key, {
+    inheritance: options.inheritance,
+  });
+  const candidates = collectCandidates(plan, states);
+  return classifyTargets(
+    plan,
+    candidates,
+    candidates.map((target) =>
+      validatePlan(plan, states, { ...baseRequest, target }, options)
+    ),
+  );
+}
+
+/**
+ * Asynchronous counterpart of `accessibleTargets`, supporting asynchronous
+ * rules and schema guards
+ *
+ * @param hierarchy Permission hierarchy
+ * @param states Array of permission state sets
+ * @param key Permission key to query
+ * @param baseRequest Request without its target
+ * @param options Validation options used for every candidate
+ * @returns Promise resolving to the accessible targets and patterns
+ * @throws Error if the key does not exist in the hierarchy
+ */
+export async function accessibleTargetsAsync<
+  H extends PermissionHierarchy<any>,
+  K extends PermissionKey<H>,
+>(
+  hierarchy: H,
+  states: PermissionStateSet<H>[],
+  key: K,
+  baseRequest: BaseRequest<H, K>,
+  options: Omit<ValidateAsyncOptions, "explain"> = {},
+): Promise<AccessibleTargets> {
+  const plan = createValidationPlan(hierarchy, key, {
+    inheritance: options.inheritance,
+  });
+  const candidates = collectCandidates(plan, states);
+  return classifyTargets(
+    plan,
+    candidates,
+    await Promise.all(
+      candidates.map((target) =>
+        validatePlanAsync(plan, states, { ...baseRequest, target }, options)
+      ),
+    ),
+  );
+}
+
+/**
+ * Collects the distinct targets listed in the resolved state entries
+ */
+function collectCandidates(
+  plan: ValidationPlan,
+  states: Record<string, unknown>[],
+): string[] {
+  const candidates = new Set<string>();
+  for (const chain of resolveStateEntries(plan, states)) {
+    for (const { entries } of chain) {
+      for (const entry of entries) {
+        const targets = (entry as { target?: unknown } | undefined)?.target;
+        if (!Array.isArray(targets)) continue;
+        for (const target of targets) {
+          if (typeof target === "string") candidates.add(target);
+        }
+      }
+    }
+  }
+  return [...candidates];
+}
+
+/**
+ * Sorts the candidates according to their validation results
+ */
+function classifyTargets(
+  plan: ValidationPlan,
+  candidates: string[],
+  results: ValidationResult[],
+): AccessibleTargets {
+  const wildcardChars = new Set<string>();
+  // allowTarget rules may be operands of operators, such as or([allowTarget()])
+  const collect = (rule: AnyRule<any>) => {
+    const { wildcardChar } = rule as AllowTargetRule;
+    if (wildcardChar) wildcardChars.add(wildcardChar);
+    rule.operands?.forEach(collect);
+  };
+  plan.rules.forEach(collect);
+  const isPattern = (target: string) =>
+    [...wildcardChars].some((char) => target.includes(char));
+  const matchers = new Map<string, RegExp>();
+  const matches = (pattern: string, target: string) =>
+    [...wildcardChars].some((char) =>
+      pattern.includes(char) && matchWildcard(pattern, target, char, matchers)
+    );
+
+  const accessible: AccessibleTargets = {
+    targets: [],
+    patterns: [],
+    restricted: [],
+    shadowed: [],
+  };
+  const granted: string[] = [];
+  candidates.forEach((target, index) => {
+    const result = results[index];
+    if (result.valid) {
+      (isPattern(target) ? granted : accessible.targets).push(target);
+    } else if (
+      result.resultType === VALIDATION_RESULT.REJECTED ||
+      result.resultType === VALIDATION_RESULT.BLOCKED
+    ) {
+      accessible.shadowed.push({
+        target,
+        pattern: isPattern(target),
+        resultType: result.resultType,
+        reasons: result.reasons,
+      });
+    }
+  });
+
+  // Patterns overlapping a denied candidate only grant part of what they match
+  for (const pattern of granted) {
+    const except = accessible.shadowed
+      .filter(({ target }) =>
+        matches(pattern, target) || matches(target, pattern)
+      )
+      .map(({ target }) => target);
+    if (except.length === 0) accessible.patterns.push(pattern);
+    else accessible.restricted.push({ pattern, except });
+  }
+  return accessible;
+}
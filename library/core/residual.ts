@@ -0,0 +1,264 @@
+/**
+ * Residual conditions for the permission system
+ *
+ * Partial evaluation produces conditions on the unknown fields of a request.
+ * This module builds those conditions, keeping them simplified, and translates
+ * them into a SQL `WHERE` fragment with bound parameters or into a plain
+ * JavaScript predicate, so list endpoints can push authorization into their
+ * queries.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { partialEvaluate, toPredicate, toSql } from "@diister/quick-permission";
+ *
+ * const condition = partialEvaluate(files, states, "files.read", {
+ *   from: "user:1",
+ * }, { unknowns: ["target", "owner"] });
+ *
+ * const { sql, params } = toSql(condition, {
+ *   columns: { target: "files.path", owner: "files.owner_id" },
+ * });
+ * // sql: "(files.owner_id = ? OR files.path LIKE ? ESCAPE '\\')"
+ * // params: ["user:1", "file:public/%"]
+ *
+ * const rows = allFiles.filter(toPredicate(condition));
+ * ```
+ *
+ * @module residual
+ */
+import type { Condition } from "../types/residual.ts";
+
+/** Condition that always holds */
+export const TRUE: Condition = { type: "literal", value: true };
+
+/** Condition that never holds */
+export const FALSE: Condition = { type: "literal", value: false };
+
+/**
+ * Creates a literal condition
+ *
+ * @param value Whether the condition holds
+ * @returns The literal condition
+ */
+export function literal(value: boolean): Condition {
+  return value ? TRUE : FALSE;
+}
+
+/**
+ * Creates a condition on a field being equal to a value
+ *
+ * @param field Name of the request field
+ * @param value Expected value
+ * @returns The condition
+ */
+export function equals(field: string, value: unknown): Condition {
+  return { type: "equals", field, value };
+}
+
+/**
+ * Creates a condition on two fields being equal
+ *
+ * @param field Name of the first request field
+ * @param other Name of the second request field
+ * @returns The condition
+ */
+export function fieldEquals(field: string, other: string): Condition {
+  return { type: "fieldEquals", field, other };
+}
+
+/**
+ * Creates a condition on a field matching a wildcard pattern
+ *
+ * @param field Name of the request field
+ * @param pattern Pattern in which the wildcard stands for any text
+ * @param wildcard Wildcard character of the pattern
+ * @returns The condition, an equality when the pattern has no wildcard
+ */
+export function like(
+  field: string,
+  pattern: string,
+  wildcard: string,
+): Condition {
+  if (!pattern.includes(wildcard)) return equals(field, pattern);
+  return { type: "like", field, pattern, wildcard };
+}
+
+/**
+ * Creates the conjunction of conditions
+ *
+ * Literals are folded, nested conjunctions flattened and duplicates removed.
+ *
+ * @param conditions Conditions that must all hold
+ * @returns The simplified conjunction
+ */
+export function and(...conditions: Condition[]): Condition {
+  return junction("and", conditions);
+}
+
+/**
+ * Creates the disjunction of conditions
+ *
+ * Literals are folded, nested disjunctions flattened and duplicates removed.
+ *
+ * @param conditions Conditions of which at least one must hold
+ * @returns The simplified disjunction
+ */
+export function or(...conditions: Condition[]): Condition {
+  return junction("or", conditions);
+}
+
+/**
+ * Creates the negation of a condition
+ *
+ * @param condition Condition that must not hold
+ * @returns The simplified negation
+ */
+export function not(condition: Condition): Condition {
+  if (condition.type === "literal") return literal(!condition.value);
+  if (condition.type === "not") return condition.condition;
+  return { type: "not", condition };
+}
+
+/**
+ * Options of `toSql`
+ */
+export type SqlOptions = {
+  /** Column of each request field, the field name being used by default */
+  columns?: Record<string, string>;
+  /** Placeholder of the parameter at the given index, `?` by default */
+  placeholder?: (index: number) => string;
+};
+
+/**
+ * Translates a condition into a SQL `WHERE` fragment with bound parameters
+ *
+ * Patterns become `LIKE` comparisons escaping `%`, `_` and `\`. Column names
+ * are inserted as given and must not come from user input.
+ *
+ * @param condition The condition to translate
+ * @param options Column mapping and placeholder style
+ * @returns The SQL fragment and its parameters, in order
+ */
+export function toSql(
+  condition: Condition,
+  options: SqlOptions = {},
+): { sql: string; params: unknown[] } {
+  const params: unknown[] = [];
+  const column = (field: string) => options.columns?.[field] ?? field;
+  const bind = (value: unknown) => {
+    params.push(value);
+    return options.placeholder?.(params.length) ?? "?";
+  };
+
+  const translate = (condition: Condition): string => {
+    switch (condition.type) {
+      case "literal":
+        return condition.value ? "1 = 1" : "1 = 0";
+      case "equals":
+        return `${column(condition.field)} = ${bind(condition.value)}`;
+      case "fieldEquals":
+        return `${column(condition.field)} = ${column(condition.other)}`;
+      case "like":
+        return `${column(condition.field)} LIKE ${
+          bind(toLikePattern(condition.pattern, condition.wildcard))
+        } ESCAPE '\\'`;
+      case "and":
+      case "or":
+        return `(${
+          condition.conditions.map(translate).join(
+            condition.type === "and" ? " AND " : " OR ",
+          )
+        })`;
+      case "not":
+        return `NOT ${translate(condition.condition)}`;
+    }
+  };
+
+  return { sql: translate(condition), params };
+}
+
+/**
+ * Translates a condition into a predicate over records holding the unknown
+ * request fields
+ *
+ * @param condition The condition to translate
+ * @returns A function telling whether a record satisfies the condition
+ */
+export function toPredicate(
+  condition: Condition,
+): (record: Record<string, unknown>) => boolean {
+  switch (condition.type) {
+    case "literal":
+      return () => condition.value;
+    case "equals":
+      return (record) => record[condition.field] === condition.value;
+    case "fieldEquals":
+      return (record) => record[condition.field] === record[condition.other];
+    case "like": {
+      const regex = new RegExp(
+        `^${
+          condition.pattern
+            .split(condition.wildcard)
+            .map((segment) => segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+            .join(".*")
+        }$`,
+      );
+      return (record) =>
+        typeof record[condition.field] === "string" &&
+        regex.test(record[condition.field] as string);
+    }
+    case "and": {
+      const predicates = condition.conditions.map(toPredicate);
+      return (record) => predicates.every((predicate) => predicate(record));
+    }
+    case "or": {
+      const predicates = condition.conditions.map(toPredicate);
+      return (record) => predicates.some((predicate) => predicate(record));
+    }
+    case "not": {
+      const predicate = toPredicate(condition.condition);
+      return (record) => !predicate(record);
+    }
+  }
+}
+
+/**
+ * Builds a simplified conjunction or disjunction
+ */
+function junction(type: "and" | "or", conditions: Condition[]): Condition {
+  // The literal that decides the junction on its own
+  const absorbing = type === "or";
+  const operands: Condition[] = [];
+  const seen = new Set<string>();
+
+  for (const condition of conditions) {
+    const flattened = condition.type === type ? condition.conditions : [
+      condition,
+    ];
+    for (const operand of flattened) {
+      if (operand.type === "literal") {
+        if (operand.value === absorbing) return literal(absorbing);
+        continue;
+      }
+      const key = JSON.stringify(operand);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      operands.push(operand);
+    }
+  }
+
+  if (operands.length === 0) return literal(!absorbing);
+  if (operands.length === 1) return operands[0];
+  return { type, conditions: operands };
+}
+
+/**
+ * Converts a wildcard pattern into a `LIKE` pattern escaping `%`, `_` and `\`
+ */
+function toLikePattern(pattern: string, wildcard: string): string {
+  return pattern
+    .split(wildcard)
+    .map((segment) => segment.replace(/[\\%_]/g, "\\$&"))
+    .join("%");
+}
@@ -0,0 +1,174 @@
+/**
+ * Roles for the permission system
+ *
+ * Grants are often roles ("editor of project X") rather than raw state sets. A
+ * role is a named template producing permission states from its parameters. It
+ * can inherit other roles, whose states are expanded along with its own, and be
+ * assigned to subjects. The resolver turns the roles of a subject into the
+ * `states` array handed to `validate`, each granted role becoming one state
+ * source.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { role, roleResolver, validate } from "@diister/quick-permission";
+ *
+ * const viewer = role(files, "viewer", (params: { project: string }) => ({
+ *   "files.read": { target: [`file:${params.project}/*`] },
+ * }));
+ *
+ * const editor = role(files, "editor", (params: { project: string }) => ({
+ *   "files.write": { target: [`file:${params.project}/*`] },
+ * }), { inherits: [viewer] });
+ *
+ * const statesOf = roleResolver({
+ *   "user:1": [editor({ project: "p1" })],
+ *   "user:2": [viewer({ project: "p1" }), viewer({ project: "p2" })],
+ * });
+ *
+ * validate(files, statesOf("user:1"), "files.read", {
+ *   from: "user:1",
+ *   target: "file:p1/notes.md",
+ * }); // granted through viewer, inherited by editor
+ * ```
+ *
+ * @module role
+ */
+import type {
+  PermissionHierarchy,
+  PermissionStateSet,
+} from "../types/common.ts";
+import type {
+  Role,
+  RoleAssignments,
+  RoleGrant,
+  RoleOptions,
+} from "../types/role.ts";
+import { isKeyPattern } from "./hierarchy.ts";
+
+/**
+ * Creates a role
+ *
+ * @param hierarchy Hierarchy the states of the role belong to
+ * @param name Identifier of the role, used in error messages
+ * @param states The states of the role, or a function producing them from the
+ * role parameters
+ * @param options Roles inherited by this role
+ * @returns The role, to be called with its parameters to grant it
+ */
+export function role<H extends PermissionHierarchy<any>, P = void>(
+  hierarchy: H,
+  name: string,
+  states: PermissionStateSet<H> | ((params: P) => PermissionStateSet<H>),
+  options: RoleOptions<H, P> = {},
+): Role<H, P> {
+  const inherits = options.inherits ?? [];
+  const created = ((params: P): RoleGrant<H> => ({
+    role: created,
+    params,
+  })) as Role<H, P>;
+
+  Object.defineProperty(created, "name", { value: name });
+  return Object.assign(created, {
+    hierarchy,
+    states: typeof states === "function" ? states : () => states,
+    inherits: typeof inherits === "function"
+      ? inherits
+      : (params: P) => inherits.map((inherited) => inherited(params)),
+  });
+}
+
+/**
+ * Expands a granted role into a state set holding its states and those of
+ * every role it inherits
+ *
+ * States granted to the same key by several roles are kept as separate entries.
+ * A role inherited several times with the same parameters is expanded once.
+ *
+ * @param grant The granted role
+ * @returns The state set of the role
+ * @throws Error if the role inheritance is circular, or if a role grants a key
+ * that is not in the hierarchy
+ */
+export function expandRole<H extends PermissionHierarchy<any>>(
+  grant: RoleGrant<H>,
+): PermissionStateSet<H> {
+  const stateSet: Record<string, unknown> = {};
+  // Parameters each role has already been expanded with
+  const expanded = new Map<Role<H, any>, Set<string>>();
+
+  const expand = (grant: RoleGrant<H>, path: Role<H, any>[]) => {
+    const { role, params } = grant;
+    if (path.includes(role)) {
+      throw new Error(
+        `Circular role inheritance detected: ${
+          [...path, role].map((role) => role.name).join(" -> ")
+        }`,
+      );
+    }
+
+    const paramSets = expanded.get(role) ?? new Set<string>();
+    const id = JSON.stringify(params) ?? "";
+    if (paramSets.has(id)) return;
+    expanded.set(role, paramSets.add(id));
+
+    for (const [permKey, states] of Object.entries(role.states(params))) {
+      if (!(permKey in role.hierarchy.flat) && !isKeyPattern(permKey)) {
+        throw new Error(
+          `Role "${role.name}" grants unknown permission "${permKey}"`,
+        );
+      }
+      if (states === undefined) continue;
+      const entries = Array.isArray(states) ? states : [states];
+      const existing = stateSet[permKey];
+      stateSet[permKey] = existing === undefined && entries.length === 1
+        ? entries[0]
+        : [
+          ...(existing === undefined
+            ? []
+            : Array.isArray(existing)
+            ? existing
+            : [existing]),
+          ...entries,
+        ];
+    }
+
+    for (const inherited of role.inherits(params)) {
+      expand(inherited, [...path, role]);
+    }
+  };
+
+  expand(grant, []);
+  return stateSet as PermissionStateSet<H>;
+}
+
+/**
+ * Turns granted roles into the `states` array handed to `validate`
+ *
+ * @param grants The granted roles
+ * @returns One state set per granted role
+ * @throws Error if a role inheritance is circular, or if a role grants a key
+ * that is not in the hierarchy
+ */
+export function resolveRoles<H extends PermissionHierarchy<any>>(
+  grants: RoleGrant<H>[],
+): PermissionStateSet<H>[] {
+  return grants.map(expandRole);
+}
+
+/**
+ * Creates a resolver turning the roles assigned to a subject into the `states`
+ * array handed to `validate`
+ *
+ * @param assignments Roles granted to each subject
+ * @returns A function producing the states of a subject, empty for subjects
+ * without roles
+ */
+export function roleResolver<H extends PermissionHierarchy<any>>(
+  assignments: RoleAssignments<H>,
+): (subject: string) => PermissionStateSet<H>[] {
+  return (subject) =>
+    Object.hasOwn(assignments, subject)
+      ? resolveRoles(assignments[subject])
+      : [];
+}
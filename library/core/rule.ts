@@ -12,7 +12,9 @@
  * - Use schemas to enforce type safety
  */
 import { ValidationResultType } from "../types/common.ts";
-import type { Rule } from "../types/rule.ts";
+import type { RuleDecision } from "../types/obligation.ts";
+import type { AnyRule, AsyncRule, Rule, RuleContext } from "../types/rule.ts";
+import type { RuleTrace } from "../types/trace.ts";
 import type {
   Schema,
   SchemasRequests,
@@ -59,6 +61,9 @@ import type {
  * );
  * ```
  *
+ * The returned rule is typed as returning a bare result when the check function
+ * never returns a decision, and as possibly returning a decision otherwise.
+ *
  * @param name The name of the rule for identification in errors
  * @param schemas The schemas that define the state and request structure
  * @param checkFn The function that implements the rule's validation logic
@@ -66,17 +71,218 @@ import type {
  */
 export function rule<
   const S extends Schema<any, any>[],
+  R extends ValidationResultType | RuleDecision,
 >(
   name: string,
   schemas: S,
   checkFn: (
     state: SchemasStates<S>,
     request: SchemasRequests<S>,
-  ) => ValidationResultType,
-): Rule<S> {
+    context?: RuleContext,
+  ) => R,
+): Rule<
+  S,
+  [Extract<R, RuleDecision>] extends [never] ? ValidationResultType
+    : ValidationResultType | RuleDecision
+> {
   return {
     name,
     schemas: schemas as S,
+    // The conditional result type cannot be related to R by the compiler
+    check: checkFn as Rule<S, any>["check"],
+  };
+}
+
+/**
+ * Creates a typed asynchronous permission rule.
+ *
+ * Works like `rule`, but the check function may return a promise. This is meant
+ * for checks that need a lookup (database, cache, remote service) before deciding.
+ * Asynchronous rules can only be evaluated by `validateAsync`.
+ *
+ * The check function receives a context holding an `AbortSignal` that fires once
+ * the outcome of the validation is decided, so in-flight lookups can be cancelled.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { asyncRule } from "@diister/quick-permission/core/rule";
+ * import { owner } from "@diister/quick-permission/schemas/owner";
+ *
+ * const isProjectMember = asyncRule(
+ *   "isProjectMember",
+ *   [owner()],
+ *   async (_state, request, context) => {
+ *     const member = await db.members.find(request.from, {
+ *       signal: context?.signal,
+ *     });
+ *     return member ? "granted" : "neutral";
+ *   },
+ * );
+ * ```
+ *
+ * @param name The name of the rule for identification in errors
+ * @param schemas The schemas that define the state and request structure
+ * @param checkFn The function that implements the rule's validation logic
+ * @returns An asynchronous rule object with proper typing based on the schemas
+ */
+export function asyncRule<
+  const S extends Schema<any, any>[],
+>(
+  name: string,
+  schemas: S,
+  checkFn: (
+    state: SchemasStates<S>,
+    request: SchemasRequests<S>,
+    context?: RuleContext,
+  ) =>
+    | ValidationResultType
+    | RuleDecision
+    | Promise<ValidationResultType | RuleDecision>,
+): AsyncRule<S> {
+  return {
+    name,
+    schemas: schemas as S,
+    async: true,
     check: checkFn,
   };
 }
+
+/**
+ * Checks whether a rule is asynchronous
+ *
+ * @param rule The rule to inspect
+ * @returns True when the rule was created with `asyncRule` (or flagged `async`)
+ */
+export function isAsyncRule(rule: AnyRule<any>): rule is AsyncRule<any> {
+  return (rule as AsyncRule<any>).async === true;
+}
+
+/**
+ * Evaluates a synchronous rule, recording it in the context trace when tracing
+ *
+ * Operators and the validation functions evaluate rules through this helper so
+ * that the explain mode can capture the result and timing of every rule, with
+ * the operands of operators nested below them.
+ *
+ * @param rule The rule to evaluate
+ * @param state State handed to the rule
+ * @param request Request handed to the rule
+ * @param context Evaluation context
+ * @returns The outcome of the rule, a bare result or a decision
+ */
+export function evaluateRule(
+  rule: Rule<any>,
+  state: unknown,
+  request: unknown,
+  context?: RuleContext,
+): ValidationResultType | RuleDecision {
+  const check = rule.check as ErasedCheck<ValidationResultType | RuleDecision>;
+  if (!context?.trace) return check(state, request, context);
+
+  const node = openTrace(rule, context.trace);
+  const start = performance.now();
+  try {
+    const outcome = check(state, request, {
+      ...context,
+      trace: node.children,
+    });
+    node.result = resultOf(outcome);
+    return outcome;
+  } catch (error) {
+    node.error = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    closeTrace(node, start);
+  }
+}
+
+/**
+ * Evaluates a rule that may be asynchronous, recording it in the context trace
+ * when tracing
+ *
+ * @param rule The rule to evaluate
+ * @param state State handed to the rule
+ * @param request Request handed to the rule
+ * @param context Evaluation context
+ * @returns Promise resolving to the outcome of the rule
+ */
+export async function evaluateRuleAsync(
+  rule: AnyRule<any>,
+  state: unknown,
+  request: unknown,
+  context?: RuleContext,
+): Promise<ValidationResultType | RuleDecision> {
+  const check = rule.check as ErasedCheck<
+    | ValidationResultType
+    | RuleDecision
+    | Promise<ValidationResultType | RuleDecision>
+  >;
+  if (!context?.trace) return await check(state, request, context);
+
+  const node = openTrace(rule, context.trace);
+  const start = performance.now();
+  try {
+    const outcome = await check(state, request, {
+      ...context,
+      trace: node.children,
+    });
+    node.result = resultOf(outcome);
+    return outcome;
+  } catch (error) {
+    node.error = error instanceof Error ? error.message : String(error);
+    throw error;
+  } finally {
+    closeTrace(node, start);
+  }
+}
+
+/**
+ * Checks whether a rule outcome is a decision rather than a bare result
+ *
+ * @param outcome The outcome of a rule
+ * @returns True when the outcome is a decision
+ */
+export function isDecision(
+  outcome: ValidationResultType | RuleDecision,
+): outcome is RuleDecision {
+  return typeof outcome === "object" && outcome !== null;
+}
+
+/**
+ * Reads the result of a rule outcome, unwrapping decisions
+ *
+ * @param outcome The outcome of a rule
+ * @returns The result of the outcome
+ */
+export function resultOf(
+  outcome: ValidationResultType | RuleDecision,
+): ValidationResultType {
+  return isDecision(outcome) ? outcome.result : outcome;
+}
+
+/**
+ * Signature of a rule check once the schema types are erased
+ */
+type ErasedCheck<T> = (
+  state: unknown,
+  request: unknown,
+  context?: RuleContext,
+) => T;
+
+/**
+ * Appends the trace node of a rule about to be evaluated
+ */
+function openTrace(rule: AnyRule<any>, trace: RuleTrace[]): RuleTrace {
+  const node: RuleTrace = { name: rule.name, durationMs: 0, children: [] };
+  trace.push(node);
+  return node;
+}
+
+/**
+ * Completes the trace node of an evaluated rule
+ */
+function closeTrace(node: RuleTrace, start: number) {
+  node.durationMs = performance.now() - start;
+  if (node.children?.length === 0) delete node.children;
+}
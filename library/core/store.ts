@@ -0,0 +1,115 @@
+/**
+ * Helpers shared by the permission store adapters
+ *
+ * Adapters keep, for each subject, the list of its entries as
+ * `[key, state]` tuples. These helpers check the entries being granted and
+ * compare entries by value, so that every adapter behaves the same way (see
+ * `stores/conformance.ts` for the suite adapters must pass).
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { addEntry, removeEntries } from "@diister/quick-permission/core/store";
+ *
+ * const entries: FlatPermissionStateArray<typeof files> = [];
+ * addEntry(files, entries, "files.read", { target: ["doc-1"] }); // true
+ * addEntry(files, entries, "files.read", { target: ["doc-1"] }); // false
+ * removeEntries(files, entries, "files.read"); // 1
+ * ```
+ *
+ * @module store
+ */
+import type {
+  FlatPermissionStateArray,
+  PermissionHierarchy,
+  PermissionStateTuple,
+} from "../types/common.ts";
+import {
+  canonicalJson,
+  decodeFlatStateArray,
+  encodeFlatStateArray,
+} from "./codec.ts";
+
+/**
+ * Checks an entry being granted against the schemas of its permission
+ *
+ * @param hierarchy The permission hierarchy
+ * @param key Key, or key pattern, of the entry
+ * @param state The state entry
+ * @returns A copy of the entry, safe to store
+ * @throws Error if the key is unknown or the entry is invalid
+ */
+export function checkEntry<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  key: PermissionStateTuple<H>[0],
+  state: PermissionStateTuple<H>[1],
+): PermissionStateTuple<H> {
+  return decodeFlatStateArray(hierarchy, [[key, structuredClone(state)]])[0];
+}
+
+/**
+ * Adds an entry to the entries of a subject, unless an equal entry is there
+ *
+ * @param hierarchy The permission hierarchy
+ * @param entries Entries of the subject, modified in place
+ * @param key Key, or key pattern, of the entry
+ * @param state The state entry
+ * @returns Whether the entry was added
+ * @throws Error if the key is unknown or the entry is invalid
+ */
+export function addEntry<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  entries: FlatPermissionStateArray<H>,
+  key: PermissionStateTuple<H>[0],
+  state: PermissionStateTuple<H>[1],
+): boolean {
+  const entry = checkEntry(hierarchy, key, state);
+  const id = entryId(hierarchy, entry);
+  if (entries.some((other) => entryId(hierarchy, other) === id)) return false;
+  entries.push(entry);
+  return true;
+}
+
+/**
+ * Removes the entries of a subject equal to an entry, or all its entries for
+ * the key when no state is given
+ *
+ * @param hierarchy The permission hierarchy
+ * @param entries Entries of the subject, modified in place
+ * @param key Key, or key pattern, of the entries
+ * @param state The state entry, if only that entry is removed
+ * @returns The number of removed entries
+ */
+export function removeEntries<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  entries: FlatPermissionStateArray<H>,
+  key: PermissionStateTuple<H>[0],
+  state?: PermissionStateTuple<H>[1],
+): number {
+  const id = state === undefined
+    ? undefined
+    : entryId(hierarchy, [key, state] as PermissionStateTuple<H>);
+  const kept = entries.filter(([entryKey, entryState]) =>
+    entryKey !== key ||
+    (id !== undefined &&
+      entryId(hierarchy, [entryKey, entryState] as PermissionStateTuple<H>) !==
+        id)
+  );
+  const removed = entries.length - kept.length;
+  entries.splice(0, entries.length, ...kept);
+  return removed;
+}
+
+/**
+ * Identifies an entry by value: its encoded form, as canonical JSON
+ *
+ * @param hierarchy The permission hierarchy
+ * @param entry The entry, as a `[key, state]` tuple
+ * @returns The same string for entries equal by value
+ */
+export function entryId<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  entry: PermissionStateTuple<H>,
+): string {
+  return canonicalJson(encodeFlatStateArray(hierarchy, [entry])[0]);
+}
@@ -3,62 +3,242 @@
  * @module validation
  */
 import {
+  Combining,
+  CombiningOptions,
   FlatPermissionStateArray,
+  InheritanceMode,
   PermissionHierarchy,
   PermissionKey,
   PermissionRequests,
-  PermissionStates,
   PermissionStateSet,
-  PermissionStateTuple,
+  StateEffect,
   VALIDATION_RESULT,
   ValidationError,
   ValidationResult,
   ValidationResultType,
 } from "../types/common.ts";
-import { createDefaultStateSet, satisfiedBy } from "./hierarchy.ts";
+import type { RuleEvaluatedEvent, ValidationEvents } from "../types/audit.ts";
+import type { RuleDecision } from "../types/obligation.ts";
+import type { RuleContext } from "../types/rule.ts";
+import type {
+  EntryTrace,
+  SchemaTrace,
+  ValidationTrace,
+} from "../types/trace.ts";
+import { combineResults, contributors } from "./combining.ts";
+import {
+  createDefaultStateSet,
+  isKeyPattern,
+  matchesKeyPattern,
+  satisfiedBy,
+} from "./hierarchy.ts";
+import {
+  type Directives,
+  gatherDirectives,
+  hasDirectives,
+} from "./obligation.ts";
+import {
+  evaluateRule,
+  evaluateRuleAsync,
+  isAsyncRule,
+  isDecision,
+  resultOf,
+} from "./rule.ts";
+
+/**
+ * Result of evaluating one state entry, or of merging several of them
+ */
+type EvaluationResult = Directives & {
+  valid?: ValidationResultType;
+  errors: ValidationError[];
+};
+
+/**
+ * Reports a rule evaluation of a state entry
+ */
+type RuleListener = (
+  event: Pick<RuleEvaluatedEvent, "rule" | "result" | "error" | "durationMs">,
+) => void;
 
 /**
  * Validates schema and rules for a specific permission
+ *
+ * Without a combining algorithm the first "rejected" or "blocked" rule ends the
+ * evaluation. With one, every rule is evaluated until a "blocked" result, a
+ * throwing rule counting as "rejected", and the results are combined.
+ *
  * @param schemas Schemas to validate
  * @param rules Rules to check
+ * @param combining Algorithm combining the rule results, if any
  * @param state Current state for validation
  * @param request Request to validate
  * @param permKey Key of the permission being validated
+ * @param trace Trace of the entry, filled when validating in explain mode
+ * @param onRule Listener of the rule evaluations, if any
  * @returns Validation result with errors if any
  */
 function allow(
   schemas: any[],
   rules: any[],
+  combining: Combining | undefined,
   state: any,
   request: any,
   permKey: string,
-) {
+  trace?: EntryTrace,
+  onRule?: RuleListener,
+): EvaluationResult {
   const errors: ValidationError[] = [];
+  const context: RuleContext | undefined = trace && { trace: trace.rules };
 
   // Validate schemas
   for (const schema of schemas) {
+    const errorCount = errors.length;
+    try {
+      if (schema.stateAsync || schema.requestAsync) {
+        throw new Error(
+          `Schema ${schema.name} requires asynchronous validation, use validateAsync`,
+        );
+      }
+      checkSchema(
+        schema,
+        !schema.state || schema.state(state),
+        !schema.request || schema.request(request),
+        errors,
+      );
+    } catch (error) {
+      errors.push(schemaError(schema, error));
+    }
+    trace?.schemas.push(schemaTrace(schema, errors.length === errorCount));
+  }
+
+  // If schema validation failed, no need to check rules
+  if (errors.length > 0) {
+    return { valid: VALIDATION_RESULT.REJECTED, errors };
+  }
+
+  let resultType: ValidationResultType = VALIDATION_RESULT.NEUTRAL;
+  const ruleResults: ValidationResultType[] = [];
+  // Only allocated once a rule emits obligations or advice
+  let decisions: RuleDecision[] | undefined;
+
+  // Validate rules
+  for (const rule of rules) {
+    const ruleStart = onRule ? performance.now() : 0;
     try {
-      if (schema.state && !schema.state(state)) {
-        errors.push({
-          type: "schema",
-          name: schema.name || "unnamed",
-          message: `Invalid state for schema ${schema.name}`,
-        });
+      if (isAsyncRule(rule)) {
+        throw new Error(
+          `Rule ${rule.name} is asynchronous, use validateAsync`,
+        );
+      }
+      const outcome = evaluateRule(rule, state, request, context);
+      onRule?.({
+        rule: rule.name,
+        result: resultOf(outcome),
+        durationMs: performance.now() - ruleStart,
+      });
+      const ruleResult = applyRuleResult(rule, outcome, errors);
+      if (isDecision(outcome) && hasDirectives(outcome)) {
+        (decisions ??= [])[ruleResults.length] = outcome;
+      }
+      ruleResults.push(ruleResult);
+
+      if (combining) {
+        if (ruleResult === VALIDATION_RESULT.BLOCKED) break;
+        continue;
+      }
+
+      // "BLOCKED" and "REJECTED" immediately end validation
+      if (
+        ruleResult === VALIDATION_RESULT.BLOCKED ||
+        ruleResult === VALIDATION_RESULT.REJECTED
+      ) {
+        return settleRules(
+          undefined,
+          ruleResult,
+          ruleResults,
+          decisions,
+          errors,
+        );
       }
-      if (schema.request && !schema.request(request)) {
-        errors.push({
-          type: "schema",
-          name: schema.name || "unnamed",
-          message: `Invalid request for schema ${schema.name}`,
-        });
+
+      // Only update to GRANTED if we don't already have a more decisive result
+      if (ruleResult === VALIDATION_RESULT.GRANTED) {
+        resultType = VALIDATION_RESULT.GRANTED;
       }
     } catch (error) {
-      errors.push({
-        type: "schema",
-        name: schema.name || "unnamed",
-        message: error instanceof Error ? error.message : String(error),
+      errors.push(ruleError(rule, error));
+      onRule?.({
+        rule: rule.name,
+        error: errors.at(-1)!.message,
+        durationMs: performance.now() - ruleStart,
       });
+      if (combining) {
+        ruleResults.push(VALIDATION_RESULT.REJECTED);
+        continue;
+      }
+      return { valid: VALIDATION_RESULT.REJECTED, errors };
+    }
+  }
+
+  if (combining) {
+    resultType = combineResults(combining, ruleResults);
+  }
+  return settleRules(combining, resultType, ruleResults, decisions, errors);
+}
+
+/**
+ * Asynchronous counterpart of `allow`, awaiting asynchronous schemas and rules
+ *
+ * Rules are still evaluated one after the other so that the first "blocked" or
+ * "rejected" result short-circuits the remaining rules. When the context signal
+ * is aborted the evaluation stops and reports a neutral result, as the outcome
+ * has already been decided elsewhere.
+ *
+ * @param schemas Schemas to validate
+ * @param rules Rules to check
+ * @param combining Algorithm combining the rule results, if any
+ * @param state Current state for validation
+ * @param request Request to validate
+ * @param permKey Key of the permission being validated
+ * @param context Context handed to asynchronous rules and schemas
+ * @param trace Trace of the entry, filled when validating in explain mode
+ * @param onRule Listener of the rule evaluations, if any
+ * @returns Validation result with errors if any
+ */
+async function allowAsync(
+  schemas: any[],
+  rules: any[],
+  combining: Combining | undefined,
+  state: any,
+  request: any,
+  permKey: string,
+  context: RuleContext,
+  trace?: EntryTrace,
+  onRule?: RuleListener,
+): Promise<EvaluationResult> {
+  const cancelled = { valid: VALIDATION_RESULT.NEUTRAL, errors: [] };
+  const errors: ValidationError[] = [];
+  if (trace) context = { ...context, trace: trace.rules };
+
+  // Validate schemas
+  for (const schema of schemas) {
+    const errorCount = errors.length;
+    try {
+      const [validState, validRequest] = await Promise.all([
+        schema.stateAsync?.(state, context),
+        schema.requestAsync?.(request, context),
+      ]);
+      checkSchema(
+        schema,
+        (!schema.state || schema.state(state)) && validState !== false,
+        (!schema.request || schema.request(request)) && validRequest !== false,
+        errors,
+      );
+    } catch (error) {
+      if (context.signal?.aborted) return cancelled;
+      errors.push(schemaError(schema, error));
     }
+    trace?.schemas.push(schemaTrace(schema, errors.length === errorCount));
   }
 
   // If schema validation failed, no need to check rules
@@ -67,59 +247,257 @@ function allow(
   }
 
   let resultType: ValidationResultType = VALIDATION_RESULT.NEUTRAL;
+  const ruleResults: ValidationResultType[] = [];
+  // Only allocated once a rule emits obligations or advice
+  let decisions: RuleDecision[] | undefined;
 
   // Validate rules
   for (const rule of rules) {
+    if (context.signal?.aborted) return cancelled;
+    const ruleStart = onRule ? performance.now() : 0;
     try {
-      const result = rule.check(state, request);
-      // For backward compatibility: convert boolean results to ValidationResultType
-      let ruleResult: ValidationResultType;
-      if (result === false) ruleResult = VALIDATION_RESULT.REJECTED;
-      else if (result === true) ruleResult = VALIDATION_RESULT.GRANTED;
-      else if (result === undefined) ruleResult = VALIDATION_RESULT.NEUTRAL;
-      else ruleResult = result; // Already using the new enum type
-
-      // "BLOCKED" has highest priority and immediately ends validation
-      if (ruleResult === VALIDATION_RESULT.BLOCKED) {
-        errors.push({
-          type: "rule",
-          name: rule.name || "unnamed",
-          message: `Access blocked: ${rule.name || "unnamed"}`,
-        });
-        return { valid: VALIDATION_RESULT.BLOCKED, errors };
+      const outcome = await evaluateRuleAsync(rule, state, request, context);
+      onRule?.({
+        rule: rule.name,
+        result: resultOf(outcome),
+        durationMs: performance.now() - ruleStart,
+      });
+      const ruleResult = applyRuleResult(rule, outcome, errors);
+      if (isDecision(outcome) && hasDirectives(outcome)) {
+        (decisions ??= [])[ruleResults.length] = outcome;
       }
+      ruleResults.push(ruleResult);
 
-      // "REJECTED" has second priority
-      if (ruleResult === VALIDATION_RESULT.REJECTED) {
-        errors.push({
-          type: "rule",
-          name: rule.name || "unnamed",
-          message: `Rule not satisfied: ${rule.name || "unnamed"}`,
-        });
-        return { valid: VALIDATION_RESULT.REJECTED, errors };
+      if (combining) {
+        if (ruleResult === VALIDATION_RESULT.BLOCKED) break;
+        continue;
       }
 
-      // Only update to GRANTED if we don't already have a more decisive result
+      // "BLOCKED" and "REJECTED" immediately end validation
       if (
-        ruleResult === VALIDATION_RESULT.GRANTED &&
-        resultType === VALIDATION_RESULT.NEUTRAL
+        ruleResult === VALIDATION_RESULT.BLOCKED ||
+        ruleResult === VALIDATION_RESULT.REJECTED
       ) {
+        return settleRules(
+          undefined,
+          ruleResult,
+          ruleResults,
+          decisions,
+          errors,
+        );
+      }
+
+      if (ruleResult === VALIDATION_RESULT.GRANTED) {
         resultType = VALIDATION_RESULT.GRANTED;
       }
     } catch (error) {
-      const errorExist = errors.find(
-        (e) => e.type === "rule" && e.name === rule.name,
-      );
-      errors.push({
-        type: "rule",
-        name: rule.name || "unnamed",
-        message: error instanceof Error ? error.message : String(error),
+      if (context.signal?.aborted) return cancelled;
+      errors.push(ruleError(rule, error));
+      onRule?.({
+        rule: rule.name,
+        error: errors.at(-1)!.message,
+        durationMs: performance.now() - ruleStart,
       });
+      if (combining) {
+        ruleResults.push(VALIDATION_RESULT.REJECTED);
+        continue;
+      }
       return { valid: VALIDATION_RESULT.REJECTED, errors };
     }
   }
 
-  return { valid: resultType, errors };
+  if (combining) {
+    resultType = combineResults(combining, ruleResults);
+  }
+  return settleRules(combining, resultType, ruleResults, decisions, errors);
+}
+
+/**
+ * Records schema errors for failed state or request guards
+ * @param schema The schema that was checked
+ * @param validState Whether the state passed the schema guards
+ * @param validRequest Whether the request passed the schema guards
+ * @param errors Error list to append to
+ */
+function checkSchema(
+  schema: any,
+  validState: boolean,
+  validRequest: boolean,
+  errors: ValidationError[],
+) {
+  if (!validState) {
+    errors.push({
+      type: "schema",
+      name: schema.name || "unnamed",
+      message: `Invalid state for schema ${schema.name}`,
+    });
+  }
+  if (!validRequest) {
+    errors.push({
+      type: "schema",
+      name: schema.name || "unnamed",
+      message: `Invalid request for schema ${schema.name}`,
+    });
+  }
+}
+
+/**
+ * Normalizes a rule result and records the errors for denying results
+ *
+ * The reasons of the decision, if any, replace the generic error message.
+ *
+ * @param rule The rule that produced the result
+ * @param outcome The raw result of the rule, or its decision
+ * @param errors Error list to append to
+ * @returns The normalized result type
+ */
+function applyRuleResult(
+  rule: any,
+  outcome: ValidationResultType | RuleDecision,
+  errors: ValidationError[],
+): ValidationResultType {
+  // For backward compatibility: convert boolean results to ValidationResultType
+  const result: unknown = resultOf(outcome);
+  let ruleResult: ValidationResultType;
+  if (result === false) ruleResult = VALIDATION_RESULT.REJECTED;
+  else if (result === true) ruleResult = VALIDATION_RESULT.GRANTED;
+  else if (result === undefined) ruleResult = VALIDATION_RESULT.NEUTRAL;
+  else ruleResult = result as ValidationResultType; // Already using the new enum type
+
+  if (
+    ruleResult !== VALIDATION_RESULT.BLOCKED &&
+    ruleResult !== VALIDATION_RESULT.REJECTED
+  ) {
+    return ruleResult;
+  }
+
+  const name = rule.name || "unnamed";
+  const reasons = isDecision(outcome) && outcome.reasons?.length
+    ? outcome.reasons
+    : [
+      ruleResult === VALIDATION_RESULT.BLOCKED
+        ? `Access blocked: ${name}`
+        : `Rule not satisfied: ${name}`,
+    ];
+  for (const message of reasons) {
+    errors.push({ type: "rule", name, message });
+  }
+
+  return ruleResult;
+}
+
+/**
+ * Builds the result of an entry, with the obligations and advice of the rules
+ * that contributed to it
+ * @param combining Algorithm that combined the rule results, if any
+ * @param valid Result of the entry
+ * @param results Normalized results of the evaluated rules
+ * @param decisions Decisions carrying instructions, by rule index, if any
+ * @param errors Errors of the entry
+ * @returns The entry result
+ */
+function settleRules(
+  combining: Combining | undefined,
+  valid: ValidationResultType,
+  results: ValidationResultType[],
+  decisions: RuleDecision[] | undefined,
+  errors: ValidationError[],
+): EvaluationResult {
+  if (!decisions) return { valid, errors };
+  const contributed = contributors(combining, results, valid);
+  return {
+    valid,
+    errors,
+    ...gatherDirectives(decisions.filter((_, index) => contributed[index])),
+  };
+}
+
+/**
+ * Separates the effect of a state entry from the state handed to the rules
+ *
+ * @param entry The state entry
+ * @returns The effect of the entry, if any, and its state without it
+ * @internal
+ */
+export function splitEffect(
+  entry: unknown,
+): { effect?: StateEffect; state: unknown } {
+  if (typeof entry !== "object" || entry === null || !("effect" in entry)) {
+    return { state: entry };
+  }
+  const { effect, ...state } = entry as { effect?: StateEffect };
+  return { effect, state };
+}
+
+/**
+ * Applies the effect of a state entry to its result
+ *
+ * A "deny" or "block" entry whose rules grant the request turns the grant into
+ * "rejected" or "blocked". An entry failing its schemas cannot tell whether it
+ * matches: it applies as if it did, with the schema errors, so that a broken
+ * ban fails closed. Any other outcome means the entry does not match the
+ * request, it then has no opinion.
+ *
+ * @param effect Effect of the entry
+ * @param permKey Key the entry belongs to
+ * @param result Result of the entry rules
+ * @returns The result of the entry
+ */
+function applyEffect(
+  effect: StateEffect | undefined,
+  permKey: string,
+  result: EvaluationResult,
+): EvaluationResult {
+  if (effect === undefined || effect === "allow") return result;
+  const schemaErrors = result.errors.filter((error) => error.type === "schema");
+  if (result.valid !== VALIDATION_RESULT.GRANTED && schemaErrors.length === 0) {
+    return { valid: VALIDATION_RESULT.NEUTRAL, errors: [] };
+  }
+  const verb = effect === "block" ? "blocked" : "denied";
+  return {
+    valid: effect === "block"
+      ? VALIDATION_RESULT.BLOCKED
+      : VALIDATION_RESULT.REJECTED,
+    errors: [
+      {
+        type: "state",
+        name: permKey,
+        message: schemaErrors.length === 0
+          ? `Access ${verb} by a state entry of ${permKey}`
+          : `Access ${verb} by a state entry of ${permKey} failing its schemas`,
+      },
+      ...schemaErrors,
+    ],
+  };
+}
+
+/**
+ * Builds the error reported when a schema guard throws
+ */
+function schemaError(schema: any, error: unknown): ValidationError {
+  return {
+    type: "schema",
+    name: schema.name || "unnamed",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+/**
+ * Builds the trace of a schema check
+ */
+function schemaTrace(schema: any, valid: boolean): SchemaTrace {
+  return { name: schema.name || "unnamed", valid };
+}
+
+/**
+ * Builds the error reported when a rule throws
+ */
+function ruleError(rule: any, error: unknown): ValidationError {
+  return {
+    type: "rule",
+    name: rule.name || "unnamed",
+    message: error instanceof Error ? error.message : String(error),
+  };
 }
 
 /**
@@ -129,24 +507,13 @@ function allow(
  * @returns Merged validation result
  */
 function mergeValidationResults(
-  results: { valid?: ValidationResultType; errors: ValidationError[] }[],
+  results: EvaluationResult[],
   mode: "and" | "or" = "or",
-): { valid?: ValidationResultType; errors: ValidationError[] } {
+): EvaluationResult {
   let merged: ValidationResultType | undefined = undefined;
-  const allErrors: ValidationError[] = [];
+  const allErrors = collectErrors(results);
 
   for (const result of results) {
-    // Collect all errors
-    for (const error of result.errors) {
-      // Check if the error already exists in the merged errors
-      const existingError = allErrors.find(
-        (e) => e.type === error.type && e.name === error.name,
-      );
-      if (!existingError) {
-        allErrors.push(error);
-      }
-    }
-
     // Merge valid flags
     if (result.valid !== undefined) {
       if (merged === undefined) {
@@ -196,111 +563,410 @@ function mergeValidationResults(
     }
   }
 
-  return { valid: merged, errors: allErrors };
+  return withDirectives(
+    { valid: merged, errors: allErrors },
+    undefined,
+    results,
+  );
 }
 
 /**
- * Validates a permission request against a set of permission states
+ * Collects the errors of several results, without duplicates
+ *
+ * Errors are deduplicated by type and name across results. The errors of a
+ * single result are all kept, since a rule may report several reasons.
+ *
+ * @param results Results whose errors are collected
+ * @returns Errors, keeping those of the first result for each type and name
+ */
+function collectErrors(results: EvaluationResult[]): ValidationError[] {
+  const allErrors: ValidationError[] = [];
+  for (const result of results) {
+    const previous = allErrors.length;
+    for (const error of result.errors) {
+      // Check if an earlier result already reported the same error
+      const existingError = allErrors.find(
+        (e, index) =>
+          index < previous && e.type === error.type && e.name === error.name,
+      );
+      if (!existingError) {
+        allErrors.push(error);
+      }
+    }
+  }
+  return allErrors;
+}
+
+/**
+ * Merges the results of a stage with its combining algorithm, or with OR logic
+ * when the stage has none
+ * @param results Results to merge, in evaluation order
+ * @param combining Combining algorithm of the stage
+ * @returns Merged result, without decision when no result has one
+ */
+function combineStage(
+  results: EvaluationResult[],
+  combining?: Combining,
+): EvaluationResult {
+  if (!combining) return mergeValidationResults(results);
+
+  const decisions = results
+    .map((result) => result.valid)
+    .filter((valid) => valid !== undefined);
+  const valid = decisions.length > 0
+    ? combineResults(combining, decisions)
+    : undefined;
+  return withDirectives(
+    { valid, errors: collectErrors(results) },
+    combining,
+    results,
+  );
+}
+
+/**
+ * Attaches the obligations and advice of the results that contributed to a
+ * merged result
+ * @param merged The merged result
+ * @param combining Algorithm that merged the results, if any
+ * @param results Merged results, in evaluation order
+ * @returns The merged result, untouched when no result carries instructions
+ */
+function withDirectives(
+  merged: EvaluationResult,
+  combining: Combining | undefined,
+  results: EvaluationResult[],
+): EvaluationResult {
+  if (!results.some(hasDirectives)) return merged;
+  const contributed = contributors(
+    combining,
+    results.map((result) => result.valid),
+    merged.valid,
+  );
+  return {
+    ...merged,
+    ...gatherDirectives(results.filter((_, index) => contributed[index])),
+  };
+}
+
+/**
+ * Everything needed to validate a permission key, independently of the states
+ *
+ * `validate` builds a plan on every call while `compile` builds the plans of
+ * every key once and reuses them.
+ *
+ * @internal
+ */
+export type ValidationPlan = {
+  /** Permission key to validate */
+  key: string;
+  /**
+   * Keys of the `satisfiedBy` chain, with the schemas and rules their state
+   * entries are evaluated with. Each key is resolved to its default state, and
+   * reused as is by the state sources without entries for it.
+   */
+  chain: ResolvedEntries[];
+  /** Rules of every key of the chain, in chain order */
+  rules: any[];
+  /** Names of the schemas of every key of the chain, without duplicates */
+  schemaNames: string[];
+};
+
+/**
+ * Options used to build a validation plan
+ *
+ * @internal
+ */
+export type ValidationPlanOptions = {
+  /** Default states of the hierarchy, computed when omitted */
+  defaultStates?: PermissionStateSet<any>;
+  /** Rules used for the ancestor keys of the chain */
+  inheritance?: InheritanceMode;
+};
+
+/**
+ * Builds the validation plan of a permission key
+ *
  * @param hierarchy Permission hierarchy
- * @param states Array of permission state sets, which can now contain arrays of states for each permission
  * @param key Permission key to validate
- * @param request Request to validate
- * @returns Validation result with detailed feedback
+ * @param options Precomputed default states and inheritance mode
+ * @returns The validation plan
+ * @throws Error if the key does not exist in the hierarchy
+ * @internal
  */
-export function validate<
-  H extends PermissionHierarchy<any>,
-  S extends PermissionStateSet<H>[],
-  K extends PermissionKey<H>,
-  R extends PermissionRequests<H, K>,
->(hierarchy: H, states: S, key: K, request: R): ValidationResult {
+export function createValidationPlan<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  key: PermissionKey<H>,
+  options: ValidationPlanOptions = {},
+): ValidationPlan {
   const permission = hierarchy.flat[key];
   if (!permission) {
     throw new Error(`Permission "${key}" not found in hierarchy`);
   }
 
-  const satisfier = satisfiedBy(hierarchy, key);
-  const stateResults: {
-    valid?: ValidationResultType;
-    errors: ValidationError[];
-  }[] = [];
-
-  // Generate default states once
-  const defaultStates = createDefaultStateSet(hierarchy);
-
-  // Process each state configuration
-  for (let stateIndex = 0; stateIndex < states.length; stateIndex++) {
-    const originalState = states[stateIndex];
-    const chainResults: {
-      valid?: ValidationResultType;
-      errors: ValidationError[];
-    }[] = [];
-
-    // Process each permission in the chain
-    for (const permKey of satisfier) {
-      let permissionStateEntries = originalState[permKey];
-
-      // New: Handle both single state object and array of state objects
-      if (permissionStateEntries === undefined) {
-        // No state defined at all, use default
-        const defaultState = {
-          ...defaultStates[key],
-          ...defaultStates[permKey],
-        };
-        // Use type assertion to ensure compatibility with expected types
-        permissionStateEntries = defaultState !== undefined
-          ? [defaultState as PermissionStates<H, typeof permKey>]
-          : undefined;
-      } else if (!Array.isArray(permissionStateEntries)) {
-        // Single state object - convert to array for unified processing
-        permissionStateEntries = [permissionStateEntries];
-      }
+  const defaultStates = options.defaultStates ??
+    createDefaultStateSet(hierarchy);
+  const inheritance = options.inheritance ?? "leaf";
 
-      // If there's no state even after considering defaults, skip validation
-      if (!permissionStateEntries) {
-        chainResults.push({ valid: VALIDATION_RESULT.NEUTRAL, errors: [] });
-        continue;
+  const chain = satisfiedBy(hierarchy, key).map(
+    (permKey): ResolvedEntries => {
+      const ancestor = hierarchy.flat[permKey];
+      let schemas = permission.schemas;
+      let rules = permission.rules;
+      let combining = permission.combining;
+
+      if (inheritance === "ancestor") {
+        schemas = ancestor.schemas;
+        rules = ancestor.rules;
+        combining = ancestor.combining;
+      } else if (inheritance === "both" && ancestor !== permission) {
+        // Ancestor rules first, then the leaf rules not already present
+        schemas = [...ancestor.schemas];
+        for (const schema of permission.schemas) {
+          if (!schemas.some((s: any) => s.name === schema.name)) {
+            schemas.push(schema);
+          }
+        }
+        rules = [
+          ...ancestor.rules,
+          ...permission.rules.filter((rule: any) =>
+            !ancestor.rules.includes(rule)
+          ),
+        ];
       }
 
-      // New: Process each state entry for this permission
-      const permStateResults: {
-        valid?: ValidationResultType;
-        errors: ValidationError[];
-      }[] = [];
-
-      for (const permissionState of permissionStateEntries) {
-        // Get validation result for this permission with this state
-        const result = allow(
-          permission.schemas,
-          permission.rules,
-          permissionState,
-          request,
-          permKey,
-        );
+      return {
+        permKey,
+        schemas,
+        rules,
+        combining,
+        defaulted: true,
+        entries: [{ ...defaultStates[key], ...defaultStates[permKey] }],
+      };
+    },
+  );
+
+  return {
+    key,
+    chain,
+    rules: chain.flatMap(({ rules }) => rules),
+    schemaNames: [
+      ...new Set(
+        chain.flatMap(({ schemas }) => schemas.map(({ name }) => name)),
+      ),
+    ],
+  };
+}
 
-        // Add state index to errors
-        const errorsWithStateIndex = result.errors.map((error) => ({
-          ...error,
-          stateIndex,
-        }));
+/**
+ * State entries resolved for one key of the `satisfiedBy` chain
+ *
+ * @internal
+ */
+export type ResolvedEntries = {
+  /** Key of the chain */
+  permKey: string;
+  /** Schemas the entries are evaluated with */
+  schemas: any[];
+  /** Rules the entries are evaluated with */
+  rules: any[];
+  /** Algorithm combining the rule results */
+  combining?: Combining;
+  /** Whether the entries come from the default states */
+  defaulted: boolean;
+  /** State entries to evaluate */
+  entries: any[];
+};
+
+/**
+ * Resolves the state entries to evaluate for a permission request
+ *
+ * For each state source and each key of the `satisfiedBy` chain, the explicit
+ * entries of the key, followed by those of the key patterns matching it, are
+ * used when present, otherwise the default state is applied.
+ *
+ * @param plan Validation plan of the permission key
+ * @param states Array of permission state sets
+ * @returns For each state source, the state entries of each key in the chain
+ * @internal
+ */
+export function resolveStateEntries(
+  plan: ValidationPlan,
+  states: Record<string, unknown>[],
+): ResolvedEntries[][] {
+  return states.map((originalState) => {
+    const patterns = Object.keys(originalState).filter(isKeyPattern);
 
-        permStateResults.push({
-          valid: result.valid,
-          errors: errorsWithStateIndex,
-        });
+    return plan.chain.map((step) => {
+      const { permKey } = step;
+      if (patterns.length === 0 && originalState[permKey] === undefined) {
+        return step;
       }
+      const permissionStateEntries = [
+        originalState[permKey],
+        ...patterns
+          .filter((pattern) => matchesKeyPattern(pattern, permKey))
+          .map((pattern) => originalState[pattern]),
+      ].filter((entries) => entries !== undefined);
 
-      // Merge results for all states of this permission with OR logic
-      const permResult = mergeValidationResults(permStateResults);
-      chainResults.push(permResult);
-    }
+      // No state defined at all, use the default resolved in the plan
+      if (permissionStateEntries.length === 0) return step;
+
+      // Single state objects - convert to arrays for unified processing
+      return {
+        ...step,
+        defaulted: false,
+        entries: permissionStateEntries.flatMap((entries) =>
+          Array.isArray(entries) ? entries : [entries]
+        ),
+      };
+    });
+  });
+}
+
+/**
+ * Creates the listener reporting the rule evaluations of one state entry
+ *
+ * @param events Listeners of the validation events
+ * @param key Permission key being validated
+ * @param permKey Key of the chain the entry belongs to
+ * @param stateIndex Index of the state source
+ * @param entryIndex Index of the entry for its key
+ * @returns The listener, or undefined when rule evaluations are not listened to
+ */
+function ruleListener(
+  events: ValidationEvents | undefined,
+  key: string,
+  permKey: string,
+  stateIndex: number,
+  entryIndex: number,
+): RuleListener | undefined {
+  const listener = events?.ruleEvaluated;
+  return listener &&
+    ((event) => listener({ key, permKey, stateIndex, entryIndex, ...event }));
+}
+
+/**
+ * Reports the result of a validation to the `decision` listener
+ *
+ * @param events Listeners of the validation events
+ * @param plan Validation plan of the permission key
+ * @param request Validated request
+ * @param result Result of the validation
+ * @param start Time at which the validation started
+ * @internal
+ */
+export function emitDecision(
+  events: ValidationEvents | undefined,
+  plan: ValidationPlan,
+  request: unknown,
+  result: ValidationResult,
+  start: number,
+): void {
+  events?.decision?.({
+    key: plan.key,
+    request,
+    schemas: plan.schemaNames,
+    result,
+    durationMs: performance.now() - start,
+  });
+}
+
+/**
+ * Creates the skeleton of a decision trace for the resolved state entries
+ *
+ * @param key Permission key being validated
+ * @param sources Resolved state entries
+ * @returns A trace whose results are filled during the evaluation
+ */
+function createTrace(
+  key: string,
+  sources: ResolvedEntries[][],
+): ValidationTrace {
+  return {
+    key,
+    durationMs: 0,
+    sources: sources.map((chain, stateIndex) => ({
+      stateIndex,
+      chain: chain.map(({ permKey, defaulted, entries }) => ({
+        key: permKey,
+        defaulted,
+        entries: entries.map((state, entryIndex) => ({
+          entryIndex,
+          state,
+          durationMs: 0,
+          errors: [],
+          schemas: [],
+          rules: [],
+        })),
+      })),
+    })),
+  };
+}
 
-    // Merge results in the permission chain (OR logic)
-    const chainResult = mergeValidationResults(chainResults);
-    stateResults.push(chainResult);
+/**
+ * Records the outcome of an entry evaluation in its trace
+ *
+ * @param trace Trace of the entry, if tracing
+ * @param start Time at which the evaluation started
+ * @param result Result of the entry
+ * @returns The result, unchanged
+ */
+function traceEntry(
+  trace: EntryTrace | undefined,
+  start: number,
+  result: EvaluationResult,
+): EvaluationResult {
+  if (trace) {
+    trace.result = result.valid;
+    trace.errors = result.errors;
+    trace.durationMs = performance.now() - start;
   }
+  return result;
+}
+
+/**
+ * Merges the per-entry results of every state source into the final result
+ *
+ * Entries of a permission are merged first, then the keys of the chain, then
+ * the state sources, each time with the combining algorithm of the stage or
+ * with OR logic.
+ *
+ * @param results Entry results, per state source and per key in the chain
+ * @param combining Combining algorithms of the stages
+ * @param trace Decision trace receiving the merged results, if tracing
+ * @returns The public validation result
+ */
+function finalizeResults(
+  results: EvaluationResult[][][],
+  combining: CombiningOptions = {},
+  trace?: ValidationTrace,
+): ValidationResult {
+  const stateResults = results.map((chainResults, stateIndex) => {
+    const chainResult = combineStage(
+      chainResults.map((entryResults, chainIndex) => {
+        const permResult = combineStage(
+          entryResults.map((result) =>
+            result.errors.length === 0 ? result : {
+              ...result,
+              // Add state index to errors
+              errors: result.errors.map((error) => ({ ...error, stateIndex })),
+            }
+          ),
+          combining.entries,
+        );
+        if (trace) {
+          trace.sources[stateIndex].chain[chainIndex].result = permResult.valid;
+        }
+        return permResult;
+      }),
+      combining.chain,
+    );
+    if (trace) trace.sources[stateIndex].result = chainResult.valid;
+    return chainResult;
+  });
 
-  // Merge results from different states (OR logic)
-  const finalResult = mergeValidationResults(stateResults);
+  // Merge results from different states
+  const finalResult = combineStage(stateResults, combining.sources);
 
   // Convert ValidationResultType to boolean for compatibility
   const isValid = finalResult.valid === VALIDATION_RESULT.GRANTED;
@@ -310,11 +976,269 @@ export function validate<
     finalResult.valid === VALIDATION_RESULT.REJECTED ||
     finalResult.valid === VALIDATION_RESULT.BLOCKED;
 
-  return {
+  const result: ValidationResult = {
     valid: isValid,
     reasons: isExplicitlyRejected ? finalResult.errors : [],
     resultType: finalResult.valid, // Expose the detailed result type
   };
+  if (finalResult.obligations) result.obligations = finalResult.obligations;
+  if (finalResult.advice) result.advice = finalResult.advice;
+  if (trace) {
+    trace.result = finalResult.valid;
+    result.trace = trace;
+  }
+  return result;
+}
+
+/**
+ * Options accepted by `validate`
+ */
+export type ValidateOptions = {
+  /**
+   * Records a full decision trace in `ValidationResult.trace`: per state source,
+   * per chain key, per state entry and per rule (operands of operators included),
+   * with raw results and timings
+   */
+  explain?: boolean;
+  /**
+   * Rules used to evaluate the state of the ancestor keys of the chain:
+   * - `"leaf"` (default): the rules of the requested permission
+   * - `"ancestor"`: the rules of the ancestor owning the state
+   * - `"both"`: the ancestor rules followed by the requested permission rules,
+   *   so a rule of either side can deny
+   */
+  inheritance?: InheritanceMode;
+  /**
+   * Combining algorithms of the state entries of a key, of the keys of the
+   * chain and of the state sources. Stages without one are merged with OR logic.
+   */
+  combining?: CombiningOptions;
+  /** Listeners of the validation events, such as a `decisionLogger` */
+  events?: ValidationEvents;
+};
+
+/**
+ * Validates a permission request against a set of permission states
+ * @param hierarchy Permission hierarchy
+ * @param states Array of permission state sets, which can now contain arrays of states for each permission
+ * @param key Permission key to validate
+ * @param request Request to validate
+ * @param options Validation options, such as the explain mode
+ * @returns Validation result with detailed feedback
+ */
+export function validate<
+  H extends PermissionHierarchy<any>,
+  S extends PermissionStateSet<H>[],
+  K extends PermissionKey<H>,
+  R extends PermissionRequests<H, K>,
+>(
+  hierarchy: H,
+  states: S,
+  key: K,
+  request: R,
+  options: ValidateOptions = {},
+): ValidationResult {
+  const start = performance.now();
+  const plan = createValidationPlan(hierarchy, key, {
+    inheritance: options.inheritance,
+  });
+  return validatePlan(plan, states, request, options, start);
+}
+
+/**
+ * Validates a permission request with a prepared validation plan
+ *
+ * @param plan Validation plan of the permission key
+ * @param states Array of permission state sets
+ * @param request Request to validate
+ * @param options Validation options, such as the explain mode
+ * @param start Time at which the validation started, for the trace
+ * @returns Validation result with detailed feedback
+ * @internal
+ */
+export function validatePlan(
+  plan: ValidationPlan,
+  states: Record<string, unknown>[],
+  request: unknown,
+  options: ValidateOptions = {},
+  start: number = performance.now(),
+): ValidationResult {
+  const { events } = options;
+  events?.beforeValidate?.({ key: plan.key, request, sources: states.length });
+  const sources = resolveStateEntries(plan, states);
+  const trace = options.explain ? createTrace(plan.key, sources) : undefined;
+  const results = sources.map((chain, stateIndex) =>
+    chain.map(({ permKey, schemas, rules, combining, entries }, chainIndex) =>
+      entries.map((entry, entryIndex) => {
+        const entryTrace = trace?.sources[stateIndex].chain[chainIndex]
+          .entries[entryIndex];
+        const entryStart = entryTrace ? performance.now() : 0;
+        const { effect, state } = splitEffect(entry);
+        return traceEntry(
+          entryTrace,
+          entryStart,
+          applyEffect(
+            effect,
+            permKey,
+            allow(
+              schemas,
+              rules,
+              combining,
+              state,
+              request,
+              permKey,
+              entryTrace,
+              ruleListener(events, plan.key, permKey, stateIndex, entryIndex),
+            ),
+          ),
+        );
+      })
+    )
+  );
+
+  const result = finalizeResults(results, options.combining, trace);
+  if (trace) trace.durationMs = performance.now() - start;
+  emitDecision(events, plan, request, result, start);
+  return result;
+}
+
+/**
+ * Options accepted by `validateAsync`
+ */
+export type ValidateAsyncOptions = ValidateOptions & {
+  /** Signal used to cancel the validation, the returned promise then rejects */
+  signal?: AbortSignal;
+};
+
+/**
+ * Validates a permission request against a set of permission states,
+ * supporting asynchronous rules and schema guards
+ *
+ * Every state entry is evaluated concurrently while the rules of an entry keep
+ * running one after the other. The results are merged exactly like `validate`
+ * does. As soon as an entry is "blocked" the outcome can no longer change, so
+ * the signal handed to in-flight rules is aborted.
+ *
+ * @param hierarchy Permission hierarchy
+ * @param states Array of permission state sets
+ * @param key Permission key to validate
+ * @param request Request to validate
+ * @param options Validation options, such as an abort signal or the explain mode
+ * @returns Promise resolving to the validation result
+ */
+export async function validateAsync<
+  H extends PermissionHierarchy<any>,
+  S extends PermissionStateSet<H>[],
+  K extends PermissionKey<H>,
+  R extends PermissionRequests<H, K>,
+>(
+  hierarchy: H,
+  states: S,
+  key: K,
+  request: R,
+  options: ValidateAsyncOptions = {},
+): Promise<ValidationResult> {
+  const start = performance.now();
+  const plan = createValidationPlan(hierarchy, key, {
+    inheritance: options.inheritance,
+  });
+  return await validatePlanAsync(plan, states, request, options, start);
+}
+
+/**
+ * Validates a permission request with a prepared validation plan, supporting
+ * asynchronous rules and schema guards
+ *
+ * @param plan Validation plan of the permission key
+ * @param states Array of permission state sets
+ * @param request Request to validate
+ * @param options Validation options, such as an abort signal or the explain mode
+ * @param start Time at which the validation started, for the trace
+ * @returns Promise resolving to the validation result
+ * @internal
+ */
+export async function validatePlanAsync(
+  plan: ValidationPlan,
+  states: Record<string, unknown>[],
+  request: unknown,
+  options: ValidateAsyncOptions = {},
+  start: number = performance.now(),
+): Promise<ValidationResult> {
+  const { signal } = options;
+  signal?.throwIfAborted();
+
+  // Decided outcomes and caller cancellations both abort in-flight rules
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+  const context: RuleContext = { signal: controller.signal };
+
+  try {
+    const { events } = options;
+    events?.beforeValidate?.({
+      key: plan.key,
+      request,
+      sources: states.length,
+    });
+    const sources = resolveStateEntries(plan, states);
+    const trace = options.explain ? createTrace(plan.key, sources) : undefined;
+    const results = await Promise.all(
+      sources.map((chain, stateIndex) =>
+        Promise.all(
+          chain.map((
+            { permKey, schemas, rules, combining, entries },
+            chainIndex,
+          ) =>
+            Promise.all(entries.map(async (entry, entryIndex) => {
+              const entryTrace = trace?.sources[stateIndex].chain[chainIndex]
+                .entries[entryIndex];
+              const entryStart = entryTrace ? performance.now() : 0;
+              const { effect, state } = splitEffect(entry);
+              const result = traceEntry(
+                entryTrace,
+                entryStart,
+                applyEffect(
+                  effect,
+                  permKey,
+                  await allowAsync(
+                    schemas,
+                    rules,
+                    combining,
+                    state,
+                    request,
+                    permKey,
+                    context,
+                    entryTrace,
+                    ruleListener(
+                      events,
+                      plan.key,
+                      permKey,
+                      stateIndex,
+                      entryIndex,
+                    ),
+                  ),
+                ),
+              );
+              if (result.valid === VALIDATION_RESULT.BLOCKED) {
+                controller.abort(
+                  new DOMException("Validation outcome decided", "AbortError"),
+                );
+              }
+              return result;
+            }))
+          ),
+        )
+      ),
+    );
+
+    signal?.throwIfAborted();
+    const result = finalizeResults(results, options.combining, trace);
+    if (trace) trace.durationMs = performance.now() - start;
+    emitDecision(events, plan, request, result, start);
+    return result;
+  } finally {
+    signal?.removeEventListener("abort", onAbort);
+  }
 }
 
 /**
@@ -356,6 +1280,7 @@ export function convertFlatStatesToObject<H>(
  * @param flatStates Array of [permission key, state] tuples
  * @param key Permission key to validate
  * @param request Request to validate
+ * @param options Validation options, such as the explain mode
  * @returns Validation result
  */
 export function validateWithFlatStates<
@@ -367,6 +1292,7 @@ export function validateWithFlatStates<
   flatStates: FlatPermissionStateArray<H>[],
   key: K,
   request: R,
+  options: ValidateOptions = {},
 ): ValidationResult {
   // Convert flat states to standard object format
   const objectStates = flatStates.map((stateArray) =>
@@ -374,5 +1300,5 @@ export function validateWithFlatStates<
   );
 
   // Use the standard validation function
-  return validate(hierarchy, objectStates, key, request);
+  return validate(hierarchy, objectStates, key, request, options);
 }
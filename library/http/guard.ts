@@ -0,0 +1,376 @@
+/**
+ * Authorization guard for HTTP handlers
+ *
+ * A guard authorizes Fetch API requests, as received by `Deno.serve`: it maps
+ * the route of the request to a permission key, extracts the subject and the
+ * target, loads the state sets of the subject and validates. Denied requests
+ * get a problem details response (RFC 9457) listing the reasons of the
+ * decision: 401 without a subject, with a `WWW-Authenticate` challenge, 403
+ * otherwise.
+ *
+ * Routes are `"METHOD /pattern"` strings (the method may be omitted to match
+ * every method), patterns following the `URLPattern` pathname syntax. The first
+ * matching route applies, requests matching none are denied unless
+ * `unmatched` is `"allow"`. Route parameters are percent-decoded before they
+ * reach the extractors, so `/files/a%2Fb` targets `a/b`; requests whose
+ * parameters cannot be decoded get a 400.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { createGuard, subjectFromHeader } from "@diister/quick-permission/http";
+ *
+ * const guard = createGuard(files, {
+ *   routes: {
+ *     "GET /files/:id": "files.read",
+ *     "PUT /files/:id": "files.write",
+ *     "DELETE /files/:id": { key: "files.delete", target: ({ params }) => params.id },
+ *   },
+ *   subject: subjectFromHeader("x-user-id"),
+ *   states: (subject) => store.loadStateSets([subject, "group:everyone"]),
+ * });
+ *
+ * Deno.serve(guard.handler((request, { subject }) => {
+ *   return new Response(`Hello ${subject}`);
+ * }));
+ * ```
+ *
+ * @module guard
+ */
+import { validateAsync } from "../core/permission.ts";
+import type { ValidateAsyncOptions } from "../core/validation.ts";
+import type {
+  PermissionHierarchy,
+  PermissionKey,
+  PermissionStateSet,
+  ValidationError,
+  ValidationResult,
+} from "../types/common.ts";
+
+/**
+ * What extractors and request builders know about a request
+ */
+export type GuardContext = {
+  /** The HTTP request */
+  request: Request;
+  /** Parsed URL of the request */
+  url: URL;
+  /** Parameters of the matched route pattern */
+  params: Record<string, string | undefined>;
+};
+
+/**
+ * Permission checked for a route, with its own extractors
+ *
+ * @template H The permission hierarchy
+ */
+export type GuardRoute<H extends PermissionHierarchy<any>> = {
+  /** Permission key validated for the route */
+  key: PermissionKey<H>;
+  /** Extracts the target, replacing the target extractor of the guard */
+  target?: (context: GuardContext) => string | undefined;
+  /** Builds extra request fields, merged over those of the guard */
+  request?: (
+    context: GuardContext,
+  ) => Record<string, unknown> | Promise<Record<string, unknown>>;
+};
+
+/**
+ * Options of a guard
+ *
+ * @template H The permission hierarchy
+ */
+export type GuardOptions<H extends PermissionHierarchy<any>> = {
+  /** Permission of each route, by `"METHOD /pattern"` */
+  routes: Record<string, PermissionKey<H> | GuardRoute<H>>;
+  /** Extracts the subject of a request, undefined when unauthenticated */
+  subject: (
+    request: Request,
+  ) => string | undefined | Promise<string | undefined>;
+  /** Loads the state sets of a subject */
+  states: (
+    subject: string,
+    request: Request,
+  ) => PermissionStateSet<H>[] | Promise<PermissionStateSet<H>[]>;
+  /**
+   * Extracts the target of a request
+   * @default The `id` parameter of the route
+   */
+  target?: (context: GuardContext) => string | undefined;
+  /** Builds extra request fields, such as attributes or the date */
+  request?: (
+    context: GuardContext,
+  ) => Record<string, unknown> | Promise<Record<string, unknown>>;
+  /**
+   * Whether requests matching no route are allowed
+   * @default "deny"
+   */
+  unmatched?: "allow" | "deny";
+  /**
+   * Challenge of the `WWW-Authenticate` header of 401 responses
+   * @default "Bearer"
+   */
+  challenge?: string;
+  /** Options of the validations, such as events or combining algorithms */
+  validation?: Omit<ValidateAsyncOptions, "signal">;
+};
+
+/**
+ * Problem details (RFC 9457) describing a denied request
+ */
+export type ProblemDetails = {
+  /** URI identifying the problem type */
+  type: string;
+  /** Short summary of the problem */
+  title: string;
+  /** HTTP status code */
+  status: number;
+  /** Explanation of this occurrence of the problem */
+  detail: string;
+  /** Path of the request */
+  instance: string;
+  /** Permission key validated, when the route is mapped to one */
+  key?: string;
+  /** Reasons of the decision */
+  reasons?: ValidationError[];
+};
+
+/**
+ * Outcome of the authorization of a request
+ *
+ * @template H The permission hierarchy
+ */
+export type GuardDecision<H extends PermissionHierarchy<any>> =
+  | {
+    allowed: true;
+    /** Subject of the request, absent for an allowed unmatched request */
+    subject?: string;
+    /** Permission key validated, absent for an allowed unmatched request */
+    key?: PermissionKey<H>;
+    /** Parameters of the matched route pattern */
+    params: Record<string, string | undefined>;
+    /** The validation result, absent for an allowed unmatched request */
+    result?: ValidationResult;
+  }
+  | {
+    allowed: false;
+    /** Problem details to send back */
+    problem: ProblemDetails;
+    /** Headers to send with the problem details */
+    headers?: Record<string, string>;
+    /** The validation result, absent when no validation took place */
+    result?: ValidationResult;
+  };
+
+/**
+ * An authorization guard
+ *
+ * @template H The permission hierarchy
+ */
+export type Guard<H extends PermissionHierarchy<any>> = {
+  /** Authorizes a request */
+  authorize(request: Request): Promise<GuardDecision<H>>;
+  /**
+   * Wraps a handler so that it only receives allowed requests, denied ones
+   * getting a problem details response
+   */
+  handler(
+    next: (
+      request: Request,
+      decision: GuardDecision<H> & { allowed: true },
+    ) => Response | Promise<Response>,
+  ): (request: Request) => Promise<Response>;
+};
+
+/**
+ * Creates an authorization guard
+ *
+ * @param hierarchy The permission hierarchy
+ * @param options Routes, extractors and state loading of the guard
+ * @returns A guard authorizing Fetch API requests
+ */
+export function createGuard<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  options: GuardOptions<H>,
+): Guard<H> {
+  const routes = Object.entries(options.routes).map(([route, permission]) => {
+    const [method, pathname] = route.includes(" ")
+      ? route.split(/\s+/, 2)
+      : [undefined, route];
+    return {
+      method: method?.toUpperCase(),
+      pattern: new URLPattern({ pathname }),
+      route: typeof permission === "string"
+        ? { key: permission } as GuardRoute<H>
+        : permission,
+    };
+  });
+  const defaultTarget = ({ params }: GuardContext) => params.id;
+  const challenge = options.challenge ?? "Bearer";
+
+  const match = (request: Request, url: URL) => {
+    for (const { method, pattern, route } of routes) {
+      if (method && method !== request.method) continue;
+      const matched = pattern.exec({ pathname: url.pathname });
+      if (matched) {
+        return { route, params: decodeParams(matched.pathname.groups) };
+      }
+    }
+    return undefined;
+  };
+
+  const authorize = async (request: Request): Promise<GuardDecision<H>> => {
+    const url = new URL(request.url);
+    const matched = match(request, url);
+    if (!matched) {
+      return options.unmatched === "allow" ? { allowed: true, params: {} } : {
+        allowed: false,
+        problem: problem(403, "No permission is mapped to this route", url),
+      };
+    }
+
+    const { route, params } = matched;
+    if (!params) {
+      return {
+        allowed: false,
+        problem: {
+          ...problem(400, "The parameters of the route cannot be decoded", url),
+          key: route.key,
+        },
+      };
+    }
+    const subject = await options.subject(request);
+    if (subject === undefined) {
+      return {
+        allowed: false,
+        problem: {
+          ...problem(401, "The request has no subject", url),
+          key: route.key,
+        },
+        headers: { "www-authenticate": challenge },
+      };
+    }
+
+    const context: GuardContext = { request, url, params };
+    const target = (route.target ?? options.target ?? defaultTarget)(context);
+    const permissionRequest = {
+      ...await options.request?.(context),
+      ...await route.request?.(context),
+      from: subject,
+      ...(target !== undefined && { target }),
+    };
+    const result = await validateAsync(
+      hierarchy,
+      await options.states(subject, request),
+      route.key,
+      permissionRequest as never,
+      { ...options.validation, signal: request.signal },
+    );
+
+    if (result.valid) {
+      return { allowed: true, subject, key: route.key, params, result };
+    }
+    return {
+      allowed: false,
+      problem: {
+        ...problem(
+          403,
+          `Permission "${route.key}" is not granted to "${subject}"`,
+          url,
+        ),
+        key: route.key,
+        reasons: result.reasons,
+      },
+      result,
+    };
+  };
+
+  return {
+    authorize,
+    handler(next) {
+      return async (request) => {
+        const decision = await authorize(request);
+        if (!decision.allowed) {
+          return problemResponse(decision.problem, decision.headers);
+        }
+        return await next(request, decision);
+      };
+    },
+  };
+}
+
+/**
+ * Creates a subject extractor reading a request header
+ *
+ * The header must be set by a trusted party, such as an authenticating proxy.
+ *
+ * @param name Name of the header
+ * @returns An extractor returning the header value, undefined when missing
+ */
+export function subjectFromHeader(
+  name: string,
+): (request: Request) => string | undefined {
+  return (request) => request.headers.get(name) ?? undefined;
+}
+
+/**
+ * Creates the response of a denied request
+ *
+ * @param details Problem details of the request
+ * @param headers Extra headers, such as the challenge of a 401
+ * @returns A response with the problem details as its JSON body
+ */
+export function problemResponse(
+  details: ProblemDetails,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(details), {
+    status: details.status,
+    headers: { ...headers, "content-type": "application/problem+json" },
+  });
+}
+
+/**
+ * Titles of the statuses of denied requests
+ */
+const STATUS_TITLES = {
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+} as const;
+
+/**
+ * Builds the problem details of a status
+ */
+function problem(
+  status: keyof typeof STATUS_TITLES,
+  detail: string,
+  url: URL,
+): ProblemDetails {
+  return {
+    type: "about:blank",
+    title: STATUS_TITLES[status],
+    status,
+    detail,
+    instance: url.pathname,
+  };
+}
+
+/**
+ * Percent-decodes the parameters of a matched route
+ *
+ * @returns The decoded parameters, undefined when one is malformed
+ */
+function decodeParams(
+  groups: Record<string, string | undefined>,
+): Record<string, string | undefined> | undefined {
+  const params: Record<string, string | undefined> = {};
+  for (const [name, value] of Object.entries(groups)) {
+    try {
+      params[name] = value === undefined ? value : decodeURIComponent(value);
+    } catch {
+      return undefined;
+    }
+  }
+  return params;
+}
@@ -0,0 +1,46 @@
+/**
+ * Hono middleware authorizing requests with a guard.
+ *
+ * Denied requests get the problem details response of the guard, allowed ones
+ * continue with the decision stored under the `permission` variable of the
+ * context. The middleware relies on the shape of Hono's context only, Hono is
+ * not a dependency.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { Hono } from "hono";
+ * import { createGuard } from "@diister/quick-permission/http";
+ * import { honoGuard } from "@diister/quick-permission/http/hono";
+ *
+ * const app = new Hono();
+ * app.use("/files/*", honoGuard(createGuard(files, options)));
+ * app.get("/files/:id", (c) => c.text(`Hello ${c.get("permission").subject}`));
+ * ```
+ *
+ * @param guard The guard authorizing the requests
+ * @returns A Hono middleware
+ */
+import { type Guard, problemResponse } from "../guard.ts";
+import type { PermissionHierarchy } from "../../types/common.ts";
+
+/**
+ * The parts of a Hono context used by the middleware
+ */
+export type HonoContext = {
+  req: { raw: Request };
+  set(key: "permission", value: unknown): void;
+};
+
+export function honoGuard<H extends PermissionHierarchy<any>>(
+  guard: Guard<H>,
+): (c: HonoContext, next: () => Promise<void>) => Promise<Response | void> {
+  return async (c, next) => {
+    const decision = await guard.authorize(c.req.raw);
+    if (!decision.allowed) {
+      return problemResponse(decision.problem, decision.headers);
+    }
+    c.set("permission", decision);
+    await next();
+  };
+}
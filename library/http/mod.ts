@@ -0,0 +1,56 @@
+/**
+ * Quick Permission - HTTP Module
+ *
+ * This module exports the authorization guard of HTTP handlers. A guard maps
+ * the routes of Fetch API requests to permission keys, extracts the subject
+ * and the target, validates and answers denied requests with problem details.
+ *
+ * ## Available Exports
+ *
+ * - **createGuard**: Creates a guard from routes and extractors
+ * - **subjectFromHeader**: Extracts the subject from a trusted header
+ * - **problemResponse**: Turns problem details into a response
+ * - **createDecisionServer** / **servePdp**: Serve validations over HTTP to
+ *   other services, as a policy decision point
+ *
+ * Middleware adapters are exported by `http/hono` and `http/oak`.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { createGuard, subjectFromHeader } from "@diister/quick-permission/http";
+ *
+ * const guard = createGuard(files, {
+ *   routes: { "GET /files/:id": "files.read" },
+ *   subject: subjectFromHeader("x-user-id"),
+ *   states: (subject) => store.loadStateSets([subject]),
+ * });
+ *
+ * Deno.serve(guard.handler(() => new Response("ok")));
+ * ```
+ *
+ * @module http
+ */
+
+export { createGuard, problemResponse, subjectFromHeader } from "./guard.ts";
+export type {
+  Guard,
+  GuardContext,
+  GuardDecision,
+  GuardOptions,
+  GuardRoute,
+  ProblemDetails,
+} from "./guard.ts";
+export {
+  createDecisionServer,
+  policyFromJson,
+  policyFromModule,
+  servePdp,
+  watchPolicy,
+} from "./pdp.ts";
+export type {
+  DecisionCheck,
+  DecisionServer,
+  DecisionServerOptions,
+  PdpServeOptions,
+} from "./pdp.ts";
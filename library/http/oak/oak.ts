@@ -0,0 +1,71 @@
+/**
+ * Oak middleware authorizing requests with a guard.
+ *
+ * Denied requests get the problem details of the guard as their response,
+ * allowed ones continue with the decision stored in `ctx.state.permission`.
+ * The Fetch API request is taken from `ctx.request.source` when Oak runs on
+ * `Deno.serve`, and rebuilt from the URL, method and headers otherwise. The
+ * middleware relies on the shape of Oak's context only, Oak is not a
+ * dependency.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { Application } from "@oak/oak";
+ * import { createGuard } from "@diister/quick-permission/http";
+ * import { oakGuard } from "@diister/quick-permission/http/oak";
+ *
+ * const app = new Application();
+ * app.use(oakGuard(createGuard(files, options)));
+ * app.use((ctx) => {
+ *   ctx.response.body = `Hello ${ctx.state.permission.subject}`;
+ * });
+ * ```
+ *
+ * @param guard The guard authorizing the requests
+ * @returns An Oak middleware
+ */
+import type { Guard } from "../guard.ts";
+import type { PermissionHierarchy } from "../../types/common.ts";
+
+/**
+ * The parts of an Oak context used by the middleware
+ */
+export type OakContext = {
+  request: {
+    source?: Request;
+    url: URL;
+    method: string;
+    headers: Headers;
+  };
+  response: {
+    status: number;
+    headers: Headers;
+    body?: unknown;
+  };
+  state: Record<string, unknown>;
+};
+
+export function oakGuard<H extends PermissionHierarchy<any>>(
+  guard: Guard<H>,
+): (ctx: OakContext, next: () => Promise<unknown>) => Promise<void> {
+  return async (ctx, next) => {
+    const request = ctx.request.source ??
+      new Request(ctx.request.url, {
+        method: ctx.request.method,
+        headers: ctx.request.headers,
+      });
+    const decision = await guard.authorize(request);
+    if (!decision.allowed) {
+      ctx.response.status = decision.problem.status;
+      for (const [name, value] of Object.entries(decision.headers ?? {})) {
+        ctx.response.headers.set(name, value);
+      }
+      ctx.response.headers.set("content-type", "application/problem+json");
+      ctx.response.body = JSON.stringify(decision.problem);
+      return;
+    }
+    ctx.state.permission = decision;
+    await next();
+  };
+}
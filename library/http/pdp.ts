@@ -0,0 +1,621 @@
+/**
+ * Policy decision point (PDP) serving validations over HTTP
+ *
+ * A decision server answers the validations of services that cannot import
+ * the hierarchy, such as services written in other languages. It loads the
+ * hierarchy with a policy loader (a TypeScript module or a JSON policy),
+ * loads the state sets of the subjects of each check from a state source, and
+ * answers with the `ValidationResult` as JSON. Reloading the policy swaps the
+ * hierarchy once the new one is loaded, a failing reload keeping the previous
+ * one.
+ *
+ * Endpoints:
+ * - `POST /v1/check`: validates one check, answering its `ValidationResult`
+ * - `POST /v1/check/batch`: validates `{ checks: [...] }`, answering
+ *   `{ results: [...] }` in the same order, failed checks as `{ error }`
+ * - `POST /v1/explain`: like `/v1/check`, the result including its `trace`
+ * - `GET /health`: status and version of the policy, 503 until one is loaded
+ * - `GET /metrics`: counters in the Prometheus text format
+ *
+ * A check is `{ key, request, subjects?, states?, inheritance?, combining? }`:
+ * the state sets of the `subjects` come from the state source, followed by the
+ * encoded `states` given inline (dates as ISO strings). The `date` field of the
+ * request is revived from an ISO string too. Invalid checks are answered with
+ * problem details and a 400 status, checks whose states cannot be loaded with a
+ * 503 status, and checks whose validation throws with a 500 status.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { policyFromModule, servePdp } from "@diister/quick-permission/http";
+ * import { createJsonFileStore } from "@diister/quick-permission/stores";
+ *
+ * const pdp = servePdp({
+ *   policy: policyFromModule(new URL("./policy.ts", import.meta.url)),
+ *   states: (subjects, hierarchy) =>
+ *     createJsonFileStore(hierarchy, "./permissions.json").loadStateSets(subjects),
+ *   port: 8181,
+ *   watch: ["./policy.ts"],
+ * });
+ *
+ * // curl -X POST localhost:8181/v1/check -d '{
+ * //   "key": "files.read",
+ * //   "subjects": ["user:alice"],
+ * //   "request": { "from": "user:alice", "target": "doc-1" }
+ * // }'
+ * // {"valid":true,"reasons":[],"resultType":"granted"}
+ * ```
+ *
+ * The module also runs as a server:
+ *
+ * ```sh
+ * deno run --allow-net --allow-read --allow-write http/pdp.ts \
+ *   --policy ./policy.json --store ./permissions.json --port 8181 --watch
+ * ```
+ *
+ * @module pdp
+ */
+import { decodeStateSet } from "../core/codec.ts";
+import { COMBINING_ALGORITHMS } from "../core/combining.ts";
+import { compile, type CompiledHierarchy } from "../core/compile.ts";
+import { createRegistry, loadHierarchy } from "../core/policy.ts";
+import { createJsonFileStore } from "../stores/jsonFile/jsonFile.ts";
+import type { ValidationEvents } from "../types/audit.ts";
+import type {
+  CombiningAlgorithm,
+  InheritanceMode,
+  PermissionHierarchy,
+  PermissionStateSet,
+  ValidationResult,
+} from "../types/common.ts";
+import type { PolicyRegistry } from "../types/policy.ts";
+import { problemResponse } from "./guard.ts";
+
+/**
+ * A validation asked to the decision server
+ */
+export type DecisionCheck = {
+  /** Permission key to validate */
+  key: string;
+  /** Request to validate, its `date` field as an ISO string */
+  request: Record<string, unknown>;
+  /** Subjects whose state sets are loaded from the state source */
+  subjects?: string[];
+  /** Encoded state sets, used after those of the subjects */
+  states?: unknown[];
+  /** Rules used for the ancestor keys of the chain */
+  inheritance?: InheritanceMode;
+  /** Names of the combining algorithms of each stage */
+  combining?: {
+    entries?: CombiningAlgorithm;
+    chain?: CombiningAlgorithm;
+    sources?: CombiningAlgorithm;
+  };
+};
+
+/**
+ * Options of a decision server
+ */
+export type DecisionServerOptions = {
+  /** Loads the hierarchy, at startup and on each reload */
+  policy: () => PermissionHierarchy<any> | Promise<PermissionHierarchy<any>>;
+  /** Loads the state sets of the subjects of a check */
+  states?: (
+    subjects: string[],
+    hierarchy: PermissionHierarchy<any>,
+  ) => PermissionStateSet<any>[] | Promise<PermissionStateSet<any>[]>;
+  /**
+   * Maximum number of checks of a batch
+   * @default 100
+   */
+  maxBatch?: number;
+  /** Listeners of the validation events, such as a `decisionLogger` */
+  events?: ValidationEvents;
+};
+
+/**
+ * A decision server, independent of the HTTP server running it
+ */
+export type DecisionServer = {
+  /** Answers an HTTP request */
+  handler(request: Request): Promise<Response>;
+  /**
+   * Loads the policy again, replacing the hierarchy once loaded
+   * @throws The error of the policy loader, the previous hierarchy being kept
+   */
+  reload(): Promise<void>;
+};
+
+/**
+ * Options of `servePdp`
+ */
+export type PdpServeOptions = DecisionServerOptions & {
+  /**
+   * Port to listen on
+   * @default 8181
+   */
+  port?: number;
+  /** Host name to listen on, all interfaces by default */
+  hostname?: string;
+  /** Files or directories whose changes reload the policy */
+  watch?: string[];
+  /** Stops the server when aborted */
+  signal?: AbortSignal;
+  /** Called once the server listens */
+  onListen?: (address: Deno.NetAddr) => void;
+};
+
+/**
+ * Counters exposed by the metrics endpoint
+ */
+type Metrics = {
+  decisions: Record<string, number>;
+  failedChecks: number;
+  durationMsSum: number;
+  reloads: number;
+  failedReloads: number;
+};
+
+/**
+ * Creates a decision server, loading its policy
+ *
+ * @param options Policy loader, state source and limits of the server
+ * @returns A decision server whose handler can be served or called directly
+ */
+export function createDecisionServer(
+  options: DecisionServerOptions,
+): DecisionServer {
+  const maxBatch = options.maxBatch ?? 100;
+  let policy:
+    | { compiled: CompiledHierarchy<any>; version: number; loadedAt: Date }
+    | undefined;
+  let reloadError: string | undefined;
+  const metrics: Metrics = {
+    decisions: {},
+    failedChecks: 0,
+    durationMsSum: 0,
+    reloads: 0,
+    failedReloads: 0,
+  };
+
+  const reload = async () => {
+    try {
+      const hierarchy = await options.policy();
+      policy = {
+        compiled: compile(hierarchy),
+        version: (policy?.version ?? 0) + 1,
+        loadedAt: new Date(),
+      };
+      reloadError = undefined;
+      metrics.reloads++;
+    } catch (error) {
+      reloadError = error instanceof Error ? error.message : String(error);
+      metrics.failedReloads++;
+      throw error;
+    }
+  };
+  const loaded = reload().catch(() => {});
+
+  const check = async (
+    compiled: CompiledHierarchy<any>,
+    body: unknown,
+    explain: boolean,
+    signal: AbortSignal,
+  ): Promise<
+    { result: ValidationResult } | { error: string; status: number }
+  > => {
+    const { hierarchy } = compiled;
+    let parsed: DecisionCheck;
+    let request: Record<string, unknown>;
+    let inline: PermissionStateSet<any>[];
+    try {
+      parsed = parseCheck(hierarchy, body);
+      request = reviveRequest(parsed.request);
+      if (parsed.subjects && !options.states) {
+        throw new Error("This server has no state source for subjects");
+      }
+      inline = (parsed.states ?? []).map((state) =>
+        decodeStateSet(hierarchy, state as Record<string, unknown>)
+      );
+    } catch (error) {
+      return failure(error, 400);
+    }
+
+    const start = performance.now();
+    let loadedStates: PermissionStateSet<any>[];
+    try {
+      loadedStates = parsed.subjects
+        ? await options.states!(parsed.subjects, hierarchy)
+        : [];
+    } catch (error) {
+      return failure(error, 503, "Cannot load the states: ");
+    }
+    let result: ValidationResult;
+    try {
+      result = await compiled.validateAsync(
+        [...loadedStates, ...inline],
+        parsed.key as never,
+        request as never,
+        {
+          inheritance: parsed.inheritance,
+          combining: parsed.combining,
+          explain,
+          events: options.events,
+          signal,
+        },
+      );
+    } catch (error) {
+      return failure(error, 500, "Validation failed: ");
+    }
+    const resultType = result.resultType ??
+      (result.valid ? "granted" : "rejected");
+    metrics.decisions[resultType] = (metrics.decisions[resultType] ?? 0) + 1;
+    metrics.durationMsSum += performance.now() - start;
+    return { result };
+  };
+
+  const failure = (error: unknown, status: number, prefix = "") => {
+    metrics.failedChecks++;
+    const message = error instanceof Error ? error.message : String(error);
+    return { error: prefix + message, status };
+  };
+
+  const json = (value: unknown, status = 200) =>
+    new Response(JSON.stringify(value), {
+      status,
+      headers: { "content-type": "application/json" },
+    });
+  const problem = (status: number, title: string, detail: string, url: URL) =>
+    problemResponse({
+      type: "about:blank",
+      title,
+      status,
+      detail,
+      instance: url.pathname,
+    });
+
+  const handler = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url);
+    const route = ROUTES[url.pathname];
+    if (!route) {
+      return problem(404, "Not Found", "Unknown endpoint", url);
+    }
+    if (request.method !== route.method) {
+      return problem(
+        405,
+        "Method Not Allowed",
+        `Use ${route.method} ${url.pathname}`,
+        url,
+      );
+    }
+
+    await loaded;
+    if (route.name === "metrics") {
+      return new Response(formatMetrics(metrics, policy?.version), {
+        headers: { "content-type": "text/plain; version=0.0.4" },
+      });
+    }
+    if (route.name === "health") {
+      return json(
+        {
+          status: policy ? "ok" : "unavailable",
+          policy: policy && {
+            version: policy.version,
+            loadedAt: policy.loadedAt.toISOString(),
+          },
+          reloadError,
+        },
+        policy ? 200 : 503,
+      );
+    }
+    if (!policy) {
+      return problem(503, "Service Unavailable", "No policy is loaded", url);
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return problem(400, "Bad Request", "The body is not valid JSON", url);
+    }
+
+    const { compiled } = policy;
+    if (route.name === "batch") {
+      const checks = (body as { checks?: unknown })?.checks;
+      if (!Array.isArray(checks)) {
+        return problem(400, "Bad Request", "Expected { checks: [...] }", url);
+      }
+      if (checks.length > maxBatch) {
+        return problem(
+          400,
+          "Bad Request",
+          `A batch holds at most ${maxBatch} checks`,
+          url,
+        );
+      }
+      const results = await Promise.all(
+        checks.map((body) => check(compiled, body, false, request.signal)),
+      );
+      return json({
+        results: results.map((outcome) =>
+          "result" in outcome ? outcome.result : { error: outcome.error }
+        ),
+      });
+    }
+
+    const outcome = await check(
+      compiled,
+      body,
+      route.name === "explain",
+      request.signal,
+    );
+    return "result" in outcome ? json(outcome.result) : problem(
+      outcome.status,
+      STATUS_TITLES[outcome.status],
+      outcome.error,
+      url,
+    );
+  };
+
+  return { handler, reload };
+}
+
+/**
+ * Serves a decision server with `Deno.serve`
+ *
+ * @param options Policy loader, state source and HTTP options of the server
+ * @returns The decision server, the HTTP server, and a function stopping both
+ */
+export function servePdp(options: PdpServeOptions): {
+  server: DecisionServer;
+  http: Deno.HttpServer<Deno.NetAddr>;
+  shutdown(): Promise<void>;
+} {
+  const server = createDecisionServer(options);
+  const stopWatching = options.watch?.length
+    ? watchPolicy(server, options.watch)
+    : undefined;
+  const http = Deno.serve({
+    port: options.port ?? 8181,
+    hostname: options.hostname,
+    signal: options.signal,
+    onListen: options.onListen,
+  }, server.handler);
+  http.finished.then(() => stopWatching?.());
+
+  return {
+    server,
+    http,
+    async shutdown() {
+      stopWatching?.();
+      await http.shutdown();
+    },
+  };
+}
+
+/**
+ * Reloads the policy of a decision server when files change
+ *
+ * Changes are debounced, so that saving several files reloads once. Failed
+ * reloads keep the previous policy and are reported by the health endpoint.
+ *
+ * @param server The decision server
+ * @param paths Files or directories to watch
+ * @param debounceMs Time to wait after the last change
+ * @returns A function stopping the watch
+ */
+export function watchPolicy(
+  server: DecisionServer,
+  paths: string[],
+  debounceMs = 100,
+): () => void {
+  const watcher = Deno.watchFs(paths);
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  (async () => {
+    for await (const event of watcher) {
+      if (event.kind === "access") continue;
+      clearTimeout(timer);
+      timer = setTimeout(() => server.reload().catch(() => {}), debounceMs);
+    }
+  })();
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+}
+
+/**
+ * Creates a policy loader importing a module
+ *
+ * Each load imports a fresh copy of the module itself; the modules it imports
+ * are not reloaded.
+ *
+ * @param specifier URL or path of the module
+ * @param exportName Export holding the hierarchy
+ * @returns A policy loader
+ */
+export function policyFromModule(
+  specifier: string | URL,
+  exportName = "default",
+): () => Promise<PermissionHierarchy<any>> {
+  const url = new URL(specifier, `file://${Deno.cwd()}/`);
+  return async () => {
+    url.searchParams.set("version", `${Date.now()}-${Math.random()}`);
+    const module = await import(url.href);
+    const hierarchy = module[exportName];
+    if (hierarchy?.type !== "hierarchy") {
+      throw new Error(
+        `Export "${exportName}" of ${specifier} is not a permission hierarchy`,
+      );
+    }
+    return hierarchy;
+  };
+}
+
+/**
+ * Creates a policy loader reading a JSON policy
+ *
+ * @param path Path of the JSON policy
+ * @param registry Rules and schemas available to the policy
+ * @returns A policy loader
+ */
+export function policyFromJson(
+  path: string,
+  registry: PolicyRegistry = createRegistry(),
+): () => Promise<PermissionHierarchy<any>> {
+  return async () => loadHierarchy(await Deno.readTextFile(path), registry);
+}
+
+/**
+ * Endpoints of the decision server, by path
+ */
+const ROUTES: Record<
+  string,
+  { method: string; name: "check" | "batch" | "explain" | "health" | "metrics" }
+> = {
+  "/v1/check": { method: "POST", name: "check" },
+  "/v1/check/batch": { method: "POST", name: "batch" },
+  "/v1/explain": { method: "POST", name: "explain" },
+  "/health": { method: "GET", name: "health" },
+  "/metrics": { method: "GET", name: "metrics" },
+};
+
+/**
+ * Titles of the problem details answered for failed checks, by status
+ */
+const STATUS_TITLES: Record<number, string> = {
+  400: "Bad Request",
+  500: "Internal Server Error",
+  503: "Service Unavailable",
+};
+
+/**
+ * Checks the shape of a check
+ *
+ * @param hierarchy The loaded hierarchy
+ * @param body Parsed body of the check
+ * @returns The check
+ * @throws Error describing the first problem found
+ */
+function parseCheck(
+  hierarchy: PermissionHierarchy<any>,
+  body: unknown,
+): DecisionCheck {
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new Error("A check must be an object");
+  }
+  const check = body as DecisionCheck;
+  if (
+    typeof check.key !== "string" || !Object.hasOwn(hierarchy.flat, check.key)
+  ) {
+    throw new Error(`Unknown permission key ${JSON.stringify(check.key)}`);
+  }
+  if (typeof check.request !== "object" || check.request === null) {
+    throw new Error("request must be an object");
+  }
+  if (
+    check.subjects !== undefined &&
+    (!Array.isArray(check.subjects) ||
+      check.subjects.some((subject) => typeof subject !== "string"))
+  ) {
+    throw new Error("subjects must be an array of strings");
+  }
+  if (check.states !== undefined && !Array.isArray(check.states)) {
+    throw new Error("states must be an array of state sets");
+  }
+  if (check.subjects === undefined && check.states === undefined) {
+    throw new Error("A check needs subjects or states");
+  }
+  if (
+    check.inheritance !== undefined &&
+    !["leaf", "ancestor", "both"].includes(check.inheritance)
+  ) {
+    throw new Error(`Unknown inheritance ${JSON.stringify(check.inheritance)}`);
+  }
+  for (const [stage, algorithm] of Object.entries(check.combining ?? {})) {
+    if (!COMBINING_ALGORITHMS.includes(algorithm)) {
+      throw new Error(
+        `Unknown combining algorithm ${JSON.stringify(algorithm)} for ${stage}`,
+      );
+    }
+  }
+  return check;
+}
+
+/**
+ * Revives the `date` field of a request sent as an ISO string
+ *
+ * @internal Shared with the command-line tool
+ */
+export function reviveRequest(
+  request: Record<string, unknown>,
+): Record<string, unknown> {
+  if (typeof request.date !== "string") return request;
+  const date = new Date(request.date);
+  if (isNaN(date.getTime())) {
+    throw new Error("request.date must be an ISO date string");
+  }
+  return { ...request, date };
+}
+
+/**
+ * Formats the counters of the server in the Prometheus text format
+ */
+function formatMetrics(metrics: Metrics, version?: number): string {
+  const decisions = Object.values(metrics.decisions)
+    .reduce((sum, count) => sum + count, 0);
+  return [
+    "# TYPE pdp_decisions_total counter",
+    ...Object.entries(metrics.decisions).map(([result, count]) =>
+      `pdp_decisions_total{result="${result}"} ${count}`
+    ),
+    "# TYPE pdp_failed_checks_total counter",
+    `pdp_failed_checks_total ${metrics.failedChecks}`,
+    "# TYPE pdp_decision_duration_ms summary",
+    `pdp_decision_duration_ms_sum ${metrics.durationMsSum}`,
+    `pdp_decision_duration_ms_count ${decisions}`,
+    "# TYPE pdp_policy_reloads_total counter",
+    `pdp_policy_reloads_total{status="success"} ${metrics.reloads}`,
+    `pdp_policy_reloads_total{status="failure"} ${metrics.failedReloads}`,
+    "# TYPE pdp_policy_version gauge",
+    `pdp_policy_version ${version ?? 0}`,
+    "",
+  ].join("\n");
+}
+
+if (import.meta.main) {
+  const flags = new Map<string, string | true>();
+  for (let i = 0; i < Deno.args.length; i++) {
+    const name = Deno.args[i].replace(/^--/, "");
+    const value = Deno.args[i + 1];
+    if (value === undefined || value.startsWith("--")) {
+      flags.set(name, true);
+    } else {
+      flags.set(name, value);
+      i++;
+    }
+  }
+
+  const policyPath = flags.get("policy");
+  const storePath = flags.get("store");
+  if (typeof policyPath !== "string") {
+    console.error(
+      "Usage: pdp.ts --policy <module or JSON policy> [--store <JSON store>] [--port <port>] [--hostname <host>] [--watch]",
+    );
+    Deno.exit(2);
+  }
+
+  servePdp({
+    policy: policyPath.endsWith(".json")
+      ? policyFromJson(policyPath)
+      : policyFromModule(policyPath),
+    states: typeof storePath === "string"
+      ? (subjects, hierarchy) =>
+        createJsonFileStore(hierarchy, storePath).loadStateSets(subjects)
+      : undefined,
+    port: flags.has("port") ? Number(flags.get("port")) : undefined,
+    hostname: flags.get("hostname") as string | undefined,
+    watch: flags.has("watch") ? [policyPath] : undefined,
+  });
+}
@@ -58,32 +58,228 @@
  */
 
 // Re-export core components
-export { hierarchy, permission, validate } from "./core/permission.ts";
-export { createDefaultStateSet, satisfiedBy } from "./core/hierarchy.ts";
+export {
+  hierarchy,
+  permission,
+  validate,
+  validateAsync,
+} from "./core/permission.ts";
+export {
+  createDefaultStateSet,
+  isKeyPattern,
+  matchesKeyPattern,
+  satisfiedBy,
+} from "./core/hierarchy.ts";
+export { compile } from "./core/compile.ts";
+export { combineResults, COMBINING_ALGORITHMS } from "./core/combining.ts";
+export { LINT_RULES, lintHierarchy, walkRules } from "./core/lint.ts";
+export { fulfill } from "./core/obligation.ts";
+export { accessibleTargets, accessibleTargetsAsync } from "./core/query.ts";
+export {
+  partialEvaluate,
+  residualFromResult,
+  sameFields,
+} from "./core/partial.ts";
+export { toPredicate, toSql } from "./core/residual.ts";
+export { expandRole, resolveRoles, role, roleResolver } from "./core/role.ts";
+export { compileExpression, parseExpression } from "./core/expression.ts";
+export { createRegistry, dumpHierarchy, loadHierarchy } from "./core/policy.ts";
+export {
+  canonicalJson,
+  dateCodec,
+  decodeFlatStateArray,
+  decodeStateSet,
+  encodeFlatStateArray,
+  encodeStateSet,
+  formatIssuePath,
+  validateFlatStateArray,
+  validateStateSet,
+} from "./core/codec.ts";
+export { addEntry, checkEntry, entryId, removeEntries } from "./core/store.ts";
+export { createDecisionCache } from "./core/cache.ts";
+export type {
+  BeforeValidateEvent,
+  DecisionEvent,
+  DecisionRecord,
+  DecisionSink,
+  Redaction,
+  RedactionRules,
+  RuleEvaluatedEvent,
+  ValidationEvents,
+} from "./types/audit.ts";
+export type { DecisionLoggerOptions } from "./core/audit.ts";
+export type { MemorySink, MemorySinkOptions } from "./sinks/memory/memory.ts";
+export type {
+  Guard,
+  GuardContext,
+  GuardDecision,
+  GuardOptions,
+  GuardRoute,
+  ProblemDetails,
+} from "./http/guard.ts";
+export type { HonoContext } from "./http/hono/hono.ts";
+export type { OakContext } from "./http/oak/oak.ts";
+export { decisionLogger, redactReasons, redactRequest } from "./core/audit.ts";
+export {
+  check,
+  computed,
+  createTupleStore,
+  direct,
+  exclusion,
+  expand,
+  formatTuple,
+  intersection,
+  parseTuple,
+  tupleToUserset,
+  union,
+} from "./core/relation.ts";
 
 // Re-export operators
 export { and, merge, not, or } from "./operators/operations.ts";
 
 // Re-export rules
+export { allowAttributes } from "./rules/allowAttributes/allowAttributes.ts";
 export { allowOwner } from "./rules/allowOwner/allowOwner.ts";
+export { allowRelation } from "./rules/allowRelation/allowRelation.ts";
 export { allowSelf } from "./rules/allowSelf/allowSelf.ts";
 export { allowTarget } from "./rules/allowTarget/allowTarget.ts";
 export { denySelf } from "./rules/denySelf/denySelf.ts";
 export { ensureTime } from "./rules/ensureTime/ensureTime.ts";
+export { expr } from "./rules/expr/expr.ts";
 
 // Re-export schemas
+export { attributes } from "./schemas/attributes/attributes.ts";
 export { owner } from "./schemas/owner/owner.ts";
+export { relation } from "./schemas/relation/relation.ts";
 export { target } from "./schemas/target/target.ts";
 export { time } from "./schemas/time/time.ts";
 
+// Re-export stores
+export { createMemoryStore } from "./stores/memory/memory.ts";
+
+// Re-export sinks
+export { createMemorySink } from "./sinks/memory/memory.ts";
+
+// Re-export HTTP guard and adapters
+export {
+  createGuard,
+  problemResponse,
+  subjectFromHeader,
+} from "./http/guard.ts";
+export { honoGuard } from "./http/hono/hono.ts";
+export { oakGuard } from "./http/oak/oak.ts";
+
 // Re-export types
 export type {
+  Combiner,
+  Combining,
+  CombiningAlgorithm,
+  CombiningOptions,
   Hierarchy,
+  InheritanceMode,
   Permission,
   PermissionHierarchy,
   PermissionKey,
+  PermissionKeyPattern,
   PermissionRequests,
   PermissionStateSet,
+  StateEffect,
+  StateEntry,
   ValidationError,
   ValidationResult,
 } from "./types/common.ts";
+export type { CompiledHierarchy, CompileOptions } from "./core/compile.ts";
+export type {
+  AccessibleTargets,
+  BaseRequest,
+  RestrictedPattern,
+  ShadowedTarget,
+} from "./core/query.ts";
+export type { PartialEvaluateOptions } from "./core/partial.ts";
+export type { SqlOptions } from "./core/residual.ts";
+export type {
+  Condition,
+  PartialCheck,
+  ResidualDecision,
+} from "./types/residual.ts";
+export type {
+  Role,
+  RoleAssignments,
+  RoleGrant,
+  RoleInheritance,
+  RoleOptions,
+} from "./types/role.ts";
+export type {
+  RelationCheck,
+  RelationModel,
+  RelationTuple,
+  TupleStore,
+  UsersetRewrite,
+  UsersetTree,
+} from "./types/relation.ts";
+export type {
+  AttributeComparison,
+  AttributeOperand,
+  AttributeOperator,
+} from "./rules/allowAttributes/allowAttributes.ts";
+export type { AttributePath } from "./schemas/attributes/attributes.ts";
+export type {
+  BinaryOperator,
+  CompiledExpression,
+  ExpressionNode,
+  ExpressionParseResult,
+  ExpressionScope,
+  ExpressionSyntaxError,
+} from "./types/expression.ts";
+export type { ExprOptions } from "./rules/expr/expr.ts";
+export type {
+  HierarchyDefinition,
+  PermissionDefinition,
+  PolicyRegistry,
+  RuleDefinition,
+  RuleFactory,
+} from "./types/policy.ts";
+export type {
+  FieldCodec,
+  StateSetIssue,
+  StateSetReport,
+  StateSetValidationOptions,
+} from "./types/codec.ts";
+export type {
+  LintContext,
+  LintFinding,
+  LintOptions,
+  LintPermission,
+  LintRule,
+  LintRuleSetting,
+  LintSeverity,
+} from "./types/lint.ts";
+export type { PermissionStore, StoredGrant } from "./types/store.ts";
+export type {
+  DecisionCache,
+  DecisionCacheOptions,
+  DecisionCacheStats,
+  DecisionScope,
+} from "./core/cache.ts";
+export type { AllowRelationOptions } from "./rules/allowRelation/allowRelation.ts";
+export type {
+  AnyRule,
+  AsyncRule,
+  Rule,
+  RuleContext,
+  RuleVolatility,
+} from "./types/rule.ts";
+export type {
+  Advice,
+  Obligation,
+  ObligationHandlers,
+  RuleDecision,
+} from "./types/obligation.ts";
+export type {
+  ChainTrace,
+  EntryTrace,
+  RuleTrace,
+  SchemaTrace,
+  SourceTrace,
+  ValidationTrace,
+} from "./types/trace.ts";
@@ -4,14 +4,33 @@
  * This module provides logical operators for combining permission rules to create
  * complex validation logic. The operators follow standard logic patterns
  * while respecting the validation result types ("granted", "rejected", "neutral", "blocked").
+ *
+ * Every operator accepts synchronous and asynchronous rules. When all operands are
+ * synchronous the combined rule is synchronous too; as soon as one operand is
+ * asynchronous the combined rule becomes asynchronous and awaits its operands one
+ * after the other, so short-circuiting behaves exactly as in the synchronous case.
  */
-import { rule } from "../core/rule.ts";
+import { decide } from "../core/obligation.ts";
+import { residualOf, sequenceResiduals } from "../core/partial.ts";
+import { FALSE, or as anyOf } from "../core/residual.ts";
+import {
+  asyncRule,
+  evaluateRule,
+  evaluateRuleAsync,
+  isAsyncRule,
+  isDecision,
+  resultOf,
+  rule,
+} from "../core/rule.ts";
 import {
   ExtractSchemasFromRules,
   VALIDATION_RESULT,
   ValidationResultType,
 } from "../types/common.ts";
-import type { Rule } from "../types/rule.ts";
+import type { RuleDecision } from "../types/obligation.ts";
+import type { RuleDefinition } from "../types/policy.ts";
+import type { ResidualDecision } from "../types/residual.ts";
+import type { AnyRule, AsyncRule, Rule } from "../types/rule.ts";
 import type { Schema } from "../types/schema.ts";
 
 /**
@@ -30,17 +49,15 @@ import type { Schema } from "../types/schema.ts";
  */
 export function merge<const R extends Rule<any>[]>(
   rules: R,
-): Rule<ExtractSchemasFromRules<R>> {
-  // Merge schemas from all rules
-  const schemas = mergeSchemas(rules);
-
-  return rule(
-    "merge",
-    schemas,
-    (state, request) => {
-      let valid: ValidationResultType = VALIDATION_RESULT.NEUTRAL;
-      for (const rule of rules) {
-        const result = rule.check(state, request);
+): Rule<ExtractSchemasFromRules<R>>;
+export function merge<const R extends AnyRule<any>[]>(
+  rules: R,
+): AsyncRule<ExtractSchemasFromRules<R>>;
+export function merge(rules: AnyRule<any>[]): AnyRule<any> {
+  return combine("merge", rules, () => {
+    let valid: ValidationResultType = VALIDATION_RESULT.NEUTRAL;
+    return {
+      step(result) {
         if (result === VALIDATION_RESULT.REJECTED) {
           return VALIDATION_RESULT.REJECTED;
         }
@@ -50,10 +67,10 @@ export function merge<const R extends Rule<any>[]>(
         if (result === VALIDATION_RESULT.GRANTED) {
           valid = VALIDATION_RESULT.GRANTED;
         }
-      }
-      return valid;
-    },
-  );
+      },
+      done: () => valid,
+    };
+  }, (outcomes) => sequenceResiduals(outcomes, "any"));
 }
 
 /**
@@ -69,17 +86,15 @@ export function merge<const R extends Rule<any>[]>(
  */
 export function and<const R extends Rule<any>[]>(
   rules: R,
-): Rule<ExtractSchemasFromRules<R>> {
-  // Merge schemas from all rules
-  const schemas = mergeSchemas(rules);
-
-  return rule(
-    "and",
-    schemas,
-    (state, request) => {
-      let allGranted = true;
-      for (const rule of rules) {
-        const result = rule.check(state, request);
+): Rule<ExtractSchemasFromRules<R>>;
+export function and<const R extends AnyRule<any>[]>(
+  rules: R,
+): AsyncRule<ExtractSchemasFromRules<R>>;
+export function and(rules: AnyRule<any>[]): AnyRule<any> {
+  return combine("and", rules, () => {
+    let allGranted = true;
+    return {
+      step(result) {
         if (result === VALIDATION_RESULT.REJECTED) {
           return VALIDATION_RESULT.REJECTED;
         }
@@ -87,10 +102,11 @@ export function and<const R extends Rule<any>[]>(
           return VALIDATION_RESULT.BLOCKED;
         }
         if (result === VALIDATION_RESULT.NEUTRAL) allGranted = false;
-      }
-      return allGranted ? VALIDATION_RESULT.GRANTED : VALIDATION_RESULT.NEUTRAL;
-    },
-  );
+      },
+      done: () =>
+        allGranted ? VALIDATION_RESULT.GRANTED : VALIDATION_RESULT.NEUTRAL,
+    };
+  }, (outcomes) => sequenceResiduals(outcomes, "all"));
 }
 
 /**
@@ -108,23 +124,23 @@ export function and<const R extends Rule<any>[]>(
  */
 export function or<const R extends Rule<any>[]>(
   rules: R,
-): Rule<ExtractSchemasFromRules<R>> {
-  // Merge schemas from all rules
-  const schemas = mergeSchemas(rules);
-
-  return rule(
-    "or",
-    schemas,
-    (state, request) => {
-      for (const rule of rules) {
-        const result = rule.check(state, request);
-        if (result === VALIDATION_RESULT.GRANTED) {
-          return VALIDATION_RESULT.GRANTED;
-        }
+): Rule<ExtractSchemasFromRules<R>>;
+export function or<const R extends AnyRule<any>[]>(
+  rules: R,
+): AsyncRule<ExtractSchemasFromRules<R>>;
+export function or(rules: AnyRule<any>[]): AnyRule<any> {
+  return combine("or", rules, () => ({
+    step(result) {
+      if (result === VALIDATION_RESULT.GRANTED) {
+        return VALIDATION_RESULT.GRANTED;
       }
-      return VALIDATION_RESULT.NEUTRAL;
     },
-  );
+    done: () => VALIDATION_RESULT.NEUTRAL,
+  }), (outcomes) => ({
+    granted: anyOf(...outcomes.map((outcome) => outcome.granted)),
+    rejected: FALSE,
+    blocked: FALSE,
+  }));
 }
 
 /**
@@ -141,12 +157,13 @@ export function or<const R extends Rule<any>[]>(
  */
 export function not<const R extends Rule<any>>(
   inputRule: R,
-): Rule<ExtractSchemasFromRules<[R]>> {
-  return rule(
-    "not",
-    inputRule.schemas,
-    (state, request) => {
-      const result = inputRule.check(state, request);
+): Rule<ExtractSchemasFromRules<[R]>>;
+export function not<const R extends AnyRule<any>>(
+  inputRule: R,
+): AsyncRule<ExtractSchemasFromRules<[R]>>;
+export function not(inputRule: AnyRule<any>): AnyRule<any> {
+  return combine("not", [inputRule], () => ({
+    step(result) {
       if (result === VALIDATION_RESULT.GRANTED) {
         return VALIDATION_RESULT.REJECTED;
       }
@@ -156,6 +173,231 @@ export function not<const R extends Rule<any>>(
       ) return VALIDATION_RESULT.GRANTED;
       return VALIDATION_RESULT.NEUTRAL;
     },
+    done: () => VALIDATION_RESULT.NEUTRAL,
+    // The operand decides the inverted result
+    contributes: () => true,
+  }), ([outcome]) => ({
+    granted: anyOf(outcome.rejected, outcome.blocked),
+    rejected: outcome.granted,
+    blocked: FALSE,
+  }));
+}
+
+/**
+ * Accumulates the results of an operator's operands
+ */
+type Reducer = {
+  /** Receives the next operand result, returns a final result to short-circuit */
+  step: (result: ValidationResultType) => ValidationResultType | void;
+  /** Produces the result once every operand has been evaluated */
+  done: () => ValidationResultType;
+  /**
+   * Tells whether an operand result contributed to the final result, defaults
+   * to both results being equal
+   */
+  contributes?: (
+    operand: ValidationResultType,
+    result: ValidationResultType,
+  ) => boolean;
+};
+
+/**
+ * Builds an operator rule evaluating its operands in order through a reducer
+ *
+ * A synchronous rule is produced when every operand is synchronous, otherwise an
+ * asynchronous rule awaiting each operand before moving to the next one.
+ *
+ * @param name Name of the operator
+ * @param rules Operands of the operator
+ * @param createReducer Creates a fresh reducer for each evaluation
+ * @param reduceResiduals Combines the operand outcomes during partial evaluation
+ * @returns The combined rule
+ */
+function combine(
+  name: string,
+  rules: AnyRule<any>[],
+  createReducer: () => Reducer,
+  reduceResiduals: (outcomes: ResidualDecision[]) => ResidualDecision,
+): AnyRule<any> {
+  // Merge schemas from all rules
+  const schemas = mergeSchemas(rules);
+  const partial = (
+    state: unknown,
+    request: Record<string, unknown>,
+    unknowns: ReadonlySet<string>,
+  ) =>
+    reduceResiduals(
+      rules.map((rule) => residualOf(rule, state, request, unknowns)),
+    );
+
+  // Operators over serializable rules are serializable too
+  const definitions = rules.map((rule) => rule.definition);
+  const definition = definitions.every((definition) => definition)
+    ? { operator: name, rules: definitions } as RuleDefinition
+    : undefined;
+  // Operators are as volatile as their most volatile operand
+  const volatility = rules.some((rule) => rule.volatility === "volatile")
+    ? "volatile"
+    : rules.some((rule) => rule.volatility === "timeWindow")
+    ? "timeWindow"
+    : undefined;
+  const outcomes = possibleOutcomes(rules, createReducer);
+
+  if (!rules.some(isAsyncRule)) {
+    const combined = rule(name, schemas, (state, request, context) => {
+      const reducer = createReducer();
+      const decisions: RuleDecision[] = [];
+      for (const rule of rules as Rule<any>[]) {
+        const outcome = evaluateRule(rule, state, request, context);
+        if (isDecision(outcome)) decisions.push(outcome);
+        const result = reducer.step(resultOf(outcome));
+        if (result !== undefined) return settle(reducer, result, decisions);
+      }
+      return settle(reducer, reducer.done(), decisions);
+    });
+    combined.partial = partial;
+    combined.operands = rules;
+    if (definition) combined.definition = definition;
+    if (volatility) combined.volatility = volatility;
+    if (outcomes) combined.outcomes = outcomes;
+    reducers.set(combined, createReducer);
+    return combined;
+  }
+
+  const combined = asyncRule(name, schemas, async (state, request, context) => {
+    const reducer = createReducer();
+    const decisions: RuleDecision[] = [];
+    for (const rule of rules) {
+      context?.signal?.throwIfAborted();
+      const outcome = await evaluateRuleAsync(rule, state, request, context);
+      if (isDecision(outcome)) decisions.push(outcome);
+      const result = reducer.step(resultOf(outcome));
+      if (result !== undefined) return settle(reducer, result, decisions);
+    }
+    return settle(reducer, reducer.done(), decisions);
+  });
+  combined.partial = partial;
+  combined.operands = rules;
+  if (definition) combined.definition = definition;
+  if (volatility) combined.volatility = volatility;
+  if (outcomes) combined.outcomes = outcomes;
+  reducers.set(combined, createReducer);
+  return combined;
+}
+
+/**
+ * Reducers of the operator rules, used to reason about their results without
+ * evaluating them
+ */
+const reducers = new WeakMap<AnyRule<any>, () => Reducer>();
+
+/**
+ * Every result a rule may return, in a fixed order
+ */
+const ALL_RESULTS: ValidationResultType[] = [
+  VALIDATION_RESULT.GRANTED,
+  VALIDATION_RESULT.REJECTED,
+  VALIDATION_RESULT.BLOCKED,
+  VALIDATION_RESULT.NEUTRAL,
+];
+
+/**
+ * Combinations of operand results enumerated before giving up on computing
+ * the outcomes of an operator
+ */
+const MAX_COMBINATIONS = 4096;
+
+/**
+ * Computes the result of an operator rule from the results of its operands,
+ * honoring short-circuits (results after a deciding operand are ignored)
+ *
+ * @internal Used by `lintHierarchy` to reason about operator trees
+ * @param operator An operator rule, such as one returned by `and`
+ * @param results Results of the operands, in evaluation order
+ * @returns The result of the operator, undefined if the rule is no operator
+ */
+export function reduceOperands(
+  operator: AnyRule<any>,
+  results: ValidationResultType[],
+): ValidationResultType | undefined {
+  const createReducer = reducers.get(operator);
+  return createReducer && runReducer(createReducer, results);
+}
+
+/**
+ * Enumerates the combinations of possible results of rules
+ *
+ * @internal Used by `lintHierarchy` to reason about operator trees
+ * @param rules The rules, their `outcomes` bounding their results
+ * @returns The combinations, undefined when there are too many of them
+ */
+export function resultCombinations(
+  rules: AnyRule<any>[],
+): ValidationResultType[][] | undefined {
+  const choices = rules.map((rule) => rule.outcomes ?? ALL_RESULTS);
+  const count = choices.reduce((count, choice) => count * choice.length, 1);
+  if (count > MAX_COMBINATIONS) return undefined;
+  return choices.reduce<ValidationResultType[][]>(
+    (combinations, choice) =>
+      combinations.flatMap((combination) =>
+        choice.map((result) => [...combination, result])
+      ),
+    [[]],
+  );
+}
+
+/**
+ * Computes the results an operator may return from those of its operands
+ *
+ * @returns The possible results, undefined when any result is possible or
+ * when there are too many combinations to enumerate
+ */
+function possibleOutcomes(
+  rules: AnyRule<any>[],
+  createReducer: () => Reducer,
+): ValidationResultType[] | undefined {
+  const combinations = resultCombinations(rules);
+  if (!combinations) return undefined;
+  const outcomes = new Set(
+    combinations.map((results) => runReducer(createReducer, results)),
+  );
+  return outcomes.size === ALL_RESULTS.length
+    ? undefined
+    : ALL_RESULTS.filter((result) => outcomes.has(result));
+}
+
+/**
+ * Feeds operand results to a fresh reducer until it short-circuits
+ */
+function runReducer(
+  createReducer: () => Reducer,
+  results: ValidationResultType[],
+): ValidationResultType {
+  const reducer = createReducer();
+  for (const operand of results) {
+    const result = reducer.step(operand);
+    if (result !== undefined) return result;
+  }
+  return reducer.done();
+}
+
+/**
+ * Attaches the obligations and advice of the contributing operands to the
+ * result of an operator
+ */
+function settle(
+  reducer: Reducer,
+  result: ValidationResultType,
+  decisions: RuleDecision[],
+): ValidationResultType | RuleDecision {
+  if (result === VALIDATION_RESULT.NEUTRAL || decisions.length === 0) {
+    return result;
+  }
+  const contributes = reducer.contributes ??
+    ((operand: ValidationResultType) => operand === result);
+  return decide(
+    result,
+    decisions.filter((decision) => contributes(decision.result, result)),
   );
 }
 
@@ -165,7 +407,7 @@ export function not<const R extends Rule<any>>(
  * @param rules Array of rules whose schemas should be merged
  * @returns Array of unique schemas from all rules
  */
-function mergeSchemas<const R extends Rule<any>[]>(
+function mergeSchemas<const R extends AnyRule<any>[]>(
   rules: R,
 ): ExtractSchemasFromRules<R> {
   const schemas: Schema<any, any>[] = [];
@@ -0,0 +1,400 @@
+/**
+ * Rule that compares attributes of the request and of the state.
+ *
+ * This rule passes when every comparison holds. Each comparison is written
+ * `[left, operator, right]`, where both sides are either a path into the request
+ * (`"request.subject.department"`), a path into the state (`"state.department"`)
+ * or a literal (`{ value: "eng" }`). Paths are checked against the state and
+ * request types of the rule.
+ *
+ * - Returns "granted" when every comparison holds
+ * - Returns "rejected" otherwise, with one error message per failed comparison
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { allowAttributes } from "@diister/quick-permission/rules/allowAttributes";
+ *
+ * type DocumentState = { department: string; classification: number };
+ * type ReaderRequest = {
+ *   subject: { department: string; clearance: number; roles: string[] };
+ * };
+ *
+ * const canRead = allowAttributes<DocumentState, ReaderRequest>([
+ *   ["request.subject.department", "eq", "state.department"],
+ *   ["request.subject.clearance", "gte", "state.classification"],
+ *   ["request.subject.roles", "contains", { value: "reader" }],
+ * ]);
+ *
+ * // When validating:
+ * // If every comparison holds -> permission granted
+ * // Otherwise -> "rejected", e.g. "Attribute comparison failed:
+ * //   request.subject.clearance (1) gte state.classification (3)"
+ * ```
+ *
+ * @param comparisons The comparisons that must all hold
+ * @returns A rule that validates attribute-based permissions
+ * @throws Error if the pattern of a `matches` comparison is a request path, or
+ * an invalid regular expression
+ */
+import { residualFromResult } from "../../core/partial.ts";
+import {
+  and,
+  equals,
+  FALSE,
+  fieldEquals,
+  literal,
+  not,
+  or,
+} from "../../core/residual.ts";
+import { rule } from "../../core/rule.ts";
+import {
+  type AttributePath,
+  attributes,
+} from "../../schemas/attributes/attributes.ts";
+import type { Condition } from "../../types/residual.ts";
+import type { Rule } from "../../types/rule.ts";
+import type { Schema } from "../../types/schema.ts";
+
+/**
+ * Operators available to attribute comparisons
+ *
+ * - `eq`, `neq`: strict equality (dates are compared by time)
+ * - `in`: the left side is an element of the right array
+ * - `contains`: the left array holds the right side, or the left string
+ *   includes the right string
+ * - `gt`, `gte`, `lt`, `lte`: ordering of two numbers, strings or dates
+ * - `startsWith`: the left string starts with the right string
+ * - `matches`: the left string matches the right regular expression or pattern.
+ *   Patterns are literals or state paths, compiled once and cached; request
+ *   paths are refused, since any client could send a pattern that takes
+ *   exponential time to match
+ */
+export type AttributeOperator =
+  | "eq"
+  | "neq"
+  | "in"
+  | "contains"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "startsWith"
+  | "matches";
+
+/**
+ * One side of an attribute comparison: a path into the request, a path into the
+ * state, or a literal value
+ *
+ * @template S The state type
+ * @template R The request type
+ */
+export type AttributeOperand<S, R> =
+  | `request.${AttributePath<R>}`
+  | `state.${AttributePath<S>}`
+  | { value: unknown };
+
+/**
+ * A comparison written `[left, operator, right]`
+ *
+ * @template S The state type
+ * @template R The request type
+ */
+export type AttributeComparison<S, R> = readonly [
+  AttributeOperand<S, R>,
+  AttributeOperator,
+  AttributeOperand<S, R>,
+];
+
+export function allowAttributes<
+  S extends object = Record<string, unknown>,
+  R extends object = Record<string, unknown>,
+>(
+  comparisons: AttributeComparison<S, R>[],
+): Rule<[Schema<NoInfer<S>, NoInfer<R>>]> {
+  for (const [left, operator, right] of comparisons) {
+    if (operator !== "matches") continue;
+    if (typeof right === "string" && right.startsWith("request.")) {
+      throw new Error(
+        `The pattern of "${left} matches ${right}" cannot come from the request`,
+      );
+    }
+    // Literal patterns are compiled, and checked, once
+    if (typeof right === "object") {
+      const { value } = right as { value: unknown };
+      if (typeof value === "string" || value instanceof RegExp) pattern(value);
+    }
+  }
+
+  const allowAttributesRule = rule(
+    "allowAttributes",
+    [attributes<S, R>()],
+    (state, request) => {
+      const reasons = comparisons
+        .filter(([left, operator, right]) =>
+          !compare(
+            operator,
+            resolve(left, state, request),
+            resolve(right, state, request),
+          )
+        )
+        .map(([left, operator, right]) =>
+          `Attribute comparison failed: ${
+            describe(left, state, request)
+          } ${operator} ${describe(right, state, request)}`
+        );
+
+      if (reasons.length === 0) return "granted";
+      return { result: "rejected", reasons };
+    },
+  );
+
+  // With unknown request fields, equality comparisons become conditions on them
+  allowAttributesRule.partial = (state, request, unknowns) => {
+    const conditions = comparisons.map((comparison) =>
+      comparisonResidual(comparison, state, request, unknowns)
+    );
+    if (conditions.every((condition) => condition.type === "literal")) {
+      return residualFromResult(allowAttributesRule.check(state, request as R));
+    }
+    const granted = and(...conditions);
+    return { granted, rejected: not(granted), blocked: FALSE };
+  };
+  allowAttributesRule.definition = {
+    rule: "allowAttributes",
+    options: { comparisons },
+  };
+  allowAttributesRule.outcomes = ["granted", "rejected"];
+  return allowAttributesRule;
+}
+
+/**
+ * Resolves an operand against the state and the request
+ *
+ * @param operand The operand to resolve
+ * @param state The state of the entry
+ * @param request The request
+ * @returns The value of the operand, undefined when its path is missing
+ */
+function resolve(operand: unknown, state: unknown, request: unknown): unknown {
+  if (typeof operand === "object" && operand !== null) {
+    return (operand as { value: unknown }).value;
+  }
+  const [source, ...path] = (operand as string).split(".");
+  let value: unknown = source === "request" ? request : state;
+  for (const segment of path) {
+    if (
+      typeof value !== "object" || value === null ||
+      !Object.hasOwn(value, segment)
+    ) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[segment];
+  }
+  return value;
+}
+
+/**
+ * Applies a comparison operator to two resolved values
+ *
+ * @param operator The operator
+ * @param left Value of the left side
+ * @param right Value of the right side
+ * @returns Whether the comparison holds, false for values of unsupported types
+ * @throws Error if a `matches` pattern is not a valid regular expression
+ */
+function compare(
+  operator: AttributeOperator,
+  left: unknown,
+  right: unknown,
+): boolean {
+  switch (operator) {
+    case "eq":
+      return same(left, right);
+    case "neq":
+      return !same(left, right);
+    case "in":
+      return Array.isArray(right) && right.some((item) => same(left, item));
+    case "contains":
+      if (Array.isArray(left)) return left.some((item) => same(item, right));
+      return typeof left === "string" && typeof right === "string" &&
+        left.includes(right);
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte": {
+      const order = ordering(left, right);
+      if (order === undefined) return false;
+      return operator === "gt"
+        ? order > 0
+        : operator === "gte"
+        ? order >= 0
+        : operator === "lt"
+        ? order < 0
+        : order <= 0;
+    }
+    case "startsWith":
+      return typeof left === "string" && typeof right === "string" &&
+        left.startsWith(right);
+    case "matches": {
+      if (typeof left !== "string") return false;
+      if (typeof right !== "string" && !(right instanceof RegExp)) return false;
+      const regex = pattern(right);
+      // Global and sticky patterns resume from their last match
+      regex.lastIndex = 0;
+      return regex.test(left);
+    }
+  }
+}
+
+/**
+ * Maximum number of compiled patterns kept before the cache is reset
+ */
+const MAX_CACHED_PATTERNS = 1024;
+
+/**
+ * Compiled patterns of `matches` comparisons, by source and flags
+ */
+const patterns = new Map<string, RegExp>();
+
+/**
+ * Compiles the pattern of a `matches` comparison, once per source
+ *
+ * @throws Error if the pattern is not a valid regular expression
+ */
+function pattern(value: string | RegExp): RegExp {
+  const key = typeof value === "string"
+    ? `string:${value}`
+    : `regexp:${value.flags}:${value.source}`;
+  let compiled = patterns.get(key);
+  if (!compiled) {
+    compiled = new RegExp(value);
+    if (patterns.size >= MAX_CACHED_PATTERNS) patterns.clear();
+    patterns.set(key, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Checks whether two values are equal, dates being compared by time
+ */
+function same(left: unknown, right: unknown): boolean {
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() === right.getTime();
+  }
+  return left === right;
+}
+
+/**
+ * Orders two numbers, strings or dates of the same type
+ *
+ * @returns A negative number, zero or a positive number, undefined when the
+ * values cannot be ordered
+ */
+function ordering(left: unknown, right: unknown): number | undefined {
+  if (left instanceof Date && right instanceof Date) {
+    return left.getTime() - right.getTime();
+  }
+  if (typeof left === "number" && typeof right === "number") {
+    return Number.isNaN(left - right) ? undefined : left - right;
+  }
+  if (typeof left === "string" && typeof right === "string") {
+    return left < right ? -1 : left > right ? 1 : 0;
+  }
+  return undefined;
+}
+
+/**
+ * Describes an operand for error messages, paths being followed by their value
+ */
+function describe(operand: unknown, state: unknown, request: unknown): string {
+  const value = format(resolve(operand, state, request));
+  return typeof operand === "string" ? `${operand} (${value})` : value;
+}
+
+/**
+ * Formats a value for error messages
+ */
+function format(value: unknown): string {
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof RegExp || value === undefined) return String(value);
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Turns a comparison into a condition on the unknown request fields
+ *
+ * Only equality comparisons (`eq`, `neq`, `in`) can involve an unknown field,
+ * and only top-level request fields such as `request.owner`.
+ *
+ * @returns A literal when the comparison does not involve unknown fields
+ * @throws Error if the comparison involves unknown fields it cannot express
+ */
+function comparisonResidual(
+  [left, operator, right]: readonly [unknown, AttributeOperator, unknown],
+  state: unknown,
+  request: unknown,
+  unknowns: ReadonlySet<string>,
+): Condition {
+  const leftField = unknownField(left, unknowns);
+  const rightField = unknownField(right, unknowns);
+  if (leftField === undefined && rightField === undefined) {
+    return literal(
+      compare(
+        operator,
+        resolve(left, state, request),
+        resolve(right, state, request),
+      ),
+    );
+  }
+
+  // Comparisons reaching inside an unknown field cannot be expressed
+  if (leftField !== null && rightField !== null) {
+    if (operator === "eq" || operator === "neq") {
+      const condition = leftField && rightField
+        ? fieldEquals(leftField, rightField)
+        : leftField
+        ? equals(leftField, resolve(right, state, request))
+        : equals(rightField!, resolve(left, state, request));
+      return operator === "eq" ? condition : not(condition);
+    }
+    if (operator === "in" && leftField && rightField === undefined) {
+      const values = resolve(right, state, request);
+      return or(
+        ...(Array.isArray(values) ? values : []).map((value) =>
+          equals(leftField, value)
+        ),
+      );
+    }
+  }
+
+  throw new Error(
+    `Rule allowAttributes cannot be partially evaluated on ${
+      [left, operator, right]
+        .map((operand) =>
+          typeof operand === "string" ? operand : format(operand)
+        )
+        .join(" ")
+    }`,
+  );
+}
+
+/**
+ * Finds the unknown request field an operand refers to
+ *
+ * @returns The field name when the operand is an unknown top-level request
+ * field, `null` when it refers inside an unknown field, undefined otherwise
+ */
+function unknownField(
+  operand: unknown,
+  unknowns: ReadonlySet<string>,
+): string | null | undefined {
+  if (typeof operand !== "string") return undefined;
+  const [source, field, ...rest] = operand.split(".");
+  if (source !== "request" || !unknowns.has(field)) return undefined;
+  return rest.length === 0 ? field : null;
+}
@@ -24,12 +24,18 @@
  *
  * @returns A rule that validates ownership-based permissions
  */
+import { sameFields } from "../../core/partial.ts";
+import { FALSE } from "../../core/residual.ts";
 import { rule } from "../../core/rule.ts";
 import { owner } from "../../schemas/owner/owner.ts";
+import type { ValidationResultType } from "../../types/common.ts";
 import type { Rule } from "../../types/rule.ts";
 
-export function allowOwner(): Rule<[ReturnType<typeof owner>]> {
-  return rule(
+export function allowOwner(): Rule<
+  [ReturnType<typeof owner>],
+  ValidationResultType
+> {
+  const allowOwnerRule = rule(
     "allowOwner",
     [owner()],
     (_state, request) => {
@@ -41,4 +47,13 @@ export function allowOwner(): Rule<[ReturnType<typeof owner>]> {
       return "neutral";
     },
   );
+  // With unknown fields, the requester must be the owner
+  allowOwnerRule.partial = (_state, request, unknowns) => ({
+    granted: sameFields(request, unknowns, "from", "owner"),
+    rejected: FALSE,
+    blocked: FALSE,
+  });
+  allowOwnerRule.definition = { rule: "allowOwner" };
+  allowOwnerRule.outcomes = ["granted", "neutral"];
+  return allowOwnerRule;
 }
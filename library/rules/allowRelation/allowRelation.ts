@@ -0,0 +1,80 @@
+/**
+ * Rule that checks if the requester has a relation on the target.
+ *
+ * This rule passes when the tuple store, resolved through the relation model,
+ * proves that `request.from` has the given relation on `request.target`. Relations
+ * may come from stored tuples, group memberships, other relations of the object or
+ * relations of related objects (e.g. the editors of the parent folder).
+ *
+ * The rule uses the relation schema to enforce the correct structure for the request.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { allowRelation } from "@diister/quick-permission/rules/allowRelation";
+ * import { createTupleStore, permission } from "@diister/quick-permission";
+ *
+ * const store = createTupleStore();
+ *
+ * const readPermission = permission({
+ *   rules: [allowRelation("viewer", { model, store })],
+ * });
+ *
+ * // When validating:
+ * // If store proves target#viewer@from -> permission granted
+ * // Otherwise -> rule returns "neutral" (no opinion)
+ * ```
+ *
+ * @param relation The relation the requester must have on the target
+ * @param options The relation model and the tuple store
+ * @returns A rule that validates relationship-based permissions
+ */
+import { check } from "../../core/relation.ts";
+import { rule } from "../../core/rule.ts";
+import { relation as relationSchema } from "../../schemas/relation/relation.ts";
+import type { RelationModel, TupleStore } from "../../types/relation.ts";
+import type { ValidationResultType } from "../../types/common.ts";
+import type { Rule } from "../../types/rule.ts";
+
+export interface AllowRelationOptions {
+  /**
+   * Rewrites of the relations of each object type
+   * @default {} (relations only hold their stored tuples)
+   */
+  model?: RelationModel;
+
+  /** Store holding the relationship tuples */
+  store: TupleStore;
+}
+
+export function allowRelation(
+  relation: string,
+  options: AllowRelationOptions,
+): Rule<[ReturnType<typeof relationSchema>], ValidationResultType> {
+  const model = options.model ?? {};
+
+  const allowRelationRule = rule(
+    "allowRelation",
+    [relationSchema()],
+    (_state, request) => {
+      if (
+        check(model, options.store, request.target, relation, request.from)
+          .allowed
+      ) {
+        return "granted";
+      }
+
+      // Not handled by this validation
+      return "neutral";
+    },
+  );
+  // The model and the store are provided by the registry when loading
+  allowRelationRule.definition = {
+    rule: "allowRelation",
+    options: { relation },
+  };
+  // Tuples change outside the state sets
+  allowRelationRule.volatility = "volatile";
+  allowRelationRule.outcomes = ["granted", "neutral"];
+  return allowRelationRule;
+}
@@ -24,12 +24,18 @@
  *
  * @returns A rule that validates self-referential permissions
  */
+import { sameFields } from "../../core/partial.ts";
+import { FALSE } from "../../core/residual.ts";
 import { rule } from "../../core/rule.ts";
 import { target } from "../../schemas/target/target.ts";
+import type { ValidationResultType } from "../../types/common.ts";
 import type { Rule } from "../../types/rule.ts";
 
-export function allowSelf(): Rule<[ReturnType<typeof target>]> {
-  return rule(
+export function allowSelf(): Rule<
+  [ReturnType<typeof target>],
+  ValidationResultType
+> {
+  const allowSelfRule = rule(
     "allowSelf",
     [target()],
     (_state, request) => {
@@ -41,4 +47,13 @@ export function allowSelf(): Rule<[ReturnType<typeof target>]> {
       return "neutral";
     },
   );
+  // With unknown fields, the requester must be the target
+  allowSelfRule.partial = (_state, request, unknowns) => ({
+    granted: sameFields(request, unknowns, "from", "target"),
+    rejected: FALSE,
+    blocked: FALSE,
+  });
+  allowSelfRule.definition = { rule: "allowSelf" };
+  allowSelfRule.outcomes = ["granted", "neutral"];
+  return allowSelfRule;
 }
@@ -29,8 +29,11 @@
  * @param options Configuration options for target matching behavior
  * @returns A rule that validates target-based permissions
  */
+import { residualFromResult } from "../../core/partial.ts";
+import { equals, FALSE, like, or } from "../../core/residual.ts";
 import { rule } from "../../core/rule.ts";
 import { target } from "../../schemas/target/target.ts";
+import type { ValidationResultType } from "../../types/common.ts";
 import type { Rule } from "../../types/rule.ts";
 
 export interface AllowTargetOptions {
@@ -47,6 +50,16 @@ export interface AllowTargetOptions {
   wildcardChar?: string;
 }
 
+/**
+ * A rule created by `allowTarget`, exposing how it matches targets
+ */
+export type AllowTargetRule =
+  & Rule<[ReturnType<typeof target>], ValidationResultType>
+  & {
+    /** Wildcard character of the patterns, absent when wildcards are disabled */
+    wildcardChar?: string;
+  };
+
 /**
  * Creates a rule that validates target-based permissions
  *
@@ -55,11 +68,14 @@ export interface AllowTargetOptions {
  */
 export function allowTarget(
   options: AllowTargetOptions = {},
-): Rule<[ReturnType<typeof target>]> {
+): AllowTargetRule {
   const wildcards = options.wildcards ?? false;
   const wildcardChar = options.wildcardChar ?? "*";
 
-  return rule(
+  // Compiled patterns, shared by every evaluation of this rule
+  const matchers = new Map<string, RegExp>();
+
+  const allowTargetRule: AllowTargetRule = rule(
     "allowTarget",
     [target()],
     (state, request) => {
@@ -75,7 +91,7 @@ export function allowTarget(
       // Wildcard matching if enabled
       if (wildcards) {
         for (const pattern of state.target) {
-          if (matchWildcard(pattern, request.target, wildcardChar)) {
+          if (matchWildcard(pattern, request.target, wildcardChar, matchers)) {
             return "granted";
           }
         }
@@ -85,28 +101,66 @@ export function allowTarget(
       return "neutral";
     },
   );
+  if (wildcards) allowTargetRule.wildcardChar = wildcardChar;
+
+  // With an unknown target, the target must match one of the listed patterns
+  allowTargetRule.partial = (state, request, unknowns) => {
+    if (!unknowns.has("target")) {
+      return residualFromResult(allowTargetRule.check(state, request as any));
+    }
+    const patterns = (Array.isArray(state.target) ? state.target : [])
+      .filter((pattern: unknown) => typeof pattern === "string") as string[];
+    return {
+      granted: or(
+        ...patterns.map((pattern) =>
+          wildcards
+            ? like("target", pattern, wildcardChar)
+            : equals("target", pattern)
+        ),
+      ),
+      rejected: FALSE,
+      blocked: FALSE,
+    };
+  };
+  allowTargetRule.definition = Object.keys(options).length > 0
+    ? { rule: "allowTarget", options }
+    : { rule: "allowTarget" };
+  allowTargetRule.outcomes = ["granted", "neutral"];
+  return allowTargetRule;
 }
 
+/**
+ * Maximum number of compiled patterns kept by a rule before the cache is reset
+ */
+const MAX_CACHED_PATTERNS = 1024;
+
 /**
  * Match a string against a pattern with wildcard support
  *
  * @param pattern Pattern string potentially containing wildcards
  * @param value Value to match against the pattern
  * @param wildcardChar Character used as wildcard
+ * @param matchers Cache of the patterns already converted to regexes
  * @returns Boolean indicating if the value matches the pattern
  */
-function matchWildcard(
+export function matchWildcard(
   pattern: string,
   value: string,
   wildcardChar: string,
+  matchers: Map<string, RegExp>,
 ): boolean {
-  // Convert the pattern to a regex
-  const regexPattern = pattern
-    .split(wildcardChar)
-    .map((segment) => escapeRegExp(segment))
-    .join(".*");
+  let regex = matchers.get(pattern);
+  if (!regex) {
+    // Convert the pattern to a regex
+    const regexPattern = pattern
+      .split(wildcardChar)
+      .map((segment) => escapeRegExp(segment))
+      .join(".*");
 
-  const regex = new RegExp(`^${regexPattern}$`);
+    regex = new RegExp(`^${regexPattern}$`);
+    if (matchers.size >= MAX_CACHED_PATTERNS) matchers.clear();
+    matchers.set(pattern, regex);
+  }
   return regex.test(value);
 }
 
@@ -35,12 +35,18 @@
  *
  * @returns A rule that denies self-referential permissions
  */
+import { sameFields } from "../../core/partial.ts";
+import { FALSE } from "../../core/residual.ts";
 import { rule } from "../../core/rule.ts";
 import { target } from "../../schemas/target/target.ts";
+import type { ValidationResultType } from "../../types/common.ts";
 import type { Rule } from "../../types/rule.ts";
 
-export function denySelf(): Rule<[ReturnType<typeof target>]> {
-  return rule(
+export function denySelf(): Rule<
+  [ReturnType<typeof target>],
+  ValidationResultType
+> {
+  const denySelfRule = rule(
     "denySelf",
     [target()],
     (_state, request) => {
@@ -52,4 +58,13 @@ export function denySelf(): Rule<[ReturnType<typeof target>]> {
       return "neutral";
     },
   );
+  // With unknown fields, the requester must not be the target
+  denySelfRule.partial = (_state, request, unknowns) => ({
+    granted: FALSE,
+    rejected: sameFields(request, unknowns, "from", "target"),
+    blocked: FALSE,
+  });
+  denySelfRule.definition = { rule: "denySelf" };
+  denySelfRule.outcomes = ["rejected", "neutral"];
+  return denySelfRule;
 }
@@ -1,5 +1,6 @@
 import { rule } from "../../core/rule.ts";
 import { time } from "../../schemas/time/time.ts";
+import type { ValidationResultType } from "../../types/common.ts";
 import type { Rule } from "../../types/rule.ts";
 
 /**
@@ -14,8 +15,11 @@ import type { Rule } from "../../types/rule.ts";
  *
  * @returns A rule that validates time constraints
  */
-export function ensureTime(): Rule<[ReturnType<typeof time>]> {
-  return rule(
+export function ensureTime(): Rule<
+  [ReturnType<typeof time>],
+  ValidationResultType
+> {
+  const ensureTimeRule = rule(
     "ensureTime",
     [time()],
     (state, request) => {
@@ -32,4 +36,8 @@ export function ensureTime(): Rule<[ReturnType<typeof time>]> {
       return "neutral";
     },
   );
+  ensureTimeRule.definition = { rule: "ensureTime" };
+  ensureTimeRule.volatility = "timeWindow";
+  ensureTimeRule.outcomes = ["rejected", "neutral"];
+  return ensureTimeRule;
 }
@@ -0,0 +1,100 @@
+/**
+ * Rule that evaluates a condition written in the expression language.
+ *
+ * This rule lets conditions be written as text, for instance by administrators
+ * in a configuration screen, such as
+ * `request.amount <= state.limit && request.region in state.regions`. The
+ * expression is parsed once, when the rule is created, and never handed to
+ * `eval` (see `core/expression.ts` for the language).
+ *
+ * - Returns "granted" when the expression evaluates to `true`
+ * - Returns the `otherwise` result ("neutral" by default, or "rejected") when it
+ *   evaluates to `false`
+ * - Throws, counting as "rejected", when it evaluates to anything else or
+ *   cannot be evaluated (e.g. comparing a number with a string)
+ *
+ * The rule uses the attributes schema, the state and request types being given
+ * as type parameters.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { expr } from "@diister/quick-permission/rules/expr";
+ * import { permission } from "@diister/quick-permission";
+ *
+ * const approvePermission = permission({
+ *   rules: [
+ *     expr("request.amount <= state.limit && request.region in state.regions", {
+ *       otherwise: "rejected",
+ *     }),
+ *   ],
+ * });
+ * ```
+ *
+ * @param source The expression
+ * @param options The result of the rule when the expression is false
+ * @returns A rule evaluating the expression
+ * @throws Error if the expression has a syntax error
+ */
+import { compileExpression } from "../../core/expression.ts";
+import { residualFromResult } from "../../core/partial.ts";
+import { rule } from "../../core/rule.ts";
+import { attributes } from "../../schemas/attributes/attributes.ts";
+import type { Rule } from "../../types/rule.ts";
+import type { Schema } from "../../types/schema.ts";
+
+export interface ExprOptions {
+  /**
+   * Result of the rule when the expression evaluates to `false`
+   * @default "neutral"
+   */
+  otherwise?: "neutral" | "rejected";
+}
+
+export function expr<
+  S extends object = Record<string, unknown>,
+  R extends object = Record<string, unknown>,
+>(
+  source: string,
+  options: ExprOptions = {},
+): Rule<[Schema<NoInfer<S>, NoInfer<R>>]> {
+  const expression = compileExpression(source);
+  const otherwise = options.otherwise ?? "neutral";
+
+  const exprRule = rule("expr", [attributes<S, R>()], (state, request) => {
+    const value = expression.evaluate({ state, request });
+    if (value === true) return "granted";
+    if (value !== false) {
+      throw new Error(
+        `Expression "${source}" evaluated to ${
+          value === null ? "null" : typeof value
+        }, expected a boolean`,
+      );
+    }
+    if (otherwise === "neutral") return "neutral";
+    return {
+      result: "rejected",
+      reasons: [`Expression not satisfied: ${source}`],
+    };
+  });
+
+  // The expression cannot be turned into conditions on the fields it reads
+  exprRule.partial = (state, request, unknowns) => {
+    const missing = expression.requestFields.filter((field) =>
+      field === "*" ? unknowns.size > 0 : unknowns.has(field)
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Rule expr cannot be partially evaluated without ${
+          (missing.includes("*") ? [...unknowns] : missing).join(", ")
+        }`,
+      );
+    }
+    return residualFromResult(exprRule.check(state, request as R));
+  };
+  exprRule.definition = { rule: "expr", options: { source, ...options } };
+  // `now()` reads the current date, which no state entry bounds
+  if (expression.timeDependent) exprRule.volatility = "volatile";
+  exprRule.outcomes = ["granted", otherwise];
+  return exprRule;
+}
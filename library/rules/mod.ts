@@ -7,11 +7,14 @@
  *
  * ## Available Rules
  *
+ * - **allowAttributes**: Grants permission when every attribute comparison holds
  * - **allowOwner**: Grants permission when the requester is the resource owner
+ * - **allowRelation**: Grants permission when the requester has a relation on the target
  * - **allowSelf**: Grants permission when the requester and target are the same
  * - **allowTarget**: Grants permission based on target patterns
  * - **denySelf**: Denies permission when requester and target are the same
  * - **ensureTime**: Validates time-based permissions
+ * - **expr**: Grants permission when a condition written as an expression holds
  *
  * ## Rule Return Values
  *
@@ -40,8 +43,11 @@
  * @module rules
  */
 
+export { allowAttributes } from "./allowAttributes/allowAttributes.ts";
 export { allowOwner } from "./allowOwner/allowOwner.ts";
+export { allowRelation } from "./allowRelation/allowRelation.ts";
 export { allowSelf } from "./allowSelf/allowSelf.ts";
 export { allowTarget } from "./allowTarget/allowTarget.ts";
 export { denySelf } from "./denySelf/denySelf.ts";
 export { ensureTime } from "./ensureTime/ensureTime.ts";
+export { expr } from "./expr/expr.ts";
@@ -0,0 +1,75 @@
+/**
+ * Schema for attribute-based permission validation.
+ *
+ * This schema provides structure and type safety for attribute comparisons in
+ * permission rules. The state and request types are declared by the caller, the
+ * schema only ensures that both are objects. Paths into these types, such as
+ * `subject.department`, are derived from them with `AttributePath`.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { rule } from "@diister/quick-permission";
+ * import { attributes } from "@diister/quick-permission/schemas/attributes";
+ *
+ * type DocumentState = { classification: number };
+ * type ReaderRequest = { subject: { clearance: number } };
+ *
+ * const cleared = rule(
+ *   "cleared",
+ *   [attributes<DocumentState, ReaderRequest>()],
+ *   (state, request) => {
+ *     return request.subject.clearance >= state.classification
+ *       ? "granted"
+ *       : "rejected";
+ *   },
+ * );
+ * ```
+ *
+ * @returns An attributes schema definition
+ */
+import type { Schema } from "../../types/schema.ts";
+
+/**
+ * Dotted paths to the attributes of a type, such as `subject.department`
+ *
+ * Paths stop at arrays, dates and regular expressions, which are compared as a
+ * whole, and at a depth of five segments.
+ *
+ * @template T The type holding the attributes
+ */
+export type AttributePath<T, Depth extends unknown[] = []> =
+  Depth["length"] extends 5 ? never
+    : T extends readonly unknown[] | Date | RegExp ? never
+    : T extends object ? {
+        [K in keyof T & string]:
+          | K
+          | `${K}.${AttributePath<NonNullable<T[K]>, [...Depth, unknown]>}`;
+      }[keyof T & string]
+    : never;
+
+/**
+ * Creates an attributes schema for permission validation
+ *
+ * @template S The state type holding the resource attributes
+ * @template R The request type holding the subject and context attributes
+ * @returns A schema for attribute-based validation
+ */
+export function attributes<
+  S extends object = Record<string, unknown>,
+  R extends object = Record<string, unknown>,
+>(): Schema<S, R> {
+  return {
+    name: "attributes",
+    state(obj: unknown): obj is S {
+      return typeof obj === "object" && obj !== null;
+    },
+    request(obj: unknown): obj is R {
+      return typeof obj === "object" && obj !== null;
+    },
+    defaultState(): S {
+      // By default, no resource attribute is defined
+      return {} as S;
+    },
+  };
+}
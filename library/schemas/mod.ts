@@ -7,7 +7,9 @@
  *
  * ## Available Schemas
  *
+ * - **attributes**: Provides typed state and request attributes for comparisons
  * - **owner**: Provides ownership context for permission validation
+ * - **relation**: Provides subject and object for relationship checks
  * - **target**: Defines target patterns for permission checks
  * - **time**: Provides time-based constraints for permissions
  *
@@ -42,6 +44,8 @@
  * @module schemas
  */
 
+export { attributes } from "./attributes/attributes.ts";
 export { owner } from "./owner/owner.ts";
+export { relation } from "./relation/relation.ts";
 export { target } from "./target/target.ts";
 export { time } from "./time/time.ts";
@@ -0,0 +1,68 @@
+/**
+ * Schema for relationship-based permission validation.
+ *
+ * This schema provides structure and type safety for relation checks in permission
+ * rules. It ensures that a request contains both the subject making the request
+ * (`from`) and the object it acts on (`target`), the relation itself being looked
+ * up in a tuple store.
+ *
+ * No specific state structure is required, as relations are stored as tuples
+ * rather than in permission states.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { rule } from "@diister/quick-permission";
+ * import { relation } from "@diister/quick-permission/schemas/relation";
+ *
+ * const isEditor = rule("isEditor", [relation()], (_state, request) => {
+ *   return check(model, store, request.target, "editor", request.from).allowed
+ *     ? "granted"
+ *     : "neutral";
+ * });
+ *
+ * // Example request that uses relation schema
+ * const request = {
+ *   from: "user:123", // Subject making the request
+ *   target: "doc:456", // Object the subject acts on
+ * };
+ * ```
+ *
+ * @returns A relation schema definition
+ */
+import type { Schema } from "../../types/schema.ts";
+
+/**
+ * State type for relation schema
+ * No specific state structure is required
+ */
+export type RelationState = object;
+
+/**
+ * Request type for relation schema
+ * Requires both 'from' and 'target' properties as strings
+ */
+export type RelationRequest = {
+  from: string;
+  target: string;
+};
+
+/**
+ * Creates a relation schema for permission validation
+ *
+ * @returns A schema for relationship-based validation
+ */
+export function relation(): Schema<RelationState, RelationRequest> {
+  return {
+    name: "relation",
+    request(obj: unknown): obj is RelationRequest {
+      if (typeof obj !== "object" || !obj) return false;
+      if (typeof (obj as RelationRequest).from !== "string") return false;
+      if (typeof (obj as RelationRequest).target !== "string") return false;
+      return true;
+    },
+    defaultState(): RelationState {
+      return {};
+    },
+  };
+}
@@ -51,6 +51,7 @@
  *
  * @returns A time schema definition
  */
+import { dateCodec } from "../../core/codec.ts";
 import type { Schema } from "../../types/schema.ts";
 
 /**
@@ -96,5 +97,10 @@ export function time(): Schema<TimeState, TimeRequest> {
       // By default, no time limits are defined
       return {};
     },
+    codecs: {
+      // Dates are stored as ISO strings
+      dateStart: dateCodec,
+      dateEnd: dateCodec,
+    },
   };
 }
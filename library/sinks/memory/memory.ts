@@ -0,0 +1,61 @@
+/**
+ * Decision sink keeping the records in memory.
+ *
+ * Records are lost when the process exits: this sink suits tests, and
+ * dashboards showing the latest decisions. Beyond its limit, the oldest
+ * records are dropped.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { createMemorySink } from "@diister/quick-permission/sinks/memory";
+ * import { decisionLogger, validate } from "@diister/quick-permission";
+ *
+ * const sink = createMemorySink({ limit: 100 });
+ * validate(files, states, "files.read", request, {
+ *   events: decisionLogger(sink),
+ * });
+ * sink.records; // [{ key: "files.read", valid: true, ... }]
+ * ```
+ *
+ * @param options The maximum number of records kept
+ * @returns An empty decision sink
+ */
+import type { DecisionRecord, DecisionSink } from "../../types/audit.ts";
+
+export type MemorySinkOptions = {
+  /**
+   * Maximum number of records kept, the oldest being dropped
+   * @default Infinity
+   */
+  limit?: number;
+};
+
+/**
+ * Decision sink whose records can be read back
+ */
+export type MemorySink = DecisionSink & {
+  /** Written records, oldest first */
+  readonly records: DecisionRecord[];
+  /** Drops every record */
+  clear(): void;
+};
+
+export function createMemorySink(options: MemorySinkOptions = {}): MemorySink {
+  const limit = options.limit ?? Infinity;
+  const records: DecisionRecord[] = [];
+
+  return {
+    records,
+    write(record) {
+      records.push(record);
+      if (records.length > limit) records.shift();
+    },
+    flush() {
+      return Promise.resolve();
+    },
+    clear() {
+      records.length = 0;
+    },
+  };
+}
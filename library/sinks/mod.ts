@@ -0,0 +1,32 @@
+/**
+ * Quick Permission - Sinks Module
+ *
+ * This module exports the built-in decision sinks. A sink receives the records
+ * of a `decisionLogger`: the permission key, the redacted request, the result
+ * and the time spent on each decision.
+ *
+ * ## Available Sinks
+ *
+ * - **createMemorySink**: Keeps the latest records in memory
+ * - **createNdjsonFileSink**: Appends the records to a newline-delimited JSON file
+ *
+ * Other sinks implement the `DecisionSink` interface.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { decisionLogger, validate } from "@diister/quick-permission";
+ * import { createNdjsonFileSink } from "@diister/quick-permission/sinks";
+ *
+ * const sink = createNdjsonFileSink("./decisions.ndjson");
+ * const events = decisionLogger(sink, {
+ *   redact: { attributes: { "subject.ssn": "omit" } },
+ * });
+ * validate(files, states, "files.read", request, { events });
+ * ```
+ *
+ * @module sinks
+ */
+
+export { createMemorySink } from "./memory/memory.ts";
+export { createNdjsonFileSink } from "./ndjsonFile/ndjsonFile.ts";
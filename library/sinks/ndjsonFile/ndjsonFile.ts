@@ -0,0 +1,64 @@
+/**
+ * Decision sink appending the records to a newline-delimited JSON file.
+ *
+ * Each record is one JSON line, which log shippers and `jq` read as they come.
+ * Writes do not block the validations: records written while the file is being
+ * appended to are batched into the next append. `flush` waits for the pending
+ * records and reports the first append that failed.
+ *
+ * The sink needs the write permission on the file.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { createNdjsonFileSink } from "@diister/quick-permission/sinks/ndjsonFile";
+ * import { decisionLogger, validate } from "@diister/quick-permission";
+ *
+ * const sink = createNdjsonFileSink("./decisions.ndjson");
+ * validate(files, states, "files.read", request, {
+ *   events: decisionLogger(sink),
+ * });
+ * await sink.flush();
+ *
+ * // {"time":"2025-06-01T12:00:00.000Z","key":"files.read","request":{...},"valid":true,...}
+ * ```
+ *
+ * @param path Path of the file, created on the first write
+ * @returns A decision sink appending to the file
+ */
+import type { DecisionSink } from "../../types/audit.ts";
+
+export function createNdjsonFileSink(
+  path: string,
+): DecisionSink & { flush(): Promise<void> } {
+  // Lines waiting for the next append
+  let pending: string[] = [];
+  let appending: Promise<void> = Promise.resolve();
+  let failure: { error: unknown } | undefined;
+
+  const append = async () => {
+    const lines = pending;
+    pending = [];
+    await Deno.writeTextFile(path, lines.join(""), { append: true });
+  };
+
+  return {
+    write(record) {
+      pending.push(JSON.stringify(record) + "\n");
+      // Later lines join this batch until the append starts
+      if (pending.length === 1) {
+        appending = appending.then(append).catch((error) => {
+          failure ??= { error };
+        });
+      }
+    },
+    async flush() {
+      await appending;
+      if (failure) {
+        const { error } = failure;
+        failure = undefined;
+        throw error;
+      }
+    },
+  };
+}
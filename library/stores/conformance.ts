@@ -0,0 +1,240 @@
+/**
+ * Conformance suite for permission store adapters
+ *
+ * Registers `Deno.test` cases checking that an adapter behaves as the
+ * `PermissionStore` interface documents: entries compared by value, checked
+ * when granted, revoked one by one or by key, listed as copies and loaded as
+ * state sets `validate` accepts, dates included. The built-in adapters run it,
+ * third-party adapters should too.
+ *
+ * The tests assert with `@std/assert`, a declared dependency of the package
+ * loaded by this module only: keep it out of the other entry points.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * // test/redis_store.test.ts
+ * import { storeConformance } from "@diister/quick-permission/stores/conformance";
+ *
+ * storeConformance("redis store", {
+ *   create: (hierarchy) => createRedisStore(hierarchy, { prefix: "test" }),
+ *   dispose: () => redis.flushdb(),
+ * });
+ * ```
+ *
+ * @module conformance
+ */
+import { hierarchy } from "../core/hierarchy.ts";
+import { permission, validate } from "../core/permission.ts";
+import {
+  allowTarget,
+  type AllowTargetRule,
+} from "../rules/allowTarget/allowTarget.ts";
+import { ensureTime } from "../rules/ensureTime/ensureTime.ts";
+import type { Permission, PermissionHierarchy } from "../types/common.ts";
+import type { PermissionStore } from "../types/store.ts";
+import { assertEquals, assertRejects } from "@std/assert";
+
+/**
+ * Hierarchy the stores under test are created for
+ */
+export type ConformanceHierarchy = PermissionHierarchy<{
+  readonly files: {
+    readonly read: Permission<
+      undefined,
+      [AllowTargetRule, ReturnType<typeof ensureTime>],
+      undefined
+    >;
+    readonly write: Permission<undefined, [AllowTargetRule], undefined>;
+  };
+}>;
+
+const files: ConformanceHierarchy = hierarchy({
+  files: {
+    read: permission({ rules: [allowTarget(), ensureTime()] }),
+    write: permission({ rules: [allowTarget()] }),
+  },
+});
+
+/**
+ * Creates and disposes the stores under test
+ */
+export type StoreAdapter<S extends PermissionStore<ConformanceHierarchy>> = {
+  /** Creates an empty store, once per test */
+  create(hierarchy: ConformanceHierarchy): S | Promise<S>;
+  /** Releases a store at the end of its test */
+  dispose?(store: S): void | Promise<void>;
+};
+
+/**
+ * Registers the conformance tests of a store adapter
+ *
+ * @param name Name of the adapter, prefixing the test names
+ * @param adapter Creates and disposes the stores under test
+ */
+export function storeConformance<
+  S extends PermissionStore<ConformanceHierarchy>,
+>(
+  name: string,
+  adapter: StoreAdapter<S>,
+): void {
+  const test = (description: string, fn: (store: S) => Promise<void>) =>
+    Deno.test(`${name} - ${description}`, async () => {
+      const store = await adapter.create(files);
+      try {
+        await fn(store);
+      } finally {
+        await adapter.dispose?.(store);
+      }
+    });
+
+  test("should list granted entries by subject", async (store) => {
+    // Act
+    const first = await store.grant("alice", "files.read", { target: ["a"] });
+    const again = await store.grant("alice", "files.read", { target: ["a"] });
+    await store.grant("alice", "files.write", { target: ["b"] });
+    await store.grant("bob", "files.read", { target: ["c"] });
+
+    // Assert
+    assertEquals(first, true);
+    assertEquals(again, false);
+    assertEquals(await store.listBySubject("alice"), [
+      ["files.read", { target: ["a"] }],
+      ["files.write", { target: ["b"] }],
+    ]);
+    assertEquals(await store.listBySubject("carol"), []);
+  });
+
+  test("should compare entries by value", async (store) => {
+    // Act
+    await store.grant("alice", "files.*", { target: ["a"], effect: "deny" });
+    const reordered = await store.grant("alice", "files.*", {
+      effect: "deny",
+      target: ["a"],
+    });
+    const other = await store.grant("alice", "files.*", { target: ["a"] });
+
+    // Assert
+    assertEquals(reordered, false);
+    assertEquals(other, true);
+    assertEquals((await store.listBySubject("alice")).length, 2);
+  });
+
+  test("should list granted entries by key", async (store) => {
+    // Arrange
+    await store.grant("alice", "files.read", { target: ["a"] });
+    await store.grant("bob", "files.read", { target: ["b"] });
+    await store.grant("bob", "files.write", { target: ["b"] });
+    await store.grant("carol", "files.*", { target: ["c"] });
+
+    // Act
+    const grants = await store.listByKey("files.read");
+
+    // Assert
+    assertEquals(
+      grants.sort((a, b) => a.subject.localeCompare(b.subject)),
+      [
+        { subject: "alice", key: "files.read", state: { target: ["a"] } },
+        { subject: "bob", key: "files.read", state: { target: ["b"] } },
+      ],
+    );
+    assertEquals(await store.listByKey("files.*"), [
+      { subject: "carol", key: "files.*", state: { target: ["c"] } },
+    ]);
+  });
+
+  test("should revoke one entry or every entry of a key", async (store) => {
+    // Arrange
+    await store.grant("alice", "files.read", { target: ["a"] });
+    await store.grant("alice", "files.read", { target: ["b"] });
+    await store.grant("alice", "files.read", { target: ["c"] });
+    await store.grant("alice", "files.write", { target: ["a"] });
+
+    // Act
+    const one = await store.revoke("alice", "files.read", { target: ["b"] });
+    const missing = await store.revoke("alice", "files.read", {
+      target: ["z"],
+    });
+    const all = await store.revoke("alice", "files.read");
+    const unknown = await store.revoke("bob", "files.read");
+
+    // Assert
+    assertEquals([one, missing, all, unknown], [1, 0, 2, 0]);
+    assertEquals(await store.listBySubject("alice"), [
+      ["files.write", { target: ["a"] }],
+    ]);
+  });
+
+  test("should load state sets ready for validate", async (store) => {
+    // Arrange
+    await store.grant("alice", "files.read", { target: ["a"] });
+    await store.grant("alice", "files.read", { target: ["b"] });
+    await store.grant("eng", "files.write", { target: ["c"] });
+
+    // Act
+    const states = await store.loadStateSets(["alice", "eng", "nobody"]);
+
+    // Assert
+    assertEquals(states, [
+      { "files.read": [{ target: ["a"] }, { target: ["b"] }] },
+      { "files.write": { target: ["c"] } },
+      {},
+    ]);
+    assertEquals(
+      validate(files, states, "files.write", { from: "alice", target: "c" })
+        .valid,
+      true,
+    );
+  });
+
+  test("should keep dates", async (store) => {
+    // Arrange
+    const dateEnd = new Date("2099-12-31T23:59:59Z");
+    await store.grant("alice", "files.read", { target: ["a"], dateEnd });
+
+    // Act
+    const entries = await store.listBySubject("alice");
+    const [states] = await store.loadStateSets(["alice"]);
+
+    // Assert
+    assertEquals(entries, [["files.read", { target: ["a"], dateEnd }]]);
+    assertEquals(
+      validate(files, [states], "files.read", {
+        from: "alice",
+        target: "a",
+        date: new Date("2025-06-01T00:00:00Z"),
+      }).valid,
+      true,
+    );
+  });
+
+  test("should reject invalid entries", async (store) => {
+    // Act & Assert
+    await assertRejects(
+      () => store.grant("alice", "files.delete" as never, { target: ["a"] }),
+      Error,
+      "unknown permission key",
+    );
+    await assertRejects(
+      () => store.grant("alice", "files.read", { target: "a" } as never),
+      Error,
+      "invalid state for schema target",
+    );
+    assertEquals(await store.listBySubject("alice"), []);
+  });
+
+  test("should return copies of the stored entries", async (store) => {
+    // Arrange
+    const state = { target: ["a"] };
+    await store.grant("alice", "files.read", state);
+    state.target.push("b");
+
+    // Act
+    const [[, listed]] = await store.listBySubject("alice");
+    (listed as { target: string[] }).target.push("c");
+    const [[, again]] = await store.listBySubject("alice");
+
+    // Assert
+    assertEquals(again, { target: ["a"] });
+  });
+}
@@ -0,0 +1,222 @@
+/**
+ * Permission store keeping the granted entries in Deno KV.
+ *
+ * Each entry is stored under `[...prefix, "grants", subject, key, grantId]`,
+ * grant identifiers growing with time so that the entries of a key keep the
+ * order they were granted in. Two more keys are written with it, in the same
+ * atomic operation: `[...prefix, "keys", key, subject, grantId]` to list the
+ * entries of a key, and `[...prefix, "entries", subject, hash]`, the hash of
+ * the entry, so that an entry granted twice is stored once. Grants and revokes
+ * check the versionstamps they read, retrying when another writer got there
+ * first, and state sets are loaded with one prefix listing per subject.
+ *
+ * Entries ending at a date (the `dateEnd` of the time schema) expire with KV's
+ * `expireIn`: KV deletes them some time after that date, `ensureTime` already
+ * rejecting them in between.
+ *
+ * The store needs the `--unstable-kv` flag (or `"unstable": ["kv"]`).
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { createDenoKvStore } from "@diister/quick-permission/stores/denoKv";
+ *
+ * const kv = await Deno.openKv("./permissions.db");
+ * const store = createDenoKvStore(files, kv, { prefix: ["permissions"] });
+ *
+ * await store.grant("user:alice", "files.read", {
+ *   target: ["doc-1"],
+ *   dateEnd: new Date("2025-12-31"), // expires automatically
+ * });
+ * const states = await store.loadStateSets(["user:alice", "group:eng"]);
+ * ```
+ *
+ * @param hierarchy The permission hierarchy the entries belong to
+ * @param kv The KV database
+ * @param options The prefix of the keys of the store
+ * @returns A permission store backed by the database
+ */
+import { checkEntry, entryId } from "../../core/store.ts";
+import { convertFlatStatesToObject } from "../../core/validation.ts";
+import type {
+  FlatPermissionStateArray,
+  PermissionHierarchy,
+  PermissionStateTuple,
+} from "../../types/common.ts";
+import type { PermissionStore, StoredGrant } from "../../types/store.ts";
+
+export interface DenoKvStoreOptions {
+  /**
+   * Prefix of every key of the store, to share a database with other data
+   * @default []
+   */
+  prefix?: Deno.KvKey;
+}
+
+/**
+ * Value stored for a grant
+ */
+type StoredEntry = {
+  /** Hash of the entry, the last part of its `entries` key */
+  hash: string;
+  /** The state entry */
+  state: unknown;
+};
+
+// Maximum number of entries revoked by one atomic operation
+const REVOKE_BATCH = 100;
+
+export function createDenoKvStore<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  kv: Deno.Kv,
+  options: DenoKvStoreOptions = {},
+): PermissionStore<H> {
+  const prefix = options.prefix ?? [];
+  const grantKey = (
+    subject: string,
+    key: string,
+    grantId: string,
+  ) => [...prefix, "grants", subject, key, grantId];
+  const indexKey = (
+    subject: string,
+    key: string,
+    grantId: string,
+  ) => [...prefix, "keys", key, subject, grantId];
+  const entryKey = (
+    subject: string,
+    hash: string,
+  ) => [...prefix, "entries", subject, hash];
+
+  // Identifiers sort in the order grants are made, even within a millisecond
+  let lastTime = 0;
+  const nextGrantId = () => {
+    lastTime = Math.max(Date.now(), lastTime + 1);
+    return lastTime.toString(36).padStart(10, "0") +
+      crypto.randomUUID().slice(0, 8);
+  };
+
+  const hashEntry = async (entry: PermissionStateTuple<H>) => {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      new TextEncoder().encode(entryId(hierarchy, entry)),
+    );
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("");
+  };
+
+  // Deletes grants if none changed since they were listed
+  const deleteGrants = async (
+    subject: string,
+    grants: Deno.KvEntry<StoredEntry>[],
+  ): Promise<boolean> => {
+    const operation = kv.atomic();
+    for (const grant of grants) {
+      const [key, grantId] = grant.key.slice(-2) as [string, string];
+      operation
+        .check(grant)
+        .delete(grant.key)
+        .delete(indexKey(subject, key, grantId))
+        .delete(entryKey(subject, grant.value.hash));
+    }
+    return (await operation.commit()).ok;
+  };
+
+  const listSubject = async (
+    subject: string,
+  ): Promise<FlatPermissionStateArray<H>> => {
+    const entries: FlatPermissionStateArray<H> = [];
+    for await (
+      const grant of kv.list<StoredEntry>({
+        prefix: [...prefix, "grants", subject],
+      })
+    ) {
+      entries.push(
+        [grant.key.at(-2), grant.value.state] as PermissionStateTuple<H>,
+      );
+    }
+    return entries;
+  };
+
+  return {
+    async grant(subject, key, state) {
+      const entry = checkEntry(hierarchy, key, state);
+      const hash = await hashEntry(entry);
+      const dateEnd = (entry[1] as { dateEnd?: unknown }).dateEnd;
+      const expireIn = dateEnd instanceof Date
+        ? Math.max(dateEnd.getTime() - Date.now(), 1)
+        : undefined;
+
+      const grantId = nextGrantId();
+      const value: StoredEntry = { hash, state: entry[1] };
+      const result = await kv.atomic()
+        .check({ key: entryKey(subject, hash), versionstamp: null })
+        .set(entryKey(subject, hash), grantId, { expireIn })
+        .set(grantKey(subject, key, grantId), value, { expireIn })
+        .set(indexKey(subject, key, grantId), value, { expireIn })
+        .commit();
+      return result.ok;
+    },
+    async revoke(subject, key, state) {
+      if (state !== undefined) {
+        const hash = await hashEntry([key, state] as PermissionStateTuple<H>);
+        while (true) {
+          const entry = await kv.get<string>(entryKey(subject, hash));
+          if (entry.value === null) return 0;
+          const grant = await kv.get<StoredEntry>(
+            grantKey(subject, key, entry.value),
+          );
+          if (grant.value === null) return 0;
+          const result = await kv.atomic()
+            .check(entry)
+            .check(grant)
+            .delete(entry.key)
+            .delete(grant.key)
+            .delete(indexKey(subject, key, entry.value))
+            .commit();
+          if (result.ok) return 1;
+        }
+      }
+
+      let removed = 0;
+      while (true) {
+        const grants: Deno.KvEntry<StoredEntry>[] = [];
+        for await (
+          const grant of kv.list<StoredEntry>(
+            { prefix: [...prefix, "grants", subject, key] },
+            { limit: REVOKE_BATCH },
+          )
+        ) {
+          grants.push(grant);
+        }
+        if (grants.length === 0) return removed;
+        if (await deleteGrants(subject, grants)) removed += grants.length;
+      }
+    },
+    listBySubject(subject) {
+      return listSubject(subject);
+    },
+    async listByKey(key) {
+      const grants: StoredGrant<H>[] = [];
+      for await (
+        const grant of kv.list<StoredEntry>({
+          prefix: [...prefix, "keys", key],
+        })
+      ) {
+        grants.push({
+          subject: grant.key.at(-2) as string,
+          key,
+          state: grant.value.state as StoredGrant<H>["state"],
+        });
+      }
+      return grants;
+    },
+    async loadStateSets(subjects) {
+      return await Promise.all(
+        subjects.map(async (subject) =>
+          convertFlatStatesToObject<H>(await listSubject(subject))
+        ),
+      );
+    },
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Permission store keeping the granted entries in a JSON file.
+ *
+ * The file maps each subject to its entries as `[key, state]` tuples, encoded
+ * with the state set codec so that dates survive. Every operation reads the
+ * file, and operations that change it write a temporary file next to it then
+ * rename it over the store: readers, including other processes, see either the
+ * previous content or the new one, never a partial write. Operations of one
+ * store run one at a time; several processes writing the same file may still
+ * lose each other's changes.
+ *
+ * The store needs the read and write permissions on the directory of the file.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { createJsonFileStore } from "@diister/quick-permission/stores/jsonFile";
+ *
+ * const store = createJsonFileStore(files, "./permissions.json");
+ * await store.grant("user:alice", "files.read", {
+ *   target: ["doc-1"],
+ *   dateEnd: new Date("2025-12-31"),
+ * });
+ *
+ * // {
+ * //   "subjects": {
+ * //     "user:alice": [
+ * //       ["files.read", { "target": ["doc-1"], "dateEnd": "2025-12-31T00:00:00.000Z" }]
+ * //     ]
+ * //   }
+ * // }
+ * ```
+ *
+ * @param hierarchy The permission hierarchy the entries belong to
+ * @param path Path of the JSON file, created on the first grant
+ * @returns A permission store backed by the file
+ */
+import {
+  decodeFlatStateArray,
+  encodeFlatStateArray,
+} from "../../core/codec.ts";
+import { addEntry, removeEntries } from "../../core/store.ts";
+import { convertFlatStatesToObject } from "../../core/validation.ts";
+import type {
+  FlatPermissionStateArray,
+  PermissionHierarchy,
+} from "../../types/common.ts";
+import type { PermissionStore } from "../../types/store.ts";
+
+export function createJsonFileStore<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+  path: string,
+): PermissionStore<H> {
+  type Grants = Map<string, FlatPermissionStateArray<H>>;
+
+  // Operations run one at a time, none reads the file while another writes it
+  let queue: Promise<unknown> = Promise.resolve();
+  const run = <T>(operation: () => Promise<T>): Promise<T> => {
+    const result = queue.then(operation);
+    queue = result.catch(() => {});
+    return result;
+  };
+
+  const read = async (): Promise<Grants> => {
+    let text: string;
+    try {
+      text = await Deno.readTextFile(path);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return new Map();
+      throw error;
+    }
+
+    const data = JSON.parse(text);
+    if (
+      typeof data !== "object" || data === null ||
+      typeof data.subjects !== "object" || data.subjects === null
+    ) {
+      throw new Error(`Invalid permission store file "${path}"`);
+    }
+    return new Map(
+      Object.entries(data.subjects).map(([subject, entries]) => [
+        subject,
+        decodeFlatStateArray(hierarchy, entries as unknown[]),
+      ]),
+    );
+  };
+
+  const write = async (grants: Grants): Promise<void> => {
+    const subjects = Object.fromEntries(
+      [...grants].map(([subject, entries]) => [
+        subject,
+        encodeFlatStateArray(hierarchy, entries),
+      ]),
+    );
+    const temporary = `${path}.${crypto.randomUUID()}.tmp`;
+    try {
+      await Deno.writeTextFile(
+        temporary,
+        JSON.stringify({ subjects }, null, 2) + "\n",
+      );
+      await Deno.rename(temporary, path);
+    } catch (error) {
+      await Deno.remove(temporary).catch(() => {});
+      throw error;
+    }
+  };
+
+  return {
+    grant(subject, key, state) {
+      return run(async () => {
+        const grants = await read();
+        const entries = grants.get(subject) ?? [];
+        if (!addEntry(hierarchy, entries, key, state)) return false;
+        grants.set(subject, entries);
+        await write(grants);
+        return true;
+      });
+    },
+    revoke(subject, key, state) {
+      return run(async () => {
+        const grants = await read();
+        const entries = grants.get(subject);
+        if (!entries) return 0;
+        const removed = removeEntries(hierarchy, entries, key, state);
+        if (removed === 0) return 0;
+        if (entries.length === 0) grants.delete(subject);
+        await write(grants);
+        return removed;
+      });
+    },
+    listBySubject(subject) {
+      return run(async () => (await read()).get(subject) ?? []);
+    },
+    listByKey(key) {
+      return run(async () =>
+        [...await read()].flatMap(([subject, entries]) =>
+          entries
+            .filter(([entryKey]) => entryKey === key)
+            .map(([key, state]) => ({ subject, key, state }))
+        )
+      );
+    },
+    loadStateSets(subjects) {
+      return run(async () => {
+        const grants = await read();
+        return subjects.map((subject) =>
+          convertFlatStatesToObject<H>(grants.get(subject) ?? [])
+        );
+      });
+    },
+  };
+}
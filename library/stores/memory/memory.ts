@@ -0,0 +1,86 @@
+/**
+ * Permission store keeping the granted entries in memory.
+ *
+ * Entries are lost when the process exits: this store suits tests, prototypes
+ * and entries loaded from elsewhere at startup.
+ *
+ * ## Usage Example
+ *
+ * ```typescript
+ * import { createMemoryStore } from "@diister/quick-permission/stores/memory";
+ * import { validate } from "@diister/quick-permission";
+ *
+ * const store = createMemoryStore(files);
+ * await store.grant("user:alice", "files.read", { target: ["doc-1"] });
+ *
+ * const states = await store.loadStateSets(["user:alice", "group:eng"]);
+ * validate(files, states, "files.read", { from: "user:alice", target: "doc-1" });
+ * ```
+ *
+ * @param hierarchy The permission hierarchy the entries belong to
+ * @returns An empty permission store
+ */
+import { convertFlatStatesToObject } from "../../core/validation.ts";
+import { addEntry, removeEntries } from "../../core/store.ts";
+import type {
+  FlatPermissionStateArray,
+  PermissionHierarchy,
+} from "../../types/common.ts";
+import type { PermissionStore } from "../../types/store.ts";
+
+export function createMemoryStore<H extends PermissionHierarchy<any>>(
+  hierarchy: H,
+): PermissionStore<H> {
+  // Entries of each subject
+  const grants = new Map<string, FlatPermissionStateArray<H>>();
+
+  const entriesOf = (subject: string) =>
+    structuredClone(grants.get(subject) ?? []);
+
+  // Runs a synchronous operation, its errors rejecting the returned promise
+  const settle = <T>(operation: () => T) =>
+    new Promise<T>((resolve) => resolve(operation()));
+
+  return {
+    grant(subject, key, state) {
+      return settle(() => {
+        const entries = grants.get(subject) ?? [];
+        const added = addEntry(hierarchy, entries, key, state);
+        grants.set(subject, entries);
+        return added;
+      });
+    },
+    revoke(subject, key, state) {
+      return settle(() => {
+        const entries = grants.get(subject);
+        if (!entries) return 0;
+        const removed = removeEntries(hierarchy, entries, key, state);
+        if (entries.length === 0) grants.delete(subject);
+        return removed;
+      });
+    },
+    listBySubject(subject) {
+      return Promise.resolve(entriesOf(subject));
+    },
+    listByKey(key) {
+      return Promise.resolve(
+        [...grants].flatMap(([subject, entries]) =>
+          entries
+            .filter(([entryKey]) => entryKey === key)
+            .map(([key, state]) => ({
+              subject,
+              key,
+              state: structuredClone(state),
+            }))
+        ),
+      );
+    },
+    loadStateSets(subjects) {
+      return Promise.resolve(
+        subjects.map((subject) =>
+          convertFlatStatesToObject<H>(entriesOf(subject))
+        ),
+      );
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Quick Permission - Stores Module
+ *
+ * This module exports the built-in permission store adapters. A store keeps the
+ * state entries granted to each subject and loads them as the state sets
+ * `validate` expects, so that applications do not need their own loading code.
+ *
+ * ## Available Stores
+ *
+ * - **createMemoryStore**: Keeps the entries in memory
+ * - **createDenoKvStore**: Keeps the entries in Deno KV, expiring time-limited ones
+ * - **createJsonFileStore**: Keeps the entries in a JSON file, written atomically
+ *
+ * Other adapters implement the `PermissionStore` interface and can check their
+ * behavior with the conformance suite of `stores/conformance.ts`.
+ *
+ * ## Example Usage
+ *
+ * ```typescript
+ * import { validate } from "@diister/quick-permission";
+ * import { createJsonFileStore } from "@diister/quick-permission/stores";
+ *
+ * const store = createJsonFileStore(files, "./permissions.json");
+ * await store.grant("user:alice", "files.read", { target: ["doc-1"] });
+ * await store.grant("group:eng", "files.*", { target: ["*"] });
+ *
+ * const states = await store.loadStateSets(["user:alice", "group:eng"]);
+ * validate(files, states, "files.read", { from: "user:alice", target: "doc-1" });
+ * ```
+ *
+ * @module stores
+ */
+
+export { createDenoKvStore } from "./denoKv/denoKv.ts";
+export { createJsonFileStore } from "./jsonFile/jsonFile.ts";
+export { createMemoryStore } from "./memory/memory.ts";
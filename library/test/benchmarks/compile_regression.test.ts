@@ -0,0 +1,84 @@
+/**
+ * Performance regression threshold of compiled validators
+ *
+ * Compares a compiled validator with the standalone `validate` on a deep
+ * hierarchy, so that the gain of `compile` cannot silently vanish. Both are
+ * timed in the same process and only their ratio is checked, which keeps the
+ * test independent of the speed of the machine.
+ *
+ * Run with: deno test library/test/benchmarks/compile_regression.test.ts
+ */
+import { compile } from "../../core/compile.ts";
+import { hierarchy, permission, validate } from "../../core/permission.ts";
+import { allowOwner } from "../../rules/allowOwner/allowOwner.ts";
+import { allowTarget } from "../../rules/allowTarget/allowTarget.ts";
+import { assert } from "jsr:@std/assert";
+
+/** Minimal speedup of compiled validators on the deep hierarchy */
+const MIN_SPEEDUP = 4;
+
+const ITERATIONS = 1000;
+const ROUNDS = 5;
+
+function createHierarchyWithDepth(depth: number) {
+  const root: Record<string, any> = {};
+  let current = root;
+
+  for (let i = 0; i < depth; i++) {
+    current["level" + i] = permission({
+      rules: [allowTarget({ wildcards: true })],
+      children: {},
+    });
+    current = current["level" + i].children;
+  }
+
+  current["leaf"] = permission({
+    rules: [allowOwner()],
+  });
+
+  return hierarchy(root);
+}
+
+/**
+ * Median duration of a round of iterations, after a warm-up round
+ */
+function measure(run: () => void): number {
+  for (let i = 0; i < ITERATIONS; i++) run();
+  const durations: number[] = [];
+  for (let round = 0; round < ROUNDS; round++) {
+    const start = performance.now();
+    for (let i = 0; i < ITERATIONS; i++) run();
+    durations.push(performance.now() - start);
+  }
+  return durations.sort((a, b) => a - b)[Math.floor(ROUNDS / 2)];
+}
+
+Deno.test("compile - should validate deep hierarchies faster than validate", () => {
+  // Arrange
+  const deepHierarchy = createHierarchyWithDepth(10);
+  const compiled = compile(deepHierarchy);
+  const key =
+    "level0.level1.level2.level3.level4.level5.level6.level7.level8.level9.leaf";
+  const request = {
+    from: "user:123",
+    target: "resource:article",
+    owner: "user:123",
+  };
+
+  // Act
+  const standalone = measure(() => {
+    validate(deepHierarchy, [{}], key, request as never);
+  });
+  const precompiled = measure(() => {
+    compiled.validate([{}], key, request as never);
+  });
+
+  // Assert
+  const speedup = standalone / precompiled;
+  assert(
+    speedup >= MIN_SPEEDUP,
+    `Compiled validation is ${
+      speedup.toFixed(1)
+    }x faster than validate, expected at least ${MIN_SPEEDUP}x`,
+  );
+});
@@ -5,6 +5,7 @@
  */
 
 import { hierarchy, permission, validate } from "../../core/permission.ts";
+import { compile } from "../../core/compile.ts";
 import { allowSelf } from "../../rules/allowSelf/allowSelf.ts";
 import { allowOwner } from "../../rules/allowOwner/allowOwner.ts";
 import { allowTarget } from "../../rules/allowTarget/allowTarget.ts";
@@ -107,6 +108,9 @@ const mediumHierarchy = hierarchy({
 
 const deepHierarchy = createHierarchyWithDepth(10);
 const wideHierarchy = createWideHierarchy(100);
+const compiledMedium = compile(mediumHierarchy);
+const compiledDeep = compile(deepHierarchy);
+const compiledWide = compile(wideHierarchy);
 
 // Create complex rules for testing
 const complexRules = permission({
@@ -292,3 +296,38 @@ Deno.bench("validation - repeated validation different permissions", () => {
     validate(mediumHierarchy, mediumStates, perm as any, complexRequest);
   }
 });
+
+// Benchmarks comparing compiled validators with the standard validation
+Deno.bench(
+  "compiled validation - medium hierarchy with complete states",
+  () => {
+    compiledMedium.validate(mediumStates, "user.profile.edit", complexRequest);
+  },
+);
+
+Deno.bench("compiled validation - deep hierarchy", () => {
+  compiledDeep.validate(
+    [{}],
+    "level0.level1.level2.level3.level4.level5.level6.level7.level8.level9.leaf",
+    complexRequest as never,
+  );
+});
+
+Deno.bench("compiled validation - wide hierarchy", () => {
+  compiledWide.validate([{}], "root.branch50.leaf", complexRequest as never);
+});
+
+Deno.bench(
+  "compiled validation - repeated validation different permissions",
+  () => {
+    const permissions = [
+      "user.profile.view",
+      "user.profile.edit",
+      "user.content.view",
+      "user.content.edit",
+    ];
+    for (const perm of permissions) {
+      compiledMedium.validate(mediumStates, perm as any, complexRequest);
+    }
+  },
+);
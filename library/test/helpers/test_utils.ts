@@ -2,24 +2,13 @@
  * Helper functions and fixtures for permission tests
  */
 import { PermissionStateSet, ValidationResult } from "../../types/common.ts";
-import {
-  bgBlue,
-  bgGreen,
-  bgRed,
-  blue,
-  bold,
-  cyan,
-  green,
-  magenta,
-  red,
-  white,
-  yellow,
-} from "https://deno.land/std/fmt/colors.ts";
+import { bgBlue, bold, white } from "https://deno.land/std/fmt/colors.ts";
 import {
   assertEquals,
   assertStrictEquals,
 } from "https://deno.land/std/assert/mod.ts";
 import { hierarchy, permission } from "../../core/permission.ts";
+import { formatValidationResult } from "../../cli/format.ts";
 
 /**
  * Prints the validation results with colored output for better readability
@@ -27,33 +16,7 @@ import { hierarchy, permission } from "../../core/permission.ts";
  * @param result The validation result to display
  */
 export function printValidationResults(result: ValidationResult): void {
-  console.log(bold("\n======= Validation Results ======="));
-
-  // Show validation result
-  const validationStatus = result.valid === true
-    ? bgGreen(white(" VALID "))
-    : bgRed(white(" INVALID "));
-  console.log(`Validation status: ${validationStatus}`);
-
-  // Display reasons if any
-  if (result.reasons.length > 0) {
-    console.log(bold(red("\nValidation reasons:")));
-    result.reasons.forEach((reason, index) => {
-      console.log(`\n${bgRed(white(` Reason #${index + 1} `))}:`);
-      console.log(`- ${bold("Type")}: ${cyan(reason.type)}`);
-      console.log(`- ${bold("Name")}: ${blue(reason.name)}`);
-      console.log(`- ${bold("Message")}: ${red(reason.message)}`);
-      if (reason.stateIndex !== undefined) {
-        console.log(
-          `- ${bold("State index")}: ${yellow(reason.stateIndex.toString())}`,
-        );
-      }
-    });
-  } else {
-    console.log(`\n${bgGreen(white(" No validation issues "))} ✓`);
-  }
-
-  console.log(bold("==================================\n"));
+  console.log(formatValidationResult(result));
 }
 
 /**
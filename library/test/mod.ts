@@ -21,7 +21,7 @@ import {
   red,
   white,
   yellow,
-} from "https://deno.land/std/fmt/colors.ts";
+} from "@std/fmt/colors";
 
 const rules = merge([allowTarget({ wildcards: true }), ensureTime()]);
 
@@ -0,0 +1,227 @@
+/**
+ * Tests for the command-line tool
+ *
+ * runCli() checks, explains, lists and lints policies loaded from files, and
+ * reports the outcome with its exit code.
+ */
+import { runCli } from "../../../cli/cli.ts";
+import { dumpHierarchy } from "../../../core/policy.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import { or } from "../../../operators/operations.ts";
+import { allowOwner } from "../../../rules/allowOwner/allowOwner.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: {
+    read: permission({ rules: [allowTarget(), ensureTime()] }),
+    write: permission({ rules: [or([allowTarget(), allowOwner()])] }),
+    archive: permission({ rules: [] }),
+  },
+});
+
+/**
+ * Writes the policy and the states to a temporary directory
+ */
+async function setup(states: unknown) {
+  const dir = await Deno.makeTempDir();
+  const policy = `${dir}/policy.json`;
+  const statesPath = `${dir}/states.json`;
+  await Deno.writeTextFile(policy, JSON.stringify(dumpHierarchy(files)));
+  await Deno.writeTextFile(statesPath, JSON.stringify(states));
+  return { dir, policy, states: statesPath };
+}
+
+/**
+ * Runs the tool, capturing its output
+ */
+async function run(args: string[]) {
+  const logs: string[] = [];
+  const errors: string[] = [];
+  const code = await runCli(args, {
+    log: (text) => logs.push(text),
+    error: (text) => errors.push(text),
+  });
+  return { code, stdout: logs.join("\n"), stderr: errors.join("\n") };
+}
+
+Deno.test("cli - should exit with 0 when granted and 1 when denied", async () => {
+  // Arrange
+  const paths = await setup([
+    { "files.read": { target: ["doc-1"], dateEnd: "2025-01-01T00:00:00Z" } },
+  ]);
+
+  try {
+    // Act
+    const granted = await run([
+      "check",
+      paths.policy,
+      paths.states,
+      "files.read",
+      '{"from":"alice","target":"doc-1","date":"2024-06-01T00:00:00Z"}',
+      "--json",
+    ]);
+    const expired = await run([
+      "check",
+      paths.policy,
+      paths.states,
+      "files.read",
+      '{"from":"alice","target":"doc-1","date":"2025-06-01T00:00:00Z"}',
+      "--json",
+    ]);
+    await Deno.writeTextFile(
+      `${paths.dir}/request.json`,
+      '{"from":"alice","target":"doc-2"}',
+    );
+    const fromFile = await run([
+      "check",
+      paths.policy,
+      paths.states,
+      "files.read",
+      `@${paths.dir}/request.json`,
+    ]);
+
+    // Assert
+    assertEquals(granted.code, 0);
+    assertEquals(JSON.parse(granted.stdout).valid, true);
+    assertEquals(expired.code, 1);
+    assertEquals(JSON.parse(expired.stdout).valid, false);
+    assertEquals(fromFile.code, 1);
+    assertStringIncludes(fromFile.stdout, "INVALID");
+  } finally {
+    await Deno.remove(paths.dir, { recursive: true });
+  }
+});
+
+Deno.test("cli - should print the decision trace with explain", async () => {
+  // Arrange
+  const paths = await setup({ "files.write": { target: ["doc-1"] } });
+
+  try {
+    // Act
+    const json = await run([
+      "explain",
+      paths.policy,
+      paths.states,
+      "files.write",
+      '{"from":"alice","target":"doc-1","owner":"bob"}',
+      "--json",
+    ]);
+    const text = await run([
+      "explain",
+      paths.policy,
+      paths.states,
+      "files.write",
+      '{"from":"alice","target":"doc-1","owner":"bob"}',
+    ]);
+
+    // Assert
+    assertEquals(json.code, 0);
+    assertEquals(JSON.parse(json.stdout).trace.key, "files.write");
+    assertStringIncludes(text.stdout, "Trace of files.write");
+    assertStringIncludes(text.stdout, "rule or");
+  } finally {
+    await Deno.remove(paths.dir, { recursive: true });
+  }
+});
+
+Deno.test("cli - should list keys with their schemas and rules", async () => {
+  // Arrange
+  const paths = await setup({});
+
+  try {
+    // Act
+    const { code, stdout } = await run(["keys", paths.policy, "--json"]);
+
+    // Assert
+    assertEquals(code, 0);
+    const keys = JSON.parse(stdout);
+    const write = keys.find((key: { key: string }) =>
+      key.key === "files.write"
+    );
+    assertEquals(
+      keys.map((key: { key: string }) => key.key).sort(),
+      ["files.archive", "files.read", "files.write"],
+    );
+    assertEquals(write.rules, ["or(allowTarget, allowOwner)"]);
+    assertEquals(write.inherit, true);
+  } finally {
+    await Deno.remove(paths.dir, { recursive: true });
+  }
+});
+
+Deno.test("cli - should lint the hierarchy and the state file", async () => {
+  // Arrange
+  const paths = await setup({
+    "files.read": { target: "doc-1" },
+    "files.unknown": {},
+  });
+
+  try {
+    // Act
+    const hierarchyOnly = await run(["lint", paths.policy, "--json"]);
+    const withStates = await run(["lint", paths.policy, paths.states]);
+
+    // Assert
+    assertEquals(hierarchyOnly.code, 0);
+    assertEquals(JSON.parse(hierarchyOnly.stdout), [{
+      rule: "no-empty-permission",
+      severity: "warning",
+      key: "files.archive",
+      message: "Permission has no rules, it can never be granted",
+    }]);
+    assertEquals(withStates.code, 1);
+    assertStringIncludes(withStates.stdout, "files.unknown");
+    assertStringIncludes(
+      withStates.stdout,
+      '"files.read".target: invalid state for schema target',
+    );
+    assertStringIncludes(withStates.stdout, "error(s)");
+  } finally {
+    await Deno.remove(paths.dir, { recursive: true });
+  }
+});
+
+Deno.test("cli - should exit with 2 for invalid arguments and files", async () => {
+  // Arrange
+  const paths = await setup({});
+
+  try {
+    // Act
+    const noCommand = await run([]);
+    const unknownOption = await run(["keys", paths.policy, "--verbose"]);
+    const missingArgument = await run(["check", paths.policy]);
+    const missingFile = await run(["keys", `${paths.dir}/missing.json`]);
+    const unknownKey = await run([
+      "check",
+      paths.policy,
+      paths.states,
+      "files.delete",
+      "{}",
+    ]);
+    const inheritedKey = await run([
+      "check",
+      paths.policy,
+      paths.states,
+      "constructor",
+      "{}",
+    ]);
+
+    // Assert
+    assertEquals(noCommand.code, 2);
+    assertStringIncludes(noCommand.stderr, "Usage:");
+    assertEquals(unknownOption.code, 2);
+    assertEquals(missingArgument.code, 2);
+    assertEquals(missingFile.code, 2);
+    assertEquals(unknownKey.code, 2);
+    assertStringIncludes(
+      unknownKey.stderr,
+      'Unknown permission key "files.delete"',
+    );
+    assertEquals(inheritedKey.code, 2);
+  } finally {
+    await Deno.remove(paths.dir, { recursive: true });
+  }
+});
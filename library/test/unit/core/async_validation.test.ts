@@ -0,0 +1,321 @@
+/**
+ * Tests for asynchronous validation functionality
+ */
+import { validate, validateAsync } from "../../../core/validation.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import { asyncRule, isAsyncRule, rule } from "../../../core/rule.ts";
+import { and } from "../../../operators/operations.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import {
+  assertValidationFailure,
+  assertValidationSuccess,
+} from "../../helpers/test_utils.ts";
+import { VALIDATION_RESULT } from "../../../types/common.ts";
+
+// Mock schema that always validates successfully
+const validSchema = {
+  name: "validSchema",
+  state: (_obj: unknown): _obj is unknown => true,
+  request: (_obj: unknown): _obj is unknown => true,
+};
+
+// Resolves after the given delay unless the signal is aborted
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+const asyncAllowRule = asyncRule("asyncAllowRule", [validSchema], async () => {
+  await delay(1);
+  return VALIDATION_RESULT.GRANTED;
+});
+
+const asyncDenyRule = asyncRule("asyncDenyRule", [validSchema], async () => {
+  await delay(1);
+  return VALIDATION_RESULT.REJECTED;
+});
+
+Deno.test("asyncRule - should create a rule flagged as asynchronous", () => {
+  // Assert
+  assertEquals(asyncAllowRule.name, "asyncAllowRule");
+  assertEquals(asyncAllowRule.async, true);
+  assertEquals(isAsyncRule(asyncAllowRule), true);
+  assertEquals(
+    isAsyncRule(rule("syncRule", [], () => VALIDATION_RESULT.GRANTED)),
+    false,
+  );
+});
+
+Deno.test("validateAsync - should grant with asynchronous rules", async () => {
+  // Arrange
+  const testPermissions = hierarchy({
+    resource: permission({
+      rules: [asyncAllowRule],
+    }),
+  });
+
+  // Act
+  const result = await validateAsync(
+    testPermissions,
+    [{ resource: {} }] as any,
+    "resource",
+    {} as never,
+  );
+
+  // Assert
+  assertValidationSuccess(result);
+  assertEquals(result.resultType, VALIDATION_RESULT.GRANTED);
+});
+
+Deno.test("validateAsync - should report rejected asynchronous rules", async () => {
+  // Arrange
+  const testPermissions = hierarchy({
+    resource: permission({
+      rules: [asyncAllowRule, asyncDenyRule],
+    }),
+  });
+
+  // Act
+  const result = await validateAsync(
+    testPermissions,
+    [{ resource: {} }] as any,
+    "resource",
+    {} as never,
+  );
+
+  // Assert
+  assertValidationFailure(result, ["rule"], ["asyncDenyRule"]);
+  assertEquals(result.reasons[0].message, "Rule not satisfied: asyncDenyRule");
+  assertEquals(result.reasons[0].stateIndex, 0);
+});
+
+Deno.test("validateAsync - should produce the same results as validate for synchronous rules", async () => {
+  // Arrange
+  const testPermissions = hierarchy({
+    files: permission({
+      rules: [allowTarget({ wildcards: true })],
+      children: {
+        read: permission({
+          rules: [allowTarget()],
+        }),
+      },
+    }),
+  });
+  const states = [
+    { "files.read": { target: ["file:a"] } },
+    { "files": { target: ["file:*"] } },
+  ];
+  const requests = [
+    { from: "user:1", target: "file:a" },
+    { from: "user:1", target: "file:b" },
+    { from: "user:1", target: 42 },
+  ];
+
+  for (const request of requests) {
+    // Act
+    const expected = validate(
+      testPermissions,
+      states,
+      "files.read",
+      request as any,
+    );
+    const actual = await validateAsync(
+      testPermissions,
+      states,
+      "files.read",
+      request as any,
+    );
+
+    // Assert
+    assertEquals(actual, expected);
+  }
+});
+
+Deno.test("validateAsync - should support asynchronous schema guards", async () => {
+  // Arrange
+  const knownSubjectSchema = {
+    name: "knownSubject",
+    requestAsync: async (obj: unknown) => {
+      await delay(1);
+      return (obj as { from?: string }).from === "user:known";
+    },
+  };
+  const testPermissions = hierarchy({
+    resource: permission({
+      schemas: [knownSubjectSchema],
+      rules: [rule("allowRule", [], () => VALIDATION_RESULT.GRANTED)],
+    }),
+  });
+
+  // Act
+  const granted = await validateAsync(
+    testPermissions,
+    [{ resource: {} }] as any,
+    "resource",
+    { from: "user:known" } as never,
+  );
+  const rejected = await validateAsync(
+    testPermissions,
+    [{ resource: {} }] as any,
+    "resource",
+    { from: "user:unknown" } as never,
+  );
+
+  // Assert
+  assertValidationSuccess(granted);
+  assertValidationFailure(rejected, ["schema"], ["knownSubject"]);
+  assertEquals(
+    rejected.reasons[0].message,
+    "Invalid request for schema knownSubject",
+  );
+});
+
+Deno.test("validateAsync - should keep short-circuit semantics of operators", async () => {
+  // Arrange
+  const calls: string[] = [];
+  const tracked = (name: string, result: any) =>
+    asyncRule(name, [], () => {
+      calls.push(name);
+      return Promise.resolve(result);
+    });
+  const testPermissions = hierarchy({
+    resource: permission({
+      rules: [
+        and([
+          tracked("first", VALIDATION_RESULT.REJECTED),
+          tracked("second", VALIDATION_RESULT.GRANTED),
+        ]),
+      ],
+    }),
+  });
+
+  // Act
+  const result = await validateAsync(
+    testPermissions,
+    [{ resource: {} }] as any,
+    "resource",
+    {} as never,
+  );
+
+  // Assert
+  assertValidationFailure(result, ["rule"], ["and"]);
+  assertEquals(calls, ["first"]);
+});
+
+Deno.test("validateAsync - should abort in-flight rules once an entry is blocked", async () => {
+  // Arrange
+  let aborted = false;
+  const slowRule = asyncRule(
+    "slowRule",
+    [],
+    async (_state, _request, context) => {
+      try {
+        await delay(1000, context?.signal);
+      } catch (error) {
+        aborted = true;
+        throw error;
+      }
+      return VALIDATION_RESULT.GRANTED;
+    },
+  );
+  const blockingRule = asyncRule(
+    "blockingRule",
+    [],
+    (state: any) =>
+      state.banned ? VALIDATION_RESULT.BLOCKED : VALIDATION_RESULT.NEUTRAL,
+  );
+  const testPermissions = hierarchy({
+    resource: permission({
+      rules: [blockingRule, slowRule],
+    }),
+  });
+
+  // Act
+  const result = await validateAsync(
+    testPermissions,
+    [{ resource: {} }, { resource: { banned: true } }] as any,
+    "resource",
+    {} as never,
+  );
+
+  // Assert
+  assertEquals(aborted, true);
+  assertValidationFailure(result, ["rule"], ["blockingRule"]);
+  assertEquals(result.resultType, VALIDATION_RESULT.BLOCKED);
+});
+
+Deno.test("validateAsync - should reject when the caller aborts", async () => {
+  // Arrange
+  const slowRule = asyncRule(
+    "slowRule",
+    [],
+    async (_state, _request, context) => {
+      await delay(1000, context?.signal);
+      return VALIDATION_RESULT.GRANTED;
+    },
+  );
+  const testPermissions = hierarchy({
+    resource: permission({
+      rules: [slowRule],
+    }),
+  });
+  const controller = new AbortController();
+
+  // Act
+  const promise = validateAsync(
+    testPermissions,
+    [{ resource: {} }] as any,
+    "resource",
+    {} as never,
+    { signal: controller.signal },
+  );
+  controller.abort(new Error("Request cancelled"));
+
+  // Assert
+  await assertRejects(() => promise, Error, "Request cancelled");
+});
+
+Deno.test("validate - should reject asynchronous rules and schema guards", () => {
+  // Arrange
+  const testPermissions = hierarchy({
+    rule: permission({
+      rules: [asyncAllowRule],
+    }),
+    schema: permission({
+      schemas: [{
+        name: "asyncSchema",
+        stateAsync: () => Promise.resolve(true),
+      }],
+      rules: [rule("allowRule", [], () => VALIDATION_RESULT.GRANTED)],
+    }),
+  });
+
+  // Act
+  const ruleResult = validate(
+    testPermissions,
+    [{ rule: {} }] as any,
+    "rule",
+    {} as never,
+  );
+  const schemaResult = validate(
+    testPermissions,
+    [{ schema: {} }] as any,
+    "schema",
+    {} as never,
+  );
+
+  // Assert
+  assertValidationFailure(ruleResult, ["rule"], ["asyncAllowRule"]);
+  assertEquals(
+    ruleResult.reasons[0].message,
+    "Rule asyncAllowRule is asynchronous, use validateAsync",
+  );
+  assertValidationFailure(schemaResult, ["schema"], ["asyncSchema"]);
+});
@@ -0,0 +1,247 @@
+/**
+ * Tests for the validation events and the decision log
+ *
+ * The `events` option reports the start, the rule evaluations and the result
+ * of a validation. decisionLogger() writes each decision to a sink, with the
+ * request redacted per schema field.
+ */
+import { decisionLogger, redactRequest } from "../../../core/audit.ts";
+import { createDecisionCache } from "../../../core/cache.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import {
+  permission,
+  validate,
+  validateAsync,
+} from "../../../core/permission.ts";
+import { asyncRule, rule } from "../../../core/rule.ts";
+import { allowAttributes } from "../../../rules/allowAttributes/allowAttributes.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { target } from "../../../schemas/target/target.ts";
+import { createMemorySink } from "../../../sinks/memory/memory.ts";
+import type {
+  DecisionEvent,
+  RuleEvaluatedEvent,
+} from "../../../types/audit.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: {
+    read: permission({ rules: [allowTarget(), ensureTime()] }),
+    write: permission({ rules: [allowTarget()] }),
+  },
+});
+
+const states = [{ "files.read": { target: ["doc-1"] } }];
+
+Deno.test("audit - should emit the events of a validation in order", () => {
+  // Arrange
+  const events: string[] = [];
+  const rules: Omit<RuleEvaluatedEvent, "durationMs">[] = [];
+
+  // Act
+  const result = validate(files, states, "files.read", {
+    from: "alice",
+    target: "doc-1",
+  }, {
+    events: {
+      beforeValidate: ({ key, sources }) =>
+        events.push(`before ${key} ${sources}`),
+      ruleEvaluated: ({ durationMs: _, ...event }) => {
+        events.push(`rule ${event.rule}`);
+        rules.push(event);
+      },
+      decision: ({ key, result }) =>
+        events.push(`decision ${key} ${result.valid}`),
+    },
+  });
+
+  // Assert
+  assertEquals(result.valid, true);
+  assertEquals(events, [
+    "before files.read 1",
+    "rule allowTarget",
+    "rule ensureTime",
+    "decision files.read true",
+  ]);
+  assertEquals(rules[0], {
+    key: "files.read",
+    permKey: "files.read",
+    stateIndex: 0,
+    entryIndex: 0,
+    rule: "allowTarget",
+    result: "granted",
+  });
+});
+
+Deno.test("audit - should report throwing rules", async () => {
+  // Arrange
+  const failing = hierarchy({
+    api: {
+      call: permission({
+        rules: [
+          asyncRule("lookup", [target()], () => {
+            throw new Error("service unavailable");
+          }),
+        ],
+      }),
+    },
+  });
+  const rules: RuleEvaluatedEvent[] = [];
+
+  // Act
+  const result = await validateAsync(
+    failing,
+    [{ "api.call": { target: ["x"] } }],
+    "api.call",
+    { from: "alice", target: "x" },
+    { events: { ruleEvaluated: (event) => rules.push(event) } },
+  );
+
+  // Assert
+  assertEquals(result.valid, false);
+  assertEquals(
+    rules.map(({ rule, result, error }) => ({ rule, result, error })),
+    [
+      { rule: "lookup", result: undefined, error: "service unavailable" },
+    ],
+  );
+});
+
+Deno.test("audit - should write redacted decision records to the sink", () => {
+  // Arrange
+  const sink = createMemorySink();
+  const hashed = hierarchy({
+    api: {
+      call: permission({
+        rules: [rule("token", [target()], () => "granted")],
+      }),
+    },
+  });
+  const events = decisionLogger(sink, {
+    redact: {
+      target: { token: "omit", "client.secret": "mask" },
+      time: { date: () => "hidden" },
+    },
+    now: () => new Date("2025-06-01T12:00:00Z"),
+  });
+  const request = {
+    from: "alice",
+    target: "x",
+    token: "abc",
+    client: { id: "app", secret: "s3cr3t" },
+  };
+
+  // Act
+  validate(hashed, [{ "api.call": { target: ["x"] } }], "api.call", request, {
+    events,
+  });
+  validate(files, states, "files.write", { from: "alice", target: "doc-1" }, {
+    events,
+  });
+
+  // Assert
+  assertEquals(sink.records.map(({ durationMs: _, ...record }) => record), [
+    {
+      time: "2025-06-01T12:00:00.000Z",
+      key: "api.call",
+      request: {
+        from: "alice",
+        target: "x",
+        client: { id: "app", secret: "[REDACTED]" },
+      },
+      valid: true,
+      result: "granted",
+      reasons: [],
+    },
+    {
+      time: "2025-06-01T12:00:00.000Z",
+      key: "files.write",
+      request: { from: "alice", target: "doc-1" },
+      valid: false,
+      result: "neutral",
+      reasons: [],
+    },
+  ]);
+  assertEquals(request.token, "abc");
+  assertEquals(request.client.secret, "s3cr3t");
+});
+
+Deno.test("audit - should mask redacted request values in reason messages", () => {
+  // Arrange
+  const sink = createMemorySink();
+  const vault = hierarchy({
+    vault: {
+      open: permission({
+        rules: [allowAttributes([["request.pin", "eq", "state.pin"]])],
+      }),
+    },
+  });
+  const events = decisionLogger(sink, {
+    redact: { attributes: { pin: "mask" } },
+  });
+
+  // Act
+  validate(vault, [{ "vault.open": { pin: "0000" } }], "vault.open", {
+    pin: "9876-secret",
+  }, { events });
+
+  // Assert
+  const [record] = sink.records;
+  assertEquals(record.request, { pin: "[REDACTED]" });
+  assertEquals(record.reasons.length, 1);
+  assertEquals(
+    record.reasons[0].message,
+    'Attribute comparison failed: request.pin ([REDACTED]) eq state.pin ("0000")',
+  );
+  assertEquals(JSON.stringify(record).includes("9876-secret"), false);
+});
+
+Deno.test("audit - should only apply the redactions of the schemas of a permission", () => {
+  // Arrange
+  const request = { from: "alice", target: "doc-1", date: new Date(0) };
+  const rules = {
+    time: { date: "omit" as const },
+    owner: { from: "mask" as const },
+  };
+
+  // Act
+  const redacted = redactRequest(request, ["target", "time"], rules);
+
+  // Assert
+  assertEquals(redacted, { from: "alice", target: "doc-1" });
+});
+
+Deno.test("audit - should report cached decisions", () => {
+  // Arrange
+  const decisions: DecisionEvent[] = [];
+  const cache = createDecisionCache();
+  const options = {
+    events: { decision: (event: DecisionEvent) => decisions.push(event) },
+  };
+  const request = { from: "alice", target: "doc-1" };
+
+  // Act
+  cache.validate(
+    files,
+    { subjects: ["alice"] },
+    states,
+    "files.write",
+    request,
+    options,
+  );
+  cache.validate(
+    files,
+    { subjects: ["alice"] },
+    states,
+    "files.write",
+    request,
+    options,
+  );
+
+  // Assert
+  assertEquals(cache.stats().hits, 1);
+  assertEquals(decisions.length, 2);
+  assertEquals(decisions[1].result, decisions[0].result);
+  assertEquals(decisions[1].schemas, ["target"]);
+});
@@ -0,0 +1,286 @@
+/**
+ * Tests for the decision cache
+ *
+ * createDecisionCache() reuses validation results until they expire, are
+ * evicted by the size limit or invalidated, and never caches decisions whose
+ * rules depend on more than the state sets and the request.
+ */
+import { createDecisionCache } from "../../../core/cache.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import {
+  createTupleStore,
+  direct,
+  parseTuple,
+} from "../../../core/relation.ts";
+import { and, or } from "../../../operators/operations.ts";
+import { allowRelation } from "../../../rules/allowRelation/allowRelation.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { expr } from "../../../rules/expr/expr.ts";
+import { assertEquals, assertStrictEquals } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: permission({
+    rules: [allowTarget()],
+    children: {
+      read: permission({ rules: [allowTarget(), ensureTime()] }),
+      write: permission({ rules: [allowTarget()] }),
+    },
+  }),
+});
+
+const alice = { "files.write": { target: ["doc-1"] } };
+const bob = { "files.write": { target: ["doc-2"] } };
+const request = { from: "alice", target: "doc-1" };
+
+Deno.test("cache - should reuse the result of an identical validation", () => {
+  // Arrange
+  const cache = createDecisionCache();
+
+  // Act
+  const first = cache.validate(
+    files,
+    { subjects: ["alice"] },
+    [alice],
+    "files.write",
+    request,
+  );
+  const second = cache.validate(
+    files,
+    { subjects: ["alice"] },
+    [alice],
+    "files.write",
+    { target: "doc-1", from: "alice" },
+  );
+  const other = cache.validate(
+    files,
+    { subjects: ["alice"] },
+    [alice],
+    "files.write",
+    { from: "alice", target: "doc-2" },
+  );
+
+  // Assert
+  assertEquals(first.valid, true);
+  assertStrictEquals(second, first);
+  assertEquals(other.valid, false);
+  assertEquals(cache.stats(), {
+    hits: 1,
+    misses: 2,
+    bypasses: 0,
+    evictions: 0,
+    size: 2,
+  });
+});
+
+Deno.test("cache - should miss when the version of the state sets changes", () => {
+  // Arrange
+  const cache = createDecisionCache();
+  const scope = { subjects: ["alice"], version: 1 };
+  cache.validate(files, scope, [alice], "files.write", request);
+
+  // Act
+  const result = cache.validate(
+    files,
+    { subjects: ["alice"], version: 2 },
+    [{}],
+    "files.write",
+    request,
+  );
+
+  // Assert
+  assertEquals(result.valid, false);
+  assertEquals(cache.stats().misses, 2);
+});
+
+Deno.test("cache - should evict the least recently used decision", () => {
+  // Arrange
+  const cache = createDecisionCache({ maxSize: 2 });
+  const check = (target: string) =>
+    cache.validate(files, { subjects: ["alice"] }, [alice], "files.write", {
+      from: "alice",
+      target,
+    });
+  check("doc-1");
+  check("doc-2");
+  check("doc-1");
+
+  // Act
+  check("doc-3");
+  check("doc-1");
+  check("doc-2");
+
+  // Assert
+  assertEquals(cache.stats(), {
+    hits: 2,
+    misses: 4,
+    bypasses: 0,
+    evictions: 2,
+    size: 2,
+  });
+});
+
+Deno.test("cache - should expire decisions after their time to live", () => {
+  // Arrange
+  let time = 0;
+  const cache = createDecisionCache({ ttl: 1000, now: () => time });
+  const check = () =>
+    cache.validate(files, { subjects: ["alice"] }, [alice], "files.write", {
+      ...request,
+    });
+  check();
+
+  // Act
+  time = 999;
+  check();
+  time = 1999;
+  check();
+
+  // Assert
+  assertEquals(cache.stats().hits, 1);
+  assertEquals(cache.stats().misses, 2);
+});
+
+Deno.test("cache - should invalidate the decisions of a subject", () => {
+  // Arrange
+  const cache = createDecisionCache();
+  const check = (subject: string, states: Record<string, unknown>) =>
+    cache.validate(
+      files,
+      { subjects: [subject, "eng"] },
+      [states, {}],
+      "files.write",
+      request,
+    );
+  check("alice", alice);
+  check("bob", bob);
+
+  // Act
+  const alone = cache.invalidateSubject("alice");
+  check("alice", alice);
+  check("bob", bob);
+  const shared = cache.invalidateSubject("eng");
+
+  // Assert
+  assertEquals([alone, shared], [1, 2]);
+  assertEquals(cache.stats().hits, 1);
+  assertEquals(cache.stats().size, 0);
+});
+
+Deno.test("cache - should invalidate the decisions a permission took part in", () => {
+  // Arrange
+  const cache = createDecisionCache();
+  const check = (key: "files.read" | "files.write") =>
+    cache.validate(files, { subjects: ["alice"] }, [alice], key, request);
+  check("files.read");
+  check("files.write");
+
+  // Act
+  const read = cache.invalidatePermission(files, "files.read");
+  check("files.read");
+  const parent = cache.invalidatePermission(files, "files");
+
+  // Assert
+  assertEquals([read, parent], [1, 2]);
+  assertEquals(cache.stats().size, 0);
+});
+
+Deno.test("cache - should bypass explained and volatile validations", () => {
+  // Arrange
+  const cache = createDecisionCache();
+  const store = createTupleStore([parseTuple("doc:doc-1#viewer@alice")]);
+  const dynamic = hierarchy({
+    docs: {
+      open: permission({ rules: [expr("now() > request.since")] }),
+      view: permission({
+        rules: [allowRelation("viewer", {
+          model: { doc: { viewer: direct() } },
+          store,
+        })],
+      }),
+    },
+  });
+  const scope = { subjects: ["alice"] };
+
+  // Act
+  cache.validate(files, scope, [alice], "files.write", request, {
+    explain: true,
+  });
+  cache.validate(dynamic, scope, [{}], "docs.open", {
+    from: "alice",
+    since: new Date(0),
+  });
+  const viewed = cache.validate(dynamic, scope, [{}], "docs.view", {
+    from: "alice",
+    target: "doc:doc-1",
+  });
+
+  // Assert
+  assertEquals(viewed.valid, true);
+  assertEquals(cache.stats(), {
+    hits: 0,
+    misses: 0,
+    bypasses: 3,
+    evictions: 0,
+    size: 0,
+  });
+});
+
+Deno.test("cache - should expire time window decisions when a window closes", () => {
+  // Arrange
+  let time = Date.now();
+  const cache = createDecisionCache({ now: () => time });
+  const states = [{
+    "files.read": { target: ["doc-1"], dateEnd: new Date(time + 5000) },
+  }];
+  const check = (date?: Date) =>
+    cache.validate(files, { subjects: ["alice"] }, states, "files.read", {
+      ...request,
+      ...(date && { date }),
+    });
+  check();
+  check(new Date(time));
+
+  // Act
+  time += 5000;
+  check();
+  check(new Date(time - 5000));
+
+  // Assert
+  assertEquals(cache.stats().misses, 3);
+  assertEquals(cache.stats().hits, 1);
+});
+
+Deno.test("cache - should propagate the volatility of combined rules", () => {
+  // Act
+  const timed = or([allowTarget(), ensureTime()]);
+  const volatile = and([timed, expr("now() > request.since")]);
+  const stable = and([allowTarget(), allowTarget()]);
+
+  // Assert
+  assertEquals(timed.volatility, "timeWindow");
+  assertEquals(volatile.volatility, "volatile");
+  assertEquals(stable.volatility, undefined);
+});
+
+Deno.test("cache - should reuse asynchronous validations", async () => {
+  // Arrange
+  const cache = createDecisionCache();
+  const scope = { subjects: ["alice"] };
+
+  // Act
+  const first = await cache.validateAsync(
+    files,
+    scope,
+    [alice],
+    "files.write",
+    request,
+  );
+  const second = cache.validate(files, scope, [alice], "files.write", request);
+
+  // Assert
+  assertEquals(first.valid, true);
+  assertStrictEquals(second, first);
+  assertEquals(cache.stats().hits, 1);
+});
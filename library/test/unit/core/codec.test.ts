@@ -0,0 +1,263 @@
+/**
+ * Tests for the state set codec
+ *
+ * encodeStateSet() and decodeStateSet() convert state sets to JSON values and
+ * back with the field codecs of the schemas, checking every decoded entry.
+ */
+import {
+  dateCodec,
+  decodeFlatStateArray,
+  decodeStateSet,
+  encodeFlatStateArray,
+  encodeStateSet,
+  formatIssuePath,
+  validateFlatStateArray,
+  validateStateSet,
+} from "../../../core/codec.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import { rule } from "../../../core/rule.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { assertEquals, assertInstanceOf, assertThrows } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: {
+    read: permission({ rules: [allowTarget(), ensureTime()] }),
+    write: permission({ rules: [allowTarget()] }),
+  },
+});
+
+const dateEnd = new Date("2025-12-31T23:59:59Z");
+
+Deno.test("codec - should round-trip dates through JSON", () => {
+  // Arrange
+  const states = {
+    "files.read": { target: ["doc-1"], dateEnd },
+    "files.write": [{ target: ["doc-1"] }, { target: ["doc-2"] }],
+  };
+
+  // Act
+  const json = JSON.stringify(encodeStateSet(files, states));
+  const decoded = decodeStateSet(files, json);
+
+  // Assert
+  assertEquals(JSON.parse(json)["files.read"].dateEnd, dateEnd.toISOString());
+  assertEquals(decoded, states);
+  assertInstanceOf((decoded["files.read"] as { dateEnd: Date }).dateEnd, Date);
+});
+
+Deno.test("codec - should let decoded state sets validate", () => {
+  // Arrange
+  const stored = JSON.stringify(encodeStateSet(files, {
+    "files.read": { target: ["doc-1"], dateEnd },
+  }));
+
+  // Act
+  const withoutCodec = validate(files, [JSON.parse(stored)], "files.read", {
+    from: "alice",
+    target: "doc-1",
+    date: new Date("2025-06-01T00:00:00Z"),
+  });
+  const withCodec = validate(
+    files,
+    [decodeStateSet(files, stored)],
+    "files.read",
+    {
+      from: "alice",
+      target: "doc-1",
+      date: new Date("2025-06-01T00:00:00Z"),
+    },
+  );
+
+  // Assert
+  assertEquals(withoutCodec.valid, false);
+  assertEquals(withCodec.valid, true);
+});
+
+Deno.test("codec - should keep effects and decode key patterns", () => {
+  // Arrange
+  const encoded = {
+    "files.*": { target: ["*"], dateStart: "2025-01-01T00:00:00.000Z" },
+    "files.write": { target: ["doc-1"], effect: "deny" },
+  };
+
+  // Act
+  const decoded = decodeStateSet(files, encoded);
+
+  // Assert
+  assertEquals(decoded, {
+    "files.*": { target: ["*"], dateStart: new Date("2025-01-01T00:00:00Z") },
+    "files.write": { target: ["doc-1"], effect: "deny" },
+  });
+});
+
+Deno.test("codec - should report the key and path of invalid data", () => {
+  // Arrange
+  const encoded = {
+    "files.read": [{ target: ["doc-1"] }, { target: [], dateEnd: "someday" }],
+    "files.write": { target: "doc-1" },
+    "files.delete": { target: ["doc-1"] },
+    "files.*": { target: [], effect: "maybe" },
+  };
+
+  // Act & Assert
+  const error = assertThrows(() => decodeStateSet(files, encoded), Error);
+  assertEquals(
+    error.message,
+    [
+      "Invalid state set:",
+      '- "files.read"[1].dateEnd: expected an ISO date string',
+      '- "files.write": invalid state for schema target',
+      '- "files.delete": unknown permission key',
+      '- "files.*".effect: expected "allow", "deny" or "block"',
+    ].join("\n"),
+  );
+});
+
+Deno.test("codec - should round-trip flat state arrays", () => {
+  // Arrange
+  const flatStates = [
+    ["files.read", { target: ["doc-1"], dateStart: dateEnd }],
+    ["files.read", { target: ["doc-2"] }],
+  ] as const;
+
+  // Act
+  const json = JSON.stringify(
+    encodeFlatStateArray(files, flatStates as never),
+  );
+  const decoded = decodeFlatStateArray(files, json);
+
+  // Assert
+  assertEquals(decoded, flatStates as never);
+  assertThrows(
+    () =>
+      decodeFlatStateArray(files, [
+        ["files.read", { target: ["doc-1"] }],
+        ["files.read", { target: ["doc-1"], dateEnd: 42 }],
+        "files.write",
+      ]),
+    Error,
+    '- "files.read"[1].dateEnd: expected an ISO date string\n' +
+      '- ""[2]: expected a [key, state] tuple',
+  );
+});
+
+Deno.test("codec - should refuse to encode invalid dates", () => {
+  // Act & Assert
+  assertThrows(
+    () =>
+      encodeStateSet(files, {
+        "files.read": { target: [], dateEnd: new Date("not a date") },
+      }),
+    Error,
+    'Cannot encode "files.read".dateEnd: expected a valid date',
+  );
+  assertThrows(() => dateCodec.decode("not a date"), Error);
+});
+
+Deno.test("codec - should validate state sets up front with structured issues", () => {
+  // Arrange
+  const stateSet = {
+    "files.read": [
+      { target: ["doc-1"], dateEnd },
+      { target: ["doc-2"], dateEnd: "2025-12-31T23:59:59Z" },
+    ],
+    "files.write": { target: "doc-1" },
+    "files.raed": { target: ["doc-1"] },
+  };
+
+  // Act
+  const report = validateStateSet(files, stateSet);
+  const encodedReport = validateStateSet(
+    files,
+    { "files.read": { target: ["doc-1"], dateEnd: "2025-12-31T23:59:59Z" } },
+    { encoded: true },
+  );
+
+  // Assert
+  assertEquals(report, {
+    valid: false,
+    issues: [
+      {
+        key: "files.read",
+        entryIndex: 1,
+        schema: "time",
+        field: "dateEnd",
+        message: "expected a valid date",
+      },
+      {
+        key: "files.write",
+        entryIndex: undefined,
+        schema: "target",
+        field: "target",
+        message: "invalid state for schema target",
+      },
+      {
+        key: "files.raed",
+        entryIndex: undefined,
+        message: "unknown permission key",
+      },
+    ],
+  });
+  assertEquals(encodedReport, { valid: true, issues: [] });
+});
+
+Deno.test("codec - should validate flat state arrays up front", () => {
+  // Act
+  const report = validateFlatStateArray(files, [
+    ["files.read", { target: ["doc-1"], dateStart: dateEnd }],
+    ["files.write", {}],
+    ["files.write", { target: ["doc-1"], effect: "maybe" }],
+    "files.write",
+  ]);
+
+  // Assert
+  assertEquals(report.valid, false);
+  assertEquals(
+    report.issues.map((issue) => [formatIssuePath(issue), issue.schema]),
+    [
+      ['"files.write"[1].target', "target"],
+      ['"files.write"[2].effect', undefined],
+      ['""[3]', undefined],
+    ],
+  );
+});
+
+Deno.test("codec - should report guards throwing on malformed states as issues", () => {
+  // Arrange
+  const tags = {
+    name: "tags",
+    // Throws a TypeError when tags is missing
+    state: (obj: unknown): obj is { tags: string[] } =>
+      (obj as { tags: string[] }).tags.every((tag) => typeof tag === "string"),
+    request: (obj: unknown): obj is { tag: string } =>
+      typeof obj === "object" && obj !== null,
+  };
+  const labels = hierarchy({
+    labels: permission({
+      rules: [rule("tagged", [tags], () => "granted")],
+    }),
+  });
+
+  // Act
+  const report = validateStateSet(labels, {
+    labels: [{ tags: ["a"] }, {}],
+  });
+
+  // Assert
+  assertEquals(report, {
+    valid: false,
+    issues: [{
+      key: "labels",
+      entryIndex: 1,
+      schema: "tags",
+      message: "Cannot read properties of undefined (reading 'every')",
+    }],
+  });
+  assertThrows(
+    () => decodeStateSet(labels, { labels: {} }),
+    Error,
+    "Invalid state set",
+  );
+});
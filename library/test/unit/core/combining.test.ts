@@ -0,0 +1,334 @@
+/**
+ * Tests for combining algorithms
+ */
+import { combineResults } from "../../../core/combining.ts";
+import { compile } from "../../../core/compile.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import { validateAsync } from "../../../core/validation.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+import {
+  type CombiningAlgorithm,
+  VALIDATION_RESULT,
+  type ValidationResultType,
+} from "../../../types/common.ts";
+
+const { NEUTRAL, GRANTED, REJECTED, BLOCKED } = VALIDATION_RESULT;
+
+// Mock schema accepting any state and request
+const decisionSchema = {
+  name: "decisionSchema",
+  state: (_obj: unknown): _obj is { decision?: ValidationResultType } => true,
+  request: (_obj: unknown): _obj is unknown => true,
+};
+
+// Mock rule returning the decision stored in the state
+const fromState = {
+  name: "fromState",
+  schemas: [decisionSchema],
+  check: (state: { decision?: ValidationResultType }) =>
+    state.decision ?? NEUTRAL,
+};
+
+// Mock rules with fixed results
+const fixed = (result: ValidationResultType) => ({
+  name: `fixed-${result}`,
+  schemas: [decisionSchema],
+  check: () => result,
+});
+
+// Requests are ignored by the mock rules
+const request = {} as never;
+
+const throwingRule = {
+  name: "throwingRule",
+  schemas: [decisionSchema],
+  check: () => {
+    throw new Error("Rule failure");
+  },
+};
+
+Deno.test("combineResults - should apply every built-in algorithm", () => {
+  const cases: [CombiningAlgorithm, ValidationResultType[], string][] = [
+    ["deny-overrides", [GRANTED, REJECTED], REJECTED],
+    ["deny-overrides", [NEUTRAL, GRANTED], GRANTED],
+    ["deny-overrides", [NEUTRAL], NEUTRAL],
+    ["permit-overrides", [REJECTED, GRANTED], GRANTED],
+    ["permit-overrides", [NEUTRAL, REJECTED], REJECTED],
+    ["permit-overrides", [], NEUTRAL],
+    ["first-applicable", [NEUTRAL, REJECTED, GRANTED], REJECTED],
+    ["first-applicable", [NEUTRAL, GRANTED, REJECTED], GRANTED],
+    ["first-applicable", [NEUTRAL], NEUTRAL],
+    ["only-one-applicable", [NEUTRAL, GRANTED], GRANTED],
+    ["only-one-applicable", [GRANTED, GRANTED], REJECTED],
+    ["only-one-applicable", [NEUTRAL], NEUTRAL],
+    ["deny-unless-permit", [REJECTED, GRANTED], GRANTED],
+    ["deny-unless-permit", [NEUTRAL], REJECTED],
+    ["permit-unless-deny", [GRANTED, REJECTED], REJECTED],
+    ["permit-unless-deny", [NEUTRAL], GRANTED],
+  ];
+
+  for (const [algorithm, results, expected] of cases) {
+    assertEquals(
+      combineResults(algorithm, results),
+      expected,
+      `${algorithm} of [${results}]`,
+    );
+  }
+});
+
+Deno.test("combineResults - blocked should override every algorithm", () => {
+  for (
+    const algorithm of [
+      "permit-overrides",
+      "first-applicable",
+      "deny-unless-permit",
+    ] as const
+  ) {
+    assertEquals(combineResults(algorithm, [GRANTED, BLOCKED]), BLOCKED);
+  }
+  assertEquals(combineResults(() => GRANTED, [BLOCKED]), BLOCKED);
+});
+
+Deno.test("combineResults - should call custom combiners", () => {
+  // Arrange
+  const majority = (results: ValidationResultType[]) =>
+    results.filter((r) => r === GRANTED).length > results.length / 2
+      ? GRANTED
+      : REJECTED;
+
+  // Act & Assert
+  assertEquals(combineResults(majority, [GRANTED, GRANTED, REJECTED]), GRANTED);
+  assertEquals(combineResults(majority, [GRANTED, NEUTRAL]), REJECTED);
+});
+
+Deno.test("permission - should reject unknown combining algorithms", () => {
+  assertThrows(
+    () => permission({ combining: "most-permissive" as any }),
+    Error,
+    'Unknown combining algorithm "most-permissive"',
+  );
+});
+
+Deno.test("permission combining - should combine the rules of the permission", () => {
+  // Arrange
+  const permissions = hierarchy({
+    legacy: permission({
+      rules: [fixed(REJECTED), fixed(GRANTED)],
+    }),
+    permit: permission({
+      rules: [fixed(REJECTED), fixed(GRANTED)],
+      combining: "permit-overrides",
+    }),
+    unless: permission({
+      rules: [fixed(NEUTRAL)],
+      combining: "permit-unless-deny",
+    }),
+  });
+
+  // Act & Assert
+  assertEquals(validate(permissions, [{}], "legacy", request).valid, false);
+  assertEquals(validate(permissions, [{}], "permit", request).valid, true);
+  assertEquals(validate(permissions, [{}], "unless", request).valid, true);
+});
+
+Deno.test("permission combining - should count throwing rules as rejected", () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({
+      rules: [throwingRule, fixed(GRANTED)],
+      combining: "permit-overrides",
+    }),
+    strict: permission({
+      rules: [fixed(GRANTED), throwingRule],
+      combining: "deny-overrides",
+    }),
+  });
+
+  // Act
+  const permissive = validate(permissions, [{}], "resource", request);
+  const strict = validate(permissions, [{}], "strict", request);
+
+  // Assert
+  assertEquals(permissive.valid, true);
+  assertEquals(strict.valid, false);
+  assertEquals(strict.resultType, REJECTED);
+  assertEquals(strict.reasons[0].message, "Rule failure");
+});
+
+Deno.test("validate combining - deny-overrides should let any explicit rejection win", () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({
+      rules: [fromState],
+      children: {
+        read: permission({ rules: [fromState] }),
+      },
+    }),
+  });
+  const states = [
+    { "resource.read": { decision: GRANTED } },
+    { "resource": { decision: REJECTED } },
+  ];
+  const combining = {
+    entries: "deny-overrides",
+    chain: "deny-overrides",
+    sources: "deny-overrides",
+  } as const;
+
+  // Act
+  const merged = validate(permissions, states as any, "resource.read", request);
+  const compliant = validate(
+    permissions,
+    states as any,
+    "resource.read",
+    request,
+    { combining },
+  );
+
+  // Assert
+  assertEquals(merged.valid, true);
+  assertEquals(compliant.valid, false);
+  assertEquals(compliant.resultType, REJECTED);
+  assertEquals(compliant.reasons[0].name, "fromState");
+  assertEquals(compliant.reasons[0].stateIndex, 1);
+});
+
+Deno.test("validate combining - should combine each stage independently", () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({
+      rules: [fromState],
+      children: {
+        read: permission({ rules: [fromState] }),
+      },
+    }),
+  });
+  const entries = [{
+    "resource.read": [{ decision: GRANTED }, { decision: REJECTED }],
+  }];
+  const chain = [{
+    "resource": { decision: REJECTED },
+    "resource.read": { decision: GRANTED },
+  }];
+
+  // Act & Assert
+  assertEquals(
+    validate(permissions, entries as any, "resource.read", request, {
+      combining: { entries: "first-applicable" },
+    }).valid,
+    true,
+  );
+  assertEquals(
+    validate(permissions, entries as any, "resource.read", request, {
+      combining: { entries: "only-one-applicable" },
+    }).valid,
+    false,
+  );
+  assertEquals(
+    validate(permissions, chain as any, "resource.read", request, {
+      combining: { chain: "first-applicable" },
+    }).valid,
+    false,
+  );
+  assertEquals(
+    validate(permissions, chain as any, "resource.read", request, {
+      combining: { chain: "permit-overrides" },
+    }).valid,
+    true,
+  );
+});
+
+Deno.test("validate combining - should not decide without state sources", () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({ rules: [fromState] }),
+  });
+
+  // Act
+  const result = validate(permissions, [], "resource", request, {
+    combining: { sources: "permit-unless-deny" },
+  });
+
+  // Assert
+  assertEquals(result.valid, false);
+  assertEquals(result.resultType, undefined);
+});
+
+Deno.test("validate combining - should trace the combined results", () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({ rules: [fromState] }),
+  });
+  const states = [{
+    "resource": [{ decision: GRANTED }, { decision: REJECTED }],
+  }];
+
+  // Act
+  const result = validate(permissions, states as any, "resource", request, {
+    explain: true,
+    combining: { entries: "deny-overrides" },
+  });
+
+  // Assert
+  assertEquals(result.trace!.sources[0].chain[0].result, REJECTED);
+  assertEquals(result.trace!.result, REJECTED);
+});
+
+Deno.test("validateAsync combining - should match validate", async () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({
+      rules: [fixed(REJECTED), fromState],
+      combining: "permit-overrides",
+    }),
+  });
+  const states = [
+    { "resource": { decision: GRANTED } },
+    { "resource": { decision: NEUTRAL } },
+  ];
+  const options = { combining: { sources: "deny-overrides" } } as const;
+
+  // Act
+  const expected = validate(
+    permissions,
+    states as any,
+    "resource",
+    request,
+    options,
+  );
+  const actual = await validateAsync(
+    permissions,
+    states as any,
+    "resource",
+    request,
+    options,
+  );
+
+  // Assert
+  assertEquals(actual, expected);
+  assertEquals(actual.valid, false);
+});
+
+Deno.test("compile combining - should match validate", () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({
+      rules: [fixed(REJECTED), fromState],
+      combining: "permit-overrides",
+    }),
+  });
+  const states = [{ "resource": { decision: GRANTED } }];
+
+  // Act
+  const expected = validate(permissions, states as any, "resource", request);
+  const actual = compile(permissions).validate(
+    states as any,
+    "resource",
+    request,
+  );
+
+  // Assert
+  assertEquals(actual, expected);
+  assertEquals(actual.valid, true);
+});
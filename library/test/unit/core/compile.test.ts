@@ -0,0 +1,140 @@
+/**
+ * Tests for compiled validators
+ */
+import { compile } from "../../../core/compile.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import { validateAsync } from "../../../core/validation.ts";
+import { allowOwner } from "../../../rules/allowOwner/allowOwner.ts";
+import { allowSelf } from "../../../rules/allowSelf/allowSelf.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { denySelf } from "../../../rules/denySelf/denySelf.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { assertEquals, assertRejects, assertThrows } from "jsr:@std/assert";
+
+const permissions = hierarchy({
+  user: permission({
+    rules: [allowTarget({ wildcards: true })],
+    children: {
+      profile: permission({
+        rules: [allowTarget({ wildcards: true }), ensureTime()],
+        children: {
+          view: permission({
+            rules: [allowSelf()],
+          }),
+          edit: permission({
+            rules: [denySelf(), allowOwner()],
+          }),
+        },
+      }),
+    },
+  }),
+});
+
+const states = [
+  {
+    "user": { target: ["user:*"] },
+    "user.profile.edit": [{ target: ["user:1"] }, { target: "invalid" }],
+  },
+  {
+    "user.profile": {
+      target: ["user:2"],
+      dateEnd: new Date(Date.now() - 1000),
+    },
+  },
+];
+
+const selfRequest = { from: "user:1", target: "user:1", owner: "user:1" };
+
+const requests = [
+  selfRequest,
+  { from: "user:1", target: "user:2", owner: "user:3" },
+  { from: "user:3", target: "group:1", owner: "user:3" },
+  { from: "user:3", target: "group:1" },
+];
+
+Deno.test("compile - should produce the same results as validate", () => {
+  // Arrange
+  const validator = compile(permissions);
+
+  for (const key of permissions.keys) {
+    for (const request of requests) {
+      // Act
+      const expected = validate(
+        permissions,
+        states as any,
+        key,
+        request as any,
+      );
+      const actual = validator.validate(states as any, key, request as any);
+
+      // Assert
+      assertEquals(actual, expected);
+    }
+  }
+});
+
+Deno.test("compile - should produce the same traces as validate", () => {
+  // Arrange
+  const validator = compile(permissions);
+  const strip = (value: unknown) =>
+    JSON.parse(
+      JSON.stringify(value, (k, v) => k === "durationMs" ? 0 : v),
+    );
+
+  // Act
+  const expected = validate(
+    permissions,
+    states as any,
+    "user.profile.edit",
+    selfRequest,
+    { explain: true },
+  );
+  const actual = validator.validate(
+    states as any,
+    "user.profile.edit",
+    selfRequest,
+    { explain: true },
+  );
+
+  // Assert
+  assertEquals(strip(actual), strip(expected));
+});
+
+Deno.test("compile - should validate asynchronously", async () => {
+  // Arrange
+  const validator = compile(permissions);
+
+  // Act
+  const expected = await validateAsync(
+    permissions,
+    states as any,
+    "user.profile.view",
+    selfRequest,
+  );
+  const actual = await validator.validateAsync(
+    states as any,
+    "user.profile.view",
+    selfRequest,
+  );
+
+  // Assert
+  assertEquals(actual, expected);
+});
+
+Deno.test("compile - should reject unknown permission keys", async () => {
+  // Arrange
+  const validator = compile(permissions);
+
+  // Act & Assert
+  assertThrows(
+    () => validator.validate([], "user.unknown" as any, {} as never),
+    Error,
+    'Permission "user.unknown" not found in hierarchy',
+  );
+  await assertRejects(
+    () => validator.validateAsync([], "user.unknown" as any, {} as never),
+    Error,
+    'Permission "user.unknown" not found in hierarchy',
+  );
+});
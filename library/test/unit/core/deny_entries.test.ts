@@ -0,0 +1,227 @@
+/**
+ * Tests for state entries denying or blocking requests
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { partialEvaluate } from "../../../core/partial.ts";
+import { permission } from "../../../core/permission.ts";
+import { toPredicate } from "../../../core/residual.ts";
+import {
+  validate,
+  validateAsync,
+  validateWithFlatStates,
+} from "../../../core/validation.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import type { PermissionStateSet } from "../../../types/common.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: permission({
+    rules: [allowTarget({ wildcards: true })],
+    children: {
+      read: permission({ rules: [allowTarget({ wildcards: true })] }),
+    },
+  }),
+});
+
+type FileStates = PermissionStateSet<typeof files>;
+
+const secret = { from: "user:5", target: "file:secret/plan" };
+const report = { from: "user:5", target: "file:report" };
+
+Deno.test("deny entries - should block matching requests over grants", () => {
+  // Arrange
+  const states: FileStates[] = [
+    {
+      "files": { target: ["file:*"] },
+      "files.read": { target: ["file:secret/*"], effect: "block" },
+    },
+  ];
+
+  // Act
+  const blocked = validate(files, states, "files.read", secret);
+  const granted = validate(files, states, "files.read", report);
+
+  // Assert
+  assertEquals(blocked.valid, false);
+  assertEquals(blocked.resultType, "blocked");
+  assertEquals(blocked.reasons, [{
+    type: "state",
+    name: "files.read",
+    message: "Access blocked by a state entry of files.read",
+    stateIndex: 0,
+  }]);
+  assertEquals(granted.valid, true);
+});
+
+Deno.test("deny entries - should reject matching requests", () => {
+  // Arrange
+  const states: FileStates[] = [{
+    "files.read": [
+      { target: ["file:report"], effect: "allow" },
+      { target: ["file:secret/*"], effect: "deny" },
+    ],
+  }];
+
+  // Act
+  const rejected = validate(files, states, "files.read", secret);
+  const granted = validate(files, states, "files.read", report);
+
+  // Assert
+  assertEquals(rejected.resultType, "rejected");
+  assertEquals(rejected.reasons[0].type, "state");
+  assertEquals(granted.valid, true);
+});
+
+Deno.test("deny entries - should give way to grants unless denials override", () => {
+  // Arrange
+  const states: FileStates[] = [{
+    "files.read": [
+      { target: ["file:*"] },
+      { target: ["file:secret/*"], effect: "deny" },
+    ],
+  }];
+
+  // Act
+  const merged = validate(files, states, "files.read", secret);
+  const denied = validate(files, states, "files.read", secret, {
+    combining: { entries: "deny-overrides" },
+  });
+
+  // Assert
+  assertEquals(merged.valid, true);
+  assertEquals(denied.valid, false);
+});
+
+Deno.test("deny entries - should have no opinion when they do not match", () => {
+  // Arrange
+  const states: FileStates[] = [{
+    "files.read": { target: ["file:secret/*"], effect: "block" },
+  }];
+
+  // Act
+  const result = validate(files, states, "files.read", report, {
+    explain: true,
+  });
+
+  // Assert
+  assertEquals(result.resultType, "neutral");
+  assertEquals(
+    result.trace!.sources[0].chain[1].entries[0].result,
+    "neutral",
+  );
+});
+
+Deno.test("deny entries - should fail closed when they fail their schemas", async () => {
+  // Arrange
+  const states = [{
+    "files.read": [
+      { target: ["file:*"] },
+      { target: "file:secret/*", effect: "block" },
+    ],
+  }] as unknown as FileStates[];
+
+  // Act
+  const result = validate(files, states, "files.read", report);
+  const asyncResult = await validateAsync(files, states, "files.read", report);
+  const condition = partialEvaluate(files, states, "files.read", {
+    from: "user:5",
+  }, { unknowns: ["target"] });
+
+  // Assert
+  assertEquals(result.resultType, "blocked");
+  assertEquals(result.reasons, [
+    {
+      type: "state",
+      name: "files.read",
+      message:
+        "Access blocked by a state entry of files.read failing its schemas",
+      stateIndex: 0,
+    },
+    {
+      type: "schema",
+      name: "target",
+      message: "Invalid state for schema target",
+      stateIndex: 0,
+    },
+  ]);
+  assertEquals(asyncResult.resultType, "blocked");
+  assertEquals(toPredicate(condition)({ target: "file:report" }), false);
+});
+
+Deno.test("deny entries - should not hand the effect to rules", () => {
+  // Arrange
+  let seen: unknown;
+  const spy = hierarchy({
+    resource: permission({
+      rules: [{
+        name: "spy",
+        schemas: [],
+        check: (state: unknown) => {
+          seen = state;
+          return "granted";
+        },
+      }],
+    }),
+  });
+
+  // Act
+  validate(
+    spy,
+    [{ "resource": { effect: "deny", level: 1 } } as any],
+    "resource",
+    {} as never,
+  );
+
+  // Assert
+  assertEquals(seen, { level: 1 });
+});
+
+Deno.test("validateWithFlatStates - should store denies next to grants", () => {
+  // Act
+  const result = validateWithFlatStates(
+    files,
+    [[
+      ["files.read", { target: ["file:*"] }],
+      ["files.read", { target: ["file:secret/*"], effect: "block" }],
+    ]],
+    "files.read",
+    secret,
+  );
+
+  // Assert
+  assertEquals(result.resultType, "blocked");
+});
+
+Deno.test("validateAsync - should apply the effect of state entries", async () => {
+  // Arrange
+  const states: FileStates[] = [{
+    "files.read": { target: ["file:secret/*"], effect: "block" },
+  }];
+
+  // Act
+  const result = await validateAsync(files, states, "files.read", secret);
+
+  // Assert
+  assertEquals(result.resultType, "blocked");
+});
+
+Deno.test("partialEvaluate - should exclude rows matched by deny entries", () => {
+  // Arrange
+  const states: FileStates[] = [{
+    "files.read": [
+      { target: ["file:*"] },
+      { target: ["file:secret/*"], effect: "block" },
+    ],
+  }];
+
+  // Act
+  const predicate = toPredicate(
+    partialEvaluate(files, states, "files.read", { from: "user:5" }, {
+      unknowns: ["target"],
+    }),
+  );
+
+  // Assert
+  assertEquals(predicate({ target: "file:report" }), true);
+  assertEquals(predicate({ target: "file:secret/plan" }), false);
+});
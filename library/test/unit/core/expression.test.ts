@@ -0,0 +1,253 @@
+/**
+ * Tests for the expression language
+ */
+import {
+  compileExpression,
+  parseExpression,
+} from "../../../core/expression.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+
+function evaluate(source: string, request: unknown = {}, state: unknown = {}) {
+  return compileExpression(source).evaluate({ request, state });
+}
+
+Deno.test("expression - should read members of the request and the state", () => {
+  // Arrange
+  const request = { user: { name: "alice", tags: ["a", "b"] } };
+  const state = { limits: { "max-amount": 100 } };
+
+  // Act & Assert
+  assertEquals(evaluate("request.user.name", request), "alice");
+  assertEquals(evaluate("request.user.tags[1]", request), "b");
+  assertEquals(evaluate('state.limits["max-amount"]', request, state), 100);
+  assertEquals(evaluate("request.user.age", request), null);
+  assertEquals(evaluate("request.missing.deep", request), null);
+});
+
+Deno.test("expression - should not read inherited members", () => {
+  // Act & Assert
+  assertEquals(evaluate("request.constructor", {}), null);
+  assertEquals(evaluate('request["__proto__"]', {}), null);
+  assertEquals(evaluate("request.tags.length", { tags: [1, 2] }), 2);
+  assertEquals(evaluate("request.name.length", { name: "abc" }), null);
+});
+
+Deno.test("expression - should evaluate comparisons, membership and boolean logic", () => {
+  // Arrange
+  const request = { amount: 50, region: "eu", role: "admin" };
+  const state = { limit: 100, regions: ["eu", "us"] };
+
+  // Act & Assert
+  assertEquals(
+    evaluate(
+      "request.amount <= state.limit && request.region in state.regions",
+      request,
+      state,
+    ),
+    true,
+  );
+  assertEquals(evaluate("request.amount > state.limit", request, state), false);
+  assertEquals(
+    evaluate('request.role != "admin" || !(request.amount >= 60)', request),
+    true,
+  );
+  assertEquals(evaluate('"ad" in request.role', request), true);
+  assertEquals(evaluate("request.missing == null", request), true);
+  assertEquals(evaluate("1 + 2 * 3 - 4 / 2 % 3", request), 5);
+  assertEquals(evaluate("-request.amount", request), -50);
+  assertEquals(evaluate("'a' + \"b\" + 'c\\'d'", request), "abc'd");
+  assertEquals(evaluate("[1, 2, request.amount][2]", request), 50);
+});
+
+Deno.test("expression - should short-circuit boolean logic", () => {
+  // Act & Assert
+  assertEquals(evaluate("false && request.missing < 1"), false);
+  assertEquals(evaluate("true || request.missing < 1"), true);
+});
+
+Deno.test("expression - should provide string functions", () => {
+  // Arrange
+  const request = { email: " Alice@Example.com " };
+
+  // Act & Assert
+  assertEquals(
+    evaluate("lower(trim(request.email))", request),
+    "alice@example.com",
+  );
+  assertEquals(evaluate("upper('a')"), "A");
+  assertEquals(evaluate("length(trim(request.email))", request), 17);
+  assertEquals(evaluate("length([1, 2, 3])"), 3);
+  assertEquals(evaluate("startsWith('user:1', 'user:')"), true);
+  assertEquals(evaluate("endsWith('report.pdf', '.pdf')"), true);
+  assertEquals(evaluate("contains('report.pdf', 'port')"), true);
+  assertEquals(evaluate("contains(['a', 'b'], 'c')"), false);
+  assertEquals(
+    evaluate("matches(trim(request.email), '@example\\\\.com$')", request),
+    false,
+  );
+  assertEquals(
+    evaluate(
+      "matches(lower(trim(request.email)), '@example\\\\.com$')",
+      request,
+    ),
+    true,
+  );
+});
+
+Deno.test("expression - should provide date functions", () => {
+  // Arrange
+  const now = new Date("2025-03-15T10:30:00Z");
+  const request = { date: new Date("2025-03-10T00:00:00Z") };
+
+  // Act
+  const run = (source: string) =>
+    compileExpression(source).evaluate({ request, state: {}, now });
+
+  // Assert
+  assertEquals(run("now() > request.date"), true);
+  assertEquals(run("date('2025-03-10') == request.date"), true);
+  assertEquals(run("year(now()) * 100 + month(now())"), 202503);
+  assertEquals(run("day(now())"), 15);
+  assertEquals(run("hour(now())"), 10);
+  assertEquals(run("weekday(now())"), 6);
+  assertEquals(run("addDays(request.date, 5) < now()"), true);
+  assertEquals(run("daysBetween(request.date, date('2025-03-12'))"), 2);
+});
+
+Deno.test("expression - should report syntax errors with their position", () => {
+  // Act & Assert
+  const cases: [string, string, number, number, number][] = [
+    ["request.amount <= ", "Unexpected end of expression", 18, 1, 19],
+    ["request.amount )", 'Unexpected token ")"', 15, 1, 16],
+    ["request.amount = 1", 'Unexpected character "="', 15, 1, 16],
+    ["'open", "Unterminated string", 0, 1, 1],
+    ["1 < 2 < 3", 'Comparisons cannot be chained, use "&&"', 6, 1, 7],
+    ["user.name", 'Unknown identifier "user"', 0, 1, 1],
+    ["true &&\n  exec('rm')", 'Unknown function "exec"', 10, 2, 3],
+    ["lower('a', 'b')", "lower() expects 1 argument, got 2", 0, 1, 1],
+    ["request.(1)", 'Unexpected token "("', 8, 1, 9],
+  ];
+
+  for (const [source, message, position, line, column] of cases) {
+    assertEquals(parseExpression(source), {
+      valid: false,
+      error: {
+        message: `${message} at ${line}:${column}`,
+        position,
+        line,
+        column,
+      },
+    });
+  }
+});
+
+Deno.test("expression - should report deeply nested expressions as syntax errors", () => {
+  // Act
+  const parentheses = parseExpression("(".repeat(1e5));
+  const negations = parseExpression("!".repeat(1e5) + "true");
+  const chain = parseExpression(Array(1e5).fill("1").join(" + "));
+  const nested = parseExpression("(".repeat(100) + "1" + ")".repeat(100));
+
+  // Assert
+  assertEquals(parentheses.valid, false);
+  assertEquals(
+    !parentheses.valid && parentheses.error.message,
+    "Expression nested too deeply at 1:257",
+  );
+  assertEquals(negations.valid, false);
+  assertEquals(chain.valid, false);
+  assertEquals(
+    !chain.valid && chain.error.message,
+    "Expression nested too deeply at 1:1",
+  );
+  assertEquals(
+    nested.valid && nested.expression.evaluate({ request: {}, state: {} }),
+    1,
+  );
+});
+
+Deno.test("expression - should take matches patterns from string literals only", () => {
+  // Act
+  const literal = parseExpression("matches(request.name, '^(a+)+$')");
+  const fromRequest = parseExpression("matches('aaaa!', request.pattern)");
+  const fromState = parseExpression("matches(request.name, state.pattern)");
+  const invalid = parseExpression("matches('a', '(')");
+
+  // Assert
+  assertEquals(literal.valid, true);
+  assertEquals(
+    !fromRequest.valid && fromRequest.error.message,
+    "The pattern of matches() must be a string literal at 1:18",
+  );
+  assertEquals(
+    !fromState.valid && fromState.error.message,
+    "The pattern of matches() must be a string literal at 1:23",
+  );
+  assertEquals(
+    !invalid.valid && invalid.error.message,
+    'Invalid pattern "(" at 1:14',
+  );
+});
+
+Deno.test("expression - should throw syntax errors when compiling", () => {
+  // Act & Assert
+  assertThrows(
+    () => compileExpression("request.amount <= "),
+    Error,
+    'Invalid expression "request.amount <= ": Unexpected end of expression at 1:19',
+  );
+});
+
+Deno.test("expression - should report type errors with their position", () => {
+  // Act & Assert
+  assertThrows(
+    () => evaluate("request.amount < 'ten'", { amount: 5 }),
+    Error,
+    "Cannot compare number and string at 1:1",
+  );
+  assertThrows(
+    () => evaluate("true && request.amount", { amount: 5 }),
+    Error,
+    "Expected a boolean, got number at 1:1",
+  );
+  assertThrows(
+    () => evaluate("1 in 5"),
+    Error,
+    '"in" expects an array, or strings, got number and number at 1:1',
+  );
+  assertThrows(
+    () => evaluate("lower(request.name)", {}),
+    Error,
+    "lower() expects strings, got null at 1:1",
+  );
+  assertThrows(
+    () => evaluate("date('soon')"),
+    Error,
+    'date() cannot read "soon" as a date at 1:1',
+  );
+});
+
+Deno.test("expression - should describe the request fields it reads and its time dependency", () => {
+  // Act
+  const fields = compileExpression(
+    "request.a == request['b'] && now() > state.c",
+  );
+  const computed = compileExpression("request[state.key] == 1");
+  const whole = compileExpression("length(request) == 1");
+
+  // Assert
+  assertEquals(fields.requestFields, ["a", "b"]);
+  assertEquals(fields.timeDependent, true);
+  assertEquals(computed.requestFields, ["*"]);
+  assertEquals(computed.timeDependent, false);
+  assertEquals(whole.requestFields, ["*"]);
+});
+
+Deno.test("expression - should cache parsed expressions", () => {
+  // Act
+  const first = compileExpression("request.a == 1");
+  const second = compileExpression("request.a == 1");
+
+  // Assert
+  assertEquals(first === second, true);
+});
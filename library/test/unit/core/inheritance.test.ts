@@ -0,0 +1,232 @@
+/**
+ * Tests for the inheritance modes and the inheritance opt-out
+ */
+import { compile } from "../../../core/compile.ts";
+import { hierarchy, satisfiedBy } from "../../../core/hierarchy.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import { allowOwner } from "../../../rules/allowOwner/allowOwner.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { denySelf } from "../../../rules/denySelf/denySelf.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const documents = hierarchy({
+  docs: permission({
+    rules: [allowTarget()],
+    children: {
+      share: permission({
+        rules: [denySelf(), allowOwner()],
+      }),
+      purge: permission({
+        rules: [allowTarget()],
+        inherit: false,
+        children: {
+          force: permission({
+            rules: [allowTarget()],
+          }),
+        },
+      }),
+    },
+  }),
+});
+
+const ancestorGrant = [{ "docs": { target: ["user:1", "user:2"] } }];
+
+Deno.test("inheritance - leaf mode should evaluate ancestor states with the leaf rules", () => {
+  // Arrange
+  const request = { from: "user:1", target: "user:2", owner: "user:3" };
+
+  // Act
+  const implicit = validate(documents, ancestorGrant, "docs.share", request);
+  const explicit = validate(documents, ancestorGrant, "docs.share", request, {
+    inheritance: "leaf",
+  });
+
+  // Assert
+  assertEquals(implicit.valid, false);
+  assertEquals(explicit.valid, false);
+});
+
+Deno.test("inheritance - ancestor mode should evaluate ancestor states with their own rules", () => {
+  // Arrange
+  const request = { from: "user:1", target: "user:2", owner: "user:3" };
+
+  // Act
+  const result = validate(documents, ancestorGrant, "docs.share", request, {
+    inheritance: "ancestor",
+  });
+
+  // Assert
+  assertEquals(result.valid, true);
+});
+
+Deno.test("inheritance - ancestor mode should keep the leaf rules for the leaf state", () => {
+  // Arrange
+  const states = [{ "docs.share": { target: ["user:2"] } }];
+  const request = { from: "user:1", target: "user:2", owner: "user:1" };
+
+  // Act
+  const result = validate(documents, states, "docs.share", request, {
+    inheritance: "ancestor",
+  });
+
+  // Assert
+  assertEquals(result.valid, true);
+});
+
+Deno.test("inheritance - both mode should let the leaf rules deny an ancestor grant", () => {
+  // Arrange
+  const allowed = { from: "user:1", target: "user:2", owner: "user:3" };
+  const selfShare = { from: "user:1", target: "user:1", owner: "user:3" };
+
+  // Act
+  const allowedResult = validate(
+    documents,
+    ancestorGrant,
+    "docs.share",
+    allowed,
+    { inheritance: "both" },
+  );
+  const selfShareResult = validate(
+    documents,
+    ancestorGrant,
+    "docs.share",
+    selfShare,
+    { inheritance: "both" },
+  );
+  const ancestorOnly = validate(
+    documents,
+    ancestorGrant,
+    "docs.share",
+    selfShare,
+    { inheritance: "ancestor" },
+  );
+
+  // Assert
+  assertEquals(allowedResult.valid, true);
+  assertEquals(selfShareResult.valid, false);
+  assertEquals(ancestorOnly.valid, true);
+});
+
+Deno.test("inheritance - both mode should need a grant from the combined rules", () => {
+  // Arrange
+  const ownerRequest = { from: "user:1", target: "user:9", owner: "user:1" };
+  const otherRequest = { from: "user:1", target: "user:9", owner: "user:3" };
+
+  // Act
+  const owned = validate(documents, ancestorGrant, "docs.share", ownerRequest, {
+    inheritance: "both",
+  });
+  const other = validate(documents, ancestorGrant, "docs.share", otherRequest, {
+    inheritance: "both",
+  });
+
+  // Assert
+  assertEquals(owned.valid, true);
+  assertEquals(other.valid, false);
+});
+
+Deno.test("inheritance - explain mode should trace the rules used per chain key", () => {
+  // Arrange
+  const request = { from: "user:1", target: "user:2", owner: "user:3" };
+
+  // Act
+  const result = validate(documents, ancestorGrant, "docs.share", request, {
+    inheritance: "both",
+    explain: true,
+  });
+
+  // Assert
+  const [docs, share] = result.trace!.sources[0].chain;
+  assertEquals(docs.key, "docs");
+  assertEquals(docs.entries[0].rules.map((r) => r.name), [
+    "allowTarget",
+    "denySelf",
+    "allowOwner",
+  ]);
+  assertEquals(share.key, "docs.share");
+  assertEquals(share.entries[0].rules.map((r) => r.name), [
+    "denySelf",
+    "allowOwner",
+  ]);
+});
+
+Deno.test("inherit: false - should stop the satisfiedBy chain at the permission", () => {
+  // Act & Assert
+  assertEquals(satisfiedBy(documents, "docs.purge"), ["docs.purge"]);
+  assertEquals(satisfiedBy(documents, "docs.purge.force"), [
+    "docs.purge",
+    "docs.purge.force",
+  ]);
+  assertEquals(satisfiedBy(documents, "docs.share"), ["docs", "docs.share"]);
+});
+
+Deno.test("inherit: false - should ignore ancestor grants in every mode", () => {
+  // Arrange
+  const request = { from: "user:1", target: "user:2" };
+
+  for (const inheritance of ["leaf", "ancestor", "both"] as const) {
+    // Act
+    const purge = validate(documents, ancestorGrant, "docs.purge", request, {
+      inheritance,
+    });
+    const force = validate(
+      documents,
+      ancestorGrant,
+      "docs.purge.force",
+      request,
+      { inheritance },
+    );
+
+    // Assert
+    assertEquals(purge.valid, false);
+    assertEquals(force.valid, false);
+  }
+});
+
+Deno.test("inherit: false - should accept explicit grants on the permission", () => {
+  // Arrange
+  const states = [{ "docs.purge": { target: ["user:2"] } }];
+
+  // Act
+  const purge = validate(documents, states, "docs.purge", {
+    from: "user:1",
+    target: "user:2",
+  });
+  const force = validate(documents, states, "docs.purge.force", {
+    from: "user:1",
+    target: "user:2",
+  });
+
+  // Assert
+  assertEquals(purge.valid, true);
+  assertEquals(force.valid, true);
+});
+
+Deno.test("compile - should honour the inheritance mode", () => {
+  // Arrange
+  const request = { from: "user:1", target: "user:2", owner: "user:3" };
+  const leaf = compile(documents);
+  const ancestor = compile(documents, { inheritance: "ancestor" });
+
+  // Act & Assert
+  assertEquals(
+    leaf.validate(ancestorGrant, "docs.share", request).valid,
+    false,
+  );
+  assertEquals(
+    ancestor.validate(ancestorGrant, "docs.share", request).valid,
+    true,
+  );
+  assertEquals(
+    leaf.validate(ancestorGrant, "docs.share", request, {
+      inheritance: "ancestor",
+    }).valid,
+    true,
+  );
+  assertEquals(
+    ancestor.validate(ancestorGrant, "docs.share", request, {
+      inheritance: "leaf",
+    }).valid,
+    false,
+  );
+});
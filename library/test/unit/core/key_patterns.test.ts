@@ -0,0 +1,166 @@
+/**
+ * Tests for key patterns in permission state sets
+ */
+import {
+  hierarchy,
+  isKeyPattern,
+  matchesKeyPattern,
+} from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import { validate, validateWithFlatStates } from "../../../core/validation.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { denySelf } from "../../../rules/denySelf/denySelf.ts";
+import type { PermissionStateSet } from "../../../types/common.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const admin = hierarchy({
+  admin: permission({
+    rules: [allowTarget()],
+    children: {
+      users: permission({
+        rules: [allowTarget()],
+        children: {
+          delete: permission({ rules: [denySelf(), allowTarget()] }),
+        },
+      }),
+      billing: permission({ rules: [allowTarget()] }),
+    },
+  }),
+  profile: permission({ rules: [allowTarget()] }),
+});
+
+type AdminStates = PermissionStateSet<typeof admin>;
+
+const request = { from: "user:1", target: "org:1" };
+
+Deno.test("isKeyPattern - should detect wildcard segments", () => {
+  assertEquals(isKeyPattern("admin.*"), true);
+  assertEquals(isKeyPattern("admin.**"), true);
+  assertEquals(isKeyPattern("**"), true);
+  assertEquals(isKeyPattern("admin.users"), false);
+  assertEquals(isKeyPattern("admin.user*"), false);
+});
+
+Deno.test("matchesKeyPattern - should match one level or any depth", () => {
+  assertEquals(matchesKeyPattern("admin.*", "admin.users"), true);
+  assertEquals(matchesKeyPattern("admin.*", "admin.users.delete"), false);
+  assertEquals(matchesKeyPattern("admin.**", "admin.users"), true);
+  assertEquals(matchesKeyPattern("admin.**", "admin.users.delete"), true);
+  assertEquals(matchesKeyPattern("admin.*", "admin"), false);
+  assertEquals(matchesKeyPattern("admin.**", "admin"), false);
+  assertEquals(matchesKeyPattern("admin.**", "profile"), false);
+  assertEquals(matchesKeyPattern("*", "profile"), true);
+  assertEquals(matchesKeyPattern("*", "admin.users"), false);
+  assertEquals(matchesKeyPattern("**", "admin.users.delete"), true);
+  assertEquals(matchesKeyPattern("admin.*.delete", "admin.users.delete"), true);
+});
+
+Deno.test("validate - should apply the state of a one-level pattern", () => {
+  // Arrange
+  const states: AdminStates[] = [{ "admin.*": { target: ["org:1"] } }];
+
+  // Act & Assert
+  assertEquals(validate(admin, states, "admin.users", request).valid, true);
+  assertEquals(validate(admin, states, "admin.billing", request).valid, true);
+  assertEquals(
+    validate(admin, states, "admin.users.delete", request).valid,
+    true, // Granted through admin.users, an ancestor
+  );
+  assertEquals(validate(admin, states, "admin", request).valid, false);
+  assertEquals(validate(admin, states, "profile", request).valid, false);
+});
+
+Deno.test("validate - should apply the state of an any-depth pattern", () => {
+  // Arrange
+  const states: AdminStates[] = [{ "admin.**": { target: ["org:1"] } }];
+
+  // Act & Assert
+  assertEquals(
+    validate(admin, states, "admin.users.delete", request).valid,
+    true,
+  );
+  assertEquals(
+    validate(admin, states, "admin.users.delete", {
+      from: "user:1",
+      target: "user:1",
+    }).valid,
+    false,
+  );
+  assertEquals(validate(admin, states, "admin", request).valid, false);
+});
+
+Deno.test("validate - should evaluate exact keys alongside patterns", () => {
+  // Arrange
+  const states: AdminStates[] = [{
+    "admin.users": { target: ["org:2"] },
+    "admin.**": [{ target: ["org:3"] }, { target: ["org:1"] }],
+  }];
+
+  // Act
+  const result = validate(admin, states, "admin.users", request, {
+    explain: true,
+  });
+
+  // Assert
+  assertEquals(result.valid, true);
+  assertEquals(
+    result.trace!.sources[0].chain.find((c) => c.key === "admin.users")!
+      .entries.map((entry) => entry.state),
+    [{ target: ["org:2"] }, { target: ["org:3"] }, { target: ["org:1"] }],
+  );
+});
+
+Deno.test("validate - should not apply default states to keys matched by a pattern", () => {
+  // Arrange
+  const defaults = hierarchy({
+    docs: {
+      read: permission({
+        rules: [allowTarget()],
+        defaultState: { target: ["doc:public"] },
+      }),
+    },
+  });
+
+  // Act
+  const result = validate(
+    defaults,
+    [{ "docs.*": { target: ["doc:1"] } }],
+    "docs.read",
+    { from: "user:1", target: "doc:public" },
+  );
+
+  // Assert
+  assertEquals(result.valid, false);
+});
+
+Deno.test("validateWithFlatStates - should accept key patterns in tuples", () => {
+  // Act
+  const result = validateWithFlatStates(
+    admin,
+    [[
+      ["admin.**", { target: ["org:1"] }],
+    ]],
+    "admin.billing",
+    request,
+  );
+
+  // Assert
+  assertEquals(result.valid, true);
+});
+
+Deno.test("PermissionStateSet - should reject patterns matching no key", () => {
+  const valid: AdminStates = {
+    "*": { target: [] },
+    "**": { target: [] },
+    "admin.*": { target: [] },
+    "admin.users.*": { target: [] },
+    "admin.users.**": { target: [] },
+  };
+  // @ts-expect-error admin.users.delete has no children
+  const leaf: AdminStates = { "admin.users.delete.*": { target: [] } };
+  // @ts-expect-error profile has no children
+  const childless: AdminStates = { "profile.**": { target: [] } };
+  // @ts-expect-error unknown prefix
+  const unknown: AdminStates = { "unknown.*": { target: [] } };
+  assertEquals([valid, leaf, childless, unknown].length, 4);
+});
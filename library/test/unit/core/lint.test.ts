@@ -0,0 +1,173 @@
+/**
+ * Tests for the hierarchy linter
+ *
+ * lintHierarchy() reports mistakes found in the permissions of a hierarchy and
+ * in the operator trees of their rules, with configurable lint rules.
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { LINT_RULES, lintHierarchy } from "../../../core/lint.ts";
+import { permission } from "../../../core/permission.ts";
+import { rule } from "../../../core/rule.ts";
+import { and, not, or } from "../../../operators/operations.ts";
+import { allowAttributes } from "../../../rules/allowAttributes/allowAttributes.ts";
+import { allowOwner } from "../../../rules/allowOwner/allowOwner.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { denySelf } from "../../../rules/denySelf/denySelf.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+
+Deno.test("lint - should report nothing for a sound hierarchy", () => {
+  // Arrange
+  const files = hierarchy({
+    files: permission({
+      rules: [],
+      children: {
+        read: permission({ rules: [allowTarget(), denySelf()] }),
+        write: permission({ rules: [and([allowTarget(), allowOwner()])] }),
+      },
+    }),
+  });
+
+  // Act
+  const findings = lintHierarchy(files);
+
+  // Assert
+  assertEquals(findings, []);
+});
+
+Deno.test("lint - should report permissions that can never be granted", () => {
+  // Arrange
+  const files = hierarchy({
+    files: {
+      read: permission({ rules: [allowTarget()] }),
+      archive: permission({ rules: [] }),
+    },
+  });
+
+  // Act
+  const findings = lintHierarchy(files);
+
+  // Assert
+  assertEquals(findings, [{
+    rule: "no-empty-permission",
+    severity: "warning",
+    key: "files.archive",
+    message: "Permission has no rules, it can never be granted",
+  }]);
+});
+
+Deno.test("lint - should report not() around rules only returning neutral", () => {
+  // Arrange
+  const audit = rule("audit", [], () => "neutral");
+  audit.outcomes = ["neutral"];
+  const files = hierarchy({
+    files: permission({ rules: [allowTarget(), not(audit)] }),
+  });
+
+  // Act
+  const findings = lintHierarchy(files);
+
+  // Assert
+  assertEquals(findings.map((finding) => [finding.rule, finding.rulePath]), [
+    ["no-neutral-not", "rules[1]"],
+  ]);
+});
+
+Deno.test("lint - should report denying rules that cannot change the result", () => {
+  // Arrange
+  const files = hierarchy({
+    files: {
+      // or() ignores denials
+      read: permission({ rules: [or([allowTarget(), denySelf()])] }),
+      // The first rule always decides
+      write: permission({
+        rules: [
+          allowAttributes([["request.level", "gte", "state.level"]]),
+          ensureTime(),
+        ],
+        combining: "first-applicable",
+      }),
+      // Denials are effective at the permission level and in and()
+      share: permission({
+        rules: [allowTarget(), and([allowOwner(), denySelf()]), ensureTime()],
+      }),
+    },
+  });
+
+  // Act
+  const findings = lintHierarchy(files);
+
+  // Assert
+  assertEquals(
+    findings.map((finding) => [finding.rule, finding.key, finding.rulePath]),
+    [
+      ["no-ineffective-deny", "files.write", "rules[1]"],
+      ["no-ineffective-deny", "files.read", "rules[0].operands[1]"],
+    ],
+  );
+});
+
+Deno.test("lint - should report schemas sharing a name with other guards", () => {
+  // Arrange
+  const looseTarget = rule(
+    "looseTarget",
+    [{
+      name: "target",
+      request: (obj: unknown): obj is { target?: string } =>
+        typeof obj === "object" && obj !== null,
+    }],
+    () => "neutral",
+  );
+  const files = hierarchy({
+    files: permission({ rules: [and([allowTarget(), looseTarget])] }),
+  });
+
+  // Act
+  const findings = lintHierarchy(files);
+
+  // Assert
+  assertEquals(findings.map((finding) => [finding.rule, finding.rulePath]), [
+    ["no-conflicting-schemas", "rules[0].operands[1]"],
+  ]);
+});
+
+Deno.test("lint - should apply rule settings and custom rules", () => {
+  // Arrange
+  const files = hierarchy({
+    files: {
+      read: permission({ rules: [or([allowTarget(), denySelf()])] }),
+      delete: permission({ rules: [] }),
+    },
+  });
+
+  // Act
+  const findings = lintHierarchy(files, {
+    rules: { "no-empty-permission": "off", "no-ineffective-deny": "warning" },
+    customRules: {
+      "no-inherited-delete": {
+        description: "Delete permissions must not be inherited",
+        severity: "error",
+        check({ key, permission, report }) {
+          if (key.endsWith(".delete") && permission.inherit) {
+            report("Set inherit: false on delete permissions");
+          }
+        },
+      },
+    },
+  });
+
+  // Assert
+  assertEquals(
+    findings.map((finding) => [finding.rule, finding.severity, finding.key]),
+    [
+      ["no-inherited-delete", "error", "files.delete"],
+      ["no-ineffective-deny", "warning", "files.read"],
+    ],
+  );
+  assertEquals(Object.keys(LINT_RULES).length, 4);
+  assertThrows(
+    () => lintHierarchy(files, { rules: { "no-such-rule": "off" } }),
+    Error,
+    'Unknown lint rule "no-such-rule"',
+  );
+});
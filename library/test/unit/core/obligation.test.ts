@@ -0,0 +1,280 @@
+/**
+ * Tests for obligations and advice attached to decisions
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { fulfill } from "../../../core/obligation.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import { asyncRule, rule } from "../../../core/rule.ts";
+import { validateAsync } from "../../../core/validation.ts";
+import { and, merge, not, or } from "../../../operators/operations.ts";
+import { assertEquals } from "jsr:@std/assert";
+import {
+  VALIDATION_RESULT,
+  type ValidationResultType,
+} from "../../../types/common.ts";
+
+const { NEUTRAL, GRANTED, REJECTED } = VALIDATION_RESULT;
+
+// Rule returning a fixed result with an obligation and an advice named after it
+const emitting = (name: string, result: ValidationResultType) =>
+  rule(name, [], () => ({
+    result,
+    obligations: [{ id: "log", attributes: { by: name } }],
+    advice: [{ id: "notify", attributes: { by: name } }],
+  }));
+
+const plain = (result: ValidationResultType) =>
+  rule(`plain-${result}`, [], () => result);
+
+// Test state and request objects
+const state = {} as never;
+const request = {} as never;
+
+Deno.test("obligations - should reach the validation result", () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({ rules: [emitting("grant", GRANTED)] }),
+  });
+
+  // Act
+  const result = validate(permissions, [{}], "resource", request);
+
+  // Assert
+  assertEquals(result.valid, true);
+  assertEquals(result.obligations, [{
+    id: "log",
+    attributes: { by: "grant" },
+  }]);
+  assertEquals(result.advice, [{ id: "notify", attributes: { by: "grant" } }]);
+});
+
+Deno.test("obligations - should be absent when no rule emits any", () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({ rules: [plain(GRANTED)] }),
+  });
+
+  // Act
+  const result = validate(permissions, [{}], "resource", request);
+
+  // Assert
+  assertEquals("obligations" in result, false);
+  assertEquals("advice" in result, false);
+});
+
+Deno.test("obligations - should drop those of rules that did not decide", () => {
+  // Arrange
+  const permissions = hierarchy({
+    overridden: permission({
+      rules: [emitting("grant", GRANTED), plain(REJECTED)],
+    }),
+    neutral: permission({
+      rules: [emitting("abstain", NEUTRAL), plain(GRANTED)],
+    }),
+    denied: permission({
+      rules: [emitting("grant", GRANTED), emitting("deny", REJECTED)],
+    }),
+  });
+
+  // Act
+  const overridden = validate(permissions, [{}], "overridden", request);
+  const neutral = validate(permissions, [{}], "neutral", request);
+  const denied = validate(permissions, [{}], "denied", request);
+
+  // Assert
+  assertEquals(overridden.obligations, undefined);
+  assertEquals(neutral.valid, true);
+  assertEquals(neutral.obligations, undefined);
+  assertEquals(denied.valid, false);
+  assertEquals(denied.obligations, [{ id: "log", attributes: { by: "deny" } }]);
+});
+
+Deno.test("obligations - should follow the merging of state sources", () => {
+  // Arrange
+  const decide = rule(
+    "decide",
+    [{
+      name: "decision",
+      state: (_obj: unknown): _obj is { result: ValidationResultType } => true,
+    }],
+    (state) => ({
+      result: state.result,
+      obligations: [{ id: "log", attributes: { result: state.result } }],
+    }),
+  );
+  const permissions = hierarchy({
+    resource: permission({ rules: [decide] }),
+  });
+  const states = [
+    { "resource": { result: REJECTED } },
+    { "resource": [{ result: GRANTED }, { result: GRANTED }] },
+  ];
+
+  // Act
+  const merged = validate(permissions, states as any, "resource", request);
+  const denied = validate(permissions, states as any, "resource", request, {
+    combining: { sources: "deny-overrides" },
+  });
+
+  // Assert
+  assertEquals(merged.valid, true);
+  assertEquals(merged.obligations, [{
+    id: "log",
+    attributes: { result: GRANTED },
+  }]);
+  assertEquals(denied.valid, false);
+  assertEquals(denied.obligations, [{
+    id: "log",
+    attributes: { result: REJECTED },
+  }]);
+});
+
+Deno.test("obligations - first-applicable should keep only the first applicable rule", () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({
+      rules: [
+        emitting("abstain", NEUTRAL),
+        emitting("first", GRANTED),
+        emitting("second", GRANTED),
+      ],
+      combining: "first-applicable",
+    }),
+  });
+
+  // Act
+  const result = validate(permissions, [{}], "resource", request);
+
+  // Assert
+  assertEquals(result.obligations, [{
+    id: "log",
+    attributes: { by: "first" },
+  }]);
+});
+
+Deno.test("operators - should keep the obligations of contributing operands", () => {
+  // Act & Assert
+  assertEquals(
+    and([emitting("a", GRANTED), emitting("b", GRANTED)]).check(state, request),
+    {
+      result: GRANTED,
+      obligations: [
+        { id: "log", attributes: { by: "a" } },
+        { id: "log", attributes: { by: "b" } },
+      ],
+      advice: [
+        { id: "notify", attributes: { by: "a" } },
+        { id: "notify", attributes: { by: "b" } },
+      ],
+    },
+  );
+  assertEquals(
+    or([emitting("a", NEUTRAL), emitting("b", GRANTED)]).check(
+      state,
+      request,
+    ),
+    {
+      result: GRANTED,
+      obligations: [{ id: "log", attributes: { by: "b" } }],
+      advice: [{ id: "notify", attributes: { by: "b" } }],
+    },
+  );
+  assertEquals(
+    merge([emitting("a", GRANTED), plain(REJECTED)]).check(state, request),
+    REJECTED,
+  );
+  assertEquals(
+    and([emitting("a", GRANTED), plain(NEUTRAL)]).check(state, request),
+    NEUTRAL,
+  );
+  assertEquals(
+    (not(emitting("a", GRANTED)).check(state, request) as any).obligations,
+    [{ id: "log", attributes: { by: "a" } }],
+  );
+});
+
+Deno.test("obligations - should be deduplicated", () => {
+  // Arrange
+  const audit = rule("audit", [], () => ({
+    result: GRANTED,
+    obligations: [{ id: "log" }],
+  }));
+  const permissions = hierarchy({
+    resource: permission({ rules: [and([audit, audit])] }),
+  });
+
+  // Act
+  const result = validate(permissions, [{}, {}], "resource", request);
+
+  // Assert
+  assertEquals(result.obligations, [{ id: "log" }]);
+});
+
+Deno.test("validateAsync - should carry obligations of asynchronous rules", async () => {
+  // Arrange
+  const lookup = asyncRule("lookup", [], () =>
+    Promise.resolve({
+      result: GRANTED,
+      obligations: [{ id: "log" }],
+    }));
+  const permissions = hierarchy({
+    resource: permission({ rules: [lookup] }),
+  });
+
+  // Act
+  const result = await validateAsync(permissions, [{}], "resource", request);
+
+  // Assert
+  assertEquals(result.valid, true);
+  assertEquals(result.obligations, [{ id: "log" }]);
+});
+
+Deno.test("fulfill - should call the handlers of obligations and advice", async () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({ rules: [emitting("grant", GRANTED)] }),
+  });
+  const calls: string[] = [];
+
+  // Act
+  const result = await fulfill(
+    validate(permissions, [{}], "resource", request),
+    {
+      log: (attributes) => {
+        calls.push(`log:${attributes.by}`);
+      },
+      notify: () => Promise.reject(new Error("Advice failure")),
+    },
+  );
+
+  // Assert
+  assertEquals(result.valid, true);
+  assertEquals(calls, ["log:grant"]);
+});
+
+Deno.test("fulfill - should deny when an obligation cannot be fulfilled", async () => {
+  // Arrange
+  const permissions = hierarchy({
+    resource: permission({ rules: [emitting("grant", GRANTED)] }),
+  });
+  const granted = validate(permissions, [{}], "resource", request);
+
+  // Act
+  const missing = await fulfill(granted, {});
+  const failing = await fulfill(granted, {
+    log: () => {
+      throw new Error("Audit log unavailable");
+    },
+  });
+
+  // Assert
+  assertEquals(missing.valid, false);
+  assertEquals(missing.resultType, REJECTED);
+  assertEquals(missing.reasons, [{
+    type: "obligation",
+    name: "log",
+    message: "No handler for obligation log",
+  }]);
+  assertEquals(failing.valid, false);
+  assertEquals(failing.reasons[0].message, "Audit log unavailable");
+});
@@ -0,0 +1,242 @@
+/**
+ * Tests for partial evaluation into residual conditions
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { partialEvaluate } from "../../../core/partial.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import {
+  equals,
+  FALSE,
+  like,
+  literal,
+  or,
+  toPredicate,
+} from "../../../core/residual.ts";
+import { asyncRule, rule } from "../../../core/rule.ts";
+import { and, merge, not } from "../../../operators/operations.ts";
+import { allowOwner } from "../../../rules/allowOwner/allowOwner.ts";
+import { allowSelf } from "../../../rules/allowSelf/allowSelf.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { denySelf } from "../../../rules/denySelf/denySelf.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { target } from "../../../schemas/target/target.ts";
+import type { CombiningOptions } from "../../../types/common.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+
+// Blocks every target of the quarantine folder
+const quarantine = rule(
+  "quarantine",
+  [target()],
+  (_state, request) =>
+    request.target.startsWith("file:quarantine/") ? "blocked" : "neutral",
+);
+quarantine.partial = (_state, request, unknowns) => ({
+  granted: FALSE,
+  rejected: FALSE,
+  blocked: unknowns.has("target")
+    ? like("target", "file:quarantine/*", "*")
+    : literal(String(request.target).startsWith("file:quarantine/")),
+});
+
+const files = hierarchy({
+  files: permission({
+    rules: [denySelf(), quarantine, allowTarget({ wildcards: true })],
+    children: {
+      edit: permission({
+        rules: [denySelf(), merge([allowOwner(), allowTarget()])],
+      }),
+      share: permission({
+        rules: [and([allowTarget({ wildcards: true }), not(allowSelf())])],
+      }),
+    },
+  }),
+});
+
+// Rows a list endpoint would filter
+const rows = [
+  "user:1",
+  "file:a",
+  "file:b",
+  "file:public/x",
+  "file:quarantine/y",
+].flatMap((target) =>
+  ["user:1", "user:2", "file:a"].map((owner) => ({ target, owner }))
+);
+
+/**
+ * Asserts that the residual condition grants exactly the rows `validate` grants
+ */
+function assertMatchesValidate(
+  key: "files" | "files.edit" | "files.share",
+  states: any[],
+  unknowns: ("target" | "owner")[],
+  combining?: CombiningOptions,
+) {
+  const condition = partialEvaluate(files, states, key, { from: "user:1" }, {
+    unknowns,
+    combining,
+  });
+  const predicate = toPredicate(condition);
+  for (const row of rows) {
+    const expected = validate(files, states, key, {
+      from: "user:1",
+      ...row,
+    } as any, { combining }).valid;
+    assertEquals(predicate(row), expected, JSON.stringify({ key, row }));
+  }
+}
+
+Deno.test("partialEvaluate - should produce the condition of allowTarget", () => {
+  // Arrange
+  const docs = hierarchy({
+    docs: permission({ rules: [allowTarget({ wildcards: true })] }),
+  });
+  const states = [{ "docs": { target: ["doc:a", "doc:public/*"] } }];
+
+  // Act
+  const condition = partialEvaluate(docs, states, "docs", {
+    from: "user:1",
+  }, { unknowns: ["target"] });
+
+  // Assert
+  assertEquals(
+    condition,
+    or(equals("target", "doc:a"), like("target", "doc:public/*", "*")),
+  );
+});
+
+Deno.test("partialEvaluate - should agree with validate on every row", () => {
+  // Arrange
+  const states = [
+    {
+      "files": { target: ["file:public/*", "file:quarantine/*", "user:*"] },
+      "files.edit": [{ target: ["file:a"] }, { target: ["file:b"] }],
+      "files.share": { target: ["file:*", "user:*"] },
+    },
+    { "files.edit": { target: ["user:1"] } },
+  ];
+
+  // Act & Assert
+  for (const key of ["files", "files.edit", "files.share"] as const) {
+    assertMatchesValidate(key, states, ["target", "owner"]);
+    assertMatchesValidate(key, states, ["target", "owner"], {
+      entries: "deny-overrides",
+      chain: "first-applicable",
+      sources: "permit-overrides",
+    });
+    assertMatchesValidate(key, states, ["target", "owner"], {
+      sources: "deny-overrides",
+    });
+  }
+});
+
+Deno.test("partialEvaluate - should fold known fields into literals", () => {
+  // Arrange
+  const states = [{ "files.edit": { target: [] } }];
+
+  // Act
+  const mine = partialEvaluate(files, states, "files.edit", {
+    from: "user:1",
+    owner: "user:1",
+  }, { unknowns: ["target"] });
+  const theirs = partialEvaluate(files, states, "files.edit", {
+    from: "user:1",
+    owner: "user:2",
+  }, { unknowns: ["target"] });
+
+  // Assert
+  assertEquals(mine, {
+    type: "not",
+    condition: { type: "equals", field: "target", value: "user:1" },
+  });
+  assertEquals(theirs, { type: "literal", value: false });
+});
+
+Deno.test("partialEvaluate - should apply rule combining algorithms", () => {
+  // Arrange
+  const docs = hierarchy({
+    docs: permission({
+      rules: [allowOwner(), denySelf()],
+      combining: "first-applicable",
+    }),
+  });
+
+  // Act
+  const condition = partialEvaluate(docs, [{}], "docs", {
+    from: "user:1",
+  }, { unknowns: ["owner", "target"] });
+  const predicate = toPredicate(condition);
+
+  // Assert
+  assertEquals(predicate({ owner: "user:1", target: "user:1" }), true);
+  assertEquals(predicate({ owner: "user:2", target: "user:1" }), false);
+});
+
+Deno.test("partialEvaluate - should evaluate rules concretely when they do not need unknowns", () => {
+  // Arrange
+  const docs = hierarchy({
+    docs: permission({ rules: [ensureTime(), allowTarget()] }),
+  });
+  const open = [{ "docs": { target: ["doc:1"] } }];
+  const closed = [{
+    "docs": { target: ["doc:1"], dateEnd: new Date("2000-01-01") },
+  }];
+
+  // Act & Assert
+  assertEquals(
+    partialEvaluate(docs, open, "docs", { from: "user:1" }, {
+      unknowns: ["target"],
+    }),
+    equals("target", "doc:1"),
+  );
+  assertEquals(
+    partialEvaluate(docs, closed, "docs", { from: "user:1" }, {
+      unknowns: ["target"],
+    }),
+    { type: "literal", value: false },
+  );
+});
+
+Deno.test("partialEvaluate - should reject rules that cannot be partially evaluated", () => {
+  // Arrange
+  const custom = rule(
+    "custom",
+    [target()],
+    (_state, request) => request.target === "doc:1" ? "granted" : "neutral",
+  );
+  const lookup = asyncRule("lookup", [], () => Promise.resolve("granted"));
+  const docs = hierarchy({
+    custom: permission({ rules: [custom] }),
+    lookup: permission({ rules: [lookup] }),
+    combined: permission({
+      rules: [allowTarget()],
+      combining: () => "granted",
+    }),
+  });
+
+  // Act & Assert
+  assertThrows(
+    () =>
+      partialEvaluate(docs, [{}], "custom", { from: "user:1" } as any, {
+        unknowns: ["target"],
+      }),
+    Error,
+    "Rule custom cannot be partially evaluated without target",
+  );
+  assertThrows(
+    () =>
+      partialEvaluate(docs, [{}], "lookup", {} as never, {
+        unknowns: ["target"],
+      }),
+    Error,
+    "Rule lookup is asynchronous and cannot be partially evaluated",
+  );
+  assertThrows(
+    () =>
+      partialEvaluate(docs, [{}], "combined", { from: "user:1" }, {
+        unknowns: ["target"],
+      }),
+    Error,
+    "Custom combiners cannot be partially evaluated",
+  );
+});
@@ -0,0 +1,294 @@
+/**
+ * Tests for JSON policies
+ *
+ * loadHierarchy() builds a hierarchy from a policy with a registry of rules,
+ * dumpHierarchy() describes a hierarchy as a policy.
+ */
+import {
+  createRegistry,
+  dumpHierarchy,
+  loadHierarchy,
+} from "../../../core/policy.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import {
+  createTupleStore,
+  direct,
+  parseTuple,
+} from "../../../core/relation.ts";
+import { rule } from "../../../core/rule.ts";
+import { and, not, or } from "../../../operators/operations.ts";
+import { allowOwner } from "../../../rules/allowOwner/allowOwner.ts";
+import { allowRelation } from "../../../rules/allowRelation/allowRelation.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { denySelf } from "../../../rules/denySelf/denySelf.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { owner } from "../../../schemas/owner/owner.ts";
+import type { HierarchyDefinition } from "../../../types/policy.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+
+const policy: HierarchyDefinition = {
+  files: {
+    read: {
+      type: "permission",
+      rules: [
+        {
+          operator: "or",
+          rules: [
+            { rule: "allowOwner" },
+            { rule: "allowTarget", options: { wildcards: true } },
+          ],
+        },
+        { operator: "not", rules: [{ rule: "denySelf" }] },
+      ],
+      children: {
+        preview: { type: "permission", inherit: false },
+      },
+    },
+    share: {
+      type: "permission",
+      rules: [
+        {
+          operator: "and",
+          rules: [
+            { rule: "allowSelf" },
+            { rule: "ensureTime" },
+          ],
+        },
+        {
+          operator: "merge",
+          rules: [
+            {
+              rule: "allowAttributes",
+              options: {
+                comparisons: [["request.size", "lte", "state.maxSize"]],
+              },
+            },
+            {
+              rule: "expr",
+              options: {
+                source: "request.size > 0",
+                otherwise: "rejected",
+              },
+            },
+          ],
+        },
+      ],
+      schemas: ["owner"],
+      defaultState: { maxSize: 10 },
+      combining: "deny-overrides",
+    },
+  },
+};
+
+Deno.test("policy - should round-trip a policy using every built-in rule", () => {
+  // Arrange
+  const json = JSON.stringify(policy);
+
+  // Act
+  const dumped = dumpHierarchy(loadHierarchy(json));
+
+  // Assert
+  assertEquals(dumped, policy);
+  assertEquals(JSON.stringify(dumpHierarchy(loadHierarchy(dumped))), json);
+});
+
+Deno.test("policy - should validate requests against a loaded hierarchy", () => {
+  // Arrange
+  const shape = hierarchy({
+    files: { read: permission({ rules: [allowTarget()] }) },
+  });
+  const files = loadHierarchy<typeof shape.hierarchy>({
+    files: {
+      read: {
+        type: "permission",
+        rules: [{ rule: "allowTarget" }],
+      },
+    },
+  });
+  const states = [{ "files.read": { target: ["doc-1"] } }];
+
+  // Act
+  const granted = validate(files, states, "files.read", {
+    from: "alice",
+    target: "doc-1",
+  });
+  const denied = validate(files, states, "files.read", {
+    from: "alice",
+    target: "doc-2",
+  });
+
+  // Assert
+  assertEquals(granted.valid, true);
+  assertEquals(denied.valid, false);
+});
+
+Deno.test("policy - should dump a hierarchy built in code", () => {
+  // Arrange
+  const files = hierarchy({
+    files: {
+      read: permission({
+        rules: [or([allowOwner(), allowTarget()])],
+        schemas: [owner()],
+        defaultState: { target: [], label: "files" },
+      }),
+      delete: permission({
+        rules: [and([not(denySelf()), ensureTime()])],
+        inherit: false,
+      }),
+    },
+  });
+
+  // Act
+  const dumped = dumpHierarchy(files);
+
+  // Assert
+  assertEquals(dumped, {
+    files: {
+      read: {
+        type: "permission",
+        rules: [{
+          operator: "or",
+          rules: [{ rule: "allowOwner" }, { rule: "allowTarget" }],
+        }],
+        defaultState: { label: "files" },
+      },
+      delete: {
+        type: "permission",
+        rules: [{
+          operator: "and",
+          rules: [
+            { operator: "not", rules: [{ rule: "denySelf" }] },
+            { rule: "ensureTime" },
+          ],
+        }],
+        inherit: false,
+      },
+    },
+  });
+});
+
+Deno.test("policy - should load custom rules from the registry", () => {
+  // Arrange
+  const store = createTupleStore([
+    parseTuple("doc:readme#viewer@user:alice"),
+  ]);
+  const registry = createRegistry({
+    rules: {
+      allowRelation: ({ relation }) =>
+        allowRelation(relation, {
+          model: { doc: { viewer: direct() } },
+          store,
+        }),
+    },
+  });
+  const definition: HierarchyDefinition = {
+    docs: {
+      view: {
+        type: "permission",
+        rules: [{ rule: "allowRelation", options: { relation: "viewer" } }],
+      },
+    },
+  };
+
+  // Act
+  const docs = loadHierarchy(definition, registry);
+
+  // Assert
+  assertEquals(dumpHierarchy(docs), definition);
+});
+
+Deno.test("policy - should reject unknown rules, operators and schemas", () => {
+  // Arrange
+  const withRule = (rule: unknown) =>
+    ({
+      files: { read: { type: "permission", rules: [rule] } },
+    }) as HierarchyDefinition;
+
+  // Act & Assert
+  assertThrows(
+    () => loadHierarchy(withRule({ rule: "allowEveryone" })),
+    Error,
+    'Unknown rule "allowEveryone" in permission "files.read"',
+  );
+  assertThrows(
+    () => loadHierarchy(withRule({ operator: "xor", rules: [] })),
+    Error,
+    'Unknown operator "xor" in permission "files.read"',
+  );
+  assertThrows(
+    () =>
+      loadHierarchy({
+        files: { type: "permission", schemas: ["geo"] },
+      }),
+    Error,
+    'Unknown schema "geo" in permission "files"',
+  );
+  assertThrows(
+    () =>
+      loadHierarchy(withRule({
+        operator: "not",
+        rules: [{ rule: "allowSelf" }, { rule: "allowOwner" }],
+      })),
+    Error,
+    'Operator "not" in permission "files.read" takes exactly one rule',
+  );
+  assertThrows(
+    () => loadHierarchy({ files: { read: "allowSelf" } } as never),
+    Error,
+    'Invalid policy node at "files.read"',
+  );
+});
+
+Deno.test("policy - should report invalid rule options", () => {
+  // Act & Assert
+  assertThrows(
+    () =>
+      loadHierarchy({
+        reports: {
+          type: "permission",
+          rules: [{ rule: "expr", options: { source: "request.size >" } }],
+        },
+      }),
+    Error,
+    'Invalid options for rule "expr" in permission "reports": Invalid expression',
+  );
+  assertThrows(
+    () =>
+      loadHierarchy({
+        reports: {
+          type: "permission",
+          rules: [{ rule: "allowAttributes" }],
+        },
+      }),
+    Error,
+    '"comparisons" must be an array',
+  );
+});
+
+Deno.test("policy - should refuse to dump what a policy cannot describe", () => {
+  // Arrange
+  const custom = hierarchy({
+    files: permission({
+      rules: [rule("custom", [owner()], () => "granted")],
+    }),
+  });
+  const combined = hierarchy({
+    files: permission({
+      rules: [allowOwner()],
+      combining: (results) => results[0] ?? "neutral",
+    }),
+  });
+
+  // Act & Assert
+  assertThrows(
+    () => dumpHierarchy(custom),
+    Error,
+    'Rule "custom" in permission "files" has no definition and cannot be dumped',
+  );
+  assertThrows(
+    () => dumpHierarchy(combined),
+    Error,
+    'Permission "files" uses a custom combining algorithm and cannot be dumped',
+  );
+});
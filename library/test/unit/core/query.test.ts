@@ -0,0 +1,215 @@
+/**
+ * Tests for reverse queries listing accessible targets
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import {
+  accessibleTargets,
+  accessibleTargetsAsync,
+} from "../../../core/query.ts";
+import { asyncRule, rule } from "../../../core/rule.ts";
+import { or } from "../../../operators/operations.ts";
+import { allowOwner } from "../../../rules/allowOwner/allowOwner.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { denySelf } from "../../../rules/denySelf/denySelf.ts";
+import { target } from "../../../schemas/target/target.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+
+// Blocks every target of the quarantine folder
+const quarantine = rule(
+  "quarantine",
+  [target()],
+  (_state, request) =>
+    request.target.startsWith("file:quarantine/") ? "blocked" : "neutral",
+);
+
+const files = hierarchy({
+  files: permission({
+    rules: [allowTarget({ wildcards: true })],
+    children: {
+      read: permission({
+        rules: [denySelf(), quarantine, allowTarget({ wildcards: true })],
+      }),
+      list: permission({
+        rules: [allowTarget()],
+        defaultState: { target: ["file:index"] },
+      }),
+    },
+  }),
+});
+
+Deno.test("accessibleTargets - should list granted targets and patterns", () => {
+  // Arrange
+  const states = [
+    {
+      "files": { target: ["file:public/*"] },
+      "files.read": { target: ["file:report.pdf"] },
+    },
+    { "files.read": [{ target: ["file:private/*", "file:report.pdf"] }] },
+  ];
+
+  // Act
+  const result = accessibleTargets(files, states, "files.read", {
+    from: "user:1",
+  });
+
+  // Assert
+  assertEquals(result, {
+    targets: ["file:report.pdf"],
+    patterns: ["file:public/*", "file:private/*"],
+    restricted: [],
+    shadowed: [],
+  });
+});
+
+Deno.test("accessibleTargets - should report shadowed targets separately", () => {
+  // Arrange
+  const states = [{
+    "files.read": { target: ["user:1", "file:quarantine/*", "file:a"] },
+  }];
+
+  // Act
+  const result = accessibleTargets(files, states, "files.read", {
+    from: "user:1",
+  });
+
+  // Assert
+  assertEquals(result.targets, ["file:a"]);
+  assertEquals(result.patterns, []);
+  assertEquals(
+    result.shadowed.map(({ target, pattern, resultType }) => ({
+      target,
+      pattern,
+      resultType,
+    })),
+    [
+      { target: "user:1", pattern: false, resultType: "rejected" },
+      { target: "file:quarantine/*", pattern: true, resultType: "blocked" },
+    ],
+  );
+  assertEquals(result.shadowed[0].reasons[0].name, "denySelf");
+});
+
+Deno.test("accessibleTargets - should restrict patterns overlapping denied entries", () => {
+  // Arrange
+  const states = [{
+    "files.read": [
+      { target: ["file:docs/*", "file:public/*"] },
+      {
+        target: ["file:docs/secret/*", "file:docs/plan.pdf"],
+        effect: "block" as const,
+      },
+    ],
+  }];
+
+  // Act
+  const result = accessibleTargets(files, states, "files.read", {
+    from: "user:1",
+  });
+
+  // Assert
+  assertEquals(result.patterns, ["file:public/*"]);
+  assertEquals(result.restricted, [{
+    pattern: "file:docs/*",
+    except: ["file:docs/secret/*", "file:docs/plan.pdf"],
+  }]);
+  assertEquals(
+    result.shadowed.map(({ target }) => target),
+    ["file:docs/secret/*", "file:docs/plan.pdf"],
+  );
+});
+
+Deno.test("accessibleTargets - should include default states", () => {
+  // Act
+  const result = accessibleTargets(files, [{}], "files.list", {
+    from: "user:1",
+  });
+
+  // Assert
+  assertEquals(result.targets, ["file:index"]);
+});
+
+Deno.test("accessibleTargets - should report literal targets without wildcards", () => {
+  // Arrange
+  const states = [{ "files.list": { target: ["file:*"] } }];
+
+  // Act
+  const result = accessibleTargets(files, states, "files.list", {
+    from: "user:1",
+  });
+
+  // Assert
+  assertEquals(result.targets, ["file:*"]);
+  assertEquals(result.patterns, []);
+});
+
+Deno.test("accessibleTargets - should recognize patterns of allowTarget rules nested in operators", () => {
+  // Arrange
+  const shared = hierarchy({
+    shared: permission({
+      rules: [or([allowTarget({ wildcards: true }), allowOwner()])],
+    }),
+  });
+  const states = [{ shared: { target: ["file:public/*", "file:notes.txt"] } }];
+
+  // Act
+  const result = accessibleTargets(shared, states, "shared", {
+    from: "user:1",
+    owner: "user:2",
+  });
+
+  // Assert
+  assertEquals(result.targets, ["file:notes.txt"]);
+  assertEquals(result.patterns, ["file:public/*"]);
+});
+
+Deno.test("accessibleTargets - should honour the inheritance options", () => {
+  // Arrange
+  const states = [{ "files": { target: ["file:public/*"] } }];
+
+  // Act
+  const leaf = accessibleTargets(files, states, "files.list", {
+    from: "user:1",
+  });
+  const ancestor = accessibleTargets(files, states, "files.list", {
+    from: "user:1",
+  }, { inheritance: "ancestor" });
+
+  // Assert
+  assertEquals(leaf.patterns, []);
+  assertEquals(leaf.targets, ["file:public/*", "file:index"]);
+  assertEquals(ancestor.patterns, ["file:public/*"]);
+});
+
+Deno.test("accessibleTargets - should throw for unknown keys", () => {
+  assertThrows(
+    () => accessibleTargets(files, [], "files.unknown" as any, {} as any),
+    Error,
+    'Permission "files.unknown" not found in hierarchy',
+  );
+});
+
+Deno.test("accessibleTargetsAsync - should support asynchronous rules", async () => {
+  // Arrange
+  const lookup = asyncRule(
+    "lookup",
+    [target()],
+    (_state, request) =>
+      Promise.resolve(
+        request.target === "doc:archived" ? "rejected" : "neutral",
+      ),
+  );
+  const docs = hierarchy({
+    docs: permission({ rules: [lookup, allowTarget()] }),
+  });
+  const states = [{ "docs": { target: ["doc:1", "doc:archived"] } }];
+
+  // Act
+  const result = await accessibleTargetsAsync(docs, states, "docs", {
+    from: "user:1",
+  });
+
+  // Assert
+  assertEquals(result.targets, ["doc:1"]);
+  assertEquals(result.shadowed.map((s) => s.target), ["doc:archived"]);
+});
@@ -0,0 +1,288 @@
+/**
+ * Tests for relationship tuples, checks and expansion
+ */
+import {
+  check,
+  computed,
+  createTupleStore,
+  direct,
+  exclusion,
+  expand,
+  formatTuple,
+  intersection,
+  parseTuple,
+  tupleToUserset,
+  union,
+} from "../../../core/relation.ts";
+import type { RelationModel } from "../../../types/relation.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+
+const model: RelationModel = {
+  group: { member: direct() },
+  folder: {
+    owner: direct(),
+    editor: union(direct(), computed("owner")),
+    viewer: union(direct(), computed("editor")),
+  },
+  doc: {
+    parent: direct(),
+    banned: direct(),
+    editor: union(direct(), tupleToUserset("parent", "editor")),
+    viewer: exclusion(
+      union(direct(), computed("editor"), tupleToUserset("parent", "viewer")),
+      computed("banned"),
+    ),
+    auditor: intersection(
+      computed("viewer"),
+      tupleToUserset("parent", "owner"),
+    ),
+  },
+};
+
+function tuples(...written: string[]) {
+  return createTupleStore(written.map(parseTuple));
+}
+
+Deno.test("relation - should parse and format tuples", () => {
+  // Arrange
+  const written = "doc:1#viewer@group:eng#member";
+
+  // Act
+  const tuple = parseTuple(written);
+
+  // Assert
+  assertEquals(tuple, {
+    object: "doc:1",
+    relation: "viewer",
+    subject: "group:eng#member",
+  });
+  assertEquals(formatTuple(tuple), written);
+});
+
+Deno.test("relation - should reject malformed tuples", () => {
+  // Act & Assert
+  for (
+    const written of [
+      "doc:1",
+      "#viewer@user:1",
+      "doc:1#@user:1",
+      "doc:1#viewer@",
+    ]
+  ) {
+    assertThrows(
+      () => parseTuple(written),
+      Error,
+      `Invalid relation tuple "${written}"`,
+    );
+  }
+});
+
+Deno.test("relation - should write, read and delete tuples in the store", () => {
+  // Arrange
+  const store = tuples("doc:1#viewer@user:1", "doc:1#viewer@user:1");
+
+  // Act
+  store.write(parseTuple("doc:1#viewer@user:2"));
+  const removed = store.delete(parseTuple("doc:1#viewer@user:1"));
+  const missing = store.delete(parseTuple("doc:1#viewer@user:3"));
+
+  // Assert
+  assertEquals(removed, true);
+  assertEquals(missing, false);
+  assertEquals(store.read("doc:1", "viewer").map(formatTuple), [
+    "doc:1#viewer@user:2",
+  ]);
+  assertEquals(store.read("doc:2", "viewer"), []);
+  assertEquals(store.tuples().map(formatTuple), ["doc:1#viewer@user:2"]);
+});
+
+Deno.test("relation - should check direct tuples", () => {
+  // Arrange
+  const store = tuples("doc:1#viewer@user:1");
+
+  // Act
+  const allowed = check(model, store, "doc:1", "viewer", "user:1");
+  const denied = check(model, store, "doc:1", "viewer", "user:2");
+
+  // Assert
+  assertEquals(allowed, {
+    allowed: true,
+    path: [parseTuple("doc:1#viewer@user:1")],
+  });
+  assertEquals(denied, { allowed: false, path: [] });
+});
+
+Deno.test("relation - should check through usersets, computed relations and related objects", () => {
+  // Arrange
+  const store = tuples(
+    "doc:1#parent@folder:1",
+    "folder:1#owner@group:eng#member",
+    "group:eng#member@user:1",
+  );
+
+  // Act
+  const result = check(model, store, "doc:1", "viewer", "user:1");
+
+  // Assert
+  assertEquals(result.allowed, true);
+  assertEquals(result.path.map(formatTuple), [
+    "doc:1#parent@folder:1",
+    "folder:1#owner@group:eng#member",
+    "group:eng#member@user:1",
+  ]);
+});
+
+Deno.test("relation - should check usersets as subjects", () => {
+  // Arrange
+  const store = tuples("doc:1#viewer@group:eng#member");
+
+  // Act
+  const result = check(model, store, "doc:1", "viewer", "group:eng#member");
+
+  // Assert
+  assertEquals(result.allowed, true);
+});
+
+Deno.test("relation - should remove excluded subjects", () => {
+  // Arrange
+  const store = tuples(
+    "doc:1#viewer@group:eng#member",
+    "group:eng#member@user:1",
+    "group:eng#member@user:2",
+    "doc:1#banned@user:2",
+  );
+
+  // Act & Assert
+  assertEquals(check(model, store, "doc:1", "viewer", "user:1").allowed, true);
+  assertEquals(check(model, store, "doc:1", "viewer", "user:2").allowed, false);
+});
+
+Deno.test("relation - should require every branch of an intersection", () => {
+  // Arrange
+  const store = tuples(
+    "doc:1#parent@folder:1",
+    "doc:1#viewer@user:1",
+    "doc:1#viewer@user:2",
+    "folder:1#owner@user:2",
+  );
+
+  // Act
+  const viewerOnly = check(model, store, "doc:1", "auditor", "user:1");
+  const both = check(model, store, "doc:1", "auditor", "user:2");
+
+  // Assert
+  assertEquals(viewerOnly.allowed, false);
+  assertEquals(both.allowed, true);
+  assertEquals(both.path.map(formatTuple), [
+    "doc:1#viewer@user:2",
+    "doc:1#parent@folder:1",
+    "folder:1#owner@user:2",
+  ]);
+});
+
+Deno.test("relation - should only use stored tuples for relations missing from the model", () => {
+  // Arrange
+  const store = tuples("repo:1#admin@user:1");
+
+  // Act & Assert
+  assertEquals(check(model, store, "repo:1", "admin", "user:1").allowed, true);
+  assertEquals(check({}, store, "repo:1", "admin", "user:2").allowed, false);
+});
+
+Deno.test("relation - should stop on cyclic relations", () => {
+  // Arrange
+  const store = tuples(
+    "group:a#member@group:b#member",
+    "group:b#member@group:a#member",
+  );
+
+  // Act
+  const result = check(model, store, "group:a", "member", "user:1");
+
+  // Assert
+  assertEquals(result, { allowed: false, path: [] });
+});
+
+Deno.test("relation - should deny exclusions whose subtracted relation is cyclic", () => {
+  // Arrange
+  const cyclic: RelationModel = {
+    doc: {
+      blocked: union(direct(), computed("hidden")),
+      hidden: computed("blocked"),
+      viewer: exclusion(direct(), computed("blocked")),
+      reader: exclusion(direct(), computed("banned")),
+      banned: direct(),
+    },
+  };
+  const store = tuples("doc:1#viewer@user:1", "doc:1#reader@user:1");
+
+  // Act
+  const excluded = check(cyclic, store, "doc:1", "viewer", "user:1");
+  const acyclic = check(cyclic, store, "doc:1", "reader", "user:1");
+
+  // Assert
+  assertEquals(excluded, { allowed: false, path: [] });
+  assertEquals(acyclic.allowed, true);
+});
+
+Deno.test("relation - should expand the subjects of a relation as a tree", () => {
+  // Arrange
+  const store = tuples(
+    "folder:1#editor@user:1",
+    "folder:1#editor@group:eng#member",
+    "group:eng#member@user:2",
+    "folder:1#owner@user:3",
+  );
+
+  // Act
+  const tree = expand(model, store, "folder:1", "editor");
+
+  // Assert
+  assertEquals(tree, {
+    type: "union",
+    userset: "folder:1#editor",
+    children: [
+      {
+        type: "this",
+        userset: "folder:1#editor",
+        subjects: ["user:1"],
+        children: [{
+          type: "this",
+          userset: "group:eng#member",
+          subjects: ["user:2"],
+          children: [],
+        }],
+      },
+      {
+        type: "this",
+        userset: "folder:1#owner",
+        subjects: ["user:3"],
+        children: [],
+      },
+    ],
+  });
+});
+
+Deno.test("relation - should leave cyclic usersets empty when expanding", () => {
+  // Arrange
+  const store = tuples(
+    "group:a#member@group:a#member",
+    "group:a#member@user:1",
+  );
+
+  // Act
+  const tree = expand(model, store, "group:a", "member");
+
+  // Assert
+  assertEquals(tree, {
+    type: "this",
+    userset: "group:a#member",
+    subjects: ["user:1"],
+    children: [{
+      type: "this",
+      userset: "group:a#member",
+      subjects: [],
+      children: [],
+    }],
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Tests for residual conditions and their translations
+ */
+import {
+  and,
+  equals,
+  FALSE,
+  fieldEquals,
+  like,
+  not,
+  or,
+  toPredicate,
+  toSql,
+  TRUE,
+} from "../../../core/residual.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+Deno.test("residual - should simplify literals, nesting and duplicates", () => {
+  // Arrange
+  const a = equals("target", "file:a");
+  const b = equals("target", "file:b");
+
+  // Act & Assert
+  assertEquals(and(TRUE, a), a);
+  assertEquals(and(FALSE, a), FALSE);
+  assertEquals(or(TRUE, a), TRUE);
+  assertEquals(or(FALSE, a), a);
+  assertEquals(and(), TRUE);
+  assertEquals(or(), FALSE);
+  assertEquals(or(a, or(b, a)), { type: "or", conditions: [a, b] });
+  assertEquals(not(not(a)), a);
+  assertEquals(not(TRUE), FALSE);
+  assertEquals(like("target", "file:a", "*"), a);
+});
+
+Deno.test("toSql - should produce a fragment with bound parameters", () => {
+  // Arrange
+  const condition = or(
+    equals("owner", "user:1"),
+    and(
+      like("target", "file:100%_done/*", "*"),
+      not(fieldEquals("from", "target")),
+    ),
+  );
+
+  // Act
+  const { sql, params } = toSql(condition, {
+    columns: { owner: "files.owner_id", target: "files.path" },
+    placeholder: (index) => `$${index}`,
+  });
+
+  // Assert
+  assertEquals(
+    sql,
+    "(files.owner_id = $1 OR (files.path LIKE $2 ESCAPE '\\' AND NOT from = files.path))",
+  );
+  assertEquals(params, ["user:1", "file:100\\%\\_done/%"]);
+});
+
+Deno.test("toSql - should translate literals", () => {
+  assertEquals(toSql(TRUE), { sql: "1 = 1", params: [] });
+  assertEquals(toSql(FALSE), { sql: "1 = 0", params: [] });
+});
+
+Deno.test("toPredicate - should evaluate conditions on records", () => {
+  // Arrange
+  const predicate = toPredicate(
+    or(
+      like("target", "file:public/*.txt", "*"),
+      and(equals("owner", "user:1"), not(fieldEquals("owner", "target"))),
+    ),
+  );
+
+  // Act & Assert
+  assertEquals(predicate({ target: "file:public/a.txt" }), true);
+  assertEquals(predicate({ target: "file:public/a.pdf" }), false);
+  assertEquals(predicate({ target: "file:b", owner: "user:1" }), true);
+  assertEquals(predicate({ target: "user:1", owner: "user:1" }), false);
+  assertEquals(predicate({ target: 42 }), false);
+});
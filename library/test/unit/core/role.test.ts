@@ -0,0 +1,174 @@
+/**
+ * Tests for roles and their resolution into state sets
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import {
+  expandRole,
+  resolveRoles,
+  role,
+  roleResolver,
+} from "../../../core/role.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import type { Role, RoleGrant } from "../../../types/role.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: permission({
+    rules: [allowTarget({ wildcards: true })],
+    children: {
+      read: permission({ rules: [allowTarget({ wildcards: true })] }),
+      write: permission({ rules: [allowTarget({ wildcards: true })] }),
+    },
+  }),
+});
+
+type Project = { project: string };
+
+const viewer = role(files, "viewer", (params: Project) => ({
+  "files.read": { target: [`file:${params.project}/*`] },
+}));
+
+const editor = role(files, "editor", (params: Project) => ({
+  "files.read": { target: [`file:${params.project}/drafts/*`] },
+  "files.write": { target: [`file:${params.project}/*`] },
+}), { inherits: [viewer] });
+
+Deno.test("role - should expand parameterized templates", () => {
+  // Act
+  const states = expandRole(viewer({ project: "p1" }));
+
+  // Assert
+  assertEquals(states, { "files.read": { target: ["file:p1/*"] } });
+  assertEquals(viewer.name, "viewer");
+});
+
+Deno.test("role - should include the states of inherited roles", () => {
+  // Act
+  const states = expandRole(editor({ project: "p1" }));
+
+  // Assert
+  assertEquals(states, {
+    "files.read": [
+      { target: ["file:p1/drafts/*"] },
+      { target: ["file:p1/*"] },
+    ],
+    "files.write": { target: ["file:p1/*"] },
+  });
+});
+
+Deno.test("role - should map parameters of inherited roles", () => {
+  // Arrange
+  const admin = role(files, "admin", { "files": { target: ["file:*"] } });
+  const owner = role(
+    files,
+    "owner",
+    (_params: { projects: string[] }) => ({}),
+    {
+      inherits: (params) => [
+        admin(),
+        ...params.projects.map((project) => editor({ project })),
+      ],
+    },
+  );
+
+  // Act
+  const states = expandRole(owner({ projects: ["p1", "p2"] }));
+
+  // Assert
+  assertEquals(states["files"], { target: ["file:*"] });
+  assertEquals(states["files.write"], [
+    { target: ["file:p1/*"] },
+    { target: ["file:p2/*"] },
+  ]);
+});
+
+Deno.test("role - should expand a role inherited twice only once", () => {
+  // Arrange
+  const commenter = role(files, "commenter", (_params: Project) => ({}), {
+    inherits: [viewer],
+  });
+  const reviewer = role(files, "reviewer", (_params: Project) => ({}), {
+    inherits: [editor, commenter],
+  });
+
+  // Act
+  const states = expandRole(reviewer({ project: "p1" }));
+
+  // Assert
+  assertEquals(states["files.read"], [
+    { target: ["file:p1/drafts/*"] },
+    { target: ["file:p1/*"] },
+  ]);
+});
+
+Deno.test("role - should detect circular inheritance", () => {
+  // Arrange
+  const grants: RoleGrant<typeof files>[] = [];
+  const a: Role<typeof files> = role(files, "a", {}, {
+    inherits: () => grants,
+  });
+  const b = role(files, "b", {}, { inherits: [a] });
+  grants.push(b());
+
+  // Act & Assert
+  assertThrows(
+    () => expandRole(a()),
+    Error,
+    "Circular role inheritance detected: a -> b -> a",
+  );
+});
+
+Deno.test("role - should reject unknown permissions", () => {
+  // Arrange
+  const broken = role(files, "broken", { "files.delete": {} } as any);
+
+  // Act & Assert
+  assertThrows(
+    () => expandRole(broken()),
+    Error,
+    'Role "broken" grants unknown permission "files.delete"',
+  );
+});
+
+Deno.test("resolveRoles - should produce one state set per granted role", () => {
+  // Act
+  const states = resolveRoles([
+    viewer({ project: "p1" }),
+    viewer({ project: "p2" }),
+  ]);
+
+  // Assert
+  assertEquals(states, [
+    { "files.read": { target: ["file:p1/*"] } },
+    { "files.read": { target: ["file:p2/*"] } },
+  ]);
+});
+
+Deno.test("roleResolver - should resolve the states of a subject for validate", () => {
+  // Arrange
+  const statesOf = roleResolver({
+    "user:1": [editor({ project: "p1" })],
+    "user:2": [viewer({ project: "p2" })],
+  });
+
+  // Act
+  const write = (subject: string) =>
+    validate(files, statesOf(subject), "files.write", {
+      from: subject,
+      target: "file:p1/notes.md",
+    }).valid;
+  const read = (subject: string) =>
+    validate(files, statesOf(subject), "files.read", {
+      from: subject,
+      target: "file:p1/notes.md",
+    }).valid;
+
+  // Assert
+  assertEquals(read("user:1"), true);
+  assertEquals(write("user:1"), true);
+  assertEquals(read("user:2"), false);
+  assertEquals(write("user:2"), false);
+  assertEquals(statesOf("user:3"), []);
+  assertEquals(statesOf("toString"), []);
+});
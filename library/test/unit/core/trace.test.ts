@@ -0,0 +1,231 @@
+/**
+ * Tests for the explain mode of the validation functions
+ */
+import { validate, validateAsync } from "../../../core/validation.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import { asyncRule, rule } from "../../../core/rule.ts";
+import { and, not, or } from "../../../operators/operations.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { denySelf } from "../../../rules/denySelf/denySelf.ts";
+import { assertEquals } from "jsr:@std/assert";
+import { VALIDATION_RESULT } from "../../../types/common.ts";
+
+const files = hierarchy({
+  files: permission({
+    rules: [allowTarget({ wildcards: true })],
+    children: {
+      delete: permission({
+        rules: [denySelf(), allowTarget({ wildcards: true })],
+      }),
+    },
+  }),
+});
+
+Deno.test("validate - should not record a trace by default", () => {
+  // Act
+  const result = validate(files, [{}], "files.delete", {
+    from: "user:1",
+    target: "file:a",
+  });
+
+  // Assert
+  assertEquals(result.trace, undefined);
+});
+
+Deno.test("validate - should record sources, chain keys and entries in explain mode", () => {
+  // Arrange
+  const states = [
+    { "files.delete": [{ target: ["file:a"] }, { target: ["file:b"] }] },
+    { "files": { target: ["file:*"] } },
+  ];
+
+  // Act
+  const result = validate(
+    files,
+    states,
+    "files.delete",
+    { from: "user:1", target: "file:b" },
+    { explain: true },
+  );
+
+  // Assert
+  const trace = result.trace!;
+  assertEquals(trace.key, "files.delete");
+  assertEquals(trace.result, VALIDATION_RESULT.GRANTED);
+  assertEquals(trace.sources.length, 2);
+
+  const [first, second] = trace.sources;
+  assertEquals(first.stateIndex, 0);
+  assertEquals(first.result, VALIDATION_RESULT.GRANTED);
+  assertEquals(first.chain.map((c) => [c.key, c.defaulted]), [
+    ["files", true],
+    ["files.delete", false],
+  ]);
+  assertEquals(
+    first.chain[1].entries.map((e) => [e.entryIndex, e.result]),
+    [[0, VALIDATION_RESULT.NEUTRAL], [1, VALIDATION_RESULT.GRANTED]],
+  );
+  assertEquals(first.chain[1].entries[1].state, { target: ["file:b"] });
+  assertEquals(
+    first.chain[1].entries[1].rules.map((r) => [r.name, r.result]),
+    [["denySelf", VALIDATION_RESULT.NEUTRAL], [
+      "allowTarget",
+      VALIDATION_RESULT.GRANTED,
+    ]],
+  );
+  assertEquals(first.chain[1].entries[1].schemas, [
+    { name: "target", valid: true },
+  ]);
+  assertEquals(second.chain[0].defaulted, false);
+  assertEquals(second.chain[0].result, VALIDATION_RESULT.GRANTED);
+});
+
+Deno.test("validate - should keep the errors of neutral outcomes in the trace", () => {
+  // Arrange
+  const states = [{ "files.delete": { target: "file:a" } }];
+
+  // Act
+  const result = validate(
+    files,
+    states as any,
+    "files.delete",
+    { from: "user:1", target: "file:a" },
+    { explain: true },
+  );
+
+  // Assert
+  const entry = result.trace!.sources[0].chain[1].entries[0];
+  assertEquals(entry.result, VALIDATION_RESULT.REJECTED);
+  assertEquals(entry.schemas, [{ name: "target", valid: false }]);
+  assertEquals(entry.errors[0].message, "Invalid state for schema target");
+  assertEquals(entry.rules, []);
+});
+
+Deno.test("validate - should trace the operands of operators", () => {
+  // Arrange
+  const granted = rule("granted", [], () => VALIDATION_RESULT.GRANTED);
+  const neutral = rule("neutral", [], () => VALIDATION_RESULT.NEUTRAL);
+  const failing = rule("failing", [], () => {
+    throw new Error("Lookup failed");
+  });
+  const testPermissions = hierarchy({
+    resource: permission({
+      rules: [and([or([neutral, granted]), not(neutral)]), failing],
+    }),
+  });
+
+  // Act
+  const result = validate(
+    testPermissions,
+    [{ resource: {} }] as any,
+    "resource",
+    {} as never,
+    { explain: true },
+  );
+
+  // Assert
+  const rules = result.trace!.sources[0].chain[0].entries[0].rules;
+  const strip = (node: any): any => ({
+    name: node.name,
+    result: node.result,
+    error: node.error,
+    children: node.children?.map(strip),
+  });
+  assertEquals(rules.map(strip), [
+    {
+      name: "and",
+      result: VALIDATION_RESULT.NEUTRAL,
+      error: undefined,
+      children: [
+        {
+          name: "or",
+          result: VALIDATION_RESULT.GRANTED,
+          error: undefined,
+          children: [
+            {
+              name: "neutral",
+              result: VALIDATION_RESULT.NEUTRAL,
+              error: undefined,
+              children: undefined,
+            },
+            {
+              name: "granted",
+              result: VALIDATION_RESULT.GRANTED,
+              error: undefined,
+              children: undefined,
+            },
+          ],
+        },
+        {
+          name: "not",
+          result: VALIDATION_RESULT.NEUTRAL,
+          error: undefined,
+          children: [{
+            name: "neutral",
+            result: VALIDATION_RESULT.NEUTRAL,
+            error: undefined,
+            children: undefined,
+          }],
+        },
+      ],
+    },
+    {
+      name: "failing",
+      result: undefined,
+      error: "Lookup failed",
+      children: undefined,
+    },
+  ]);
+  assertEquals(typeof rules[0].durationMs, "number");
+});
+
+Deno.test("validate - should produce a JSON-serializable trace", () => {
+  // Arrange
+  const states = [{ "files.delete": { target: ["file:*"] } }];
+
+  // Act
+  const result = validate(
+    files,
+    states,
+    "files.delete",
+    { from: "file:a", target: "file:a" },
+    { explain: true },
+  );
+
+  // Assert
+  assertEquals(JSON.parse(JSON.stringify(result.trace)), result.trace);
+});
+
+Deno.test("validateAsync - should record a trace in explain mode", async () => {
+  // Arrange
+  const lookup = asyncRule(
+    "lookup",
+    [],
+    () => Promise.resolve(VALIDATION_RESULT.GRANTED),
+  );
+  const testPermissions = hierarchy({
+    resource: permission({
+      rules: [and([lookup])],
+    }),
+  });
+
+  // Act
+  const result = await validateAsync(
+    testPermissions,
+    [{ resource: {} }] as any,
+    "resource",
+    {} as never,
+    { explain: true },
+  );
+
+  // Assert
+  const entry = result.trace!.sources[0].chain[0].entries[0];
+  assertEquals(entry.result, VALIDATION_RESULT.GRANTED);
+  assertEquals(entry.rules[0].name, "and");
+  assertEquals(entry.rules[0].children![0].name, "lookup");
+  assertEquals(
+    entry.rules[0].children![0].result,
+    VALIDATION_RESULT.GRANTED,
+  );
+});
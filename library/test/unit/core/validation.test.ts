@@ -382,3 +382,43 @@ Deno.test("validate - should consider multiple states with OR logic", () => {
   // Assert
   assertValidationSuccess(result);
 });
+
+Deno.test("validate - should keep the reasons of the first entry reporting a rule", () => {
+  // Arrange
+  const comparing = {
+    name: "comparing",
+    schemas: [],
+    check: (state: any) => ({
+      result: VALIDATION_RESULT.REJECTED,
+      reasons: [`${state.label} is too low`, `${state.label} is too old`],
+    }),
+  };
+  const testPermissions = hierarchy({
+    resource: permission({ rules: [comparing] }),
+  });
+  const states = [
+    { "resource": [{ label: "first" }, { label: "second" }] },
+    { "resource": { label: "third" } },
+  ];
+
+  // Act
+  const result = validate(testPermissions, states as any, "resource", {
+    someRequest: "value",
+  } as never);
+
+  // Assert
+  assertEquals(result.reasons, [
+    {
+      type: "rule",
+      name: "comparing",
+      message: "first is too low",
+      stateIndex: 0,
+    },
+    {
+      type: "rule",
+      name: "comparing",
+      message: "first is too old",
+      stateIndex: 0,
+    },
+  ]);
+});
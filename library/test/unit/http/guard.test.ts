@@ -0,0 +1,195 @@
+/**
+ * Tests for the HTTP authorization guard
+ *
+ * createGuard() maps the route of a Fetch API request to a permission key,
+ * validates the request of its subject and answers denied requests with
+ * problem details.
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import { createGuard, subjectFromHeader } from "../../../http/guard.ts";
+import { allowAttributes } from "../../../rules/allowAttributes/allowAttributes.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { createMemorySink } from "../../../sinks/memory/memory.ts";
+import { decisionLogger } from "../../../core/audit.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: {
+    read: permission({ rules: [allowTarget()] }),
+    write: permission({ rules: [allowTarget()] }),
+  },
+});
+
+const states = {
+  alice: [{ "files.read": { target: ["doc-1", "doc-2"] } }],
+  bob: [{}],
+} as Record<string, { "files.read"?: { target: string[] } }[]>;
+
+const guard = createGuard(files, {
+  routes: {
+    "GET /files/:id": "files.read",
+    "PUT /files/:id": "files.write",
+    "/shared/:name": {
+      key: "files.read",
+      target: ({ params }) => `doc-${params.name}`,
+    },
+  },
+  subject: subjectFromHeader("x-user-id"),
+  states: (subject) => states[subject] ?? [{}],
+});
+
+const request = (method: string, path: string, subject?: string) =>
+  new Request(`http://localhost${path}`, {
+    method,
+    headers: subject ? { "x-user-id": subject } : {},
+  });
+
+Deno.test("guard - should allow granted requests", async () => {
+  // Act
+  const decision = await guard.authorize(
+    request("GET", "/files/doc-1", "alice"),
+  );
+  const shared = await guard.authorize(request("POST", "/shared/2", "alice"));
+
+  // Assert
+  assertEquals(decision.allowed, true);
+  assertEquals(decision.allowed && decision.subject, "alice");
+  assertEquals(decision.allowed && decision.key, "files.read");
+  assertEquals(decision.allowed && decision.params, { id: "doc-1" });
+  assertEquals(shared.allowed, true);
+});
+
+Deno.test("guard - should answer denied requests with problem details", async () => {
+  // Arrange
+  const handler = guard.handler(() => new Response("ok"));
+
+  // Act
+  const allowed = await handler(request("GET", "/files/doc-1", "alice"));
+  const denied = await handler(request("PUT", "/files/doc-1", "alice"));
+
+  // Assert
+  assertEquals(await allowed.text(), "ok");
+  assertEquals(denied.status, 403);
+  assertEquals(
+    denied.headers.get("content-type"),
+    "application/problem+json",
+  );
+  const body = await denied.json();
+  assertEquals(body.title, "Forbidden");
+  assertEquals(body.key, "files.write");
+  assertEquals(body.instance, "/files/doc-1");
+  assertEquals(
+    body.detail,
+    'Permission "files.write" is not granted to "alice"',
+  );
+  assertEquals(Array.isArray(body.reasons), true);
+});
+
+Deno.test("guard - should answer 401 without a subject", async () => {
+  // Act
+  const decision = await guard.authorize(request("GET", "/files/doc-1"));
+  const response = await guard.handler(() => new Response("ok"))(
+    request("GET", "/files/doc-1"),
+  );
+
+  // Assert
+  assertEquals(decision.allowed, false);
+  assertEquals(!decision.allowed && decision.problem.status, 401);
+  assertEquals(!decision.allowed && decision.problem.key, "files.read");
+  assertEquals(response.status, 401);
+  assertEquals(response.headers.get("www-authenticate"), "Bearer");
+});
+
+Deno.test("guard - should decode the parameters of the route", async () => {
+  // Arrange
+  const nested = createGuard(files, {
+    routes: { "GET /files/:id": "files.read" },
+    subject: subjectFromHeader("x-user-id"),
+    states: () => [{ "files.read": { target: ["a/b"] } }],
+  });
+
+  // Act
+  const encoded = await nested.authorize(
+    request("GET", "/files/a%2Fb", "alice"),
+  );
+  const literal = await guard.authorize(
+    request("GET", "/files/doc%2D1", "alice"),
+  );
+  const malformed = await guard.authorize(
+    request("GET", "/files/doc%E0%A4%A", "alice"),
+  );
+
+  // Assert
+  assertEquals(encoded.allowed && encoded.params, { id: "a/b" });
+  assertEquals(literal.allowed && literal.params, { id: "doc-1" });
+  assertEquals(malformed.allowed, false);
+  assertEquals(!malformed.allowed && malformed.problem.status, 400);
+  assertEquals(!malformed.allowed && malformed.problem.title, "Bad Request");
+});
+
+Deno.test("guard - should deny unmatched routes unless allowed", async () => {
+  // Arrange
+  const open = createGuard(files, {
+    routes: { "GET /files/:id": "files.read" },
+    subject: subjectFromHeader("x-user-id"),
+    states: () => [{}],
+    unmatched: "allow",
+  });
+
+  // Act
+  const denied = await guard.authorize(
+    request("DELETE", "/files/doc-1", "alice"),
+  );
+  const allowed = await open.authorize(request("GET", "/health"));
+
+  // Assert
+  assertEquals(denied.allowed, false);
+  assertEquals(
+    !denied.allowed && denied.problem.detail,
+    "No permission is mapped to this route",
+  );
+  assertEquals(allowed.allowed, true);
+});
+
+Deno.test("guard - should build the request with extractors and validation options", async () => {
+  // Arrange
+  type Attributes = { subject: { level: number } };
+  const api = hierarchy({
+    reports: {
+      view: permission({
+        rules: [
+          allowAttributes<{ minLevel: number }, Attributes>([
+            ["request.subject.level", "gte", "state.minLevel"],
+          ]),
+        ],
+      }),
+    },
+  });
+  const sink = createMemorySink();
+  const reports = createGuard(api, {
+    routes: { "GET /reports": "reports.view" },
+    subject: subjectFromHeader("x-user-id"),
+    states: () => [{ "reports.view": { minLevel: 3 } }],
+    request: ({ request }) => ({
+      subject: { level: Number(request.headers.get("x-level")) },
+    }),
+    validation: { events: decisionLogger(sink) },
+  });
+  const withLevel = (level: string) =>
+    new Request("http://localhost/reports", {
+      headers: { "x-user-id": "alice", "x-level": level },
+    });
+
+  // Act
+  const granted = await reports.authorize(withLevel("4"));
+  const denied = await reports.authorize(withLevel("1"));
+
+  // Assert
+  assertEquals([granted.allowed, denied.allowed], [true, false]);
+  assertEquals(sink.records.map(({ valid }) => valid), [true, false]);
+  assertEquals(sink.records[0].request, {
+    subject: { level: 4 },
+    from: "alice",
+  });
+});
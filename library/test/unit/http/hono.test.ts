@@ -0,0 +1,68 @@
+/**
+ * Tests for the Hono guard middleware
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import { createGuard, subjectFromHeader } from "../../../http/guard.ts";
+import { honoGuard } from "../../../http/hono/hono.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: { read: permission({ rules: [allowTarget()] }) },
+});
+
+const middleware = honoGuard(createGuard(files, {
+  routes: { "GET /files/:id": "files.read" },
+  subject: subjectFromHeader("x-user-id"),
+  states: () => [{ "files.read": { target: ["doc-1"] } }],
+}));
+
+const context = (path: string) => {
+  const variables = new Map<string, unknown>();
+  return {
+    variables,
+    req: {
+      raw: new Request(`http://localhost${path}`, {
+        headers: { "x-user-id": "alice" },
+      }),
+    },
+    set: (key: string, value: unknown) => variables.set(key, value),
+  };
+};
+
+Deno.test("hono guard - should continue with the decision of allowed requests", async () => {
+  // Arrange
+  const c = context("/files/doc-1");
+  let called = false;
+
+  // Act
+  const response = await middleware(c, () => {
+    called = true;
+    return Promise.resolve();
+  });
+
+  // Assert
+  assertEquals(response, undefined);
+  assertEquals(called, true);
+  assertEquals(
+    (c.variables.get("permission") as { key: string }).key,
+    "files.read",
+  );
+});
+
+Deno.test("hono guard - should answer denied requests", async () => {
+  // Arrange
+  let called = false;
+
+  // Act
+  const response = await middleware(context("/files/doc-2"), () => {
+    called = true;
+    return Promise.resolve();
+  });
+
+  // Assert
+  assertEquals(called, false);
+  assertEquals(response?.status, 403);
+  assertEquals((await response!.json()).key, "files.read");
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for the Oak guard middleware
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import { createGuard, subjectFromHeader } from "../../../http/guard.ts";
+import { oakGuard } from "../../../http/oak/oak.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: { read: permission({ rules: [allowTarget()] }) },
+});
+
+const middleware = oakGuard(createGuard(files, {
+  routes: { "GET /files/:id": "files.read" },
+  subject: subjectFromHeader("x-user-id"),
+  states: () => [{ "files.read": { target: ["doc-1"] } }],
+}));
+
+const context = (path: string) => ({
+  request: {
+    url: new URL(`http://localhost${path}`),
+    method: "GET",
+    headers: new Headers({ "x-user-id": "alice" }),
+  },
+  response: { status: 404, headers: new Headers(), body: undefined as unknown },
+  state: {} as Record<string, unknown>,
+});
+
+Deno.test("oak guard - should continue with the decision of allowed requests", async () => {
+  // Arrange
+  const ctx = context("/files/doc-1");
+  let called = false;
+
+  // Act
+  await middleware(ctx, () => {
+    called = true;
+    return Promise.resolve();
+  });
+
+  // Assert
+  assertEquals(called, true);
+  assertEquals((ctx.state.permission as { subject: string }).subject, "alice");
+});
+
+Deno.test("oak guard - should set the problem details of denied requests", async () => {
+  // Arrange
+  const ctx = context("/files/doc-2");
+  let called = false;
+
+  // Act
+  await middleware(ctx, () => {
+    called = true;
+    return Promise.resolve();
+  });
+
+  // Assert
+  assertEquals(called, false);
+  assertEquals(ctx.response.status, 403);
+  assertEquals(
+    ctx.response.headers.get("content-type"),
+    "application/problem+json",
+  );
+  assertEquals(JSON.parse(ctx.response.body as string).status, 403);
+});
@@ -0,0 +1,285 @@
+/**
+ * Tests for the policy decision point
+ *
+ * createDecisionServer() answers checks posted as JSON with the validation
+ * results of its policy, and reports its health and metrics.
+ */
+import { dumpHierarchy } from "../../../core/policy.ts";
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import {
+  createDecisionServer,
+  policyFromJson,
+  watchPolicy,
+} from "../../../http/pdp.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: {
+    read: permission({ rules: [allowTarget(), ensureTime()] }),
+    write: permission({ rules: [allowTarget()] }),
+  },
+});
+
+const stored: Record<string, Record<string, unknown>> = {
+  alice: { "files.read": { target: ["doc-1"] } },
+};
+
+const post = (path: string, body: unknown) =>
+  new Request(`http://localhost${path}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+const server = createDecisionServer({
+  policy: () => files,
+  states: (subjects) => subjects.map((subject) => stored[subject] ?? {}),
+});
+
+Deno.test("pdp - should answer checks with validation results", async () => {
+  // Act
+  const granted = await server.handler(post("/v1/check", {
+    key: "files.read",
+    subjects: ["alice"],
+    request: { from: "alice", target: "doc-1" },
+  }));
+  const inline = await server.handler(post("/v1/check", {
+    key: "files.read",
+    states: [{
+      "files.read": { target: ["doc-2"], dateEnd: "2025-01-01T00:00:00Z" },
+    }],
+    request: { from: "bob", target: "doc-2", date: "2024-06-01T00:00:00Z" },
+  }));
+
+  // Assert
+  assertEquals(granted.status, 200);
+  assertEquals(await granted.json(), {
+    valid: true,
+    reasons: [],
+    resultType: "granted",
+  });
+  assertEquals((await inline.json()).valid, true);
+});
+
+Deno.test("pdp - should answer batches in order", async () => {
+  // Act
+  const response = await server.handler(post("/v1/check/batch", {
+    checks: [
+      {
+        key: "files.read",
+        subjects: ["alice"],
+        request: { from: "alice", target: "doc-1" },
+      },
+      {
+        key: "files.write",
+        subjects: ["alice"],
+        request: { from: "alice", target: "doc-1" },
+      },
+      { key: "files.delete", subjects: ["alice"], request: {} },
+    ],
+  }));
+  const { results } = await response.json();
+
+  // Assert
+  assertEquals(results.length, 3);
+  assertEquals(results[0].valid, true);
+  assertEquals(results[1].valid, false);
+  assertEquals(results[2], { error: 'Unknown permission key "files.delete"' });
+});
+
+Deno.test("pdp - should answer failed checks without failing the batch", async () => {
+  // Arrange
+  const failing = createDecisionServer({
+    policy: () => files,
+    states: (subjects) => {
+      if (subjects.includes("mallory")) throw new Error("db down");
+      return subjects.map((subject) => stored[subject] ?? {});
+    },
+  });
+  const down = {
+    key: "files.read",
+    subjects: ["mallory"],
+    request: { from: "mallory", target: "doc-1" },
+  };
+
+  // Act
+  const batch = await failing.handler(post("/v1/check/batch", {
+    checks: [
+      {
+        key: "files.read",
+        subjects: ["alice"],
+        request: { from: "alice", target: "doc-1" },
+      },
+      down,
+      { key: "constructor", subjects: ["alice"], request: {} },
+    ],
+  }));
+  const single = await failing.handler(post("/v1/check", down));
+  const inherited = await failing.handler(post("/v1/check", {
+    key: "constructor",
+    subjects: ["alice"],
+    request: {},
+  }));
+  const { results } = await batch.json();
+
+  // Assert
+  assertEquals(batch.status, 200);
+  assertEquals(results[0].valid, true);
+  assertEquals(results[1], { error: "Cannot load the states: db down" });
+  assertEquals(results[2], { error: 'Unknown permission key "constructor"' });
+  assertEquals(single.status, 503);
+  assertEquals(
+    (await single.json()).detail,
+    "Cannot load the states: db down",
+  );
+  assertEquals(inherited.status, 400);
+  await inherited.body?.cancel();
+});
+
+Deno.test("pdp - should explain decisions", async () => {
+  // Act
+  const response = await server.handler(post("/v1/explain", {
+    key: "files.read",
+    subjects: ["alice"],
+    request: { from: "alice", target: "doc-1" },
+  }));
+  const result = await response.json();
+
+  // Assert
+  assertEquals(result.valid, true);
+  assertEquals(result.trace.key, "files.read");
+  assertEquals(
+    result.trace.sources[0].chain[0].entries[0].rules.map(
+      ({ name }: { name: string }) => name,
+    ),
+    ["allowTarget", "ensureTime"],
+  );
+});
+
+Deno.test("pdp - should reject invalid checks with problem details", async () => {
+  // Act
+  const invalid = await server.handler(post("/v1/check", {
+    key: "files.read",
+    request: { from: "alice" },
+  }));
+  const malformed = await server.handler(
+    new Request("http://localhost/v1/check", { method: "POST", body: "{" }),
+  );
+  const method = await server.handler(
+    new Request("http://localhost/v1/check"),
+  );
+  const unknown = await server.handler(post("/v2/check", {}));
+
+  // Assert
+  assertEquals(invalid.status, 400);
+  assertEquals(
+    invalid.headers.get("content-type"),
+    "application/problem+json",
+  );
+  assertEquals(
+    (await invalid.json()).detail,
+    "A check needs subjects or states",
+  );
+  assertEquals(malformed.status, 400);
+  await malformed.body?.cancel();
+  assertEquals(method.status, 405);
+  await method.body?.cancel();
+  assertEquals(unknown.status, 404);
+  await unknown.body?.cancel();
+});
+
+Deno.test("pdp - should report health and metrics", async () => {
+  // Arrange
+  const local = createDecisionServer({ policy: () => files });
+  await local.handler(post("/v1/check", {
+    key: "files.write",
+    states: [{ "files.write": { target: ["doc-1"] } }],
+    request: { from: "alice", target: "doc-1" },
+  })).then((response) => response.body?.cancel());
+
+  // Act
+  const health = await local.handler(new Request("http://localhost/health"));
+  const metrics = await local.handler(new Request("http://localhost/metrics"));
+  const text = await metrics.text();
+
+  // Assert
+  const body = await health.json();
+  assertEquals(body.status, "ok");
+  assertEquals(body.policy.version, 1);
+  assertEquals(text.includes('pdp_decisions_total{result="granted"} 1'), true);
+  assertEquals(text.includes("pdp_decision_duration_ms_count 1"), true);
+  assertEquals(text.includes("pdp_policy_version 1"), true);
+});
+
+Deno.test("pdp - should reload the policy and keep it when a reload fails", async () => {
+  // Arrange
+  const directory = await Deno.makeTempDir();
+  const path = `${directory}/policy.json`;
+  await Deno.writeTextFile(path, JSON.stringify(dumpHierarchy(files)));
+  const local = createDecisionServer({ policy: policyFromJson(path) });
+  const check = async () => {
+    const response = await local.handler(post("/v1/check", {
+      key: "files.write",
+      states: [{ "files.write": { target: ["doc-1"] } }],
+      request: { from: "alice", target: "doc-1" },
+    }));
+    return response.status === 200
+      ? (await response.json()).valid
+      : (await response.json()).detail;
+  };
+
+  try {
+    // Act
+    const before = await check();
+    const readOnly = hierarchy({
+      files: { read: permission({ rules: [allowTarget()] }) },
+    });
+    await Deno.writeTextFile(path, JSON.stringify(dumpHierarchy(readOnly)));
+    await local.reload();
+    const after = await check();
+    await Deno.writeTextFile(path, "{");
+    const failed = await local.reload().then(() => false, () => true);
+    const health = await (await local.handler(
+      new Request("http://localhost/health"),
+    )).json();
+
+    // Assert
+    assertEquals(before, true);
+    assertEquals(after, 'Unknown permission key "files.write"');
+    assertEquals(failed, true);
+    assertEquals(health.policy.version, 2);
+    assertEquals(typeof health.reloadError, "string");
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("pdp - should reload the policy when watched files change", async () => {
+  // Arrange
+  const directory = await Deno.makeTempDir();
+  const path = `${directory}/policy.json`;
+  await Deno.writeTextFile(path, JSON.stringify(dumpHierarchy(files)));
+  const local = createDecisionServer({ policy: policyFromJson(path) });
+  const version = async () =>
+    (await (await local.handler(new Request("http://localhost/health")))
+      .json()).policy.version;
+  await version();
+  const stop = watchPolicy(local, [directory], 10);
+
+  try {
+    // Act
+    await Deno.writeTextFile(path, JSON.stringify(dumpHierarchy(files)));
+    const deadline = Date.now() + 5000;
+    while (await version() === 1 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+
+    // Assert
+    assertEquals(await version(), 2);
+  } finally {
+    stop();
+    await Deno.remove(directory, { recursive: true });
+  }
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for operators (AND, OR, NOT, merge) combining asynchronous rules
+ */
+import { and, merge, not, or } from "../../../operators/operations.ts";
+import { asyncRule, isAsyncRule, rule } from "../../../core/rule.ts";
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import { VALIDATION_RESULT } from "../../../types/common.ts";
+
+const grantedRule = rule("grantedRule", [], () => VALIDATION_RESULT.GRANTED);
+const neutralRule = rule("neutralRule", [], () => VALIDATION_RESULT.NEUTRAL);
+const asyncGranted = asyncRule(
+  "asyncGranted",
+  [],
+  () => Promise.resolve(VALIDATION_RESULT.GRANTED),
+);
+const asyncRejected = asyncRule(
+  "asyncRejected",
+  [],
+  () => Promise.resolve(VALIDATION_RESULT.REJECTED),
+);
+const asyncBlocked = asyncRule(
+  "asyncBlocked",
+  [],
+  () => Promise.resolve(VALIDATION_RESULT.BLOCKED),
+);
+
+// Test state and request objects
+const state = {} as never;
+const request = {} as never;
+
+Deno.test("operators - should stay synchronous when all operands are synchronous", () => {
+  // Act & Assert
+  assertEquals(isAsyncRule(and([grantedRule, neutralRule])), false);
+  assertEquals(isAsyncRule(or([grantedRule])), false);
+  assertEquals(isAsyncRule(not(grantedRule)), false);
+  assertEquals(isAsyncRule(merge([grantedRule, neutralRule])), false);
+});
+
+Deno.test("operators - should become asynchronous with an asynchronous operand", () => {
+  // Act & Assert
+  assertEquals(isAsyncRule(and([grantedRule, asyncGranted])), true);
+  assertEquals(isAsyncRule(or([asyncGranted])), true);
+  assertEquals(isAsyncRule(not(asyncGranted)), true);
+  assertEquals(isAsyncRule(merge([neutralRule, asyncGranted])), true);
+});
+
+Deno.test("and - should combine asynchronous rules", async () => {
+  // Act & Assert
+  assertEquals(
+    await and([grantedRule, asyncGranted]).check(state, request),
+    VALIDATION_RESULT.GRANTED,
+  );
+  assertEquals(
+    await and([asyncGranted, neutralRule]).check(state, request),
+    VALIDATION_RESULT.NEUTRAL,
+  );
+  assertEquals(
+    await and([asyncGranted, asyncBlocked]).check(state, request),
+    VALIDATION_RESULT.BLOCKED,
+  );
+});
+
+Deno.test("or - should short-circuit on the first granted asynchronous rule", async () => {
+  // Arrange
+  let evaluated = false;
+  const tracked = asyncRule("tracked", [], () => {
+    evaluated = true;
+    return Promise.resolve(VALIDATION_RESULT.GRANTED);
+  });
+
+  // Act
+  const result = await or([asyncGranted, tracked]).check(state, request);
+
+  // Assert
+  assertEquals(result, VALIDATION_RESULT.GRANTED);
+  assertEquals(evaluated, false);
+});
+
+Deno.test("not - should invert asynchronous results", async () => {
+  // Act & Assert
+  assertEquals(
+    await not(asyncGranted).check(state, request),
+    VALIDATION_RESULT.REJECTED,
+  );
+  assertEquals(
+    await not(asyncRejected).check(state, request),
+    VALIDATION_RESULT.GRANTED,
+  );
+});
+
+Deno.test("merge - should stop on asynchronous rejections", async () => {
+  // Act & Assert
+  assertEquals(
+    await merge([asyncGranted, asyncRejected]).check(state, request),
+    VALIDATION_RESULT.REJECTED,
+  );
+  assertEquals(
+    await merge([neutralRule, asyncGranted]).check(state, request),
+    VALIDATION_RESULT.GRANTED,
+  );
+});
+
+Deno.test("operators - should stop evaluating once the signal is aborted", async () => {
+  // Arrange
+  const controller = new AbortController();
+  controller.abort(new Error("Outcome decided"));
+
+  // Act & Assert
+  await assertRejects(
+    async () =>
+      await and([asyncGranted]).check(state, request, {
+        signal: controller.signal,
+      }),
+    Error,
+    "Outcome decided",
+  );
+});
@@ -0,0 +1,317 @@
+/**
+ * Tests for allowAttributes rule
+ *
+ * allowAttributes() implements declarative attribute comparisons (ABAC):
+ * It compares paths into the request and the state, or literals, and grants
+ * the permission when every comparison holds.
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { partialEvaluate } from "../../../core/partial.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import { equals, fieldEquals, not, or } from "../../../core/residual.ts";
+import { and } from "../../../operators/operations.ts";
+import { allowAttributes } from "../../../rules/allowAttributes/allowAttributes.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+
+type DocumentState = {
+  department: string;
+  classification: number;
+  expires?: Date;
+};
+
+type ReaderRequest = {
+  owner: string;
+  from: string;
+  subject: {
+    department: string;
+    clearance: number;
+    roles: string[];
+    email: string;
+  };
+  date?: Date;
+};
+
+const state: DocumentState = { department: "eng", classification: 2 };
+
+const reader: ReaderRequest = {
+  owner: "user:bob",
+  from: "user:alice",
+  subject: {
+    department: "eng",
+    clearance: 3,
+    roles: ["reader", "writer"],
+    email: "alice@example.com",
+  },
+};
+
+Deno.test('allowAttributes - should return "granted" when every comparison holds', () => {
+  // Arrange
+  const rule = allowAttributes<DocumentState, ReaderRequest>([
+    ["request.subject.department", "eq", "state.department"],
+    ["request.subject.clearance", "gte", "state.classification"],
+    ["request.subject.roles", "contains", { value: "reader" }],
+    ["request.from", "neq", "request.owner"],
+  ]);
+
+  // Act
+  const result = rule.check(state, reader);
+
+  // Assert
+  assertEquals(result, "granted");
+});
+
+Deno.test("allowAttributes - should support every operator", () => {
+  // Arrange
+  const cases: [
+    Parameters<typeof allowAttributes<DocumentState, ReaderRequest>>[0][number],
+    boolean,
+  ][] = [
+    [["request.subject.department", "eq", { value: "eng" }], true],
+    [["request.subject.department", "neq", { value: "eng" }], false],
+    [["state.department", "in", { value: ["eng", "ops"] }], true],
+    [["state.department", "in", { value: ["ops"] }], false],
+    [["request.subject.email", "contains", { value: "@example" }], true],
+    [["request.subject.roles", "contains", { value: "admin" }], false],
+    [["request.subject.clearance", "gt", "state.classification"], true],
+    [["request.subject.clearance", "gte", { value: 3 }], true],
+    [["request.subject.clearance", "lt", { value: 3 }], false],
+    [["request.subject.clearance", "lte", { value: 3 }], true],
+    [["request.from", "startsWith", { value: "user:" }], true],
+    [["request.subject.email", "matches", { value: /@example\.com$/ }], true],
+    [["request.subject.email", "matches", { value: "^bob@" }], false],
+  ];
+
+  for (const [comparison, expected] of cases) {
+    // Act
+    const result = allowAttributes<DocumentState, ReaderRequest>([comparison])
+      .check(state, reader);
+
+    // Assert
+    assertEquals(result === "granted", expected, comparison.join(" "));
+  }
+});
+
+Deno.test("allowAttributes - should take matches patterns from literals and the state only", () => {
+  // Arrange
+  const global = allowAttributes<{ domain: string }, ReaderRequest>([
+    ["request.subject.email", "matches", { value: /example/g }],
+    ["request.subject.email", "matches", "state.domain"],
+  ]);
+
+  // Act
+  const first = global.check({ domain: "@example\\.com$" }, reader);
+  const second = global.check({ domain: "@example\\.com$" }, reader);
+  const otherDomain = global.check({ domain: "@example\\.org$" }, reader);
+
+  // Assert
+  assertEquals([first, second], ["granted", "granted"]);
+  assertEquals(
+    typeof otherDomain === "object" && otherDomain.result,
+    "rejected",
+  );
+  assertThrows(
+    () =>
+      allowAttributes<DocumentState, { pattern: string; name: string }>([
+        ["request.name", "matches", "request.pattern"],
+      ]),
+    Error,
+    'The pattern of "request.name matches request.pattern" cannot come from the request',
+  );
+  assertThrows(
+    () =>
+      allowAttributes<DocumentState, ReaderRequest>([
+        ["request.from", "matches", { value: "(" }],
+      ]),
+    SyntaxError,
+  );
+});
+
+Deno.test("allowAttributes - should compare dates by time", () => {
+  // Arrange
+  const rule = allowAttributes<DocumentState, ReaderRequest>([
+    ["request.date", "lt", "state.expires"],
+  ]);
+  const expires = new Date("2025-06-01T00:00:00Z");
+
+  // Act
+  const before = rule.check({ ...state, expires }, {
+    ...reader,
+    date: new Date("2025-05-01T00:00:00Z"),
+  });
+  const after = rule.check({ ...state, expires }, {
+    ...reader,
+    date: new Date("2025-07-01T00:00:00Z"),
+  });
+
+  // Assert
+  assertEquals(before, "granted");
+  assertEquals(after, {
+    result: "rejected",
+    reasons: [
+      "Attribute comparison failed: request.date (2025-07-01T00:00:00.000Z) lt state.expires (2025-06-01T00:00:00.000Z)",
+    ],
+  });
+});
+
+Deno.test("allowAttributes - should fail comparisons on missing attributes or mismatched types", () => {
+  // Arrange
+  const rule = allowAttributes<DocumentState, ReaderRequest>([
+    ["request.date", "lt", "state.expires"],
+    ["request.subject.clearance", "gt", { value: "2" }],
+  ]);
+
+  // Act
+  const result = rule.check(state, reader);
+
+  // Assert
+  assertEquals(result, {
+    result: "rejected",
+    reasons: [
+      "Attribute comparison failed: request.date (undefined) lt state.expires (undefined)",
+      'Attribute comparison failed: request.subject.clearance (3) gt "2"',
+    ],
+  });
+});
+
+Deno.test("allowAttributes - should reject type-unsafe paths", () => {
+  // Act & Assert
+  allowAttributes<DocumentState, ReaderRequest>([
+    // @ts-expect-error - the request has no subject.team attribute
+    ["request.subject.team", "eq", "state.department"],
+  ]);
+  allowAttributes<DocumentState, ReaderRequest>([
+    // @ts-expect-error - paths must start with request or state
+    ["subject.department", "eq", "state.department"],
+  ]);
+});
+
+Deno.test("allowAttributes - should report failed comparisons as validation errors", () => {
+  // Arrange
+  const docs = hierarchy({
+    read: permission({
+      rules: [
+        allowAttributes<DocumentState, ReaderRequest>([
+          ["request.subject.department", "eq", "state.department"],
+          ["request.subject.clearance", "gte", "state.classification"],
+        ]),
+      ],
+    }),
+  });
+
+  // Act
+  const result = validate(
+    docs,
+    [{ read: { department: "ops", classification: 4 } }],
+    "read",
+    reader,
+  );
+
+  // Assert
+  assertEquals(result.valid, false);
+  assertEquals(result.reasons, [
+    {
+      type: "rule",
+      name: "allowAttributes",
+      stateIndex: 0,
+      message:
+        'Attribute comparison failed: request.subject.department ("eng") eq state.department ("ops")',
+    },
+    {
+      type: "rule",
+      name: "allowAttributes",
+      stateIndex: 0,
+      message:
+        "Attribute comparison failed: request.subject.clearance (3) gte state.classification (4)",
+    },
+  ]);
+});
+
+Deno.test("allowAttributes - should keep reasons through operators", () => {
+  // Arrange
+  const docs = hierarchy({
+    read: permission({
+      rules: [
+        and([
+          allowAttributes<DocumentState, ReaderRequest>([
+            ["request.subject.department", "eq", "state.department"],
+          ]),
+        ]),
+      ],
+    }),
+  });
+
+  // Act
+  const result = validate(
+    docs,
+    [{ read: { department: "ops", classification: 0 } }],
+    "read",
+    reader,
+  );
+
+  // Assert
+  assertEquals(result.reasons.map((reason) => reason.message), [
+    'Attribute comparison failed: request.subject.department ("eng") eq state.department ("ops")',
+  ]);
+});
+
+Deno.test("allowAttributes - should turn equality comparisons into residual conditions", () => {
+  // Arrange
+  const docs = hierarchy({
+    read: permission({
+      rules: [
+        allowAttributes<DocumentState, ReaderRequest>([
+          ["request.owner", "neq", "request.from"],
+          ["state.department", "eq", { value: "eng" }],
+          ["request.owner", "in", { value: ["user:bob", "user:carol"] }],
+        ]),
+      ],
+    }),
+  });
+  const states = [{ read: state }];
+
+  // Act
+  const condition = partialEvaluate(
+    docs,
+    states,
+    "read",
+    { from: "user:alice" },
+    { unknowns: ["owner"] },
+  );
+  const fields = partialEvaluate(docs, states, "read", {}, {
+    unknowns: ["owner", "from"],
+  });
+
+  // Assert
+  const owners = or(equals("owner", "user:bob"), equals("owner", "user:carol"));
+  assertEquals(condition, {
+    type: "and",
+    conditions: [not(equals("owner", "user:alice")), owners],
+  });
+  assertEquals(fields, {
+    type: "and",
+    conditions: [not(fieldEquals("owner", "from")), owners],
+  });
+});
+
+Deno.test("allowAttributes - should refuse partial evaluation of other comparisons on unknown fields", () => {
+  // Arrange
+  const docs = hierarchy({
+    read: permission({
+      rules: [
+        allowAttributes<DocumentState, ReaderRequest>([
+          ["request.subject.clearance", "gte", "state.classification"],
+        ]),
+      ],
+    }),
+  });
+
+  // Act & Assert
+  assertThrows(
+    () =>
+      partialEvaluate(docs, [{ read: state }], "read", {}, {
+        unknowns: ["subject"],
+      }),
+    Error,
+    "Rule allowAttributes cannot be partially evaluated on request.subject.clearance gte state.classification",
+  );
+});
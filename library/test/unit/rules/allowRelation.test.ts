@@ -0,0 +1,123 @@
+/**
+ * Tests for allowRelation rule
+ *
+ * allowRelation() implements the relationship check concept:
+ * It verifies if the entity making the request (from) has a relation on the
+ * resource (target), as proven by the relationship tuples and the model.
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import {
+  computed,
+  createTupleStore,
+  direct,
+  parseTuple,
+  tupleToUserset,
+  union,
+} from "../../../core/relation.ts";
+import { or } from "../../../operators/operations.ts";
+import { allowRelation } from "../../../rules/allowRelation/allowRelation.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const model = {
+  folder: { viewer: direct() },
+  doc: {
+    parent: direct(),
+    editor: direct(),
+    viewer: union(
+      direct(),
+      computed("editor"),
+      tupleToUserset("parent", "viewer"),
+    ),
+  },
+};
+
+const store = createTupleStore([
+  parseTuple("doc:1#parent@folder:1"),
+  parseTuple("folder:1#viewer@user:alice"),
+  parseTuple("doc:1#editor@user:bob"),
+]);
+
+Deno.test('allowRelation - should return "granted" when the requester has the relation', () => {
+  // Arrange
+  const rule = allowRelation("viewer", { model, store });
+  const request = { from: "user:alice", target: "doc:1" };
+
+  // Act
+  const result = rule.check({}, request);
+
+  // Assert
+  assertEquals(result, "granted");
+});
+
+Deno.test('allowRelation - should return "neutral" when the requester lacks the relation', () => {
+  // Arrange
+  const rule = allowRelation("editor", { model, store });
+  const request = { from: "user:alice", target: "doc:1" };
+
+  // Act
+  const result = rule.check({}, request);
+
+  // Assert
+  assertEquals(result, "neutral");
+});
+
+Deno.test("allowRelation - should only use stored tuples without a model", () => {
+  // Arrange
+  const rule = allowRelation("viewer", { store });
+
+  // Act & Assert
+  assertEquals(
+    rule.check({}, { from: "user:alice", target: "folder:1" }),
+    "granted",
+  );
+  assertEquals(
+    rule.check({}, { from: "user:alice", target: "doc:1" }),
+    "neutral",
+  );
+});
+
+Deno.test("allowRelation - should follow tuples written after the rule was created", () => {
+  // Arrange
+  const store = createTupleStore();
+  const live = allowRelation("viewer", { model, store });
+  const request = { from: "user:carol", target: "doc:2" };
+
+  // Act
+  const before = live.check({}, request);
+  store.write(parseTuple("doc:2#viewer@user:carol"));
+  const after = live.check({}, request);
+
+  // Assert
+  assertEquals(before, "neutral");
+  assertEquals(after, "granted");
+});
+
+Deno.test("allowRelation - should grant permissions when composed with other rules", () => {
+  // Arrange
+  const docs = hierarchy({
+    read: permission({
+      rules: [
+        or([
+          allowRelation("viewer", { model, store }),
+          allowRelation("editor", { model, store }),
+        ]),
+      ],
+    }),
+  });
+  const states = [{ read: {} }];
+
+  // Act
+  const viewer = validate(docs, states, "read", {
+    from: "user:alice",
+    target: "doc:1",
+  });
+  const stranger = validate(docs, states, "read", {
+    from: "user:carol",
+    target: "doc:1",
+  });
+
+  // Assert
+  assertEquals(viewer.valid, true);
+  assertEquals(stranger.valid, false);
+});
@@ -162,3 +162,13 @@ Deno.test("allowTarget - should handle multiple wildcard patterns", () => {
     "neutral",
   );
 });
+
+Deno.test("allowTarget - should expose the wildcard character when enabled", () => {
+  // Act & Assert
+  assertEquals(allowTarget().wildcardChar, undefined);
+  assertEquals(allowTarget({ wildcards: true }).wildcardChar, "*");
+  assertEquals(
+    allowTarget({ wildcards: true, wildcardChar: "%" }).wildcardChar,
+    "%",
+  );
+});
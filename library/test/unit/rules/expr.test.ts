@@ -0,0 +1,144 @@
+/**
+ * Tests for expr rule
+ *
+ * expr() evaluates a condition written in the expression language against the
+ * state and the request.
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { partialEvaluate } from "../../../core/partial.ts";
+import { permission, validate } from "../../../core/permission.ts";
+import { expr } from "../../../rules/expr/expr.ts";
+import { assertEquals, assertThrows } from "jsr:@std/assert";
+
+const condition =
+  "request.amount <= state.limit && request.region in state.regions";
+
+const state = { limit: 100, regions: ["eu", "us"] };
+
+Deno.test('expr - should return "granted" when the expression is true', () => {
+  // Arrange
+  const rule = expr(condition);
+
+  // Act
+  const result = rule.check(state, { amount: 50, region: "eu" });
+
+  // Assert
+  assertEquals(result, "granted");
+});
+
+Deno.test('expr - should return "neutral" when the expression is false', () => {
+  // Arrange
+  const rule = expr(condition);
+
+  // Act
+  const result = rule.check(state, { amount: 500, region: "eu" });
+
+  // Assert
+  assertEquals(result, "neutral");
+});
+
+Deno.test('expr - should return "rejected" with a reason when configured', () => {
+  // Arrange
+  const rule = expr(condition, { otherwise: "rejected" });
+
+  // Act
+  const result = rule.check(state, { amount: 50, region: "asia" });
+
+  // Assert
+  assertEquals(result, {
+    result: "rejected",
+    reasons: [`Expression not satisfied: ${condition}`],
+  });
+});
+
+Deno.test("expr - should throw on syntax errors when created", () => {
+  // Act & Assert
+  assertThrows(
+    () => expr("request.amount <="),
+    Error,
+    'Invalid expression "request.amount <=": Unexpected end of expression at 1:18',
+  );
+});
+
+Deno.test("expr - should reject requests when the expression cannot be evaluated", () => {
+  // Arrange
+  const approvals = hierarchy({
+    approve: permission({ rules: [expr("request.amount")] }),
+  });
+  const typed = hierarchy({
+    approve: permission({ rules: [expr(condition)] }),
+  });
+
+  // Act
+  const notBoolean = validate(approvals, [{ approve: {} }], "approve", {
+    amount: 5,
+  });
+  const mistyped = validate(typed, [{ approve: state }], "approve", {
+    amount: "5",
+    region: "eu",
+  });
+
+  // Assert
+  assertEquals(notBoolean.valid, false);
+  assertEquals(
+    notBoolean.reasons[0].message,
+    'Expression "request.amount" evaluated to number, expected a boolean',
+  );
+  assertEquals(mistyped.valid, false);
+  assertEquals(
+    mistyped.reasons[0].message,
+    "Cannot compare string and number at 1:1",
+  );
+});
+
+Deno.test("expr - should validate permissions against each state entry", () => {
+  // Arrange
+  type Limits = { limit: number; regions: string[] };
+  type Payment = { amount: number; region: string };
+  const payments = hierarchy({
+    approve: permission({ rules: [expr<Limits, Payment>(condition)] }),
+  });
+  const states = [
+    { approve: { limit: 10, regions: ["eu"] } },
+    { approve: { limit: 1000, regions: ["us"] } },
+  ];
+
+  // Act
+  const small = validate(payments, states, "approve", {
+    amount: 5,
+    region: "eu",
+  });
+  const large = validate(payments, states, "approve", {
+    amount: 500,
+    region: "eu",
+  });
+
+  // Assert
+  assertEquals(small.valid, true);
+  assertEquals(large.valid, false);
+});
+
+Deno.test("expr - should only be partially evaluated when the fields it reads are known", () => {
+  // Arrange
+  const payments = hierarchy({
+    approve: permission({ rules: [expr(condition)] }),
+  });
+  const states = [{ approve: state }];
+
+  // Act & Assert
+  assertEquals(
+    partialEvaluate(payments, states, "approve", {
+      amount: 5,
+      region: "us",
+    }, { unknowns: ["target"] }),
+    { type: "literal", value: true },
+  );
+  assertThrows(
+    () =>
+      partialEvaluate(payments, states, "approve", { amount: 5 }, {
+        unknowns: ["region"],
+      }),
+    Error,
+    "Rule expr cannot be partially evaluated without region",
+  );
+});
@@ -0,0 +1,36 @@
+/**
+ * Tests for attributes schema
+ */
+import { attributes } from "../../../schemas/attributes/attributes.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+Deno.test("attributes schema - should validate object states and requests", () => {
+  // Arrange
+  const schema = attributes<{ department: string }, { clearance: number }>();
+
+  // Act & Assert
+  assertEquals(schema.state?.({ department: "eng" }), true);
+  assertEquals(schema.request?.({ clearance: 3 }), true);
+});
+
+Deno.test("attributes schema - should invalidate non-object states and requests", () => {
+  // Arrange
+  const schema = attributes();
+
+  // Act & Assert
+  assertEquals(schema.state?.(null), false);
+  assertEquals(schema.state?.("eng"), false);
+  assertEquals(schema.request?.(undefined), false);
+  assertEquals(schema.request?.(3), false);
+});
+
+Deno.test("attributes schema - should provide an empty default state", () => {
+  // Arrange
+  const schema = attributes();
+
+  // Act
+  const state = schema.defaultState?.();
+
+  // Assert
+  assertEquals(state, {});
+});
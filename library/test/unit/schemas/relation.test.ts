@@ -0,0 +1,51 @@
+/**
+ * Tests for relation schema
+ */
+import { relation } from "../../../schemas/relation/relation.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+Deno.test("relation schema - should validate correct request structure", () => {
+  // Arrange
+  const schema = relation();
+  const validRequest = {
+    from: "user:123",
+    target: "doc:456",
+  };
+
+  // Act
+  const result = schema.request?.(validRequest);
+
+  // Assert
+  assertEquals(result, true);
+});
+
+Deno.test("relation schema - should invalidate incorrect request structure", () => {
+  // Arrange
+  const schema = relation();
+
+  // Act & Assert - Not an object
+  assertEquals(schema.request?.(null), false);
+  assertEquals(schema.request?.("string"), false);
+
+  // Act & Assert - Missing properties
+  assertEquals(schema.request?.({ from: "user:123" }), false);
+  assertEquals(schema.request?.({ target: "doc:456" }), false);
+
+  // Act & Assert - Incorrect property types
+  assertEquals(schema.request?.({ from: 123, target: "doc:456" }), false);
+  assertEquals(
+    schema.request?.({ from: "user:123", target: ["doc:456"] }),
+    false,
+  );
+});
+
+Deno.test("relation schema - should provide an empty default state", () => {
+  // Arrange
+  const schema = relation();
+
+  // Act
+  const state = schema.defaultState?.();
+
+  // Assert
+  assertEquals(state, {});
+});
@@ -0,0 +1,31 @@
+/**
+ * Tests for the in-memory decision sink
+ */
+import { createMemorySink } from "../../../sinks/memory/memory.ts";
+import type { DecisionRecord } from "../../../types/audit.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const record = (key: string): DecisionRecord => ({
+  time: "2025-06-01T12:00:00.000Z",
+  key,
+  request: {},
+  valid: true,
+  result: "granted",
+  reasons: [],
+  durationMs: 0,
+});
+
+Deno.test("memory sink - should keep the latest records", () => {
+  // Arrange
+  const sink = createMemorySink({ limit: 2 });
+
+  // Act
+  sink.write(record("a"));
+  sink.write(record("b"));
+  sink.write(record("c"));
+
+  // Assert
+  assertEquals(sink.records.map(({ key }) => key), ["b", "c"]);
+  sink.clear();
+  assertEquals(sink.records, []);
+});
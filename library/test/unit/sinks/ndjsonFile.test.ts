@@ -0,0 +1,60 @@
+/**
+ * Tests for the NDJSON file decision sink
+ */
+import { createNdjsonFileSink } from "../../../sinks/ndjsonFile/ndjsonFile.ts";
+import type { DecisionRecord } from "../../../types/audit.ts";
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+
+const record = (key: string): DecisionRecord => ({
+  time: "2025-06-01T12:00:00.000Z",
+  key,
+  request: { from: "alice" },
+  valid: true,
+  result: "granted",
+  reasons: [],
+  durationMs: 1.5,
+});
+
+Deno.test("ndjson file sink - should append one line per record", async () => {
+  // Arrange
+  const directory = await Deno.makeTempDir();
+  const path = `${directory}/decisions.ndjson`;
+  const sink = createNdjsonFileSink(path);
+
+  try {
+    // Act
+    for (let i = 0; i < 5; i++) sink.write(record(`key.${i}`));
+    await sink.flush();
+    sink.write(record("key.5"));
+    await sink.flush();
+    const lines = (await Deno.readTextFile(path)).split("\n");
+
+    // Assert
+    assertEquals(lines.length, 7);
+    assertEquals(lines.at(-1), "");
+    assertEquals(
+      lines.slice(0, -1).map((line) => JSON.parse(line).key),
+      ["key.0", "key.1", "key.2", "key.3", "key.4", "key.5"],
+    );
+    assertEquals(JSON.parse(lines[0]), record("key.0"));
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("ndjson file sink - should report failed appends on flush", async () => {
+  // Arrange
+  const directory = await Deno.makeTempDir();
+  const sink = createNdjsonFileSink(`${directory}/missing/decisions.ndjson`);
+
+  try {
+    // Act
+    sink.write(record("key"));
+
+    // Assert
+    await assertRejects(() => sink.flush(), Deno.errors.NotFound);
+    await sink.flush();
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for the Deno KV permission store
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { storeConformance } from "../../../stores/conformance.ts";
+import { createDenoKvStore } from "../../../stores/denoKv/denoKv.ts";
+import { assertEquals } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: {
+    read: permission({ rules: [allowTarget(), ensureTime()] }),
+  },
+});
+
+const databases = new Map<object, Deno.Kv>();
+
+storeConformance("deno kv store", {
+  create: async (hierarchy) => {
+    const kv = await Deno.openKv(":memory:");
+    const store = createDenoKvStore(hierarchy, kv);
+    databases.set(store, kv);
+    return store;
+  },
+  dispose: (store) => {
+    databases.get(store)!.close();
+    databases.delete(store);
+  },
+});
+
+Deno.test("deno kv store - should key grants by subject, permission key and grant id", async () => {
+  // Arrange
+  const kv = await Deno.openKv(":memory:");
+  const store = createDenoKvStore(files, kv, { prefix: ["permissions"] });
+
+  try {
+    // Act
+    await store.grant("alice", "files.read", { target: ["a"] });
+    await store.grant("alice", "files.read", { target: ["b"] });
+    const keys = [];
+    for await (const entry of kv.list({ prefix: ["permissions", "grants"] })) {
+      keys.push(entry.key);
+    }
+
+    // Assert
+    assertEquals(keys.length, 2);
+    assertEquals(keys.map((key) => key.slice(0, 4)), [
+      ["permissions", "grants", "alice", "files.read"],
+      ["permissions", "grants", "alice", "files.read"],
+    ]);
+    assertEquals(await store.listBySubject("alice"), [
+      ["files.read", { target: ["a"] }],
+      ["files.read", { target: ["b"] }],
+    ]);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("deno kv store - should store concurrent grants of an entry once", async () => {
+  // Arrange
+  const kv = await Deno.openKv(":memory:");
+  const first = createDenoKvStore(files, kv);
+  const second = createDenoKvStore(files, kv);
+
+  try {
+    // Act
+    const results = await Promise.all([
+      first.grant("alice", "files.read", { target: ["a"] }),
+      second.grant("alice", "files.read", { target: ["a"] }),
+    ]);
+
+    // Assert
+    assertEquals(results.filter(Boolean).length, 1);
+    assertEquals((await first.listBySubject("alice")).length, 1);
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("deno kv store - should remove every key of revoked grants", async () => {
+  // Arrange
+  const kv = await Deno.openKv(":memory:");
+  const store = createDenoKvStore(files, kv);
+  await store.grant("alice", "files.read", { target: ["a"] });
+  await store.grant("alice", "files.read", { target: ["b"] });
+
+  try {
+    // Act
+    await store.revoke("alice", "files.read", { target: ["a"] });
+    await store.revoke("alice", "files.read");
+    const keys = [];
+    for await (const entry of kv.list({ prefix: [] })) keys.push(entry.key);
+
+    // Assert
+    assertEquals(keys, []);
+    assertEquals(
+      await store.grant("alice", "files.read", { target: ["a"] }),
+      true,
+    );
+  } finally {
+    kv.close();
+  }
+});
+
+Deno.test("deno kv store - should expire entries at their end date", async () => {
+  // Arrange
+  const kv = await Deno.openKv(":memory:");
+  const store = createDenoKvStore(files, kv);
+  const atomic = kv.atomic.bind(kv);
+  const expirations: (number | undefined)[] = [];
+  kv.atomic = () => {
+    const operation = atomic();
+    const set = operation.set.bind(operation);
+    operation.set = (key, value, options) => {
+      expirations.push(options?.expireIn);
+      return set(key, value, options);
+    };
+    return operation;
+  };
+
+  try {
+    // Act
+    await store.grant("alice", "files.read", { target: ["a"] });
+    await store.grant("alice", "files.read", {
+      target: ["b"],
+      dateEnd: new Date(Date.now() + 60_000),
+    });
+
+    // Assert
+    assertEquals(expirations.slice(0, 3), [undefined, undefined, undefined]);
+    assertEquals(
+      expirations.slice(3).every((expireIn) =>
+        expireIn! > 55_000 && expireIn! <= 60_000
+      ),
+      true,
+    );
+  } finally {
+    kv.close();
+  }
+});
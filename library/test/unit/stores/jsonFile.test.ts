@@ -0,0 +1,114 @@
+/**
+ * Tests for the JSON file permission store
+ */
+import { hierarchy } from "../../../core/hierarchy.ts";
+import { permission } from "../../../core/permission.ts";
+import { allowTarget } from "../../../rules/allowTarget/allowTarget.ts";
+import { ensureTime } from "../../../rules/ensureTime/ensureTime.ts";
+import { storeConformance } from "../../../stores/conformance.ts";
+import { createJsonFileStore } from "../../../stores/jsonFile/jsonFile.ts";
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+
+const files = hierarchy({
+  files: {
+    read: permission({ rules: [allowTarget(), ensureTime()] }),
+  },
+});
+
+const directories = new Map<object, string>();
+
+storeConformance("json file store", {
+  create: async (hierarchy) => {
+    const directory = await Deno.makeTempDir();
+    const store = createJsonFileStore(
+      hierarchy,
+      `${directory}/permissions.json`,
+    );
+    directories.set(store, directory);
+    return store;
+  },
+  dispose: async (store) => {
+    await Deno.remove(directories.get(store)!, { recursive: true });
+    directories.delete(store);
+  },
+});
+
+Deno.test("json file store - should persist entries across stores", async () => {
+  // Arrange
+  const directory = await Deno.makeTempDir();
+  const path = `${directory}/permissions.json`;
+  const dateEnd = new Date("2025-12-31T23:59:59Z");
+
+  try {
+    // Act
+    await createJsonFileStore(files, path).grant("alice", "files.read", {
+      target: ["a"],
+      dateEnd,
+    });
+    const entries = await createJsonFileStore(files, path)
+      .listBySubject("alice");
+
+    // Assert
+    assertEquals(entries, [["files.read", { target: ["a"], dateEnd }]]);
+    assertEquals(JSON.parse(await Deno.readTextFile(path)), {
+      subjects: {
+        alice: [["files.read", {
+          target: ["a"],
+          dateEnd: "2025-12-31T23:59:59.000Z",
+        }]],
+      },
+    });
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("json file store - should write atomically and run operations one at a time", async () => {
+  // Arrange
+  const directory = await Deno.makeTempDir();
+  const store = createJsonFileStore(files, `${directory}/permissions.json`);
+
+  try {
+    // Act
+    await Promise.all(
+      Array.from(
+        { length: 20 },
+        (_, i) => store.grant(`user:${i}`, "files.read", { target: ["a"] }),
+      ),
+    );
+    const names = [];
+    for await (const entry of Deno.readDir(directory)) names.push(entry.name);
+
+    // Assert
+    assertEquals(names, ["permissions.json"]);
+    assertEquals((await store.listByKey("files.read")).length, 20);
+  } finally {
+    await Deno.remove(directory, { recursive: true });
+  }
+});
+
+Deno.test("json file store - should report corrupted files", async () => {
+  // Arrange
+  const path = await Deno.makeTempFile({ suffix: ".json" });
+  await Deno.writeTextFile(
+    path,
+    JSON.stringify({ subjects: { alice: [["files.read", { target: 1 }]] } }),
+  );
+
+  try {
+    // Act & Assert
+    await assertRejects(
+      () => createJsonFileStore(files, path).listBySubject("alice"),
+      Error,
+      '"files.read"[0]: invalid state for schema target',
+    );
+    await Deno.writeTextFile(path, "[]");
+    await assertRejects(
+      () => createJsonFileStore(files, path).listBySubject("alice"),
+      Error,
+      `Invalid permission store file "${path}"`,
+    );
+  } finally {
+    await Deno.remove(path);
+  }
+});
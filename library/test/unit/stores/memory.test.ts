@@ -0,0 +1,7 @@
+/**
+ * Tests for the in-memory permission store
+ */
+import { storeConformance } from "../../../stores/conformance.ts";
+import { createMemoryStore } from "../../../stores/memory/memory.ts";
+
+storeConformance("memory store", { create: createMemoryStore });
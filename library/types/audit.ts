@@ -0,0 +1,129 @@
+/**
+ * Audit Type Definitions
+ *
+ * This module defines the events emitted while validating, and the decision
+ * log built on them: records of who requested what and how it was decided,
+ * written to a sink (a file, memory, a log collector...) once the request has
+ * been redacted.
+ */
+import type {
+  ValidationError,
+  ValidationResult,
+  ValidationResultType,
+} from "./common.ts";
+
+/**
+ * Emitted when a validation starts
+ */
+export type BeforeValidateEvent = {
+  /** Permission key being validated */
+  key: string;
+  /** The request, as given to the validation */
+  request: unknown;
+  /** Number of state sources */
+  sources: number;
+};
+
+/**
+ * Emitted after each rule of a state entry is evaluated
+ */
+export type RuleEvaluatedEvent = {
+  /** Permission key being validated */
+  key: string;
+  /** Key of the `satisfiedBy` chain the state entry belongs to */
+  permKey: string;
+  /** Index of the state source */
+  stateIndex: number;
+  /** Index of the state entry for its key */
+  entryIndex: number;
+  /** Name of the rule */
+  rule: string;
+  /** Result of the rule, absent when it threw */
+  result?: ValidationResultType;
+  /** Error message when the rule threw */
+  error?: string;
+  /** Time spent in the rule, in milliseconds */
+  durationMs: number;
+};
+
+/**
+ * Emitted when a validation is decided
+ */
+export type DecisionEvent = {
+  /** Permission key being validated */
+  key: string;
+  /** The request, as given to the validation */
+  request: unknown;
+  /** Names of the schemas of the keys of the `satisfiedBy` chain */
+  schemas: string[];
+  /** The validation result */
+  result: ValidationResult;
+  /** Time spent validating, in milliseconds */
+  durationMs: number;
+};
+
+/**
+ * Listeners of the events of a validation
+ *
+ * Listeners are called synchronously, in the order of the validation, and
+ * must not throw.
+ */
+export type ValidationEvents = {
+  /** Called before the state entries are evaluated */
+  beforeValidate?(event: BeforeValidateEvent): void;
+  /** Called after each rule evaluation (operands of operators excluded) */
+  ruleEvaluated?(event: RuleEvaluatedEvent): void;
+  /** Called with the result of the validation */
+  decision?(event: DecisionEvent): void;
+};
+
+/**
+ * How a request field is redacted from the decision log:
+ * - `"omit"`: the field is removed
+ * - `"mask"`: the value is replaced by `"[REDACTED]"`
+ * - a function: the value is replaced by its return value (a hash, a prefix...)
+ */
+export type Redaction = "omit" | "mask" | ((value: unknown) => unknown);
+
+/**
+ * Redactions by schema name, then by request field
+ *
+ * Fields are dot-separated paths in the request, such as `"subject.ssn"`.
+ * The redactions of a schema apply to the requests of the permissions using it.
+ */
+export type RedactionRules = {
+  [schema: string]: { [field: string]: Redaction };
+};
+
+/**
+ * A decision written to the decision log
+ */
+export type DecisionRecord = {
+  /** Time of the decision, as an ISO string */
+  time: string;
+  /** Permission key validated */
+  key: string;
+  /** The request, redacted */
+  request: unknown;
+  /** Whether the permission was granted */
+  valid: boolean;
+  /** Detailed result type */
+  result: ValidationResultType;
+  /** Reasons of the decision */
+  reasons: ValidationError[];
+  /** Time spent validating, in milliseconds */
+  durationMs: number;
+};
+
+/**
+ * Destination of decision records
+ */
+export type DecisionSink = {
+  /** Records a decision, without waiting for it to be stored */
+  write(record: DecisionRecord): void;
+  /**
+   * Resolves once every written record is stored
+   * @throws The first storage error since the last flush
+   */
+  flush?(): Promise<void>;
+};
@@ -0,0 +1,60 @@
+/**
+ * Codec Type Definitions
+ *
+ * This module defines how state sets are turned into JSON values and back.
+ * Most state fields already are JSON values; schemas declare codecs for the
+ * others, such as the `Date` fields of the time schema.
+ */
+
+/**
+ * Converts a state field to a JSON value and back
+ *
+ * @template T The type of the field
+ */
+export type FieldCodec<T> = {
+  /** Converts the field to a JSON value */
+  encode(value: T): unknown;
+  /**
+   * Converts a JSON value back to the field, accepting values already decoded
+   * @throws Error describing the expected value if the value is invalid
+   */
+  decode(value: unknown): T;
+};
+
+/**
+ * Describes invalid data found while decoding a state set
+ */
+export type StateSetIssue = {
+  /** Key, or key pattern, of the state set */
+  key: string;
+  /** Index of the entry for keys holding an array of entries */
+  entryIndex?: number;
+  /** Name of the schema rejecting the entry */
+  schema?: string;
+  /** Field of the entry holding invalid data */
+  field?: string;
+  /** Human-readable description of the issue */
+  message: string;
+};
+
+/**
+ * Outcome of the up-front validation of a state set
+ */
+export type StateSetReport = {
+  /** Whether the state set has no issue */
+  valid: boolean;
+  /** Issues found, in the order of the keys and entries */
+  issues: StateSetIssue[];
+};
+
+/**
+ * Options of the up-front validation of a state set
+ */
+export type StateSetValidationOptions = {
+  /**
+   * Whether the state set holds JSON values, as stored or received by an API:
+   * fields with a codec are then decoded before the guards run, instead of
+   * being expected as decoded values
+   */
+  encoded?: boolean;
+};
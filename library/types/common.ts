@@ -4,8 +4,10 @@
  * This module defines the core type structure for the Quick Permission system,
  * including hierarchies, permissions, and validation results.
  */
-import { Rule } from "./rule.ts";
+import { AnyRule } from "./rule.ts";
 import { Schema, SchemasRequests, SchemasStates } from "./schema.ts";
+import type { Advice, Obligation } from "./obligation.ts";
+import type { ValidationTrace } from "./trace.ts";
 
 type TODO = any; // TODO: Replace with actual type
 
@@ -52,7 +54,7 @@ export type Hierarchy = {
     | Hierarchy
     | Permission<
       Schema<any, any>[] | undefined,
-      Rule<any>[] | undefined,
+      AnyRule<any>[] | undefined,
       Hierarchy | undefined
     >
     | undefined;
@@ -69,7 +71,7 @@ export type Hierarchy = {
  */
 export type Permission<
   S extends Schema<any, any>[] | undefined,
-  R extends Rule<any>[] | undefined,
+  R extends AnyRule<any>[] | undefined,
   C extends Hierarchy | undefined,
 > = {
   type: "permission";
@@ -77,6 +79,54 @@ export type Permission<
   rules: R;
   children: C;
   defaultState?: object; // Default state for the permission
+  inherit?: boolean; // Whether grants on ancestors may satisfy this permission
+  combining?: Combining; // Algorithm combining the results of the rules
+};
+
+/**
+ * Selects the rules used to evaluate the state of ancestor keys
+ *
+ * - `"leaf"`: the rules of the requested permission
+ * - `"ancestor"`: the rules of the ancestor owning the state
+ * - `"both"`: the ancestor rules followed by the requested permission rules
+ */
+export type InheritanceMode = "leaf" | "ancestor" | "both";
+
+/**
+ * Names of the built-in combining algorithms
+ */
+export type CombiningAlgorithm =
+  | "deny-overrides"
+  | "permit-overrides"
+  | "first-applicable"
+  | "only-one-applicable"
+  | "deny-unless-permit"
+  | "permit-unless-deny";
+
+/**
+ * A custom combining algorithm, reducing results given in evaluation order
+ */
+export type Combiner = (
+  results: ValidationResultType[],
+) => ValidationResultType;
+
+/**
+ * A built-in combining algorithm name or a custom combiner
+ */
+export type Combining = CombiningAlgorithm | Combiner;
+
+/**
+ * Combining algorithms of the stages merged by `validate`
+ *
+ * Stages without an algorithm are merged with OR logic.
+ */
+export type CombiningOptions = {
+  /** Combines the state entries of one key in one state source */
+  entries?: Combining;
+  /** Combines the keys of the `satisfiedBy` chain in one state source */
+  chain?: Combining;
+  /** Combines the state sources */
+  sources?: Combining;
 };
 
 /**
@@ -86,9 +136,9 @@ export type Permission<
  * @template R Rules that may contain additional schemas
  */
 export type PermissionSchemas<S, R> = S extends Schema<any, any>[]
-  ? R extends Rule<any>[] ? [...S, ...ExtractSchemasFromRules<R>]
+  ? R extends AnyRule<any>[] ? [...S, ...ExtractSchemasFromRules<R>]
   : S
-  : R extends Rule<any>[] ? ExtractSchemasFromRules<R>
+  : R extends AnyRule<any>[] ? ExtractSchemasFromRules<R>
   : never;
 
 /**
@@ -96,11 +146,11 @@ export type PermissionSchemas<S, R> = S extends Schema<any, any>[]
  *
  * @template R Array of rules
  */
-export type ExtractSchemasFromRules<R extends Rule<any>[]> = R extends
+export type ExtractSchemasFromRules<R extends AnyRule<any>[]> = R extends
   [infer First, ...infer Rest]
-  ? First extends Rule<infer S>
+  ? First extends AnyRule<infer S>
     ? S extends Schema<any, any>[]
-      ? Rest extends Rule<any>[] ? [...S, ...ExtractSchemasFromRules<Rest>]
+      ? Rest extends AnyRule<any>[] ? [...S, ...ExtractSchemasFromRules<Rest>]
       : S
     : []
   : []
@@ -181,7 +231,7 @@ export type PermissionStates<H, K extends PermissionKey<H>> =
 export type PermissionRequests<H, K extends PermissionKey<H>> =
   PermissionElement<H, K> extends infer E
     ? E extends { value: Permission<infer S, infer R, any> }
-      ? R extends Rule<infer S>[] ? SchemasRequests<PermissionSchemas<S, R>>
+      ? R extends AnyRule<any>[] ? SchemasRequests<PermissionSchemas<S, R>>
       : never
     : never
     : never;
@@ -196,16 +246,95 @@ export type PermissionKey<P> = P extends PermissionHierarchy<infer H>
   : never;
 
 /**
- * Represents a permission state set for a hierarchy
+ * Path of the parent of a key, never for top-level keys
+ */
+type ParentPath<K extends string> = K extends `${infer Head}.${infer Rest}`
+  ? Rest extends `${string}.${string}` ? `${Head}.${ParentPath<Rest>}` : Head
+  : never;
+
+/**
+ * Paths of every ancestor of a key, never for top-level keys
+ */
+type AncestorPath<K extends string> = K extends `${infer Head}.${infer Rest}`
+  ? Head | `${Head}.${AncestorPath<Rest>}`
+  : never;
+
+/**
+ * Represents a key pattern matching several permissions of a hierarchy
  *
- * Maps permission keys to their states or arrays of states
+ * - `prefix.*` matches the keys one level below `prefix`
+ * - `prefix.**` matches the keys at any depth below `prefix`
+ * - `*` matches the top-level keys and `**` every key
+ *
+ * Only patterns matching at least one key of the hierarchy are accepted.
  *
  * @template H The permission hierarchy
  */
-export type PermissionStateSet<H> = {
-  [K in PermissionKey<H>]?: PermissionStates<H, K> | PermissionStates<H, K>[];
+export type PermissionKeyPattern<H> = PermissionKey<H> extends infer K
+  ? K extends string ?
+      | `${ParentPath<K>}.*`
+      | `${AncestorPath<K>}.**`
+      | "**"
+      | (K extends `${string}.${string}` ? never : "*")
+  : never
+  : never;
+
+/**
+ * Keys of a hierarchy matched by a key pattern
+ *
+ * @template H The permission hierarchy
+ * @template P The key pattern
+ */
+export type PatternKeys<H, P extends string> = P extends "**" ? PermissionKey<H>
+  : P extends "*" ? Exclude<PermissionKey<H>, `${string}.${string}`>
+  : P extends `${infer Prefix}.**`
+    ? Extract<PermissionKey<H>, `${Prefix}.${string}`>
+  : P extends `${infer Prefix}.*` ? Exclude<
+      Extract<PermissionKey<H>, `${Prefix}.${string}`>,
+      `${Prefix}.${string}.${string}`
+    >
+  : never;
+
+/**
+ * Effect of a state entry once its rules grant the request
+ *
+ * - `"allow"` (default): the request is "granted"
+ * - `"deny"`: the request is "rejected"
+ * - `"block"`: the request is "blocked", overriding every grant
+ */
+export type StateEffect = "allow" | "deny" | "block";
+
+/**
+ * Represents a state entry, which may carry an effect turning its grants into
+ * denials
+ *
+ * @template S The state of the permission
+ */
+export type StateEntry<S> = S & {
+  /** Effect of the entry, `"allow"` when omitted */
+  effect?: StateEffect;
 };
 
+/**
+ * Represents a permission state set for a hierarchy
+ *
+ * Maps permission keys, or key patterns, to their states or arrays of states.
+ * The state of a pattern applies to every key it matches.
+ *
+ * @template H The permission hierarchy
+ */
+export type PermissionStateSet<H> =
+  & {
+    [K in PermissionKey<H>]?:
+      | StateEntry<PermissionStates<H, K>>
+      | StateEntry<PermissionStates<H, K>>[];
+  }
+  & {
+    [P in PermissionKeyPattern<H>]?:
+      | StateEntry<PermissionStates<H, PatternKeys<H, P>>>
+      | StateEntry<PermissionStates<H, PatternKeys<H, P>>>[];
+  };
+
 /**
  * Represents a flat permission state entry using a tuple format
  * This format is easier to store in databases as it avoids nested objects
@@ -213,8 +342,8 @@ export type PermissionStateSet<H> = {
  * @template H The permission hierarchy
  */
 export type PermissionStateTuple<H> = [
-  PermissionKey<H>,
-  PermissionStates<H, PermissionKey<H>>,
+  PermissionKey<H> | PermissionKeyPattern<H>,
+  StateEntry<PermissionStates<H, PermissionKey<H>>>,
 ];
 
 /**
@@ -230,8 +359,11 @@ export type FlatPermissionStateArray<H> = PermissionStateTuple<H>[];
  */
 export type ValidationError = {
   /** The type of component that caused the error */
-  type: "schema" | "rule";
-  /** The name of the rule or schema */
+  type: "schema" | "rule" | "obligation" | "state";
+  /**
+   * The name of the rule or schema, the identifier of the obligation, or the
+   * permission key of a denying state entry
+   */
   name: string;
   /** Human-readable error message */
   message: string;
@@ -249,4 +381,13 @@ export type ValidationResult = {
   reasons: ValidationError[];
   /** The detailed validation result type (for internal use) */
   resultType?: ValidationResultType;
+  /** Decision trace, only present when validating with the `explain` option */
+  trace?: ValidationTrace;
+  /**
+   * Instructions the caller must fulfil before enforcing the decision, only
+   * present when rules that contributed to the decision emitted some
+   */
+  obligations?: Obligation[];
+  /** Optional instructions from the rules that contributed to the decision */
+  advice?: Advice[];
 };
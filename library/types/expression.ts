@@ -0,0 +1,133 @@
+/**
+ * Expression Type Definitions
+ *
+ * This module defines the small expression language used to write conditions
+ * as text, such as `request.amount <= state.limit && request.region in
+ * state.regions`. Expressions are parsed into a syntax tree and compiled into
+ * functions, they are never handed to `eval`.
+ */
+
+/**
+ * Operators of binary expressions
+ */
+export type BinaryOperator =
+  | "||"
+  | "&&"
+  | "=="
+  | "!="
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "in"
+  | "+"
+  | "-"
+  | "*"
+  | "/"
+  | "%";
+
+/**
+ * A node of the syntax tree of an expression
+ *
+ * Every node records the offset in the source where it starts.
+ */
+export type ExpressionNode =
+  | {
+    /** A string, number, boolean or null literal */
+    type: "literal";
+    value: string | number | boolean | null;
+    position: number;
+  }
+  | {
+    /** The request or the state */
+    type: "variable";
+    name: "request" | "state";
+    position: number;
+  }
+  | {
+    /** Access to a property (`a.b`) or an element (`a[0]`) */
+    type: "member";
+    object: ExpressionNode;
+    property: ExpressionNode;
+    position: number;
+  }
+  | {
+    /** Call of a built-in function */
+    type: "call";
+    name: string;
+    args: ExpressionNode[];
+    position: number;
+  }
+  | {
+    /** An array literal */
+    type: "array";
+    elements: ExpressionNode[];
+    position: number;
+  }
+  | {
+    /** Negation (`!`) or arithmetic negation (`-`) */
+    type: "unary";
+    operator: "!" | "-";
+    operand: ExpressionNode;
+    position: number;
+  }
+  | {
+    /** Boolean logic, comparison, membership or arithmetic */
+    type: "binary";
+    operator: BinaryOperator;
+    left: ExpressionNode;
+    right: ExpressionNode;
+    position: number;
+  };
+
+/**
+ * Values an expression is evaluated against
+ */
+export type ExpressionScope = {
+  /** The request, available as `request` */
+  request: unknown;
+  /** The state, available as `state` */
+  state: unknown;
+  /** Current date returned by `now()`, the actual date by default */
+  now?: Date;
+};
+
+/**
+ * A parsed expression, compiled into a function
+ */
+export type CompiledExpression = {
+  /** Source of the expression */
+  source: string;
+  /** Syntax tree of the expression */
+  ast: ExpressionNode;
+  /** Top-level request fields the expression reads, `*` for computed accesses */
+  requestFields: string[];
+  /** Whether the expression depends on the current date (`now()`) */
+  timeDependent: boolean;
+  /**
+   * Evaluates the expression
+   * @throws Error if a value has the wrong type for an operator or a function
+   */
+  evaluate(scope: ExpressionScope): unknown;
+};
+
+/**
+ * Describes a syntax error in an expression
+ */
+export type ExpressionSyntaxError = {
+  /** Human-readable error message, ending with the line and column */
+  message: string;
+  /** Offset of the error in the source */
+  position: number;
+  /** Line of the error, starting at 1 */
+  line: number;
+  /** Column of the error, starting at 1 */
+  column: number;
+};
+
+/**
+ * Result of parsing an expression
+ */
+export type ExpressionParseResult =
+  | { valid: true; expression: CompiledExpression }
+  | { valid: false; error: ExpressionSyntaxError };
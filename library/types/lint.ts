@@ -0,0 +1,94 @@
+/**
+ * Lint Type Definitions
+ *
+ * This module defines the findings and the configuration of the hierarchy
+ * linter. Like ESLint, the linter runs a set of named lint rules, each of them
+ * reporting findings with a severity that the configuration may change or turn
+ * off.
+ */
+import type { Combining } from "./common.ts";
+import type { AnyRule } from "./rule.ts";
+import type { Schema } from "./schema.ts";
+
+/**
+ * Severity of a finding: errors are mistakes, warnings are likely ones
+ */
+export type LintSeverity = "error" | "warning";
+
+/**
+ * Setting of a lint rule: the severity of its findings, or `"off"`
+ */
+export type LintRuleSetting = LintSeverity | "off";
+
+/**
+ * Problem found in a hierarchy
+ */
+export type LintFinding = {
+  /** Name of the lint rule reporting the finding */
+  rule: string;
+  /** Severity of the finding */
+  severity: LintSeverity;
+  /** Key of the permission holding the problem */
+  key: string;
+  /**
+   * Path of the rule holding the problem in the permission, such as
+   * `rules[0].operands[1]`, absent for problems of the permission itself
+   */
+  rulePath?: string;
+  /** Human-readable description of the problem */
+  message: string;
+};
+
+/**
+ * A permission as seen by the lint rules, an entry of `flatHierarchy`
+ */
+export type LintPermission = {
+  /** Schemas of the permission, after deduplication by name */
+  schemas: Schema<any, any>[];
+  /** Rules of the permission */
+  rules: AnyRule<any>[];
+  /** Whether grants on ancestors satisfy the permission */
+  inherit: boolean;
+  /** Algorithm combining the results of the rules, if any */
+  combining?: Combining;
+};
+
+/**
+ * What a lint rule receives for each permission of the hierarchy
+ */
+export type LintContext = {
+  /** Key of the permission */
+  key: string;
+  /** The permission */
+  permission: LintPermission;
+  /** Every key of the hierarchy */
+  keys: string[];
+  /**
+   * Reports a finding about the permission
+   * @param message Description of the problem
+   * @param rulePath Path of the rule holding the problem, if any
+   */
+  report(message: string, rulePath?: string): void;
+};
+
+/**
+ * A lint rule, checking the permissions of a hierarchy one at a time
+ */
+export type LintRule = {
+  /** What the lint rule detects */
+  description: string;
+  /** Severity of the findings when the configuration sets none */
+  severity: LintSeverity;
+  /** Checks a permission, reporting its problems through the context */
+  check(context: LintContext): void;
+};
+
+/**
+ * Configuration of the linter
+ */
+export type LintOptions = {
+  /** Settings of the lint rules by name, the others keeping their severity */
+  rules?: Record<string, LintRuleSetting>;
+  /** Lint rules run besides the built-in ones, by name */
+  customRules?: Record<string, LintRule>;
+};
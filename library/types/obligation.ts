@@ -0,0 +1,56 @@
+/**
+ * Obligation Type Definitions
+ *
+ * This module defines the instructions that rules can attach to their results.
+ * Obligations must be fulfilled by the caller before enforcing the decision,
+ * advice can be followed or ignored. Both only reach the final decision when the
+ * result they are attached to contributed to it.
+ */
+import type { ValidationResultType } from "./common.ts";
+
+/**
+ * An instruction attached to a decision, such as "log this access" or
+ * "mask the salary field"
+ */
+export type Obligation = {
+  /** Identifier of the instruction, used to find its handler */
+  id: string;
+  /** Parameters of the instruction */
+  attributes?: Record<string, unknown>;
+};
+
+/**
+ * An optional instruction attached to a decision, the caller may ignore it
+ */
+export type Advice = Obligation;
+
+/**
+ * A rule result carrying obligations, advice and reasons
+ *
+ * Rules return it instead of a bare result to attach instructions or
+ * explanations to it.
+ */
+export type RuleDecision = {
+  /** Result of the rule */
+  result: ValidationResultType;
+  /** Instructions that must be fulfilled if the result decides the outcome */
+  obligations?: Obligation[];
+  /** Instructions that may be followed if the result decides the outcome */
+  advice?: Advice[];
+  /**
+   * Messages explaining a "rejected" or "blocked" result, reported as the
+   * errors of the rule instead of the generic message
+   */
+  reasons?: string[];
+};
+
+/**
+ * Handlers fulfilling obligations and advice, by instruction identifier
+ *
+ * A handler may return a promise. Throwing, or rejecting, means the instruction
+ * could not be fulfilled.
+ */
+export type ObligationHandlers = Record<
+  string,
+  (attributes: Record<string, unknown>) => unknown
+>;
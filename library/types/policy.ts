@@ -0,0 +1,73 @@
+/**
+ * Policy Type Definitions
+ *
+ * This module defines the JSON policy format, a serializable description of a
+ * permission hierarchy. Rules are referenced by registry name with their
+ * options, so that policies can be stored in a database, sent to another
+ * service or edited by administrators, and turned back into hierarchies with a
+ * registry of rule factories.
+ */
+import type { CombiningAlgorithm } from "./common.ts";
+import type { AnyRule } from "./rule.ts";
+import type { Schema } from "./schema.ts";
+
+/**
+ * A rule of a policy: a registered rule with its options, or an operator
+ * combining other rules
+ */
+export type RuleDefinition =
+  | {
+    /** Registry name of the rule, such as `allowTarget` */
+    rule: string;
+    /** Options handed to the rule factory, omitted for rules without options */
+    options?: unknown;
+  }
+  | {
+    /** Operator combining the rules (`not` takes exactly one rule) */
+    operator: "and" | "or" | "merge" | "not";
+    /** The combined rules */
+    rules: RuleDefinition[];
+  };
+
+/**
+ * A permission of a policy
+ */
+export type PermissionDefinition = {
+  type: "permission";
+  /** Rules of the permission */
+  rules?: RuleDefinition[];
+  /** Registry names of the schemas declared besides those of the rules */
+  schemas?: string[];
+  /** Child permissions */
+  children?: HierarchyDefinition;
+  /** Default state, besides the default state of the schemas */
+  defaultState?: object;
+  /** Set to false when grants on ancestors may not satisfy the permission */
+  inherit?: false;
+  /** Algorithm combining the results of the rules */
+  combining?: CombiningAlgorithm;
+};
+
+/**
+ * A hierarchy of a policy: permissions and groups of permissions by key
+ */
+export type HierarchyDefinition = {
+  [key: string]: PermissionDefinition | HierarchyDefinition;
+};
+
+/**
+ * Creates a rule from the options of its definition
+ *
+ * @throws Error if the options are invalid
+ */
+export type RuleFactory = (options: any) => AnyRule<any>;
+
+/**
+ * Rule factories and schemas available to policies, by registry name
+ */
+export type PolicyRegistry = {
+  /** Rule factories by registry name */
+  rules: Record<string, RuleFactory>;
+  /** Schema factories by registry name */
+  schemas: Record<string, () => Schema<any, any>>;
+};
@@ -0,0 +1,103 @@
+/**
+ * Relation Type Definitions
+ *
+ * This module defines the relationship model used for relationship-based access
+ * control, in the style of Zanzibar. A tuple `object#relation@subject` states
+ * that the subject has the relation on the object. The subject is either a
+ * concrete subject (`user:1`) or a userset (`group:eng#member`), standing for
+ * every subject having the relation on that object.
+ */
+
+/**
+ * A relationship tuple, written `object#relation@subject`
+ */
+export type RelationTuple = {
+  /** The object, such as `doc:1` */
+  object: string;
+  /** The relation, such as `viewer` */
+  relation: string;
+  /** The subject (`user:1`) or userset (`group:eng#member`) */
+  subject: string;
+};
+
+/**
+ * Defines how the subjects of a relation are computed
+ *
+ * - `this`: the subjects of the tuples stored for the relation
+ * - `computed`: the subjects of another relation of the same object
+ * - `tupleToUserset`: for each object related through `tupleset`, the subjects
+ *   of its `computed` relation (e.g. the viewers of the parent folder)
+ * - `union`, `intersection`, `exclusion`: set operations on rewrites
+ */
+export type UsersetRewrite =
+  | { type: "this" }
+  | { type: "computed"; relation: string }
+  | { type: "tupleToUserset"; tupleset: string; computed: string }
+  | { type: "union"; children: UsersetRewrite[] }
+  | { type: "intersection"; children: UsersetRewrite[] }
+  | { type: "exclusion"; base: UsersetRewrite; subtract: UsersetRewrite };
+
+/**
+ * Rewrites of the relations of each object type
+ *
+ * The object type is the part of the object before the first `:`. Relations
+ * missing from the model only hold their stored tuples.
+ */
+export type RelationModel = Record<string, Record<string, UsersetRewrite>>;
+
+/**
+ * Storage of relationship tuples
+ */
+export type TupleStore = {
+  /** Reads the tuples stored for a relation of an object */
+  read(object: string, relation: string): RelationTuple[];
+  /** Stores a tuple, doing nothing if it is already stored */
+  write(tuple: RelationTuple): void;
+  /** Removes a tuple, returning whether it was stored */
+  delete(tuple: RelationTuple): boolean;
+  /** Lists every stored tuple */
+  tuples(): RelationTuple[];
+};
+
+/**
+ * Outcome of a relation check
+ */
+export type RelationCheck = {
+  /** Whether the subject has the relation */
+  allowed: boolean;
+  /** Tuples through which the relation holds, empty when it does not */
+  path: RelationTuple[];
+};
+
+/**
+ * Subjects of a userset, as a tree following the rewrites of the model
+ */
+export type UsersetTree =
+  | {
+    /** Subjects stored for the userset, usersets among them expanded */
+    type: "this";
+    /** The expanded userset, `object#relation` */
+    userset: string;
+    /** Concrete subjects of the stored tuples */
+    subjects: string[];
+    /** Trees of the usersets among the stored subjects */
+    children: UsersetTree[];
+  }
+  | {
+    /** Subjects of any child, or of every child */
+    type: "union" | "intersection";
+    /** The expanded userset, `object#relation` */
+    userset: string;
+    /** Trees combined by the node */
+    children: UsersetTree[];
+  }
+  | {
+    /** Subjects of the base, except those of the subtracted tree */
+    type: "exclusion";
+    /** The expanded userset, `object#relation` */
+    userset: string;
+    /** Tree of the base subjects */
+    base: UsersetTree;
+    /** Tree of the excluded subjects */
+    subtract: UsersetTree;
+  };
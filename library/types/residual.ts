@@ -0,0 +1,82 @@
+/**
+ * Residual Type Definitions
+ *
+ * This module defines the conditions produced by partial evaluation. When some
+ * request fields are unknown, a decision cannot be computed, only the condition
+ * those fields must satisfy for the request to be granted. Conditions are plain
+ * data so they can be serialized, inspected or translated (SQL, predicates).
+ */
+
+/**
+ * A condition on the unknown fields of a request
+ */
+export type Condition =
+  | {
+    /** A condition known to be true or false */
+    type: "literal";
+    value: boolean;
+  }
+  | {
+    /** The field equals a value */
+    type: "equals";
+    field: string;
+    value: unknown;
+  }
+  | {
+    /** Two fields are equal */
+    type: "fieldEquals";
+    field: string;
+    other: string;
+  }
+  | {
+    /** The field matches a pattern where the wildcard stands for any text */
+    type: "like";
+    field: string;
+    pattern: string;
+    wildcard: string;
+  }
+  | {
+    /** Every condition holds */
+    type: "and";
+    conditions: Condition[];
+  }
+  | {
+    /** At least one condition holds */
+    type: "or";
+    conditions: Condition[];
+  }
+  | {
+    /** The condition does not hold */
+    type: "not";
+    condition: Condition;
+  };
+
+/**
+ * The outcome of a rule, or of a merging stage, as conditions on the unknown
+ * request fields
+ *
+ * The conditions are mutually exclusive, the outcome is "neutral" when none of
+ * them holds.
+ */
+export type ResidualDecision = {
+  /** Condition under which the outcome is "granted" */
+  granted: Condition;
+  /** Condition under which the outcome is "rejected" */
+  rejected: Condition;
+  /** Condition under which the outcome is "blocked" */
+  blocked: Condition;
+};
+
+/**
+ * Partial evaluation of a rule
+ *
+ * @param state The permission state, fully known
+ * @param request The known request fields
+ * @param unknowns Names of the unknown request fields
+ * @returns The outcome of the rule as conditions on the unknown fields
+ */
+export type PartialCheck = (
+  state: any,
+  request: Record<string, unknown>,
+  unknowns: ReadonlySet<string>,
+) => ResidualDecision;
@@ -0,0 +1,73 @@
+/**
+ * Role Type Definitions
+ *
+ * This module defines roles, named templates that expand into permission state
+ * sets. A role can take parameters ("editor of project X"), inherit the states
+ * of other roles and be assigned to subjects.
+ */
+import type { PermissionHierarchy, PermissionStateSet } from "./common.ts";
+
+/**
+ * A role applied to its parameters, ready to be expanded or assigned
+ *
+ * @template H The permission hierarchy
+ */
+export type RoleGrant<H extends PermissionHierarchy<any>> = {
+  /** The granted role */
+  role: Role<H, any>;
+  /** Parameters the role is granted with */
+  params: any;
+};
+
+/**
+ * Roles inherited by a role, either roles taking the same parameters or a
+ * function granting roles from the parameters
+ *
+ * @template H The permission hierarchy
+ * @template P Parameters of the inheriting role
+ */
+export type RoleInheritance<H extends PermissionHierarchy<any>, P> =
+  | Role<H, P>[]
+  | ((params: P) => RoleGrant<H>[]);
+
+/**
+ * Options accepted by `role`
+ *
+ * @template H The permission hierarchy
+ * @template P Parameters of the role
+ */
+export type RoleOptions<H extends PermissionHierarchy<any>, P> = {
+  /** Roles whose states are included in the states of this role */
+  inherits?: RoleInheritance<H, P>;
+};
+
+/**
+ * A named, parameterized template of permission states
+ *
+ * Calling the role with its parameters grants it.
+ *
+ * @template H The permission hierarchy
+ * @template P Parameters of the role, `void` for roles without parameters
+ */
+export type Role<H extends PermissionHierarchy<any>, P = void> =
+  & ((params: P) => RoleGrant<H>)
+  & {
+    /** Identifier of the role, used in error messages */
+    readonly name: string;
+    /** Hierarchy the states of the role belong to */
+    readonly hierarchy: H;
+    /** Produces the own states of the role, inherited roles excluded */
+    readonly states: (params: P) => PermissionStateSet<H>;
+    /** Produces the grants of the inherited roles */
+    readonly inherits: (params: P) => RoleGrant<H>[];
+  };
+
+/**
+ * Roles granted to each subject
+ *
+ * @template H The permission hierarchy
+ */
+export type RoleAssignments<H extends PermissionHierarchy<any>> = Record<
+  string,
+  RoleGrant<H>[]
+>;
@@ -6,6 +6,21 @@
  */
 import { Schema, SchemasRequests, SchemasStates } from "./schema.ts";
 import { VALIDATION_RESULT, ValidationResultType } from "../types/common.ts";
+import type { RuleDecision } from "./obligation.ts";
+import type { RuleDefinition } from "./policy.ts";
+import type { PartialCheck } from "./residual.ts";
+import type { RuleTrace } from "./trace.ts";
+
+/**
+ * How the result of a rule may change while its state and request stay the
+ * same, used by decision caches to bound or skip the decisions it takes part in
+ *
+ * - `"timeWindow"`: when the current date crosses the `dateStart` or `dateEnd`
+ *   of a state entry, unless the request carries its own `date`
+ * - `"volatile"`: at any time (current date in expressions, data outside the
+ *   state such as relationship tuples, randomness...)
+ */
+export type RuleVolatility = "timeWindow" | "volatile";
 
 /**
  * Represents a permission rule that validates requests against state
@@ -21,11 +36,17 @@ import { VALIDATION_RESULT, ValidationResultType } from "../types/common.ts";
  * - `BLOCKED`: Permission is denied with high priority (e.g., ban, override)
  * - `NEUTRAL`: No opinion (neutral)
  * - For backward compatibility: `true` (GRANTED), `false` (REJECTED), `undefined` (NEUTRAL)
+ * - A `RuleDecision` wrapping one of these results with obligations and advice
  *
  * @template S The array of schemas used by this rule
+ * @template R What the check function returns, narrowed to a bare
+ * ValidationResultType for rules that never return a decision
  */
 export type Rule<
   S extends Schema<any, any>[] = any,
+  R extends ValidationResultType | RuleDecision =
+    | ValidationResultType
+    | RuleDecision,
 > = {
   /** Identifier for the rule, used in error messages and debugging */
   name: string;
@@ -33,10 +54,111 @@ export type Rule<
   schemas: S;
   /**
    * Function that validates a request against state
-   * Returns a ValidationResultType or a legacy boolean/undefined value
+   * Returns a ValidationResultType, a legacy boolean/undefined value or a
+   * decision carrying obligations and advice
    */
   check: (
     state: SchemasStates<S>,
     request: SchemasRequests<S>,
-  ) => ValidationResultType;
+    context?: RuleContext,
+  ) => R;
+  /**
+   * Evaluates the rule when some request fields are unknown, producing
+   * conditions on those fields (see `partialEvaluate`)
+   */
+  partial?: PartialCheck;
+  /**
+   * Serializable description of the rule, used by `dumpHierarchy` (set by the
+   * built-in rules, the operators and `loadHierarchy`)
+   */
+  definition?: RuleDefinition;
+  /**
+   * Whether the result may change while the state and the request stay the
+   * same, omitted for rules depending on them only (see `RuleVolatility`)
+   */
+  volatility?: RuleVolatility;
+  /**
+   * Results the rule may return, omitted when any result is possible (set by
+   * the built-in rules and the operators, used by `lintHierarchy`)
+   */
+  outcomes?: ValidationResultType[];
+  /** Rules combined by an operator, in evaluation order (set by the operators) */
+  operands?: AnyRule<any>[];
+};
+
+/**
+ * Context handed to rules and asynchronous schema guards
+ */
+export type RuleContext = {
+  /**
+   * Signal aborted once the outcome of the validation is decided (or when the
+   * caller cancels it). Long running lookups should stop when it fires.
+   */
+  signal?: AbortSignal;
+  /** Collects the traces of evaluated rules when validating in explain mode */
+  trace?: RuleTrace[];
 };
+
+/**
+ * Represents a permission rule whose check may be asynchronous
+ *
+ * Asynchronous rules can perform lookups (database, cache, remote service)
+ * before deciding. They can only be evaluated by `validateAsync`, the
+ * synchronous `validate` rejects any permission relying on them.
+ *
+ * @template S The array of schemas used by this rule
+ */
+export type AsyncRule<
+  S extends Schema<any, any>[] = any,
+> = {
+  /** Identifier for the rule, used in error messages and debugging */
+  name: string;
+  /** Schemas that define the structure of state and request */
+  schemas: S;
+  /** Marks the rule as asynchronous */
+  async: true;
+  /**
+   * Function that validates a request against state
+   * May return the ValidationResultType (or a decision) directly or a promise
+   * resolving to it
+   */
+  check: (
+    state: SchemasStates<S>,
+    request: SchemasRequests<S>,
+    context?: RuleContext,
+  ) =>
+    | ValidationResultType
+    | RuleDecision
+    | Promise<ValidationResultType | RuleDecision>;
+  /**
+   * Evaluates the rule when some request fields are unknown, producing
+   * conditions on those fields (see `partialEvaluate`)
+   */
+  partial?: PartialCheck;
+  /**
+   * Serializable description of the rule, used by `dumpHierarchy` (set by the
+   * built-in rules, the operators and `loadHierarchy`)
+   */
+  definition?: RuleDefinition;
+  /**
+   * Whether the result may change while the state and the request stay the
+   * same, omitted for rules depending on them only (see `RuleVolatility`)
+   */
+  volatility?: RuleVolatility;
+  /**
+   * Results the rule may return, omitted when any result is possible (set by
+   * the built-in rules and the operators, used by `lintHierarchy`)
+   */
+  outcomes?: ValidationResultType[];
+  /** Rules combined by an operator, in evaluation order (set by the operators) */
+  operands?: AnyRule<any>[];
+};
+
+/**
+ * Any rule, synchronous or asynchronous
+ *
+ * @template S The array of schemas used by this rule
+ */
+export type AnyRule<
+  S extends Schema<any, any>[] = any,
+> = Rule<S> | AsyncRule<S>;
@@ -7,6 +7,8 @@
  * Schemas ensure that rules receive properly structured data and can perform
  * validation of state and request objects.
  */
+import type { FieldCodec } from "./codec.ts";
+import type { RuleContext } from "./rule.ts";
 
 /**
  * Represents a schema that defines and validates state and request structures
@@ -14,7 +16,9 @@
  * A schema consists of:
  * - A name for identification
  * - Optional type guards for state and request validation
+ * - Optional asynchronous guards for checks that need a lookup
  * - An optional function to generate default state
+ * - Optional codecs for state fields that are not JSON values
  *
  * @template State The type of state this schema defines
  * @template Request The type of request this schema defines
@@ -29,8 +33,23 @@ export type Schema<
   state?: (obj: unknown) => obj is State;
   /** Type guard function that validates request structure */
   request?: (obj: unknown) => obj is Request;
+  /**
+   * Asynchronous guard that validates state structure
+   * Only evaluated by `validateAsync`, `validate` rejects schemas relying on it
+   */
+  stateAsync?: (obj: unknown, context?: RuleContext) => Promise<boolean>;
+  /**
+   * Asynchronous guard that validates request structure
+   * Only evaluated by `validateAsync`, `validate` rejects schemas relying on it
+   */
+  requestAsync?: (obj: unknown, context?: RuleContext) => Promise<boolean>;
   /** Function that generates a default state when none is provided */
   defaultState?: () => State;
+  /**
+   * Codecs of the state fields that are not JSON values, by field name
+   * Used by `encodeStateSet` and `decodeStateSet`
+   */
+  codecs?: { [K in keyof State]?: FieldCodec<State[K]> };
 };
 
 /**
@@ -0,0 +1,72 @@
+/**
+ * Store Type Definitions
+ *
+ * This module defines permission stores, which keep the state entries granted
+ * to each subject (a user, a group, an API key...) and load them as the state
+ * sets `validate` expects. Adapters implement the same interface for different
+ * storages: memory, a JSON file, a database...
+ */
+import type {
+  FlatPermissionStateArray,
+  PermissionHierarchy,
+  PermissionStateSet,
+  PermissionStateTuple,
+} from "./common.ts";
+
+/**
+ * A state entry granted to a subject
+ *
+ * @template H The permission hierarchy
+ */
+export type StoredGrant<H extends PermissionHierarchy<any>> = {
+  /** Subject holding the entry */
+  subject: string;
+  /** Key, or key pattern, of the entry */
+  key: PermissionStateTuple<H>[0];
+  /** The state entry */
+  state: PermissionStateTuple<H>[1];
+};
+
+/**
+ * Stores the state entries granted to subjects
+ *
+ * Entries are compared by value: granting an entry twice stores it once. Every
+ * entry is checked against the schemas of its permission when granted, and
+ * stores return copies, never the entries they hold.
+ *
+ * @template H The permission hierarchy
+ */
+export type PermissionStore<H extends PermissionHierarchy<any>> = {
+  /**
+   * Grants a state entry to a subject
+   * @returns Whether the entry was not granted yet
+   * @throws Error if the key is unknown or the entry is invalid
+   */
+  grant(
+    subject: string,
+    key: PermissionStateTuple<H>[0],
+    state: PermissionStateTuple<H>[1],
+  ): Promise<boolean>;
+  /**
+   * Revokes a state entry of a subject, or all its entries for the key when no
+   * state is given
+   * @returns The number of revoked entries
+   */
+  revoke(
+    subject: string,
+    key: PermissionStateTuple<H>[0],
+    state?: PermissionStateTuple<H>[1],
+  ): Promise<number>;
+  /**
+   * Lists the entries of a subject, the entries of a key in the order they
+   * were granted
+   */
+  listBySubject(subject: string): Promise<FlatPermissionStateArray<H>>;
+  /** Lists the entries granted for a key, or key pattern, to any subject */
+  listByKey(key: PermissionStateTuple<H>[0]): Promise<StoredGrant<H>[]>;
+  /**
+   * Loads the state set of each subject, in the order of the subjects, ready
+   * to be given to `validate` (subjects without entries get an empty set)
+   */
+  loadStateSets(subjects: string[]): Promise<PermissionStateSet<H>[]>;
+};
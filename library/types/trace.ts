@@ -0,0 +1,97 @@
+/**
+ * Trace Type Definitions
+ *
+ * This module defines the decision trace produced by the explain mode of the
+ * validation functions. A trace mirrors the way a decision is computed: every
+ * state source, every key of the `satisfiedBy` chain, every state entry and every
+ * rule (including the operands of operators) is recorded with its raw result.
+ *
+ * Traces only contain plain data so they can be serialized with `JSON.stringify`.
+ */
+import type { ValidationError, ValidationResultType } from "./common.ts";
+
+/**
+ * Trace of a single rule evaluation
+ */
+export type RuleTrace = {
+  /** Name of the rule */
+  name: string;
+  /** Raw result returned by the rule, absent when the rule threw */
+  result?: ValidationResultType;
+  /** Error message when the rule threw */
+  error?: string;
+  /** Time spent in the rule, in milliseconds */
+  durationMs: number;
+  /** Traces of the operands, for operators such as `and`, `or`, `not` and `merge` */
+  children?: RuleTrace[];
+};
+
+/**
+ * Trace of a schema check
+ */
+export type SchemaTrace = {
+  /** Name of the schema */
+  name: string;
+  /** Whether the state and the request passed the schema guards */
+  valid: boolean;
+};
+
+/**
+ * Trace of the evaluation of one state entry
+ */
+export type EntryTrace = {
+  /** Index of the entry for its permission key */
+  entryIndex: number;
+  /** The state entry that was evaluated */
+  state: unknown;
+  /** Result of the entry */
+  result?: ValidationResultType;
+  /** Time spent evaluating the entry, in milliseconds */
+  durationMs: number;
+  /** Errors reported by the entry, including those hidden by the final decision */
+  errors: ValidationError[];
+  /** Schema checks, in evaluation order */
+  schemas: SchemaTrace[];
+  /** Rule evaluations, in evaluation order */
+  rules: RuleTrace[];
+};
+
+/**
+ * Trace of one permission key of the `satisfiedBy` chain
+ */
+export type ChainTrace = {
+  /** Permission key whose state entries were evaluated */
+  key: string;
+  /** Whether the entries come from the default states */
+  defaulted: boolean;
+  /** Merged result of the entries */
+  result?: ValidationResultType;
+  /** Traces of the state entries */
+  entries: EntryTrace[];
+};
+
+/**
+ * Trace of one state source
+ */
+export type SourceTrace = {
+  /** Index of the state source in the states array */
+  stateIndex: number;
+  /** Merged result of the chain */
+  result?: ValidationResultType;
+  /** Traces of the chain keys, from the root to the requested key */
+  chain: ChainTrace[];
+};
+
+/**
+ * Full trace of a validation
+ */
+export type ValidationTrace = {
+  /** The permission key that was validated */
+  key: string;
+  /** Final merged result */
+  result?: ValidationResultType;
+  /** Total validation time, in milliseconds */
+  durationMs: number;
+  /** Traces of the state sources */
+  sources: SourceTrace[];
+};